@@ -1,4 +1,4 @@
-import { app, shell, type BrowserWindow } from "electron";
+import { app, dialog, shell, type BrowserWindow } from "electron";
 import { exists, outputFile, readFile, unlink } from "fs-extra";
 import { rename } from "node:fs/promises";
 import path from "node:path";
@@ -66,6 +66,25 @@ export class IPCService {
       }
    }
 
+   /**
+    * Lets the player pick a text file anywhere on disk. Returns `null` if the dialog is cancelled
+    */
+   public async openTextFile(
+      title: string,
+      extensions: string[],
+   ): Promise<{ name: string; content: string } | null> {
+      const result = await dialog.showOpenDialog(this._mainWindow, {
+         title,
+         properties: ["openFile"],
+         filters: [{ name: title, extensions }],
+      });
+      if (result.canceled || result.filePaths.length === 0) {
+         return null;
+      }
+      const content = await readFile(result.filePaths[0]);
+      return { name: path.basename(result.filePaths[0]), content: content.toString("utf-8") };
+   }
+
    public openUrl(url: string): void {
       shell.openExternal(url);
    }
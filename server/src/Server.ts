@@ -0,0 +1,852 @@
+import { decode, encode } from "@msgpack/msgpack";
+import { createServer, type IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import type { Building } from "../../shared/definitions/BuildingDefinitions";
+import type { Material } from "../../shared/definitions/MaterialDefinitions";
+import _WorldMap from "../../shared/definitions/WorldMap.json";
+import { Config } from "../../shared/logic/Config";
+import { MAX_TARIFF_RATE } from "../../shared/logic/Constants";
+import type { GameOptionServer } from "../../shared/logic/GameState";
+import type { IHeartbeatData } from "../../shared/logic/GameStateLogic";
+import {
+   getBuyAmountRange,
+   getMaxActiveTrades,
+   getTileFromAccountRank,
+   getTotalSeaTileCost,
+   getUserTradePriceRange,
+   getWeekId,
+   isTileReserved,
+   isTradePathValid,
+} from "../../shared/logic/PlayerTradeLogic";
+import { handleRpc, type JsonRpcRequest } from "../../shared/thirdparty/TRPCServer";
+import {
+   AccountLevel,
+   AccountLevelGreatPeopleLevel,
+   AccountLevelPlayTime,
+   ChatAttributes,
+   ChatChannels,
+   ChatMaxChars,
+   DB,
+   MessageType,
+   MoveTileCooldown,
+   PendingClaimFlag,
+   ServerWSErrorCode,
+   TileType,
+   UserAttributes,
+   UserColors,
+   VotedBoostType,
+   type AllMessageTypes,
+   type ChatChannel,
+   type IAddTradeRequest,
+   type IChat,
+   type IClientMapEntry,
+   type IClientTrade,
+   type IFillTradeRequest,
+   type IGetVotedBoostResponse,
+   type IMapEntry,
+   type IPendingClaim,
+   type IPlatformInfo,
+   type ITrade,
+   type IUser,
+   type IVotedBoost,
+} from "../../shared/utilities/Database";
+import { vacuumChat } from "../../shared/utilities/DatabaseShared";
+import {
+   DAY,
+   MINUTE,
+   SECOND,
+   clamp,
+   clearFlag,
+   hasFlag,
+   keysOf,
+   setFlag,
+   shuffle,
+   sizeOf,
+   uuid4,
+   xyToPoint,
+} from "../../shared/utilities/Helper";
+import { srand } from "../../shared/utilities/Random";
+import type { IServerRpc } from "../../shared/utilities/ServerRpc";
+import type { PartialTabulate } from "../../shared/utilities/TypeDefinitions";
+import { scheduleSave } from "./Storage";
+import { acceptWebSocket, type WebSocketConnection } from "./WebSocket";
+
+const WorldMap = _WorldMap as Record<string, boolean>;
+
+export interface IServerOptions {
+   port: number;
+   /** Level of users that connect for the first time */
+   newUserLevel: AccountLevel;
+   /** Makes users that connect for the first time mods, so chat commands can be tried out */
+   newUserMod: boolean;
+}
+
+interface IConnection {
+   ws: WebSocketConnection;
+   userId: string;
+}
+
+const connections = new Map<string, IConnection>();
+let serverOptions: IServerOptions;
+
+/** How long an idempotency key is remembered, a client that has been offline longer sends a new request */
+const IdempotencyKeyTTL = 7 * DAY;
+/** Keyed by user id and idempotency key, failures are remembered too */
+const idempotentResults = new Map<string, { time: number; result: Promise<unknown> }>();
+
+export function startServer(options: IServerOptions): void {
+   serverOptions = options;
+   const server = createServer((req, res) => {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end(`CivIdle local server, ${connections.size} player(s) online`);
+   });
+   server.on("upgrade", onUpgrade);
+   server.listen(options.port, () => {
+      console.log(`[Server] Listening on ws://localhost:${options.port}`);
+   });
+}
+
+function onUpgrade(req: IncomingMessage, socket: Duplex): void {
+   const ws = acceptWebSocket(req, socket);
+   if (!ws) {
+      return;
+   }
+   const query = new URL(req.url ?? "/", "http://localhost").searchParams;
+   const userId = query.get("userId");
+   if (!userId || !query.get("ticket")) {
+      ws.close(ServerWSErrorCode.BadRequest);
+      return;
+   }
+   const user = DB.users[userId] ?? createUser(userId);
+   if (hasFlag(user.attr, UserAttributes.Banned)) {
+      ws.close(ServerWSErrorCode.NotAllowed);
+      return;
+   }
+   user.ip = req.socket.remoteAddress ?? "";
+   const gameId = query.get("gameId");
+   if (gameId) {
+      user.lastGameId = gameId;
+   }
+
+   // The same player in another tab or on another device
+   connections.get(userId)?.ws.close(ServerWSErrorCode.NotAllowed);
+   const connection: IConnection = { ws, userId };
+   connections.set(userId, connection);
+   DB.connectedUsers[userId] = user.ip;
+   console.log(`[Server] ${user.handle} (${userId}) connected`);
+
+   const service = new ServerImpl(userId);
+   ws.onMessage = (data) => {
+      let request: JsonRpcRequest;
+      try {
+         request = decode(data) as JsonRpcRequest;
+      } catch (error) {
+         console.error("[Server] Malformed message from", userId, error);
+         return;
+      }
+      handleRpc<IServerRpc>(request, service).then((response) => {
+         send(connection, { type: MessageType.RPC, data: response });
+      });
+   };
+   ws.onClose = (code) => {
+      if (connections.get(userId) === connection) {
+         connections.delete(userId);
+         delete DB.connectedUsers[userId];
+      }
+      user.lastDisconnectAt = Date.now();
+      scheduleSave();
+      console.log(`[Server] ${user.handle} (${userId}) disconnected, code: ${code}`);
+   };
+
+   const now = Date.now();
+   const platformInfo: IPlatformInfo = { userId, originalUserId: userId, connectedUserId: null };
+   send(connection, {
+      type: MessageType.Welcome,
+      user,
+      offlineTime: user.lastDisconnectAt > 0 ? Math.floor((now - user.lastDisconnectAt) / SECOND) : 0,
+      lastGameTick: user.lastGameTick,
+      now,
+      platformInfo,
+   });
+   send(connection, { type: MessageType.Chat, flush: true, chat: DB.chat });
+   send(connection, { type: MessageType.Trade, upsert: Object.values(DB.trades).map(toClientTrade) });
+   send(connection, { type: MessageType.Map, upsert: getClientMap(Object.keys(DB.map)) });
+   scheduleSave();
+}
+
+function createUser(userId: string): IUser {
+   const user: IUser = {
+      userId,
+      handle: `Player${sizeOf(DB.users) + 1}`,
+      token: null,
+      lastDisconnectAt: 0,
+      lastHeartbeatAt: 0,
+      lastGameTick: 0,
+      totalPlayTime: 0,
+      color: UserColors.Default,
+      tradeValues: [],
+      level: serverOptions.newUserLevel,
+      flag: "earth",
+      ip: "",
+      attr: serverOptions.newUserMod ? UserAttributes.Mod : UserAttributes.None,
+      lastTradedAt: 0,
+   };
+   DB.users[userId] = user;
+   return user;
+}
+
+function send(connection: IConnection, message: AllMessageTypes): void {
+   connection.ws.send(encode(message));
+}
+
+function broadcast(message: AllMessageTypes): void {
+   const data = encode(message);
+   connections.forEach((connection) => connection.ws.send(data));
+}
+
+function getUser(userId: string): IUser {
+   const user = DB.users[userId];
+   if (!user) {
+      throw new Error(`Player ${userId} does not exist`);
+   }
+   return user;
+}
+
+/**
+ * Mod commands address other players by handle
+ */
+function findUser(handleOrId: string): IUser {
+   const handle = handleOrId.toLowerCase();
+   const user =
+      DB.users[handleOrId] ?? Object.values(DB.users).find((u) => u.handle.toLowerCase() === handle);
+   if (!user) {
+      throw new Error(`Player ${handleOrId} is not found`);
+   }
+   return user;
+}
+
+function requireMod(userId: string): void {
+   if (!hasFlag(getUser(userId).attr, UserAttributes.Mod)) {
+      throw new Error("This is only available to mods");
+   }
+}
+
+function toClientTrade(trade: ITrade): IClientTrade {
+   const from = getUser(trade.fromId);
+   return {
+      ...trade,
+      from: from.handle,
+      fromFlag: from.flag,
+      fromLevel: from.level,
+      fromAttr: from.attr,
+   };
+}
+
+function getClientMap(tiles: string[]): Record<string, IClientMapEntry> {
+   const result: Record<string, IClientMapEntry> = {};
+   tiles.forEach((xy) => {
+      const entry = DB.map[xy];
+      const user = DB.users[entry?.userId];
+      if (!entry || !user) {
+         return;
+      }
+      result[xy] = {
+         ...entry,
+         attr: user.attr,
+         flag: user.flag,
+         color: user.color,
+         level: user.level,
+         lastSeenAt: connections.has(user.userId) ? Date.now() : user.lastDisconnectAt,
+         handle: user.handle,
+         city: user.heartbeatData?.city,
+         techAge: user.heartbeatData?.techAge,
+      };
+   });
+   return result;
+}
+
+function getUserTiles(userId: string, type?: TileType): string[] {
+   return Object.keys(DB.map).filter(
+      (xy) => DB.map[xy].userId === userId && (type === undefined || DB.map[xy].type === type),
+   );
+}
+
+function broadcastUserTiles(userId: string): void {
+   broadcast({ type: MessageType.Map, upsert: getClientMap(getUserTiles(userId)) });
+}
+
+function assertTileAvailable(userId: string, xy: string): void {
+   if (!WorldMap[xy]) {
+      throw new Error("This tile cannot be claimed");
+   }
+   const entry = DB.map[xy];
+   if (entry && entry.userId !== userId) {
+      const clientEntry = getClientMap([xy])[xy];
+      if (!clientEntry || isTileReserved(clientEntry)) {
+         throw new Error("This tile is reserved by another player");
+      }
+   }
+}
+
+function addPendingClaim(userId: string, claim: Omit<IPendingClaim, "id">): void {
+   if (!DB.pendingClaims[userId]) {
+      DB.pendingClaims[userId] = [];
+   }
+   DB.pendingClaims[userId].push({ id: uuid4(), ...claim });
+}
+
+function getTradeBuildings(): Building[] {
+   return keysOf(Config.Building).filter(
+      (b) => Config.Building[b].special === undefined && (Config.BuildingTier[b] ?? 0) > 0,
+   );
+}
+
+function getVotedBoost(votes: Record<number, IVotedBoost>, week: number, type: VotedBoostType): IVotedBoost {
+   let boost = votes[week];
+   if (!boost) {
+      const rand = srand(`${type}:${week}`);
+      const buildings = shuffle(getTradeBuildings(), rand);
+      boost = {
+         options: [0, 1, 2].map((i) => ({ buildings: buildings.slice(i * 3, i * 3 + 3), type })),
+         voted: 0,
+         votes: {},
+      };
+      votes[week] = boost;
+   }
+   return boost;
+}
+
+function getVotedBoostResponse(
+   votes: Record<number, IVotedBoost>,
+   type: VotedBoostType,
+   userId: string,
+): IGetVotedBoostResponse {
+   const week = getWeekId();
+   const current = getVotedBoost(votes, week, type);
+   const next = getVotedBoost(votes, week + 1, type);
+   // The option with most votes wins, the first one if nobody has voted
+   const count = current.options.map(() => 0);
+   Object.values(current.votes).forEach((idx) => ++count[idx]);
+   const winner = count.indexOf(Math.max(...count));
+   return {
+      id: week,
+      current: { options: current.options, voted: winner },
+      next: { options: next.options, voted: next.votes[userId] ?? -1 },
+   };
+}
+
+function voteBoost(
+   votes: Record<number, IVotedBoost>,
+   type: VotedBoostType,
+   idx: number,
+   userId: string,
+): void {
+   const next = getVotedBoost(votes, getWeekId() + 1, type);
+   if (!Number.isInteger(idx) || !next.options[idx]) {
+      throw new Error("Invalid option");
+   }
+   next.votes[userId] = idx;
+   scheduleSave();
+}
+
+/**
+ * Runs `action` once per key, a request that is sent again gets the first answer
+ */
+function idempotent<T>(userId: string, key: string | undefined, action: () => Promise<T>): Promise<T> {
+   if (!key) {
+      return action();
+   }
+   const now = Date.now();
+   idempotentResults.forEach((value, id) => {
+      if (now - value.time > IdempotencyKeyTTL) {
+         idempotentResults.delete(id);
+      }
+   });
+   const id = `${userId}:${key}`;
+   const existing = idempotentResults.get(id);
+   if (existing) {
+      return existing.result as Promise<T>;
+   }
+   const result = action();
+   idempotentResults.set(id, { time: now, result });
+   return result;
+}
+
+/**
+ * The RPC surface the client calls, one instance per connection. Methods follow `IServerRpc`, the ones left out
+ * fail with "method not found". `handleRpc` calls any public method, so helpers live outside of this class
+ */
+export class ServerImpl implements Partial<IServerRpc> {
+   constructor(private readonly userId: string) {}
+
+   public async heartbeatV2(data: IHeartbeatData): Promise<void> {
+      const user = getUser(this.userId);
+      const now = Date.now();
+      if (user.lastHeartbeatAt > 0) {
+         // A heartbeat comes every minute, a longer gap means the game was not running
+         user.totalPlayTime += Math.min(now - user.lastHeartbeatAt, 5 * MINUTE) / SECOND;
+      }
+      const changed = user.heartbeatData?.city !== data.city || user.heartbeatData?.techAge !== data.techAge;
+      user.lastHeartbeatAt = now;
+      user.lastGameTick = data.clientTick;
+      user.lastGameId = data.gameId;
+      user.heartbeatData = data;
+      if (changed) {
+         broadcastUserTiles(this.userId);
+      }
+      scheduleSave();
+   }
+
+   public async updateGameId(gameId: string): Promise<void> {
+      getUser(this.userId).lastGameId = gameId;
+      scheduleSave();
+   }
+
+   public async getPlayTime(): Promise<number> {
+      return getUser(this.userId).totalPlayTime;
+   }
+
+   public async getOnlinePlayerCount(): Promise<number> {
+      return connections.size;
+   }
+
+   public async getTotalPlayerCount(): Promise<number> {
+      return sizeOf(DB.users);
+   }
+
+   public async queryRankUp(): Promise<AccountLevel> {
+      const user = getUser(this.userId);
+      let level = user.level;
+      const greatPeopleLevel = user.heartbeatData?.greatPeopleLevel ?? 0;
+      while (
+         level < AccountLevel.Augustus &&
+         user.totalPlayTime * SECOND >= AccountLevelPlayTime[(level + 1) as AccountLevel] &&
+         greatPeopleLevel >= AccountLevelGreatPeopleLevel[(level + 1) as AccountLevel]
+      ) {
+         ++level;
+      }
+      return level;
+   }
+
+   public async rankUp(): Promise<void> {
+      const user = getUser(this.userId);
+      const level = await this.queryRankUp();
+      if (level <= user.level) {
+         throw new Error("You are not eligible for a rank up");
+      }
+      user.level = level;
+      scheduleSave();
+   }
+
+   public async resetRank(): Promise<void> {
+      getUser(this.userId).level = AccountLevel.Tribune;
+      scheduleSave();
+   }
+
+   public async changeHandle(handle: string, flag: string): Promise<void> {
+      const user = getUser(this.userId);
+      const name = handle.trim();
+      if (name.length < 5 || name.length > 16) {
+         throw new Error("Handle should be between 5 and 16 characters");
+      }
+      const lower = name.toLowerCase();
+      if (Object.values(DB.users).some((u) => u !== user && u.handle.toLowerCase() === lower)) {
+         throw new Error("This handle is taken by another player");
+      }
+      user.handle = name;
+      user.flag = flag;
+      broadcastUserTiles(this.userId);
+      scheduleSave();
+   }
+
+   public async changeColor(color: UserColors): Promise<IUser> {
+      const user = getUser(this.userId);
+      if (!(color in UserColors)) {
+         throw new Error("Invalid color");
+      }
+      user.color = color;
+      broadcastUserTiles(this.userId);
+      scheduleSave();
+      return user;
+   }
+
+   public async saveOptionsToServer(options: GameOptionServer): Promise<void> {
+      getUser(this.userId).gameOptions = options;
+      scheduleSave();
+   }
+
+   public async getOptionsFromServer(): Promise<GameOptionServer | null> {
+      return getUser(this.userId).gameOptions ?? null;
+   }
+
+   public async chat(message: string, channel: ChatChannel): Promise<void> {
+      const user = getUser(this.userId);
+      if (!(channel in ChatChannels)) {
+         throw new Error("Invalid chat channel");
+      }
+      if (!message || message.length > ChatMaxChars[user.level]) {
+         throw new Error(`Chat message should be no more than ${ChatMaxChars[user.level]} characters`);
+      }
+      const chat: IChat = {
+         name: user.handle,
+         message,
+         time: Date.now(),
+         flag: user.flag,
+         color: user.color,
+         level: user.level,
+         attr: hasFlag(user.attr, UserAttributes.Mod) ? ChatAttributes.Mod : ChatAttributes.None,
+         channel,
+      };
+      DB.chat = vacuumChat([...DB.chat, chat]);
+      broadcast({ type: MessageType.Chat, chat: [chat] });
+      scheduleSave();
+   }
+
+   public async getBuildings(): Promise<Building[]> {
+      return getTradeBuildings();
+   }
+
+   public async addTrade(request: IAddTradeRequest, idempotencyKey?: string): Promise<void> {
+      return idempotent(this.userId, idempotencyKey, async () => {
+         const user = getUser(this.userId);
+         const { buyResource, buyAmount, sellResource, sellAmount } = request;
+         if (
+            !Config.Material[buyResource] ||
+            !Config.Material[sellResource] ||
+            buyResource === sellResource
+         ) {
+            throw new Error("Invalid resource");
+         }
+         if (!(buyAmount > 0) || !(sellAmount > 0)) {
+            throw new Error("Invalid amount");
+         }
+         if (hasFlag(user.attr, UserAttributes.SuspendTrade)) {
+            throw new Error("Trade is suspended for this player");
+         }
+         const active = Object.values(DB.trades).filter((t) => t.fromId === this.userId).length;
+         if (active >= getMaxActiveTrades(user)) {
+            throw new Error("You have reached the maximum number of active trades");
+         }
+         const range = getBuyAmountRange(request, getUserTradePriceRange(user));
+         if (buyAmount < range.min || buyAmount > range.max) {
+            throw new Error("The price is out of the allowed range");
+         }
+         const trade: ITrade = {
+            id: uuid4(),
+            buyResource,
+            buyAmount,
+            sellResource,
+            sellAmount,
+            status: "open",
+            fromId: this.userId,
+         };
+         DB.trades[trade.id] = trade;
+         broadcast({ type: MessageType.Trade, upsert: [toClientTrade(trade)] });
+         scheduleSave();
+      });
+   }
+
+   public async cancelTrade(id: string, idempotencyKey?: string): Promise<ITrade> {
+      return idempotent(this.userId, idempotencyKey, async () => {
+         const trade = DB.trades[id];
+         if (!trade || trade.fromId !== this.userId) {
+            throw new Error("Trade is not found");
+         }
+         delete DB.trades[id];
+         broadcast({ type: MessageType.Trade, remove: [id] });
+         scheduleSave();
+         return trade;
+      });
+   }
+
+   /**
+    * The player filling the trade gets the sell resource right away, less tariffs and sea tile costs. The player
+    * who made the trade, and the owners of the tiles in between, get a pending claim
+    */
+   public async fillTrade(request: IFillTradeRequest): Promise<PartialTabulate<Material>> {
+      const user = getUser(this.userId);
+      const trade = DB.trades[request.id];
+      if (!trade || trade.status !== "open") {
+         throw new Error("Trade is not found");
+      }
+      if (trade.fromId === this.userId) {
+         throw new Error("You cannot fill your own trade");
+      }
+      const amount = request.amount;
+      if (!(amount > 0) || amount > trade.buyAmount) {
+         throw new Error("Invalid amount");
+      }
+      const path = request.path;
+      const [myXy] = getUserTiles(this.userId, TileType.Owned);
+      const [theirXy] = getUserTiles(trade.fromId, TileType.Owned);
+      if (
+         !myXy ||
+         !theirXy ||
+         path[0] !== myXy ||
+         path[path.length - 1] !== theirXy ||
+         !isTradePathValid(path.map(xyToPoint))
+      ) {
+         throw new Error("Invalid trade path");
+      }
+
+      const sellAmount = (trade.sellAmount * amount) / trade.buyAmount;
+      let totalTariff = getTotalSeaTileCost(path, request.seaTileCost);
+      const claims: Record<string, number> = {};
+      path.forEach((xy, i) => {
+         const entry = DB.map[xy];
+         if (!entry || i === 0 || i === path.length - 1) {
+            return;
+         }
+         if (entry.userId === this.userId || entry.userId === trade.fromId || entry.tariffRate <= 0) {
+            return;
+         }
+         totalTariff += entry.tariffRate;
+         addPendingClaim(entry.userId, {
+            resource: trade.sellResource,
+            amount: sellAmount * entry.tariffRate,
+            fillBy: user.handle,
+            flag: PendingClaimFlag.Tariff,
+         });
+         claims[entry.userId] = DB.pendingClaims[entry.userId].length;
+      });
+      addPendingClaim(trade.fromId, {
+         resource: trade.buyResource,
+         amount,
+         fillBy: user.handle,
+         flag: PendingClaimFlag.None,
+      });
+      claims[trade.fromId] = DB.pendingClaims[trade.fromId].length;
+
+      if (amount >= trade.buyAmount) {
+         delete DB.trades[trade.id];
+         broadcast({ type: MessageType.Trade, remove: [trade.id] });
+      } else {
+         trade.sellAmount -= sellAmount;
+         trade.buyAmount -= amount;
+         broadcast({ type: MessageType.Trade, upsert: [toClientTrade(trade)] });
+      }
+      broadcast({ type: MessageType.PendingClaim, claims });
+      user.lastTradedAt = Date.now();
+      scheduleSave();
+      return { [trade.sellResource]: Math.max(0, sellAmount * (1 - totalTariff)) };
+   }
+
+   public async getPendingClaims(): Promise<IPendingClaim[]> {
+      return DB.pendingClaims[this.userId] ?? [];
+   }
+
+   /**
+    * `claims` maps pending claim id to the amount to claim, which can be less than the whole claim
+    */
+   public async claimTradesV2(
+      claims: Record<string, number>,
+      idempotencyKey?: string,
+   ): Promise<{ resources: PartialTabulate<Material> }> {
+      return idempotent(this.userId, idempotencyKey, async () => {
+         const pendingClaims = DB.pendingClaims[this.userId] ?? [];
+         const resources: PartialTabulate<Material> = {};
+         pendingClaims.forEach((claim) => {
+            const amount = clamp(claims[claim.id] ?? 0, 0, claim.amount);
+            if (amount <= 0) {
+               return;
+            }
+            claim.amount -= amount;
+            resources[claim.resource] = (resources[claim.resource] ?? 0) + amount;
+         });
+         DB.pendingClaims[this.userId] = pendingClaims.filter((claim) => claim.amount > 0);
+         scheduleSave();
+         return { resources };
+      });
+   }
+
+   /**
+    * Moves the player's trade tile. Tiles of players who have not been seen for a while can be taken over
+    */
+   public async claimTile(xy: string): Promise<void> {
+      assertTileAvailable(this.userId, xy);
+      const [oldXy] = getUserTiles(this.userId, TileType.Owned);
+      if (oldXy && Date.now() - DB.map[oldXy].createdAt < MoveTileCooldown) {
+         throw new Error("You cannot move your trade tile yet");
+      }
+      const entry: IMapEntry = {
+         userId: this.userId,
+         tariffRate: oldXy ? DB.map[oldXy].tariffRate : 0,
+         createdAt: Date.now(),
+         type: TileType.Owned,
+      };
+      const remove: string[] = [];
+      if (oldXy) {
+         delete DB.map[oldXy];
+         remove.push(oldXy);
+      }
+      DB.map[xy] = entry;
+      broadcast({ type: MessageType.Map, upsert: getClientMap([xy]), remove });
+      scheduleSave();
+   }
+
+   /**
+    * Only counts the tiles that come with the account rank, tile points are not tracked here
+    */
+   public async occupyTile(xy: string): Promise<void> {
+      const user = getUser(this.userId);
+      assertTileAvailable(this.userId, xy);
+      const tiles = getUserTiles(this.userId);
+      if (tiles.length === 0) {
+         throw new Error("You need to claim a trade tile first");
+      }
+      if (tiles.includes(xy)) {
+         throw new Error("You already own this tile");
+      }
+      if (tiles.length >= getTileFromAccountRank(user.level)) {
+         throw new Error("You cannot occupy more tiles");
+      }
+      const point = xyToPoint(xy);
+      const adjacent = tiles.some((tile) => isTradePathValid([xyToPoint(tile), point]));
+      if (!adjacent) {
+         throw new Error("You can only occupy a tile next to your own tiles");
+      }
+      DB.map[xy] = {
+         userId: this.userId,
+         tariffRate: DB.map[tiles[0]].tariffRate,
+         createdAt: Date.now(),
+         type: TileType.Occupied,
+      };
+      broadcast({ type: MessageType.Map, upsert: getClientMap([xy]) });
+      scheduleSave();
+   }
+
+   public async setTariffRate(rate: number, idempotencyKey?: string): Promise<void> {
+      return idempotent(this.userId, idempotencyKey, async () => {
+         if (!(rate >= 0 && rate <= MAX_TARIFF_RATE)) {
+            throw new Error("Invalid tariff rate");
+         }
+         const tiles = getUserTiles(this.userId);
+         tiles.forEach((xy) => {
+            DB.map[xy].tariffRate = rate;
+         });
+         broadcastUserTiles(this.userId);
+         scheduleSave();
+      });
+   }
+
+   public async getVotedBoosts(): Promise<IGetVotedBoostResponse> {
+      return getVotedBoostResponse(DB.votedBoosts, VotedBoostType.Multipliers, this.userId);
+   }
+
+   public async voteBoosts(idx: number, idempotencyKey?: string): Promise<IGetVotedBoostResponse> {
+      return idempotent(this.userId, idempotencyKey, async () => {
+         voteBoost(DB.votedBoosts, VotedBoostType.Multipliers, idx, this.userId);
+         return this.getVotedBoosts();
+      });
+   }
+
+   public async getTradeTileBonusVotes(): Promise<IGetVotedBoostResponse> {
+      return getVotedBoostResponse(DB.tradeTileBonusVotes, VotedBoostType.TradeTileBonus, this.userId);
+   }
+
+   public async voteTradeTileBonus(idx: number, idempotencyKey?: string): Promise<IGetVotedBoostResponse> {
+      return idempotent(this.userId, idempotencyKey, async () => {
+         voteBoost(DB.tradeTileBonusVotes, VotedBoostType.TradeTileBonus, idx, this.userId);
+         return this.getTradeTileBonusVotes();
+      });
+   }
+
+   // Mod commands
+
+   public async announce(channel: ChatChannel, message: string): Promise<void> {
+      requireMod(this.userId);
+      const user = getUser(this.userId);
+      const chat: IChat = {
+         name: user.handle,
+         message,
+         time: Date.now(),
+         flag: user.flag,
+         color: user.color,
+         level: user.level,
+         attr: ChatAttributes.Mod | ChatAttributes.Announce,
+         channel,
+      };
+      DB.chat = vacuumChat([...DB.chat, chat]);
+      broadcast({ type: MessageType.Chat, chat: [chat] });
+      scheduleSave();
+   }
+
+   public async getMods(): Promise<string[]> {
+      return Object.values(DB.users)
+         .filter((u) => hasFlag(u.attr, UserAttributes.Mod))
+         .map((u) => u.handle);
+   }
+
+   public async makeMod(handle: string, mod: boolean): Promise<void> {
+      requireMod(this.userId);
+      const user = findUser(handle);
+      user.attr = mod ? setFlag(user.attr, UserAttributes.Mod) : clearFlag(user.attr, UserAttributes.Mod);
+      scheduleSave();
+   }
+
+   public async getPlayerAttr(handle: string): Promise<UserAttributes> {
+      requireMod(this.userId);
+      return findUser(handle).attr;
+   }
+
+   public async setPlayerAttr(handle: string, attr: UserAttributes): Promise<UserAttributes> {
+      requireMod(this.userId);
+      const user = findUser(handle);
+      user.attr = attr;
+      scheduleSave();
+      return user.attr;
+   }
+
+   public async changePlayerLevel(handle: string, level: AccountLevel): Promise<void> {
+      requireMod(this.userId);
+      if (!(level in AccountLevel)) {
+         throw new Error("Invalid level");
+      }
+      findUser(handle).level = level;
+      scheduleSave();
+   }
+
+   public async setPlayTime(handle: string, seconds: number): Promise<void> {
+      requireMod(this.userId);
+      findUser(handle).totalPlayTime = seconds;
+      scheduleSave();
+   }
+
+   public async clearTileCooldown(): Promise<void> {
+      requireMod(this.userId);
+      const [xy] = getUserTiles(this.userId, TileType.Owned);
+      if (xy) {
+         DB.map[xy].createdAt = Date.now() - MoveTileCooldown;
+         broadcast({ type: MessageType.Map, upsert: getClientMap([xy]) });
+         scheduleSave();
+      }
+   }
+
+   public async addPendingClaim(handle: string, resource: Material, amount: number): Promise<void> {
+      requireMod(this.userId);
+      const user = findUser(handle);
+      addPendingClaim(user.userId, {
+         resource,
+         amount,
+         fillBy: getUser(this.userId).handle,
+         flag: PendingClaimFlag.None,
+      });
+      broadcast({
+         type: MessageType.PendingClaim,
+         claims: { [user.userId]: DB.pendingClaims[user.userId].length },
+      });
+      scheduleSave();
+   }
+
+   public async removeTrade(handle: string): Promise<number> {
+      requireMod(this.userId);
+      const user = findUser(handle);
+      const remove = Object.keys(DB.trades).filter((id) => DB.trades[id].fromId === user.userId);
+      remove.forEach((id) => {
+         delete DB.trades[id];
+      });
+      broadcast({ type: MessageType.Trade, remove });
+      scheduleSave();
+      return remove.length;
+   }
+}
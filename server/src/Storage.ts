@@ -0,0 +1,45 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { DB } from "../../shared/utilities/Database";
+
+const SaveDelay = 1000;
+
+let dataFile = "";
+let saveTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Fills `DB` from `file`, which is created on the first save if it does not exist yet
+ */
+export function loadDatabase(file: string): void {
+   dataFile = file;
+   if (existsSync(file)) {
+      Object.assign(DB, JSON.parse(readFileSync(file, "utf8")));
+   }
+   // Nobody is connected after a restart
+   DB.connectedUsers = {};
+}
+
+/**
+ * Saves `DB` a second after the last change, so a burst of changes is written once
+ */
+export function scheduleSave(): void {
+   if (saveTimer) {
+      return;
+   }
+   saveTimer = setTimeout(saveDatabase, SaveDelay);
+}
+
+export function saveDatabase(): void {
+   if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+   }
+   if (!dataFile) {
+      return;
+   }
+   mkdirSync(path.dirname(dataFile), { recursive: true });
+   // Write to a temporary file first, a crash while writing should not cost the whole database
+   const temp = `${dataFile}.tmp`;
+   writeFileSync(temp, JSON.stringify(DB));
+   renameSync(temp, dataFile);
+}
@@ -0,0 +1,233 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+// https://datatracker.ietf.org/doc/html/rfc6455
+const HandshakeGuid = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MaxMessageSize = 16 * 1024 * 1024;
+
+enum Opcode {
+   Continuation = 0x0,
+   Text = 0x1,
+   Binary = 0x2,
+   Close = 0x8,
+   Ping = 0x9,
+   Pong = 0xa,
+}
+
+/**
+ * Just enough of a WebSocket server for the game client: binary and text messages, ping and close. There are
+ * no extensions, so messages are never compressed
+ */
+export class WebSocketConnection {
+   public onMessage: (data: Buffer) => void = () => {};
+   public onClose: (code: number) => void = () => {};
+
+   private buffer = Buffer.alloc(0);
+   private fragments: Buffer[] = [];
+   private fragmentsSize = 0;
+   private closed = false;
+
+   constructor(private readonly socket: Duplex) {
+      socket.on("data", (data: Buffer) => this.receive(data));
+      socket.on("close", () => this.terminate(1006));
+      socket.on("error", () => this.terminate(1006));
+   }
+
+   public get isOpen(): boolean {
+      return !this.closed;
+   }
+
+   public send(data: Uint8Array): void {
+      if (!this.closed) {
+         this.socket.write(makeFrame(Opcode.Binary, data));
+      }
+   }
+
+   public close(code: number): void {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code);
+      this.end(payload, code);
+   }
+
+   /**
+    * Sends a close frame with `payload`, `code` is what `onClose` is called with
+    */
+   private end(payload: Buffer, code: number): void {
+      if (this.closed) {
+         return;
+      }
+      this.socket.end(makeFrame(Opcode.Close, payload));
+      this.terminate(code);
+   }
+
+   private terminate(code: number): void {
+      if (this.closed) {
+         return;
+      }
+      this.closed = true;
+      this.onClose(code);
+   }
+
+   private receive(data: Buffer): void {
+      this.buffer = Buffer.concat([this.buffer, data]);
+      while (!this.closed) {
+         const header = readFrameHeader(this.buffer);
+         if (!header) {
+            break;
+         }
+         // Frames from a client are always masked
+         if (!header.mask) {
+            this.close(1002);
+            break;
+         }
+         // Checked before the payload has arrived, a client cannot make the server buffer more than this. Control
+         // frames (opcodes from 0x8) can come between fragments, they are not part of the message
+         const size =
+            header.opcode >= Opcode.Close ? header.payloadLength : this.fragmentsSize + header.payloadLength;
+         if (size > MaxMessageSize) {
+            this.close(1009);
+            break;
+         }
+         if (this.buffer.length < header.length + header.payloadLength) {
+            break;
+         }
+         const payload = readPayload(this.buffer, header);
+         this.buffer = this.buffer.subarray(header.length + header.payloadLength);
+         this.handleFrame(header.fin, header.opcode, payload);
+      }
+   }
+
+   private handleFrame(fin: boolean, opcode: Opcode, payload: Buffer): void {
+      switch (opcode) {
+         case Opcode.Text:
+         case Opcode.Binary:
+         case Opcode.Continuation: {
+            this.fragments.push(payload);
+            this.fragmentsSize += payload.length;
+            if (fin) {
+               const message = Buffer.concat(this.fragments);
+               this.fragments = [];
+               this.fragmentsSize = 0;
+               this.onMessage(message);
+            }
+            break;
+         }
+         case Opcode.Ping:
+            this.socket.write(makeFrame(Opcode.Pong, payload));
+            break;
+         case Opcode.Pong:
+            break;
+         case Opcode.Close:
+            // The status code is echoed. 1005 means there was none, it must not be sent back
+            if (payload.length >= 2) {
+               this.close(payload.readUInt16BE(0));
+            } else {
+               this.end(Buffer.alloc(0), 1005);
+            }
+            break;
+         default:
+            this.close(1002);
+            break;
+      }
+   }
+}
+
+/**
+ * Answers the upgrade request of `http.Server`. Returns null, and rejects the request, if it is not a WebSocket
+ * handshake
+ */
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex): WebSocketConnection | null {
+   const key = req.headers["sec-websocket-key"];
+   if (req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return null;
+   }
+   const accept = createHash("sha1")
+      .update(key + HandshakeGuid)
+      .digest("base64");
+   socket.write(
+      [
+         "HTTP/1.1 101 Switching Protocols",
+         "Upgrade: websocket",
+         "Connection: Upgrade",
+         `Sec-WebSocket-Accept: ${accept}`,
+         "",
+         "",
+      ].join("\r\n"),
+   );
+   return new WebSocketConnection(socket);
+}
+
+interface IFrameHeader {
+   fin: boolean;
+   opcode: Opcode;
+   mask: Buffer | null;
+   payloadLength: number;
+   /** Bytes taken by the header */
+   length: number;
+}
+
+function readFrameHeader(buffer: Buffer): IFrameHeader | null {
+   if (buffer.length < 2) {
+      return null;
+   }
+   const fin = (buffer[0] & 0x80) !== 0;
+   const opcode = buffer[0] & 0x0f;
+   const masked = (buffer[1] & 0x80) !== 0;
+   let payloadLength = buffer[1] & 0x7f;
+   let offset = 2;
+   if (payloadLength === 126) {
+      if (buffer.length < offset + 2) {
+         return null;
+      }
+      payloadLength = buffer.readUInt16BE(offset);
+      offset += 2;
+   } else if (payloadLength === 127) {
+      if (buffer.length < offset + 8) {
+         return null;
+      }
+      payloadLength = Number(buffer.readBigUInt64BE(offset));
+      offset += 8;
+   }
+   let mask: Buffer | null = null;
+   if (masked) {
+      if (buffer.length < offset + 4) {
+         return null;
+      }
+      mask = buffer.subarray(offset, offset + 4);
+      offset += 4;
+   }
+   return { fin, opcode, mask, payloadLength, length: offset };
+}
+
+/**
+ * Unmasks the payload of the frame at the start of `buffer`, which has to be complete
+ */
+function readPayload(buffer: Buffer, header: IFrameHeader): Buffer {
+   const payload = Buffer.from(buffer.subarray(header.length, header.length + header.payloadLength));
+   if (header.mask) {
+      for (let i = 0; i < payload.length; i++) {
+         payload[i] ^= header.mask[i % 4];
+      }
+   }
+   return payload;
+}
+
+function makeFrame(opcode: Opcode, payload: Uint8Array): Buffer {
+   let header: Buffer;
+   if (payload.length < 126) {
+      header = Buffer.alloc(2);
+      header[1] = payload.length;
+   } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+   } else {
+      header = Buffer.alloc(10);
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+   }
+   header[0] = 0x80 | opcode;
+   return Buffer.concat([header, payload]);
+}
@@ -0,0 +1,39 @@
+import path from "node:path";
+import { calculateTierAndPrice } from "../../shared/logic/Constants";
+import type { AccountLevel } from "../../shared/utilities/Database";
+import { startServer } from "./Server";
+import { loadDatabase, saveDatabase } from "./Storage";
+
+// A local stand-in for the game server, so trades, chat and the player map work without internet. Start it with
+// `pnpm run server`, the development build connects to ws://localhost:8000 unless `?server=` says otherwise.
+//
+// --port=8000         Port to listen on
+// --data=data/db.json Where players, trades, chat and the map are kept
+// --level=0           Account level of new players, see `AccountLevel`
+// --mod               New players are mods, for chat commands
+
+function getArg(name: string): string | undefined {
+   const prefix = `--${name}=`;
+   const arg = process.argv.find((a) => a === `--${name}` || a.startsWith(prefix));
+   if (arg === undefined) {
+      return undefined;
+   }
+   return arg.startsWith(prefix) ? arg.substring(prefix.length) : "";
+}
+
+calculateTierAndPrice();
+
+const dataFile = path.resolve(getArg("data") || path.join("data", "db.json"));
+loadDatabase(dataFile);
+console.log(`[Server] Database: ${dataFile}`);
+
+startServer({
+   port: Number.parseInt(getArg("port") || "8000", 10),
+   newUserLevel: Number.parseInt(getArg("level") || "0", 10) as AccountLevel,
+   newUserMod: getArg("mod") !== undefined,
+});
+
+process.on("SIGINT", () => {
+   saveDatabase();
+   process.exit(0);
+});
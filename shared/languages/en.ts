@@ -204,6 +204,35 @@ export const EN = {
    BoostDescription: "+%{value} %{multipliers} for %{buildings}",
    Borobudur: "Borobudur",
    BorobudurDesc: "Borobudur",
+   BottleneckAllProducing: "All your buildings are producing",
+   BottleneckBuilding: "Building",
+   BottleneckCauseDesc: "%{count} idle buildings, %{value} value per tick",
+   BottleneckCount: "Count",
+   BottleneckFixAddPower: "No power: connect these buildings to a power plant",
+   BottleneckFixAddWorkers: "Not enough workers: %{workers} more needed, raise happiness or build housing",
+   BottleneckFixBuildProducers: "Not enough %{resource}: build %{count} more %{building}",
+   BottleneckFixCheckImports: "Nothing to import: set up what these warehouses import",
+   BottleneckFixMoveToDeposit: "%{building} not on a deposit: move them onto their deposit",
+   BottleneckFixNoProducer: "Not enough %{resource}, and you cannot build anything that produces it yet",
+   BottleneckFixRaiseStorage: "%{building} storage full: upgrade them or build warehouses next to them",
+   BottleneckIdleBuildings: "Idle Buildings",
+   BottleneckLocate: "Locate",
+   BottleneckLocateX: "Locate (%{index}/%{count})",
+   BottleneckLostValue: "Lost output value per tick",
+   BottleneckReason: "Reason",
+   BottleneckReasonNoActiveTransports: "No active transports",
+   BottleneckReasonNoPower: "No power",
+   BottleneckReasonNotEnoughResources: "Not enough resources",
+   BottleneckReasonNotEnoughWorkers: "Not enough workers",
+   BottleneckReasonNotOnDeposit: "Not on deposit",
+   BottleneckReasonProducing: "Producing",
+   BottleneckReasonStorageFull: "Storage full",
+   BottleneckReasonTurnedOff: "Turned off",
+   BottleneckRefresh: "Refresh",
+   BottleneckRootCauses: "Root Causes",
+   Bottlenecks: "Bottlenecks",
+   BottlenecksDesc: "Buildings that did not produce in the last tick, and why. Buildings you turned off are not included.",
+   BottleneckValue: "Value",
    BranCastle: "Bran Castle",
    BranCastleDescV2:
       "Produce X workers. X = workers produced within 3 tile range. If there are enough workers, will also employ X workers as vampires. Vampires don't produce or transport resources but are counted as busy workers. Bran Castle's level is determined by total workers and each level provides +1 Science Per Idle Worker and +2 Science Per Busy Worker. This wonder can only be constructed during Halloween (10.15 ~ 11.15)",
@@ -250,6 +279,12 @@ export const EN = {
    BuildingsTurnedOffHTML: "%{count} buildings are not producing because they are turned off, click to highlight them",
    BuildingTier: "Tier",
    BuildPyramidOfGizaHTML: "Pyramid of Giza is a wonder - you can only build one and it cannot be demolished. Constructing a wonder is a big undertaking - you should make sure your empire has a good surplus of its construction materials.",
+   BuildScriptBudget: "Build Script Budget",
+   BuildScriptBudgetDesc: "Fit the buildings placed by Dave's Scripts to the current stock and a time limit, instead of queueing every construction at once",
+   BuildScriptBudgetLevel: "Level: lower target levels",
+   BuildScriptBudgetOff: "Off, place everything at once",
+   BuildScriptBudgetStagger: "Stagger: lower construction priority for later batches",
+   BuildScriptBudgetTimeLimit: "Time Limit",
    BuildWithin0TileRange: "Build on selected tile",
    BuildWithinXTileRange: "Build on empty tiles within %{range}-tile range",
    BuySupporterPack: "Buy Supporter Pack",
@@ -614,6 +649,19 @@ export const EN = {
    FontSizeScaleDescHTML: "Change the font size scale of the game's UI. <b>Setting the scale greater than 1x might break some UI layouts</b>",
    ForbiddenCity: "Forbidden City",
    ForbiddenCityDesc: "All Paper Makers, Writer's Guilds and Printing Houses get +1 Production, Worker Capacity and Storage Multiplier",
+   Forecast: "Forecast",
+   ForecastAfford: "Afford %{building}",
+   ForecastCompareWithPlan: "Compare with plan",
+   ForecastDesc: "Runs a copy of your empire ahead at full speed. Nothing changes in your actual game.",
+   ForecastHoursAhead: "Hours ahead",
+   ForecastInXHours: "In %{hours}h",
+   ForecastNone: "None",
+   ForecastNotWithinXHours: "> %{hours}h",
+   ForecastNow: "Now",
+   ForecastPlanCannotRun: "%{plan}: this plan cannot be run",
+   ForecastRun: "Run Forecast",
+   ForecastTimeToAfford: "Time to afford",
+   ForecastWithPlan: "With %{plan}",
    Forex: "Forex",
    ForexMarket: "Forex Market",
    FrankLloydWright: "Frank Lloyd Wright",
@@ -1004,6 +1052,7 @@ export const EN = {
    NoKotiExport: "Disable Koti Export",
    NoKotiExportDesc: "Buildings won't be able to import Koti from Swiss Bank - they can still import Koti from other buildings",
    NoPowerRequired: "This building does not require power",
+   NotAvailableDuringServerReplay: "Not available while a server recording is replaying",
    NotEnoughPower: "Not Enough Power",
    NotEnoughPowerHTML: "%{count} buildings are not electrified because they do not have enough power, click to highlight them",
    NothingHere: "Nothing here",
@@ -1021,6 +1070,31 @@ export const EN = {
    OfflineProduction: "Offline Production",
    OfflineProductionTime: "Offline Production Time",
    OfflineProductionTimeDescHTML: "For the <b>first %{time} offline time</b>, you can choose either offline production or time warp - you can set the split here. The <b>rest of the offline time</b> can only be converted to time warp",
+   OfflineReportAfter: "After",
+   OfflineReportBefore: "Before",
+   OfflineReportCompleted: "Completed",
+   OfflineReportConsumed: "Consumed",
+   OfflineReportCount: "Count",
+   OfflineReportLevels: "Levels",
+   OfflineReportLocate: "Locate",
+   OfflineReportNoBuildingChanged: "No building has changed",
+   OfflineReportNoBuildingStalled: "No building has stalled",
+   OfflineReportNoGreatPeople: "No great people gained",
+   OfflineReportNone: "No offline production has been recorded yet",
+   OfflineReportNoResourceChanged: "No resource has changed",
+   OfflineReportNoTechnology: "No technology researched",
+   OfflineReportProduced: "Produced",
+   OfflineReportReason: "Reason",
+   OfflineReportResource: "Resource",
+   OfflineReports: "Offline Reports",
+   OfflineReportTabBuildings: "Buildings",
+   OfflineReportTabProgress: "Progress",
+   OfflineReportTabResources: "Resources",
+   OfflineReportTabStalled: "Stalled",
+   OfflineReportTabTiles: "Tiles",
+   OfflineReportTechnologies: "Technologies",
+   OfflineReportTicksPerSecond: "Ticks per Second",
+   OfflineReportWorking: "Working",
    Oil: "Oil",
    OilPress: "Oil Press",
    OilRefinery: "Oil Refinery",
@@ -1076,6 +1150,16 @@ export const EN = {
    Peace: "Peace",
    Peacekeeper: "Peacekeeper",
    Pele: "Pelé",
+   PendingActionDismiss: "Dismiss",
+   PendingActionQueued: "You are offline. This action will be sent when you are back online",
+   PendingActions: "Pending Actions",
+   PendingActionsDescHTML: "These actions are sent <b>in order</b> when you are back online. If the server rejects an action, what it has taken from your empire is given back. If the answer of the server cannot be read, the action is <b>unconfirmed</b>: check whether it has gone through before doing it again",
+   PendingActionSetTariffRate: "Set Tariff Rate: %{rate}",
+   PendingActionStatusPending: "Waiting",
+   PendingActionStatusRejected: "Rejected",
+   PendingActionStatusSending: "Sending",
+   PendingActionStatusUnconfirmed: "Unconfirmed",
+   PendingActionVote: "Vote",
    Penthouse: "Penthouse",
    PercentageOfProductionWorkers: "Percentage of Production Workers",
    Performance: "Performance",
@@ -1218,6 +1302,7 @@ export const EN = {
    Produced: "Produced",
    ProducedWorkers: "Produced Workers",
    ProduceResource: "Produce: %{resource}",
+   ProductionFlowMenu: "Production Flow",
    ProductionMultiplier: "Production Multiplier",
    ProductionPriority: "Production Priority",
    ProductionPriorityDescV4: "Priority determins the order that buildings transport and produce - a bigger number means a building transports and produces before other buildings",
@@ -1503,6 +1588,28 @@ export const EN = {
    StatisticsBuildingsSearchText: "Type a building name to search",
    StatisticsEmpire: "Empire",
    StatisticsExploration: "Exploration",
+   StatisticsHistory: "History",
+   StatisticsHistoryAddSeries: "Add a series...",
+   StatisticsHistoryAllRuns: "All runs",
+   StatisticsHistoryConsumed: "%{resource} Consumed",
+   StatisticsHistoryDesc: "Averages of the ticks you played, kept across rebirths. Offline production is not included.",
+   StatisticsHistoryElectrified: "Electrified Buildings",
+   StatisticsHistoryExportCsv: "Export CSV",
+   StatisticsHistoryLastDay: "Last day",
+   StatisticsHistoryLastHour: "Last hour",
+   StatisticsHistoryLastWeek: "Last week",
+   StatisticsHistoryLastXDays: "Last %{days} days",
+   StatisticsHistoryLastXHours: "Last %{hours} hours",
+   StatisticsHistoryLastXRuns: "Last %{runs} runs",
+   StatisticsHistoryNotAvailable: "Statistics history is not available",
+   StatisticsHistoryNotEnoughData: "Not enough data recorded yet, one point is added every %{ticks} ticks",
+   StatisticsHistoryNotEnoughPower: "Buildings Without Power",
+   StatisticsHistoryNotEnoughRuns: "Not enough runs recorded yet",
+   StatisticsHistoryPerHour: "Per Hour",
+   StatisticsHistoryPerMinute: "Per Minute",
+   StatisticsHistoryPerRun: "Per Run",
+   StatisticsHistoryProduced: "%{resource} Produced",
+   StatisticsHistoryRemove: "Remove",
    StatisticsOffice: "Statistics Office",
    StatisticsOfficeDesc: "Provide statistics of your empire. Generate explorers for exploring the map",
    StatisticsResources: "Resources",
@@ -1665,6 +1772,27 @@ export const EN = {
    TowerBridgeDesc: "After constructed, a great person from unlocked ages is born every 3600 cycles (1h game time)",
    TowerOfBabel: "Tower of Babel",
    TowerOfBabelDesc: "Provides +2 Production Multiplier to all buildings that have at least one working building located adjacent to the Tower of Babel",
+   TradeBot: "Trade Bot",
+   TradeBotActionCancel: "Cancelled",
+   TradeBotActionFill: "Filled",
+   TradeBotActionPost: "Posted",
+   TradeBotAddBand: "Add",
+   TradeBotBands: "Stock Bands",
+   TradeBotBandsDescHTML: "The bot keeps the amount of each material in your trade buildings between <b>Min</b> and <b>Max</b>. Materials without a band are never traded",
+   TradeBotClearLog: "Clear",
+   TradeBotDescHTML: "The trade bot trades for you while the game is running and online: it <b>fills</b> open trades that give you a material below its band for one above it, <b>posts</b> trades for what is left and <b>cancels</b> its own trades that stay open for too long",
+   TradeBotEnabled: "Enable Trade Bot",
+   TradeBotEnabledDescHTML: "Turning it off stops the bot right away. Trades it has already posted stay open",
+   TradeBotFillDiscount: "Minimum Discount To Fill",
+   TradeBotFillDiscountDescHTML: "Open trades are only filled if they are at least this much cheaper than the fair price, after tariff. A negative value allows paying more than the fair price",
+   TradeBotInterval: "Run Every",
+   TradeBotLog: "Activity",
+   TradeBotLogEmpty: "The trade bot has not done anything yet",
+   TradeBotMax: "Max",
+   TradeBotMin: "Min",
+   TradeBotPostPremium: "Price Of Posted Trades",
+   TradeBotPostPremiumDescHTML: "How much more than the fair price posted trades ask for, within the range of your account rank (±%{range})",
+   TradeBotStaleAfter: "Cancel Posted Trades After",
    TradeFillSound: "'Trade Filled' Sound",
    TradeMapStatistics: "Trade Map Statistics",
    TradeSCanBeClaimed: "Trade(s) Can Be Claimed",
@@ -0,0 +1,234 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import type { Material } from "../definitions/MaterialDefinitions";
+import { forEach, type Tile } from "../utilities/Helper";
+import { IOFlags, filterTransportable, getWorkersFor } from "./BuildingLogic";
+import { Config } from "./Config";
+import type { GameState } from "./GameState";
+import { getBuildingIO, getResourceIO, getTypeBuildings, unlockedBuildings } from "./IntraTickCache";
+import { getBuildingsThatProduce, getResourcesValue } from "./ResourceLogic";
+import { NotProducingReason, Tick } from "./TickLogic";
+
+/**
+ * What to do about a root cause:
+ * - `BuildProducers`: build `count` more `building` to cover the deficit of `resource`
+ * - `AddWorkers`: `workers` more workers are needed
+ * - `RaiseStorage`: upgrade the buildings, or build warehouses to take their output away
+ * - `AddPower`: connect the buildings to a power grid
+ * - `CheckImports`: set up what the warehouses import
+ * - `MoveToDeposit`: the buildings are not on their deposit
+ */
+export type BottleneckFix =
+   | { type: "BuildProducers"; resource: Material; building: Building | null; count: number }
+   | { type: "AddWorkers"; workers: number }
+   | { type: "RaiseStorage"; building: Building }
+   | { type: "AddPower" }
+   | { type: "CheckImports" }
+   | { type: "MoveToDeposit"; building: Building };
+
+/**
+ * Idle buildings of one type, idle for the same reason
+ */
+export interface IBottleneckGroup {
+   reason: NotProducingReason;
+   building: Building;
+   tiles: Tile[];
+   /** Output value per tick these buildings would produce if they were working */
+   lostValue: number;
+}
+
+export interface IBottleneckCause {
+   fix: BottleneckFix;
+   /** Idle buildings that are down to this cause */
+   tiles: Tile[];
+   /** Output value per tick lost to this cause */
+   lostValue: number;
+}
+
+export interface IBottleneckReport {
+   groups: IBottleneckGroup[];
+   /** Sorted by `lostValue`, the most expensive first */
+   causes: IBottleneckCause[];
+   totalLostValue: number;
+}
+
+// Not a bottleneck, the player turned these off
+const IgnoredReasons = new Set([NotProducingReason.None, NotProducingReason.TurnedOff]);
+
+/**
+ * Groups the buildings that did not produce in the last tick, then works out why. A building that is short of
+ * an input is traced upstream through the producers of that input, past producers that are short of inputs
+ * themselves, to the material nobody makes enough of. Its lost output is split evenly between the materials
+ * it is waiting for.
+ */
+export function analyzeBottlenecks(gs: GameState): IBottleneckReport {
+   const groups = new Map<string, IBottleneckGroup>();
+   const causes = new Map<string, IBottleneckCause>();
+   let totalLostValue = 0;
+
+   const addCause = (key: string, fix: () => BottleneckFix, xy: Tile, lostValue: number) => {
+      let cause = causes.get(key);
+      if (!cause) {
+         cause = { fix: fix(), tiles: [], lostValue: 0 };
+         causes.set(key, cause);
+      }
+      if (!cause.tiles.includes(xy)) {
+         cause.tiles.push(xy);
+      }
+      cause.lostValue += lostValue;
+   };
+
+   let workersNeeded = 0;
+   for (const [xy, reason] of Tick.current.notProducingReasons) {
+      const building = gs.tiles.get(xy)?.building;
+      if (!building || IgnoredReasons.has(reason)) {
+         continue;
+      }
+      const lostValue = getLostValue(xy, gs);
+      totalLostValue += lostValue;
+
+      const groupKey = `${reason}.${building.type}`;
+      let group = groups.get(groupKey);
+      if (!group) {
+         group = { reason, building: building.type, tiles: [], lostValue: 0 };
+         groups.set(groupKey, group);
+      }
+      group.tiles.push(xy);
+      group.lostValue += lostValue;
+
+      switch (reason) {
+         case NotProducingReason.NotEnoughResources: {
+            const roots = new Set<Material>();
+            getMissingInputs(xy, gs).forEach((res) => traceDeficit(res, gs, roots, new Set()));
+            roots.forEach((res) => {
+               addCause(`Deficit.${res}`, () => suggestProducers(res, gs), xy, lostValue / roots.size);
+            });
+            break;
+         }
+         case NotProducingReason.NotEnoughWorkers: {
+            workersNeeded += getWorkersFor(xy, gs).output;
+            addCause("Workers", () => ({ type: "AddWorkers", workers: 0 }), xy, lostValue);
+            break;
+         }
+         case NotProducingReason.StorageFull: {
+            addCause(
+               `Storage.${building.type}`,
+               () => ({ type: "RaiseStorage", building: building.type }),
+               xy,
+               lostValue,
+            );
+            break;
+         }
+         case NotProducingReason.NoPower: {
+            addCause("Power", () => ({ type: "AddPower" }), xy, lostValue);
+            break;
+         }
+         case NotProducingReason.NoActiveTransports: {
+            addCause("Imports", () => ({ type: "CheckImports" }), xy, lostValue);
+            break;
+         }
+         case NotProducingReason.NotOnDeposit: {
+            addCause(
+               `Deposit.${building.type}`,
+               () => ({ type: "MoveToDeposit", building: building.type }),
+               xy,
+               lostValue,
+            );
+            break;
+         }
+      }
+   }
+
+   const workers = causes.get("Workers");
+   if (workers?.fix.type === "AddWorkers") {
+      const freeWorkers = Math.max(
+         (Tick.current.workersAvailable.get("Worker") ?? 0) - (Tick.current.workersUsed.get("Worker") ?? 0),
+         0,
+      );
+      workers.fix.workers = Math.max(1, Math.ceil(workersNeeded - freeWorkers));
+   }
+
+   return {
+      groups: Array.from(groups.values()).sort((a, b) => b.lostValue - a.lostValue),
+      causes: Array.from(causes.values()).sort((a, b) => b.lostValue - a.lostValue),
+      totalLostValue,
+   };
+}
+
+function getLostValue(xy: Tile, gs: GameState): number {
+   return getResourcesValue(getBuildingIO(xy, "output", IOFlags.Multiplier | IOFlags.Capacity, gs));
+}
+
+/**
+ * Inputs of the building at `xy` it has less of in storage than a production cycle takes
+ */
+function getMissingInputs(xy: Tile, gs: GameState): Material[] {
+   const resources = gs.tiles.get(xy)?.building?.resources ?? {};
+   const result: Material[] = [];
+   forEach(
+      filterTransportable(getBuildingIO(xy, "input", IOFlags.Multiplier | IOFlags.Capacity, gs)),
+      (res, amount) => {
+         if ((resources[res] ?? 0) < amount) {
+            result.push(res);
+         }
+      },
+   );
+   return result;
+}
+
+/**
+ * Adds the materials in deficit behind `res` to `roots`. If producers of `res` are idle for lack of inputs,
+ * those inputs are the deficit, otherwise `res` itself is.
+ */
+function traceDeficit(res: Material, gs: GameState, roots: Set<Material>, visited: Set<Material>): void {
+   if (visited.has(res)) {
+      return;
+   }
+   visited.add(res);
+   const upstream = new Set<Material>();
+   const buildings = getTypeBuildings(gs);
+   for (const type of getBuildingsThatProduce(res)) {
+      buildings.get(type)?.forEach((_, xy) => {
+         if (Tick.current.notProducingReasons.get(xy) === NotProducingReason.NotEnoughResources) {
+            getMissingInputs(xy, gs).forEach((r) => upstream.add(r));
+         }
+      });
+   }
+   // Upstream materials already traced are part of a loop, the loop is down to `res`
+   const unvisited = Array.from(upstream).filter((r) => !visited.has(r));
+   if (unvisited.length === 0) {
+      roots.add(res);
+      return;
+   }
+   unvisited.forEach((r) => traceDeficit(r, gs, roots, visited));
+}
+
+/**
+ * The producer of `res` the player already has most of, or the first one unlocked, and how many more of it cover
+ * the gap between what is asked for and what is made
+ */
+function suggestProducers(res: Material, gs: GameState): BottleneckFix {
+   const { theoreticalInput, actualOutput } = getResourceIO(gs);
+   const deficit = (theoreticalInput.get(res) ?? 0) - (actualOutput.get(res) ?? 0);
+   const buildings = getTypeBuildings(gs);
+   const unlocked = unlockedBuildings(gs);
+   const candidates = getBuildingsThatProduce(res).filter((b) => unlocked[b] || buildings.has(b));
+   candidates.sort((a, b) => (buildings.get(b)?.size ?? 0) - (buildings.get(a)?.size ?? 0));
+   const building = candidates[0] ?? null;
+   if (!building) {
+      return { type: "BuildProducers", resource: res, building: null, count: 0 };
+   }
+
+   let perBuilding = 0;
+   const existing = buildings.get(building);
+   if (existing && existing.size > 0) {
+      existing.forEach((_, xy) => {
+         perBuilding += getBuildingIO(xy, "output", IOFlags.Multiplier | IOFlags.Capacity, gs)[res] ?? 0;
+      });
+      perBuilding /= existing.size;
+   }
+   if (perBuilding <= 0) {
+      perBuilding = Config.Building[building].output[res] ?? 0;
+   }
+   const count = perBuilding > 0 ? Math.max(1, Math.ceil(deficit / perBuilding)) : 1;
+   return { type: "BuildProducers", resource: res, building, count };
+}
@@ -0,0 +1,799 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import { IsDeposit, type Deposit } from "../definitions/MaterialDefinitions";
+import { isNullOrUndefined, keysOf, pointToTile, tileToPoint, type IPointData } from "../utilities/Helper";
+import { isSpecialBuilding } from "./BuildingLogic";
+import { Config } from "./Config";
+import type { GameState } from "./GameState";
+import {
+   MapRegionKinds,
+   RegionOrders,
+   type MapRegion,
+   type MapRegionKind,
+   type RegionOrder,
+} from "./MapRegion";
+import { BuildingInputMode, makeBuilding } from "./Tile";
+
+/**
+ * Version written by this client. Plans with a lower `meta.version` are migrated on load, plans with a higher
+ * one are rejected since we cannot know what the newer fields mean.
+ */
+export const BUILDING_PLAN_VERSION = 1;
+
+export const BuildingPlanModes = ["strip", "rect", "clear", "exact", "auto", "region"] as const;
+export type BuildingPlanMode = (typeof BuildingPlanModes)[number];
+
+export interface IBuildingPlanMeta {
+   name: string;
+   author?: string;
+   version: number;
+}
+
+export interface IBuildingPlanSpec {
+   type: Building;
+   count: number;
+   level?: number;
+}
+
+export interface IBuildingPlanPlaceOptions {
+   intervalMs?: number;
+   /** Level used for specs that do not set their own `level` */
+   targetLevelDefault?: number;
+   /** Place a Coal Power Plant first if any spec needs power and there is none in the target area */
+   ensureCoalForPower?: boolean;
+}
+
+export interface IBuildingPlanRect {
+   minX: number;
+   maxX: number;
+   minY: number;
+   maxY: number;
+}
+
+export interface IBuildingPlanStripTask {
+   mode: "strip";
+   specs: IBuildingPlanSpec[];
+   options: IBuildingPlanPlaceOptions & { side: "left" | "right"; width: number; startRow: number };
+}
+
+export interface IBuildingPlanRectTask {
+   mode: "rect";
+   specs: IBuildingPlanSpec[];
+   options: IBuildingPlanPlaceOptions & IBuildingPlanRect;
+}
+
+/**
+ * Like "rect", but tiles are picked by `solveAutoLayout`: consumers near their suppliers, extractors on deposits.
+ */
+export interface IBuildingPlanAutoTask {
+   mode: "auto";
+   specs: IBuildingPlanSpec[];
+   options: IBuildingPlanPlaceOptions & IBuildingPlanRect;
+}
+
+/**
+ * Fills the empty tiles of a `MapRegion` in `order`, the same way "rect" fills its rectangle in scan order.
+ */
+export interface IBuildingPlanRegionTask {
+   mode: "region";
+   specs: IBuildingPlanSpec[];
+   options: IBuildingPlanPlaceOptions & { region: MapRegion; order: RegionOrder };
+}
+
+export interface IBuildingPlanClearTask {
+   mode: "clear";
+   options: IBuildingPlanRect;
+}
+
+/**
+ * One building at `anchor + (dx, dy)`. The optional settings are only written when they differ from the
+ * defaults of a newly placed building.
+ */
+export interface IBuildingPlanExactPlacement {
+   dx: number;
+   dy: number;
+   type: Building;
+   level: number;
+   stockpileCapacity?: number;
+   stockpileMax?: number;
+   inputMode?: BuildingInputMode;
+   /** Missing means unlimited, which JSON cannot represent */
+   maxInputDistance?: number;
+   productionPriority?: number;
+   constructionPriority?: number;
+}
+
+export interface IBuildingPlanExactTask {
+   mode: "exact";
+   placements: IBuildingPlanExactPlacement[];
+   options: { intervalMs?: number; anchorX: number; anchorY: number };
+}
+
+export type IBuildingPlanTask =
+   | IBuildingPlanStripTask
+   | IBuildingPlanRectTask
+   | IBuildingPlanAutoTask
+   | IBuildingPlanRegionTask
+   | IBuildingPlanClearTask
+   | IBuildingPlanExactTask;
+
+export interface IBuildingPlan {
+   meta: IBuildingPlanMeta;
+   tasks: IBuildingPlanTask[];
+}
+
+export interface IBuildingPlanIssue {
+   /** JSON path of the offending value, e.g. `tasks[1].specs[0].name` */
+   path: string;
+   message: string;
+   severity: "error" | "warning";
+}
+
+export interface IBuildingPlanValidation {
+   /** `null` when there is at least one error */
+   plan: IBuildingPlan | null;
+   issues: IBuildingPlanIssue[];
+}
+
+export const DEFAULT_PLAN_TARGET_LEVEL = 10;
+
+const PlaceOptionKeys = ["intervalMs", "targetLevelDefault", "ensureCoalForPower"] as const;
+const RectKeys = ["minX", "maxX", "minY", "maxY"] as const;
+const StripKeys = ["side", "width", "startRow"] as const;
+const ExactSettingKeys = [
+   "stockpileCapacity",
+   "stockpileMax",
+   "inputMode",
+   "maxInputDistance",
+   "productionPriority",
+   "constructionPriority",
+] as const;
+
+/**
+ * Upgrades a plan of version `n` to version `n + 1`. Keyed by the version being upgraded from.
+ */
+const PlanMigrations: Record<number, (plan: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export function formatBuildingPlanIssue(issue: IBuildingPlanIssue): string {
+   return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Maps both the display name and its lower case form to the building key, using the current language.
+ */
+export function getBuildingDisplayMap(): Map<string, Building> {
+   const map = new Map<string, Building>();
+   keysOf(Config.Building).forEach((key) => {
+      const name = Config.Building[key].name();
+      map.set(name, key);
+      map.set(name.toLowerCase(), key);
+   });
+   return map;
+}
+
+export function resolveBuildingName(name: string, displayMap: Map<string, Building>): Building | undefined {
+   return displayMap.get(name) ?? displayMap.get(name.toLowerCase());
+}
+
+/**
+ * The inverse of running a plan: turns the buildings inside `rect` (the whole map if omitted) into a single
+ * "exact" task anchored at the top left corner of `rect`. Special buildings (headquarter, wonders) are skipped
+ * since they cannot be placed by a plan.
+ */
+export function captureBuildingPlan(
+   gs: GameState,
+   meta: { name: string; author?: string },
+   rect?: IBuildingPlanRect,
+): IBuildingPlan {
+   const defaults = makeBuilding({ type: "House" });
+   const captured: { x: number; y: number; placement: Omit<IBuildingPlanExactPlacement, "dx" | "dy"> }[] = [];
+   gs.tiles.forEach((tile, xy) => {
+      const b = tile.building;
+      if (!b || isSpecialBuilding(b.type)) {
+         return;
+      }
+      const { x, y } = tileToPoint(xy);
+      if (rect && (x < rect.minX || x > rect.maxX || y < rect.minY || y > rect.maxY)) {
+         return;
+      }
+      const placement: Omit<IBuildingPlanExactPlacement, "dx" | "dy"> = {
+         type: b.type,
+         level: Math.max(b.level, b.desiredLevel),
+      };
+      ExactSettingKeys.forEach((key) => {
+         if (b[key] !== defaults[key] && Number.isFinite(b[key])) {
+            placement[key] = b[key];
+         }
+      });
+      captured.push({ x, y, placement });
+   });
+   const anchorX = rect?.minX ?? Math.min(...captured.map((c) => c.x));
+   const anchorY = rect?.minY ?? Math.min(...captured.map((c) => c.y));
+   captured.sort((a, b) => pointToTile(a) - pointToTile(b));
+   return {
+      meta: { ...meta, version: BUILDING_PLAN_VERSION },
+      tasks: [
+         {
+            mode: "exact",
+            placements: captured.map(({ x, y, placement }) => ({
+               dx: x - anchorX,
+               dy: y - anchorY,
+               ...placement,
+            })),
+            options: {
+               anchorX: Number.isFinite(anchorX) ? anchorX : 0,
+               anchorY: Number.isFinite(anchorY) ? anchorY : 0,
+            },
+         },
+      ],
+   };
+}
+
+export function validateBuildingPlan(
+   raw: unknown,
+   displayMap: Map<string, Building> = getBuildingDisplayMap(),
+): IBuildingPlanValidation {
+   const issues: IBuildingPlanIssue[] = [];
+   const error = (path: string, message: string) => issues.push({ path, message, severity: "error" });
+   const warning = (path: string, message: string) => issues.push({ path, message, severity: "warning" });
+
+   if (!isRecord(raw)) {
+      error("", "plan must be a JSON object");
+      return { plan: null, issues };
+   }
+
+   const version = parseVersion(raw.meta, error);
+   let migrated = raw;
+   for (let v = version; v < BUILDING_PLAN_VERSION; v++) {
+      const migrate = PlanMigrations[v];
+      if (migrate) {
+         migrated = migrate(migrated);
+      }
+   }
+
+   const meta = migrated.meta;
+   let name = "Untitled Plan";
+   let author: string | undefined;
+   if (isRecord(meta)) {
+      if (typeof meta.name === "string" && meta.name.trim().length > 0) {
+         name = meta.name;
+      } else {
+         warning("meta.name", "missing plan name");
+      }
+      if (meta.author !== undefined) {
+         if (typeof meta.author === "string") {
+            author = meta.author;
+         } else {
+            warning("meta.author", "must be a string");
+         }
+      }
+      checkUnknownKeys(meta, ["name", "author", "version"], "meta", warning);
+   } else if (meta === undefined) {
+      warning("meta", "missing, plan will be unnamed");
+   } else {
+      error("meta", "must be an object");
+   }
+
+   const tasks: IBuildingPlanTask[] = [];
+   if (!Array.isArray(migrated.tasks)) {
+      error("tasks", "must be an array");
+   } else {
+      if (migrated.tasks.length === 0) {
+         warning("tasks", "plan has no tasks");
+      }
+      migrated.tasks.forEach((task, i) => {
+         const parsed = validateTask(task, `tasks[${i}]`, displayMap, error, warning);
+         if (parsed) {
+            tasks.push(parsed);
+         }
+      });
+   }
+   checkUnknownKeys(migrated, ["meta", "tasks"], "", warning);
+
+   const hasError = issues.some((issue) => issue.severity === "error");
+   return {
+      plan: hasError ? null : { meta: { name, author, version: BUILDING_PLAN_VERSION }, tasks },
+      issues,
+   };
+}
+
+/**
+ * `validateBuildingPlan` for plan text pasted or loaded by the player. `raw` is the parsed JSON, which is what
+ * the plan runner expects. Text that is not JSON at all is reported as an error instead of thrown.
+ */
+export function parseBuildingPlan(
+   json: string,
+   displayMap: Map<string, Building> = getBuildingDisplayMap(),
+): IBuildingPlanValidation & { raw: unknown } {
+   let raw: unknown;
+   try {
+      raw = JSON.parse(json);
+   } catch (error) {
+      return { raw: null, plan: null, issues: [{ path: "", message: String(error), severity: "error" }] };
+   }
+   return { raw, ...validateBuildingPlan(raw, displayMap) };
+}
+
+/**
+ * Plans are saved by name and author, so saving a plan with the same name and author replaces the old one.
+ */
+export function getBuildingPlanKey(meta: { name: string; author?: string }): string {
+   return meta.author ? `${meta.name} by ${meta.author}` : meta.name;
+}
+
+type Reporter = (path: string, message: string) => void;
+
+function validateTask(
+   task: unknown,
+   path: string,
+   displayMap: Map<string, Building>,
+   error: Reporter,
+   warning: Reporter,
+): IBuildingPlanTask | null {
+   if (!isRecord(task)) {
+      error(path, "task must be an object");
+      return null;
+   }
+   if (!BuildingPlanModes.includes(task.mode as BuildingPlanMode)) {
+      error(
+         `${path}.mode`,
+         `unknown mode ${JSON.stringify(task.mode)} (expected ${BuildingPlanModes.join(", ")})`,
+      );
+      return null;
+   }
+   const mode = task.mode as BuildingPlanMode;
+   const options = task.options === undefined ? {} : task.options;
+   if (!isRecord(options)) {
+      error(`${path}.options`, "must be an object");
+      return null;
+   }
+   checkUnknownKeys(task, ["mode", "specs", "placements", "options"], path, warning);
+
+   switch (mode) {
+      case "clear": {
+         if (Array.isArray(task.specs) && task.specs.length > 0) {
+            warning(`${path}.specs`, "specs are ignored by clear tasks");
+         }
+         checkUnknownKeys(options, RectKeys, `${path}.options`, warning);
+         const rect = validateRect(options, `${path}.options`, error);
+         return rect ? { mode, options: rect } : null;
+      }
+      case "rect":
+      case "auto": {
+         checkUnknownKeys(options, [...RectKeys, ...PlaceOptionKeys], `${path}.options`, warning);
+         const rect = validateRect(options, `${path}.options`, error);
+         const place = validatePlaceOptions(options, `${path}.options`, error);
+         const specs = validateSpecs(task.specs, `${path}.specs`, displayMap, error, warning);
+         return rect && place && specs ? { mode, specs, options: { ...place, ...rect } } : null;
+      }
+      case "exact": {
+         checkUnknownKeys(options, ["intervalMs", "anchorX", "anchorY"], `${path}.options`, warning);
+         const intervalMs = readInteger(options, "intervalMs", `${path}.options`, error, 0);
+         const anchorX = readInteger(options, "anchorX", `${path}.options`, error, 0, true);
+         const anchorY = readInteger(options, "anchorY", `${path}.options`, error, 0, true);
+         const placements = validatePlacements(
+            task.placements,
+            `${path}.placements`,
+            displayMap,
+            error,
+            warning,
+         );
+         if (intervalMs === null || isNullOrUndefined(anchorX) || isNullOrUndefined(anchorY) || !placements) {
+            return null;
+         }
+         return { mode, placements, options: { intervalMs, anchorX, anchorY } };
+      }
+      case "region": {
+         checkUnknownKeys(options, ["region", "order", ...PlaceOptionKeys], `${path}.options`, warning);
+         const region = validateRegion(options.region, `${path}.options.region`, displayMap, error, warning);
+         const order = options.order ?? "scan";
+         if (!RegionOrders.includes(order as RegionOrder)) {
+            error(
+               `${path}.options.order`,
+               `unknown order ${JSON.stringify(order)} (expected ${RegionOrders.join(", ")})`,
+            );
+         }
+         const place = validatePlaceOptions(options, `${path}.options`, error);
+         const specs = validateSpecs(task.specs, `${path}.specs`, displayMap, error, warning);
+         if (!region || !RegionOrders.includes(order as RegionOrder) || !place || !specs) {
+            return null;
+         }
+         return { mode, specs, options: { ...place, region, order: order as RegionOrder } };
+      }
+      case "strip": {
+         checkUnknownKeys(options, [...StripKeys, ...PlaceOptionKeys], `${path}.options`, warning);
+         let valid = true;
+         const side = options.side ?? "left";
+         if (side !== "left" && side !== "right") {
+            error(`${path}.options.side`, `must be "left" or "right", got ${JSON.stringify(side)}`);
+            valid = false;
+         }
+         const width = readInteger(options, "width", `${path}.options`, error, 1);
+         const startRow = readInteger(options, "startRow", `${path}.options`, error, 0);
+         const place = validatePlaceOptions(options, `${path}.options`, error);
+         const specs = validateSpecs(task.specs, `${path}.specs`, displayMap, error, warning);
+         if (!valid || width === null || startRow === null || !place || !specs) {
+            return null;
+         }
+         return {
+            mode,
+            specs,
+            options: {
+               ...place,
+               side: side as "left" | "right",
+               width: width ?? 10,
+               startRow: startRow ?? 0,
+            },
+         };
+      }
+   }
+}
+
+function validateSpecs(
+   specs: unknown,
+   path: string,
+   displayMap: Map<string, Building>,
+   error: Reporter,
+   warning: Reporter,
+): IBuildingPlanSpec[] | null {
+   if (!Array.isArray(specs)) {
+      error(path, "must be an array");
+      return null;
+   }
+   if (specs.length === 0) {
+      warning(path, "no buildings to place");
+   }
+   const result: IBuildingPlanSpec[] = [];
+   let valid = true;
+   specs.forEach((spec, i) => {
+      const specPath = `${path}[${i}]`;
+      if (!isRecord(spec)) {
+         error(specPath, "spec must be an object");
+         valid = false;
+         return;
+      }
+      checkUnknownKeys(spec, ["name", "type", "count", "level"], specPath, warning);
+      const type = readBuildingType(spec, specPath, displayMap, error);
+      const count = readInteger(spec, "count", specPath, error, 1, true);
+      const level = readInteger(spec, "level", specPath, error, 0);
+      if (!type || count === null || count === undefined || level === null) {
+         valid = false;
+         return;
+      }
+      result.push({ type, count, level });
+   });
+   return valid ? result : null;
+}
+
+function validatePlacements(
+   placements: unknown,
+   path: string,
+   displayMap: Map<string, Building>,
+   error: Reporter,
+   warning: Reporter,
+): IBuildingPlanExactPlacement[] | null {
+   if (!Array.isArray(placements)) {
+      error(path, "must be an array");
+      return null;
+   }
+   if (placements.length === 0) {
+      warning(path, "no buildings to place");
+   }
+   const result: IBuildingPlanExactPlacement[] = [];
+   const seen = new Map<string, number>();
+   let valid = true;
+   placements.forEach((placement, i) => {
+      const placementPath = `${path}[${i}]`;
+      if (!isRecord(placement)) {
+         error(placementPath, "placement must be an object");
+         valid = false;
+         return;
+      }
+      checkUnknownKeys(
+         placement,
+         ["dx", "dy", "name", "type", "level", ...ExactSettingKeys],
+         placementPath,
+         warning,
+      );
+      const type = readBuildingType(placement, placementPath, displayMap, error);
+      const dx = readInteger(placement, "dx", placementPath, error, Number.NEGATIVE_INFINITY, true);
+      const dy = readInteger(placement, "dy", placementPath, error, Number.NEGATIVE_INFINITY, true);
+      const level = readInteger(placement, "level", placementPath, error, 0);
+      const settings: Partial<Record<(typeof ExactSettingKeys)[number], number | null | undefined>> = {};
+      ExactSettingKeys.forEach((key) => {
+         settings[key] = readInteger(placement, key, placementPath, error, 0);
+      });
+      if (!isNullOrUndefined(settings.inputMode) && !(settings.inputMode in BuildingInputMode)) {
+         error(`${placementPath}.inputMode`, `unknown input mode ${settings.inputMode}`);
+         valid = false;
+      }
+      if (
+         !type ||
+         isNullOrUndefined(dx) ||
+         isNullOrUndefined(dy) ||
+         level === null ||
+         ExactSettingKeys.some((key) => settings[key] === null)
+      ) {
+         valid = false;
+         return;
+      }
+      const key = `${dx},${dy}`;
+      const previous = seen.get(key);
+      if (previous !== undefined) {
+         error(placementPath, `same tile as ${path}[${previous}]`);
+         valid = false;
+         return;
+      }
+      seen.set(key, i);
+      const entry: IBuildingPlanExactPlacement = { dx, dy, type, level: level ?? DEFAULT_PLAN_TARGET_LEVEL };
+      ExactSettingKeys.forEach((key) => {
+         const value = settings[key];
+         if (!isNullOrUndefined(value)) {
+            entry[key] = value;
+         }
+      });
+      result.push(entry);
+   });
+   return valid ? result : null;
+}
+
+function readBuildingType(
+   obj: Record<string, unknown>,
+   path: string,
+   displayMap: Map<string, Building>,
+   error: Reporter,
+): Building | undefined {
+   if (typeof obj.type === "string") {
+      if (obj.type in Config.Building) {
+         return obj.type as Building;
+      }
+      error(`${path}.type`, `unknown building type ${JSON.stringify(obj.type)}`);
+      return undefined;
+   }
+   if (typeof obj.name === "string") {
+      const type = resolveBuildingName(obj.name, displayMap);
+      if (!type) {
+         error(`${path}.name`, `unknown building ${JSON.stringify(obj.name)}`);
+      }
+      return type;
+   }
+   error(path, 'needs either "name" or "type"');
+   return undefined;
+}
+
+function validateRegion(
+   region: unknown,
+   path: string,
+   displayMap: Map<string, Building>,
+   error: Reporter,
+   warning: Reporter,
+): MapRegion | null {
+   if (!isRecord(region)) {
+      error(path, "must be an object");
+      return null;
+   }
+   const kind = region.kind as MapRegionKind;
+   if (!MapRegionKinds.includes(kind)) {
+      error(
+         `${path}.kind`,
+         `unknown region ${JSON.stringify(region.kind)} (expected ${MapRegionKinds.join(", ")})`,
+      );
+      return null;
+   }
+   switch (kind) {
+      case "rect": {
+         checkUnknownKeys(region, ["kind", ...RectKeys], path, warning);
+         const rect = validateRect(region, path, error);
+         return rect ? { kind, ...rect } : null;
+      }
+      case "strip": {
+         checkUnknownKeys(region, ["kind", "side", "width", "startRow", "endRow"], path, warning);
+         const side = region.side;
+         if (side !== "left" && side !== "right") {
+            error(`${path}.side`, `must be "left" or "right", got ${JSON.stringify(side)}`);
+         }
+         const width = readInteger(region, "width", path, error, 1, true);
+         const startRow = readInteger(region, "startRow", path, error, 0);
+         const endRow = readInteger(region, "endRow", path, error, 0);
+         if (
+            (side !== "left" && side !== "right") ||
+            isNullOrUndefined(width) ||
+            startRow === null ||
+            endRow === null
+         ) {
+            return null;
+         }
+         return { kind, side, width, startRow, endRow };
+      }
+      case "ring": {
+         checkUnknownKeys(region, ["kind", "x", "y", "radius"], path, warning);
+         const x = readInteger(region, "x", path, error, 0, true);
+         const y = readInteger(region, "y", path, error, 0, true);
+         const radius = readInteger(region, "radius", path, error, 1, true);
+         if (isNullOrUndefined(x) || isNullOrUndefined(y) || isNullOrUndefined(radius)) {
+            return null;
+         }
+         return { kind, x, y, radius };
+      }
+      case "around": {
+         checkUnknownKeys(region, ["kind", "building", "radius"], path, warning);
+         const radius = readInteger(region, "radius", path, error, 1, true);
+         let building: Building | undefined;
+         if (typeof region.building === "string") {
+            building =
+               region.building in Config.Building
+                  ? (region.building as Building)
+                  : resolveBuildingName(region.building, displayMap);
+         }
+         if (!building) {
+            error(`${path}.building`, `unknown building ${JSON.stringify(region.building)}`);
+         } else if (!isSpecialBuilding(building)) {
+            error(`${path}.building`, `${Config.Building[building].name()} is not a wonder`);
+            building = undefined;
+         }
+         if (!building || isNullOrUndefined(radius)) {
+            return null;
+         }
+         return { kind, building, radius };
+      }
+      case "polygon": {
+         checkUnknownKeys(region, ["kind", "points"], path, warning);
+         if (!Array.isArray(region.points) || region.points.length < 3) {
+            error(`${path}.points`, "must be an array of at least 3 points");
+            return null;
+         }
+         const points: IPointData[] = [];
+         let valid = true;
+         region.points.forEach((point, i) => {
+            const pointPath = `${path}.points[${i}]`;
+            if (!isRecord(point)) {
+               error(pointPath, "point must be an object");
+               valid = false;
+               return;
+            }
+            const x = readInteger(point, "x", pointPath, error, 0, true);
+            const y = readInteger(point, "y", pointPath, error, 0, true);
+            if (isNullOrUndefined(x) || isNullOrUndefined(y)) {
+               valid = false;
+               return;
+            }
+            points.push({ x, y });
+         });
+         return valid ? { kind, points } : null;
+      }
+      case "deposit": {
+         checkUnknownKeys(region, ["kind", "deposits"], path, warning);
+         if (!Array.isArray(region.deposits) || region.deposits.length === 0) {
+            error(`${path}.deposits`, "must be a non-empty array");
+            return null;
+         }
+         const deposits: Deposit[] = [];
+         region.deposits.forEach((deposit, i) => {
+            if (typeof deposit === "string" && deposit in IsDeposit) {
+               deposits.push(deposit as Deposit);
+            } else {
+               error(`${path}.deposits[${i}]`, `unknown deposit ${JSON.stringify(deposit)}`);
+            }
+         });
+         return deposits.length === region.deposits.length ? { kind, deposits } : null;
+      }
+   }
+}
+
+function validateRect(
+   options: Record<string, unknown>,
+   path: string,
+   error: Reporter,
+): IBuildingPlanRect | null {
+   const minX = readInteger(options, "minX", path, error, 0, true);
+   const minY = readInteger(options, "minY", path, error, 0, true);
+   // A missing max means a single column/row
+   const maxX = readInteger(options, "maxX", path, error, 0) ?? minX;
+   const maxY = readInteger(options, "maxY", path, error, 0) ?? minY;
+   if (
+      isNullOrUndefined(minX) ||
+      isNullOrUndefined(maxX) ||
+      isNullOrUndefined(minY) ||
+      isNullOrUndefined(maxY)
+   ) {
+      return null;
+   }
+   let valid = true;
+   if (minX > maxX) {
+      error(path, `minX (${minX}) must not be greater than maxX (${maxX})`);
+      valid = false;
+   }
+   if (minY > maxY) {
+      error(path, `minY (${minY}) must not be greater than maxY (${maxY})`);
+      valid = false;
+   }
+   return valid ? { minX, maxX, minY, maxY } : null;
+}
+
+function validatePlaceOptions(
+   options: Record<string, unknown>,
+   path: string,
+   error: Reporter,
+): IBuildingPlanPlaceOptions | null {
+   const intervalMs = readInteger(options, "intervalMs", path, error, 0);
+   const targetLevelDefault = readInteger(options, "targetLevelDefault", path, error, 0);
+   let ensureCoalForPower: boolean | undefined;
+   if (options.ensureCoalForPower !== undefined) {
+      if (typeof options.ensureCoalForPower === "boolean") {
+         ensureCoalForPower = options.ensureCoalForPower;
+      } else {
+         error(`${path}.ensureCoalForPower`, "must be true or false");
+         return null;
+      }
+   }
+   if (intervalMs === null || targetLevelDefault === null) {
+      return null;
+   }
+   return { intervalMs, targetLevelDefault, ensureCoalForPower };
+}
+
+/**
+ * Returns `undefined` if the field is missing (an error if `required`) and `null` if it is present but invalid.
+ */
+function readInteger(
+   obj: Record<string, unknown>,
+   key: string,
+   path: string,
+   error: Reporter,
+   min: number,
+   required = false,
+): number | undefined | null {
+   const value = obj[key];
+   if (value === undefined) {
+      if (required) {
+         error(`${path}.${key}`, "is required");
+         return null;
+      }
+      return undefined;
+   }
+   if (typeof value !== "number" || !Number.isInteger(value)) {
+      error(`${path}.${key}`, `must be an integer, got ${JSON.stringify(value)}`);
+      return null;
+   }
+   if (value < min) {
+      error(`${path}.${key}`, `must be at least ${min}, got ${value}`);
+      return null;
+   }
+   return value;
+}
+
+function parseVersion(meta: unknown, error: Reporter): number {
+   if (!isRecord(meta) || meta.version === undefined) {
+      return 1;
+   }
+   // Early plans wrote the version as a "1.0" style string, only the major part is meaningful
+   const version =
+      typeof meta.version === "number" ? Math.floor(meta.version) : Number.parseInt(String(meta.version), 10);
+   if (!Number.isFinite(version) || version < 1) {
+      error("meta.version", `invalid version ${JSON.stringify(meta.version)}`);
+      return 1;
+   }
+   if (version > BUILDING_PLAN_VERSION) {
+      error(
+         "meta.version",
+         `plan version ${version} is newer than the supported version ${BUILDING_PLAN_VERSION}, please update the game`,
+      );
+   }
+   return version;
+}
+
+function checkUnknownKeys(
+   obj: Record<string, unknown>,
+   known: readonly string[],
+   path: string,
+   warning: Reporter,
+): void {
+   Object.keys(obj).forEach((key) => {
+      if (!known.includes(key)) {
+         warning(path ? `${path}.${key}` : key, "unknown key, it will be ignored");
+      }
+   });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+   return typeof value === "object" && value !== null && !Array.isArray(value);
+}
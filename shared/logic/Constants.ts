@@ -7,6 +7,7 @@ import type { Tech, TechAge } from "../definitions/TechDefinitions";
 import { TimedBuildingUnlock } from "../definitions/TimedBuildingUnlock";
 import type { Upgrade } from "../definitions/UpgradeDefinitions";
 import {
+   deepFreeze,
    forEach,
    formatHMS,
    formatNumber,
@@ -16,6 +17,7 @@ import {
    numberToRoman,
    reduceOf,
    round,
+   safeAdd,
    sizeOf,
 } from "../utilities/Helper";
 import type { PartialTabulate } from "../utilities/TypeDefinitions";
@@ -28,6 +30,7 @@ import {
    isWorldWonder,
 } from "./BuildingLogic";
 import { Config } from "./Config";
+import type { GameState } from "./GameState";
 import { getBuildingsThatProduce } from "./ResourceLogic";
 import { getAgeForTech } from "./TechLogic";
 
@@ -72,6 +75,52 @@ interface IRecipe {
    output: PartialTabulate<Material>;
 }
 
+/**
+ * Applies the building names, unique buildings and unique multipliers of the city to `Config`. Called early
+ * during bootstrap, and by anything else that ticks the game state (e.g. the offline production worker)
+ */
+export function setCityOverride(gameState: GameState): void {
+   const city = Config.City[gameState.city];
+   forEach(city.buildingNames, (b, name) => {
+      Config.Building[b].name = name;
+   });
+   deepFreeze(Config.Building);
+
+   forEach(city.uniqueBuildings, (building, tech) => {
+      if (!Config.Tech[tech].unlockBuilding) {
+         Config.Tech[tech].unlockBuilding = [];
+      }
+      Config.Tech[tech].unlockBuilding!.push(building);
+   });
+
+   forEach(city.uniqueMultipliers, (tech, multipliers) => {
+      const def = Config.Tech[tech];
+      if (multipliers.globalMultiplier) {
+         if (def.globalMultiplier) {
+            forEach(multipliers.globalMultiplier, (k, v) => {
+               safeAdd(def.globalMultiplier!, k, v);
+            });
+         } else {
+            def.globalMultiplier = structuredClone(multipliers.globalMultiplier);
+         }
+      }
+      if (multipliers.buildingMultiplier) {
+         forEach(multipliers.buildingMultiplier, (building, multipliers) => {
+            if (!def.buildingMultiplier) {
+               def.buildingMultiplier = {};
+            }
+            if (def.buildingMultiplier[building]) {
+               forEach(multipliers, (kk, vv) => {
+                  safeAdd(def.buildingMultiplier![building]!, kk, vv);
+               });
+            } else {
+               def.buildingMultiplier[building] = structuredClone(multipliers);
+            }
+         });
+      }
+   });
+}
+
 export function calculateTierAndPrice(log?: (val: string) => void) {
    forEach(IsDeposit, (k) => {
       Config.MaterialTier[k] = 1;
@@ -0,0 +1,145 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import type { Material } from "../definitions/MaterialDefinitions";
+import { forEach, isEmpty, mapSafeAdd, mapSafePush, type Tile } from "../utilities/Helper";
+import { filterTransportable } from "./BuildingLogic";
+import { Config } from "./Config";
+import type { GameState } from "./GameState";
+import { getResourceIO, getTypeBuildings } from "./IntraTickCache";
+import { Transports } from "./Transports";
+
+/**
+ * All completed buildings of one type. `column` is the length of the longest chain of producers feeding into
+ * it, `row` its place within the column.
+ */
+export interface IFlowNode {
+   building: Building;
+   tiles: Tile[];
+   totalLevel: number;
+   column: number;
+   row: number;
+}
+
+export interface IFlowEdge {
+   from: Building;
+   to: Building;
+   resource: Material;
+   /** Amount of `resource` on its way from `from` to `to`, per second */
+   perSecond: number;
+   /** The city uses more of `resource` than it makes */
+   deficit: boolean;
+}
+
+export interface IFlowGraph {
+   nodes: Map<Building, IFlowNode>;
+   edges: IFlowEdge[];
+   columns: number;
+   rows: number;
+}
+
+/**
+ * The material flow of the city: a node per building type with an input or output, and an edge for every
+ * material one of them makes and another one takes. Edges are there even when nothing is being transported
+ * along them.
+ */
+export function buildFlowGraph(gs: GameState): IFlowGraph {
+   const nodes = new Map<Building, IFlowNode>();
+   const typeOfTile = new Map<Tile, Building>();
+   getTypeBuildings(gs).forEach((tiles, building) => {
+      const def = Config.Building[building];
+      if (isEmpty(def.input) && isEmpty(def.output)) {
+         return;
+      }
+      const node: IFlowNode = { building, tiles: [], totalLevel: 0, column: 0, row: 0 };
+      tiles.forEach((tile, xy) => {
+         if (tile.building.status === "completed") {
+            node.tiles.push(xy);
+            node.totalLevel += tile.building.level;
+            typeOfTile.set(xy, building);
+         }
+      });
+      if (node.tiles.length > 0) {
+         nodes.set(building, node);
+      }
+   });
+
+   const producers = new Map<Material, Building[]>();
+   nodes.forEach((_, building) => {
+      forEach(filterTransportable(Config.Building[building].output), (res) => {
+         mapSafePush(producers, res, building);
+      });
+   });
+
+   const transported = new Map<string, number>();
+   for (const transport of Transports) {
+      const from = typeOfTile.get(transport.fromXy);
+      const to = typeOfTile.get(transport.toXy);
+      if (from && to && transport.ticksRequired > 0) {
+         const key = edgeKey(from, to, transport.resource);
+         mapSafeAdd(transported, key, transport.amount / transport.ticksRequired);
+      }
+   }
+
+   const { theoreticalInput, actualOutput } = getResourceIO(gs);
+   const edges: IFlowEdge[] = [];
+   const upstream = new Map<Building, Building[]>();
+   nodes.forEach((_, to) => {
+      forEach(filterTransportable(Config.Building[to].input), (resource) => {
+         producers.get(resource)?.forEach((from) => {
+            if (from === to) {
+               return;
+            }
+            edges.push({
+               from,
+               to,
+               resource,
+               perSecond: transported.get(edgeKey(from, to, resource)) ?? 0,
+               deficit: (actualOutput.get(resource) ?? 0) < (theoreticalInput.get(resource) ?? 0),
+            });
+            mapSafePush(upstream, to, from);
+         });
+      });
+   });
+
+   // Longest path from a building without producers, ignoring the edge that closes a loop
+   const columnOf = new Map<Building, number>();
+   const visiting = new Set<Building>();
+   const getColumn = (building: Building): number => {
+      const cached = columnOf.get(building);
+      if (cached !== undefined) {
+         return cached;
+      }
+      visiting.add(building);
+      let column = 0;
+      upstream.get(building)?.forEach((from) => {
+         if (!visiting.has(from)) {
+            column = Math.max(column, getColumn(from) + 1);
+         }
+      });
+      visiting.delete(building);
+      columnOf.set(building, column);
+      return column;
+   };
+
+   const byColumn: Building[][] = [];
+   nodes.forEach((node, building) => {
+      node.column = getColumn(building);
+      if (!byColumn[node.column]) {
+         byColumn[node.column] = [];
+      }
+      byColumn[node.column].push(building);
+   });
+   let rows = 0;
+   byColumn.forEach((buildings) => {
+      buildings.sort((a, b) => a.localeCompare(b));
+      buildings.forEach((building, row) => {
+         nodes.get(building)!.row = row;
+      });
+      rows = Math.max(rows, buildings.length);
+   });
+
+   return { nodes, edges, columns: byColumn.length, rows };
+}
+
+function edgeKey(from: Building, to: Building, resource: Material): string {
+   return `${from}>${to}>${resource}`;
+}
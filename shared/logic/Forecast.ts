@@ -0,0 +1,172 @@
+import type { Material } from "../definitions/MaterialDefinitions";
+import { forEach, schedule } from "../utilities/Helper";
+import type { PartialTabulate } from "../utilities/TypeDefinitions";
+import { OnTileExplored } from "./BuildingLogic";
+import type { GameOptions, GameState } from "./GameState";
+import { savedGame } from "./GameStateLogic";
+import { clearIntraTickCache } from "./IntraTickCache";
+import { getResourceAmount } from "./ResourceLogic";
+import { runTick } from "./Simulation";
+import { RequestResetTile } from "./TechLogic";
+import { EmptyTickData, Tick, totalEmpireValue } from "./TickLogic";
+import { setTickProfiler, type ITickProfile } from "./TickProfiler";
+import { setTransportStatsRecorder, type ITransportStats } from "./TransportStats";
+import { Transports, type ITransportationDataV2 } from "./Transports";
+import {
+   OnBuildingComplete,
+   OnBuildingOrUpgradeComplete,
+   OnPriceUpdated,
+   RequestChooseGreatPerson,
+   RequestFloater,
+   clearTransportSourceCache,
+   type IProduceResource,
+} from "./Update";
+
+export interface IForecastSample {
+   seconds: number;
+   empireValue: number;
+   science: number;
+}
+
+export interface IForecastResult {
+   /** One sample at the start, then one per batch of ticks */
+   samples: IForecastSample[];
+   /** Stock at the end of the forecast */
+   resources: PartialTabulate<Material>;
+   /** Seconds until the stock covers the cost of `target`, `null` if that does not happen within the forecast */
+   affordableAfter: number | null;
+}
+
+/**
+ * Everything the tick loop reads and writes globally
+ */
+export interface IForecastWorld {
+   current: GameState;
+   options: GameOptions;
+   tickCurrent: typeof Tick.current;
+   tickNext: typeof Tick.next;
+   transports: ITransportationDataV2[];
+}
+
+// Tick in batches of a minute, which is also the resolution of the samples and the time to afford
+const BATCH_SIZE = 60;
+
+/**
+ * A copy of the game as it is now, to run a forecast on
+ */
+export function copyForecastWorld(): IForecastWorld {
+   return {
+      current: structuredClone(savedGame.current),
+      options: structuredClone(savedGame.options),
+      tickCurrent: Tick.current,
+      tickNext: EmptyTickData(),
+      transports: structuredClone(Transports),
+   };
+}
+
+/**
+ * Runs `world` `seconds` ahead, with the same ticks as offline production.
+ *
+ * The tick loop only works on the global game state, so the copy is swapped in for every batch and swapped out
+ * again before the game ticks on. While the copy ticks, events that would reach the UI are muted, production
+ * events are not: wonders and other building effects are part of the economy. Market prices are not
+ * rotated during a forecast. Ticks go through `runTick`, not the client's tick, so the statistics and the play time
+ * of the game are left alone. The tick profiler and the transport stats are paused while the copy ticks.
+ */
+export async function runForecast(
+   world: IForecastWorld,
+   seconds: number,
+   cost: PartialTabulate<Material> | null,
+   onProgress?: (progress: number) => Promise<void>,
+): Promise<IForecastResult> {
+   const result: IForecastResult = { samples: [], resources: {}, affordableAfter: null };
+   const resourceProduced: IProduceResource[] = [];
+   const sample = (ticked: number) => {
+      result.samples.push({
+         seconds: ticked,
+         empireValue: totalEmpireValue(world.current),
+         science: getResourceAmount("Science"),
+      });
+      if (cost && result.affordableAfter === null && canAfford(cost)) {
+         result.affordableAfter = ticked;
+      }
+   };
+
+   let tick = world.tickCurrent.tick;
+   let ticked = 0;
+   while (ticked < seconds) {
+      const batch = Math.min(seconds - ticked, BATCH_SIZE);
+      // Swapping in, ticking and swapping out happen in one task, the game cannot tick in between
+      await schedule(() => {
+         const real = swapWorld(world);
+         const muted = UIEvents.map((e) => e.mute());
+         const transportStats: ITransportStats | null = setTransportStatsRecorder(null);
+         const tickProfile: ITickProfile | null = setTickProfiler(null);
+         try {
+            if (result.samples.length === 0) {
+               sample(0);
+            }
+            for (let i = 0; i < batch; i++) {
+               runTick(world.current, ++tick, resourceProduced);
+            }
+            ticked += batch;
+            sample(ticked);
+            if (ticked >= seconds) {
+               Tick.current.resourceAmount.forEach((amount, res) => {
+                  result.resources[res] = amount;
+               });
+            }
+         } finally {
+            muted.forEach((m) => m.dispose());
+            setTransportStatsRecorder(transportStats);
+            setTickProfiler(tickProfile);
+            Object.assign(world, swapWorld(real));
+         }
+      });
+      await onProgress?.(ticked / seconds);
+   }
+   return result;
+}
+
+// Events the client turns into modals, sounds, toasts and scene updates
+const UIEvents = [
+   OnBuildingComplete,
+   OnBuildingOrUpgradeComplete,
+   OnPriceUpdated,
+   OnTileExplored,
+   RequestChooseGreatPerson,
+   RequestFloater,
+   RequestResetTile,
+];
+
+/**
+ * Makes `world` the global game state and returns the one it replaced
+ */
+function swapWorld(world: IForecastWorld): IForecastWorld {
+   const replaced: IForecastWorld = {
+      current: savedGame.current,
+      options: savedGame.options,
+      tickCurrent: Tick.current,
+      tickNext: Tick.next,
+      transports: Transports.splice(0),
+   };
+   // Not `push(...world.transports)`, there can be more transports than a call takes arguments
+   world.transports.forEach((t) => Transports.push(t));
+   savedGame.current = world.current;
+   savedGame.options = world.options;
+   Tick.current = world.tickCurrent;
+   Tick.next = world.tickNext;
+   clearIntraTickCache();
+   clearTransportSourceCache();
+   return replaced;
+}
+
+function canAfford(cost: PartialTabulate<Material>): boolean {
+   let result = true;
+   forEach(cost, (res, amount) => {
+      if (getResourceAmount(res) < amount) {
+         result = false;
+      }
+   });
+   return result;
+}
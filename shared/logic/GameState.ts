@@ -23,7 +23,10 @@ import type { PartialSet, PartialTabulate } from "../utilities/TypeDefinitions";
 import { L, t } from "../utilities/i18n";
 import { SAVE_FILE_VERSION } from "./Constants";
 import { getGameOptions, notifyGameOptionsUpdate } from "./GameStateLogic";
+import type { IPlanBudgetOptions } from "./PlanBudget";
+import type { IScriptJournalEntry } from "./ScriptJournal";
 import type { IShortcutConfig, Shortcut } from "./Shortcut";
+import type { ITradeBotOptions } from "./TradeBot";
 import type { IBuildingData, ITileData } from "./Tile";
 
 export interface IValueTracker {
@@ -69,6 +72,7 @@ export class GameState {
    clientOfflineSec = 0;
    watchedResources: Set<Material> = new Set();
    mapSize = ROME_CITY_SIZE;
+   scriptJournal: IScriptJournalEntry[] = [];
 }
 
 export type GreatPeopleChoice = GreatPerson[];
@@ -281,6 +285,8 @@ export class GameOptions {
    // Tracks which Dave scripts have been run for a given rebirth version.
    // Key: arbitrary script id string, Value: rebirthInfo.length when it was run.
    daveScriptsRun: Partial<Record<string, number>> = {};
+   // Budget mode for build scripts, `null` places every building at once
+   buildScriptBudget: IPlanBudgetOptions | null = null;
    greatPeople: Partial<Record<GreatPerson, { level: number; amount: number }>> = {};
    ageWisdom: PartialTabulate<TechAge> = {};
    greatPeopleChoicesV2: GreatPeopleChoiceV2[] = [];
@@ -303,6 +309,14 @@ export class GameOptions {
    migrationFlags = MigrationFlags.None;
    hideResourcePanelSections = new Set<ResourcePanelSection>();
    useMirrorServer = false;
+   tradeBot: ITradeBotOptions = {
+      enabled: false,
+      bands: {},
+      postPremium: 0,
+      fillDiscount: 0,
+      staleSeconds: 6 * 60 * 60,
+      intervalSeconds: 60,
+   };
 }
 
 export type GameOptionServer = Pick<GameOptions, "ageWisdom" | "greatPeople">;
@@ -26,6 +26,7 @@ import { SCIENCE_VALUE } from "./Constants";
 import type { GameState } from "./GameState";
 import { TILE_SIZE } from "./GameStateLogic";
 import { NotProducingReason, Tick, type MultiplierType, type MultiplierWithSource } from "./TickLogic";
+import { beginProfile, endProfilePhase } from "./TickProfiler";
 import type {
    IBuildingData,
    ICloneBuildingData,
@@ -39,8 +40,6 @@ class IntraTickCache {
    revealedDeposits: PartialSet<Deposit> | undefined;
    unlockedBuildings: PartialSet<Building> | undefined;
    unlockedResources: PartialSet<Material> | undefined;
-   buildingsByType: Map<Building, Map<Tile, Required<ITileData>>> | undefined;
-   buildingsByXy: Map<Tile, IBuildingData> | undefined;
    transportStat: ITransportStat | undefined;
    resourceAmount: PartialTabulate<Material> | undefined;
    buildingIO: Map<number, Readonly<PartialTabulate<Material>>> = new Map<
@@ -60,10 +59,218 @@ export interface IResourceIO {
    actualOutput: Map<Material, number>;
 }
 
+/**
+ * Where the buildings are. Unlike `IntraTickCache`, this is kept from tick to tick and only the tiles passed to
+ * `markTileChanged` are looked at again. `tiles` is the map it has been built from, a different one (e.g. another
+ * save has been loaded) is built from scratch.
+ */
+class TileCache {
+   buildingsByType: Map<Building, Map<Tile, Required<ITileData>>> = new Map();
+   buildingsByXy: Map<Tile, IBuildingData> = new Map();
+   /** Where each tile is in `tiles`, the maps are kept in this order */
+   readonly order: Map<Tile, number> = new Map();
+   constructor(readonly tiles: Map<Tile, ITileData>) {
+      let i = 0;
+      tiles.forEach((_, xy) => this.order.set(xy, i++));
+   }
+}
+
 let _cache = new IntraTickCache();
+let _tileCache: TileCache | null = null;
+const _changedTiles = new Set<Tile>();
 
+/**
+ * Throws away everything, for when the game state has been replaced or changed in ways nobody has been told about
+ */
 export function clearIntraTickCache(): void {
    _cache = new IntraTickCache();
+   _tileCache = null;
+   _changedTiles.clear();
+}
+
+/**
+ * Throws away what depends on `Tick.current`, called at the start of every tick. What only depends on where the
+ * buildings are is kept
+ */
+export function clearTickCache(): void {
+   _cache = new IntraTickCache();
+}
+
+/**
+ * Has to be called when `tile.building` of `xy` has been placed, removed or replaced. Changes to the building
+ * itself (level, status, options) do not matter here. Use `notifyTileChanged`, which also takes care of the
+ * transport source cache
+ */
+export function markTileChanged(xy: Tile): void {
+   _changedTiles.add(xy);
+}
+
+function getTileCache(gs: GameState): TileCache {
+   if (_tileCache?.tiles !== gs.tiles) {
+      _tileCache = buildTileCache(gs.tiles);
+      _changedTiles.clear();
+   } else if (_changedTiles.size > 0) {
+      const start = beginProfile();
+      if (!updateTileCache(_tileCache)) {
+         _tileCache = buildTileCache(gs.tiles);
+      }
+      _changedTiles.clear();
+      endProfilePhase("intraTickCache", start);
+   }
+   return _tileCache;
+}
+
+function buildTileCache(tiles: Map<Tile, ITileData>): TileCache {
+   const start = beginProfile();
+   const cache = new TileCache(tiles);
+   tiles.forEach((tile, xy) => {
+      const building = tile.building;
+      if (!building) {
+         return;
+      }
+      cache.buildingsByXy.set(xy, building);
+      let byType = cache.buildingsByType.get(building.type);
+      if (!byType) {
+         byType = new Map();
+         cache.buildingsByType.set(building.type, byType);
+      }
+      byType.set(xy, tile as Required<ITileData>);
+   });
+   endProfilePhase("intraTickCache", start);
+   return cache;
+}
+
+/**
+ * Applies `_changedTiles` to `cache`. The maps have to stay in the order of `tiles`, because ticks go through the
+ * buildings in that order, and `buildingsByType` in the order of the first building of each type. Returns false if
+ * a building is on a tile that was not in `tiles` when the cache was built, then it has to be built again.
+ */
+function updateTileCache(cache: TileCache): boolean {
+   for (const xy of _changedTiles) {
+      const before = cache.buildingsByXy.get(xy);
+      const tile = cache.tiles.get(xy);
+      const after = tile?.building;
+      if (before === after) {
+         continue;
+      }
+      if (after && !cache.order.has(xy)) {
+         return false;
+      }
+      if (before && after && before.type === after.type) {
+         cache.buildingsByXy.set(xy, after);
+         cache.buildingsByType.get(before.type)?.set(xy, tile as Required<ITileData>);
+         continue;
+      }
+      if (before) {
+         removeFromType(cache, xy, before.type);
+      }
+      if (after) {
+         setInOrder(cache.buildingsByXy, xy, after, getTilePosition(cache));
+         addToType(cache, xy, after.type, tile as Required<ITileData>);
+      } else {
+         cache.buildingsByXy.delete(xy);
+      }
+   }
+   return true;
+}
+
+function getTilePosition(cache: TileCache): (xy: Tile) => number {
+   return (xy) => cache.order.get(xy) ?? Number.POSITIVE_INFINITY;
+}
+
+function getTypePosition(cache: TileCache): (type: Building, tiles: Map<Tile, unknown>) => number {
+   const position = getTilePosition(cache);
+   return (_, tiles) => position(tiles.keys().next().value as Tile);
+}
+
+function addToType(cache: TileCache, xy: Tile, type: Building, tile: Required<ITileData>): void {
+   const byType = cache.buildingsByType.get(type);
+   if (!byType) {
+      setInOrder(cache.buildingsByType, type, new Map([[xy, tile]]), getTypePosition(cache));
+      return;
+   }
+   const position = getTilePosition(cache);
+   const first = position(xy) < position(byType.keys().next().value as Tile);
+   setInOrder(byType, xy, tile, position);
+   // The type moves up to where its new first building is
+   if (first) {
+      cache.buildingsByType.delete(type);
+      setInOrder(cache.buildingsByType, type, byType, getTypePosition(cache));
+   }
+}
+
+function removeFromType(cache: TileCache, xy: Tile, type: Building): void {
+   const byType = cache.buildingsByType.get(type);
+   if (!byType) {
+      return;
+   }
+   const first = byType.keys().next().value === xy;
+   byType.delete(xy);
+   if (byType.size === 0) {
+      cache.buildingsByType.delete(type);
+   } else if (first) {
+      // The type moves down to where its next building is
+      cache.buildingsByType.delete(type);
+      setInOrder(cache.buildingsByType, type, byType, getTypePosition(cache));
+   }
+}
+
+/**
+ * Sets `key` in `map` at its place by `position`. A map keeps keys in the order they are first set, so the entries
+ * that belong after `key` are taken out and set again behind it
+ */
+function setInOrder<K, V>(map: Map<K, V>, key: K, value: V, position: (key: K, value: V) => number): void {
+   if (map.has(key)) {
+      map.set(key, value);
+      return;
+   }
+   const at = position(key, value);
+   const after: [K, V][] = [];
+   map.forEach((v, k) => {
+      if (position(k, v) > at) {
+         after.push([k, v]);
+      }
+   });
+   map.set(key, value);
+   after.forEach(([k, v]) => {
+      map.delete(k);
+      map.set(k, v);
+   });
+}
+
+/**
+ * Compares the tile cache, with all changes applied, to one built from scratch, and keeps the fresh one. Returns
+ * what differs, nothing if they are the same. A difference means a change to `tile.building` has not been passed
+ * to `markTileChanged`
+ */
+export function verifyTileCache(gs: GameState): string[] {
+   const result: string[] = [];
+   const cache = getTileCache(gs);
+   const expected = buildTileCache(gs.tiles);
+   const compare = <K, V>(name: string, actual: Map<K, V>, wanted: Map<K, V>) => {
+      const a = Array.from(actual);
+      const b = Array.from(wanted);
+      for (let i = 0; i < Math.max(a.length, b.length); i++) {
+         if (a[i]?.[0] !== b[i]?.[0] || a[i]?.[1] !== b[i]?.[1]) {
+            result.push(`${name}: #${i} is ${a[i]?.[0]} instead of ${b[i]?.[0]}`);
+            return;
+         }
+      }
+   };
+   compare("buildingsByXy", cache.buildingsByXy, expected.buildingsByXy);
+   compare(
+      "buildingsByType",
+      new Map(Array.from(cache.buildingsByType, ([type, tiles]) => [type, tiles.size])),
+      new Map(Array.from(expected.buildingsByType, ([type, tiles]) => [type, tiles.size])),
+   );
+   expected.buildingsByType.forEach((tiles, type) => {
+      const actual = cache.buildingsByType.get(type);
+      if (actual) {
+         compare(`buildingsByType.${type}`, actual, tiles);
+      }
+   });
+   _tileCache = expected;
+   return result;
 }
 
 export function getFuelByTarget(): Map<Tile, number> {
@@ -209,6 +416,7 @@ export function getStorageFullBuildings(): Tile[] {
    if (_cache.storageFullBuildings) {
       return _cache.storageFullBuildings;
    }
+   const start = beginProfile();
    const result: Tile[] = [];
    for (const [xy, reason] of Tick.current.notProducingReasons) {
       if (reason === NotProducingReason.StorageFull) {
@@ -216,6 +424,7 @@ export function getStorageFullBuildings(): Tile[] {
       }
    }
    _cache.storageFullBuildings = result;
+   endProfilePhase("intraTickCache", start);
    return result;
 }
 
@@ -229,6 +438,7 @@ export function getTransportStat(gs: GameState): ITransportStat {
    if (_cache.transportStat) {
       return _cache.transportStat;
    }
+   const start = beginProfile();
    let totalFuel = 0;
    let totalTransports = 0;
    let stalled = 0;
@@ -241,26 +451,12 @@ export function getTransportStat(gs: GameState): ITransportStat {
    });
    const result: ITransportStat = { totalFuel, totalTransports, stalled };
    _cache.transportStat = result;
+   endProfilePhase("intraTickCache", start);
    return result;
 }
 
 export function getTypeBuildings(gs: GameState): Map<Building, Map<Tile, Required<ITileData>>> {
-   if (_cache.buildingsByType) {
-      return _cache.buildingsByType;
-   }
-   const result: Map<Building, Map<Tile, Required<ITileData>>> = new Map();
-   gs.tiles.forEach((tile, xy) => {
-      const type = tile.building?.type;
-      if (!type) {
-         return;
-      }
-      if (!result.has(type)) {
-         result.set(type, new Map());
-      }
-      result.get(type)?.set(xy, tile as Required<ITileData>);
-   });
-   _cache.buildingsByType = result;
-   return result;
+   return getTileCache(gs).buildingsByType;
 }
 
 export function getBuildingsByType(
@@ -273,6 +469,7 @@ export function getBuildingsByType(
 export function getResourceIO(gameState: GameState): IResourceIO {
    if (_cache.resourceIO) return _cache.resourceIO;
 
+   const start = beginProfile();
    const result: IResourceIO = {
       theoreticalInput: new Map(),
       actualInput: new Map(),
@@ -328,21 +525,13 @@ export function getResourceIO(gameState: GameState): IResourceIO {
       mapSafeAdd(result.actualOutput, res, amount),
    );
 
+   _cache.resourceIO = result;
+   endProfilePhase("intraTickCache", start);
    return result;
 }
 
 export function getXyBuildings(gs: GameState): Map<Tile, IBuildingData> {
-   if (_cache.buildingsByXy) {
-      return _cache.buildingsByXy;
-   }
-   const result: Map<Tile, IBuildingData> = new Map();
-   gs.tiles.forEach((tile, xy) => {
-      if (tile.building) {
-         result.set(xy, tile.building);
-      }
-   });
-   _cache.buildingsByXy = result;
-   return result;
+   return getTileCache(gs).buildingsByXy;
 }
 
 export function unlockedBuildings(gs: GameState): PartialSet<Building> {
@@ -0,0 +1,212 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import type { Deposit } from "../definitions/MaterialDefinitions";
+import { pointToTile, tileToPoint, type IPointData, type Tile } from "../utilities/Helper";
+import { findSpecialBuilding } from "./BuildingLogic";
+import type { GameState } from "./GameState";
+import { getGrid } from "./IntraTickCache";
+
+/**
+ * Regions let scripts and plan files say where to build instead of computing coordinates themselves. All
+ * coordinates are tile coordinates and inclusive. A region only ever contains tiles of the map.
+ */
+export type MapRegion =
+   | { kind: "rect"; minX: number; maxX: number; minY: number; maxY: number }
+   /** Full height columns along the left or right edge of the map */
+   | { kind: "strip"; side: "left" | "right"; width: number; startRow?: number; endRow?: number }
+   /** Tiles exactly `radius` away from (x, y) */
+   | { kind: "ring"; x: number; y: number; radius: number }
+   /** Tiles within `radius` of a wonder (or another special building), not including the wonder itself */
+   | { kind: "around"; building: Building; radius: number }
+   /** Tiles inside or on the edge of the polygon */
+   | { kind: "polygon"; points: IPointData[] }
+   /** Empty tiles with any of `deposits`, anywhere on the map */
+   | { kind: "deposit"; deposits: Deposit[] };
+
+export type MapRegionKind = MapRegion["kind"];
+export const MapRegionKinds: readonly MapRegionKind[] = [
+   "rect",
+   "strip",
+   "ring",
+   "around",
+   "polygon",
+   "deposit",
+] as const;
+
+/**
+ * - `scan`: row by row, left to right
+ * - `spiral`: ring by ring outwards from the origin, clockwise within a ring
+ * - `nearest`: by distance to the origin, ties in scan order
+ */
+export const RegionOrders = ["scan", "spiral", "nearest"] as const;
+export type RegionOrder = (typeof RegionOrders)[number];
+
+export interface IRegionOrderOptions {
+   order?: RegionOrder;
+   /** Defaults to the center of ring and around regions and to the Headquarter for everything else */
+   origin?: Tile;
+}
+
+export interface IMapBounds {
+   minX: number;
+   maxX: number;
+   minY: number;
+   maxY: number;
+}
+
+export function getMapBounds(gs: GameState): IMapBounds {
+   const grid = getGrid(gs);
+   return { minX: 0, maxX: grid.maxX - 1, minY: 0, maxY: grid.maxY - 1 };
+}
+
+export function getRegionTiles(region: MapRegion, gs: GameState, options?: IRegionOrderOptions): Tile[] {
+   const tiles = collectRegionTiles(region, gs).filter((tile) => gs.tiles.has(tile));
+   const order = options?.order ?? "scan";
+   if (order === "scan") {
+      return tiles;
+   }
+   const origin = options?.origin ?? getRegionOrigin(region, gs);
+   if (origin === null) {
+      return tiles;
+   }
+   const grid = getGrid(gs);
+   const distance = new Map(tiles.map((tile) => [tile, grid.distanceTile(tile, origin)]));
+   if (order === "nearest") {
+      // Array.prototype.sort is stable, so ties keep the scan order
+      return tiles.sort((a, b) => distance.get(a)! - distance.get(b)!);
+   }
+   const center = grid.xyToPosition(origin);
+   const angle = new Map(
+      tiles.map((tile) => {
+         const position = grid.xyToPosition(tile);
+         // Screen y points down, so increasing atan2 goes clockwise. Start at 12 o'clock
+         const a = Math.atan2(position.y - center.y, position.x - center.x) + Math.PI / 2;
+         return [tile, a < 0 ? a + 2 * Math.PI : a];
+      }),
+   );
+   return tiles.sort((a, b) => distance.get(a)! - distance.get(b)! || angle.get(a)! - angle.get(b)!);
+}
+
+export function getRegionOrigin(region: MapRegion, gs: GameState): Tile | null {
+   switch (region.kind) {
+      case "ring":
+         return pointToTile({ x: region.x, y: region.y });
+      case "around":
+         return findSpecialBuilding(region.building, gs)?.tile ?? null;
+      default:
+         return findSpecialBuilding("Headquarter", gs)?.tile ?? null;
+   }
+}
+
+function collectRegionTiles(region: MapRegion, gs: GameState): Tile[] {
+   const bounds = getMapBounds(gs);
+   const grid = getGrid(gs);
+   switch (region.kind) {
+      case "rect":
+         return rectTiles({
+            minX: Math.max(region.minX, bounds.minX),
+            maxX: Math.min(region.maxX, bounds.maxX),
+            minY: Math.max(region.minY, bounds.minY),
+            maxY: Math.min(region.maxY, bounds.maxY),
+         });
+      case "strip":
+         // A width below 1 is an empty strip
+         return rectTiles({
+            minX:
+               region.side === "right" ? Math.max(bounds.minX, bounds.maxX - region.width + 1) : bounds.minX,
+            maxX:
+               region.side === "right" ? bounds.maxX : Math.min(bounds.maxX, bounds.minX + region.width - 1),
+            minY: Math.max(bounds.minY, region.startRow ?? bounds.minY),
+            maxY: Math.min(bounds.maxY, region.endRow ?? bounds.maxY),
+         });
+      case "ring": {
+         const center = { x: region.x, y: region.y };
+         const centerTile = pointToTile(center);
+         return sortScan(
+            grid
+               .getRange(center, region.radius)
+               .map(pointToTile)
+               .filter((tile) => grid.distanceTile(tile, centerTile) === region.radius),
+         );
+      }
+      case "around": {
+         const wonder = findSpecialBuilding(region.building, gs);
+         if (!wonder) {
+            return [];
+         }
+         return sortScan(
+            grid
+               .getRange(tileToPoint(wonder.tile), region.radius)
+               .map(pointToTile)
+               .filter((tile) => tile !== wonder.tile),
+         );
+      }
+      case "polygon": {
+         if (region.points.length === 0) {
+            return [];
+         }
+         const xs = region.points.map((p) => p.x);
+         const ys = region.points.map((p) => p.y);
+         return rectTiles({
+            minX: Math.max(bounds.minX, Math.min(...xs)),
+            maxX: Math.min(bounds.maxX, Math.max(...xs)),
+            minY: Math.max(bounds.minY, Math.min(...ys)),
+            maxY: Math.min(bounds.maxY, Math.max(...ys)),
+         }).filter((tile) => isInPolygon(tileToPoint(tile), region.points));
+      }
+      case "deposit": {
+         const result: Tile[] = [];
+         gs.tiles.forEach((td, tile) => {
+            if (!td.building && region.deposits.some((d) => td.deposit[d])) {
+               result.push(tile);
+            }
+         });
+         return sortScan(result);
+      }
+   }
+}
+
+function rectTiles(rect: IMapBounds): Tile[] {
+   const result: Tile[] = [];
+   for (let y = rect.minY; y <= rect.maxY; y++) {
+      for (let x = rect.minX; x <= rect.maxX; x++) {
+         result.push(pointToTile({ x, y }));
+      }
+   }
+   return result;
+}
+
+function sortScan(tiles: Tile[]): Tile[] {
+   return tiles.sort((a, b) => {
+      const pa = tileToPoint(a);
+      const pb = tileToPoint(b);
+      return pa.y - pb.y || pa.x - pb.x;
+   });
+}
+
+/**
+ * Even-odd ray casting, with points on an edge counting as inside
+ */
+function isInPolygon(point: IPointData, polygon: IPointData[]): boolean {
+   let inside = false;
+   for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+      if (
+         cross === 0 &&
+         point.x >= Math.min(a.x, b.x) &&
+         point.x <= Math.max(a.x, b.x) &&
+         point.y >= Math.min(a.y, b.y) &&
+         point.y <= Math.max(a.y, b.y)
+      ) {
+         return true;
+      }
+      if (a.y > point.y !== b.y > point.y) {
+         const x = ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+         if (point.x < x) {
+            inside = !inside;
+         }
+      }
+   }
+   return inside;
+}
@@ -0,0 +1,277 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import type { GreatPerson } from "../definitions/GreatPersonDefinitions";
+import type { Material } from "../definitions/MaterialDefinitions";
+import type { Tech } from "../definitions/TechDefinitions";
+import { forEach, mapSafeAdd, safeAdd, type Tile } from "../utilities/Helper";
+import type { PartialTabulate } from "../utilities/TypeDefinitions";
+import { IOFlags } from "./BuildingLogic";
+import type { GameState } from "./GameState";
+import { getBuildingIO, getXyBuildings } from "./IntraTickCache";
+import { NotProducingReason, Tick } from "./TickLogic";
+
+/**
+ * What happened during offline production, added up tick by tick
+ */
+export interface IOfflineTally {
+   ticks: number;
+   produced: Map<Material, number>;
+   consumed: Map<Material, number>;
+   buildings: Map<Building, IOfflineBuildingTally>;
+   stalled: Map<Tile, Map<NotProducingReason, number>>;
+}
+
+interface IOfflineBuildingTally {
+   produced: PartialTabulate<Material>;
+   consumed: PartialTabulate<Material>;
+   workingTicks: number;
+   stalledTicks: number;
+}
+
+export function makeOfflineTally(): IOfflineTally {
+   return { ticks: 0, produced: new Map(), consumed: new Map(), buildings: new Map(), stalled: new Map() };
+}
+
+/**
+ * Called after every offline tick. Counts what the buildings that worked made and used, the same way
+ * `getResourceIO` does, and why the others did not.
+ */
+export function tallyOfflineTick(tally: IOfflineTally, gs: GameState): void {
+   ++tally.ticks;
+   getXyBuildings(gs).forEach((building, xy) => {
+      if ("resourceImports" in building) {
+         return;
+      }
+      let b = tally.buildings.get(building.type);
+      if (!b) {
+         b = { produced: {}, consumed: {}, workingTicks: 0, stalledTicks: 0 };
+         tally.buildings.set(building.type, b);
+      }
+      const reason = Tick.current.notProducingReasons.get(xy);
+      if (reason !== undefined) {
+         if (reason === NotProducingReason.TurnedOff) {
+            return;
+         }
+         ++b.stalledTicks;
+         let reasons = tally.stalled.get(xy);
+         if (!reasons) {
+            reasons = new Map();
+            tally.stalled.set(xy, reasons);
+         }
+         mapSafeAdd(reasons, reason, 1);
+         return;
+      }
+      ++b.workingTicks;
+      forEach(getBuildingIO(xy, "input", IOFlags.Multiplier | IOFlags.Capacity, gs), (res, amount) => {
+         mapSafeAdd(tally.consumed, res, amount);
+         safeAdd(b.consumed, res, amount);
+      });
+      forEach(getBuildingIO(xy, "output", IOFlags.Multiplier | IOFlags.Capacity, gs), (res, amount) => {
+         mapSafeAdd(tally.produced, res, amount);
+         safeAdd(b.produced, res, amount);
+      });
+   });
+}
+
+export interface IOfflineResourceChange {
+   res: Material;
+   produced: number;
+   consumed: number;
+   /** Stock over all buildings */
+   before: number;
+   after: number;
+}
+
+export interface IOfflineBuildingChange {
+   building: Building;
+   countBefore: number;
+   countAfter: number;
+   /** Buildings that were under construction or being upgraded and are done now */
+   completed: number;
+   levelsGained: number;
+   produced: PartialTabulate<Material>;
+   consumed: PartialTabulate<Material>;
+   workingTicks: number;
+   stalledTicks: number;
+}
+
+export interface IOfflineTileChange {
+   xy: Tile;
+   building: Building;
+   levelBefore: number;
+   levelAfter: number;
+   completed: boolean;
+   /** Change of the stock in the building, changes of 1 or less left out */
+   resources: PartialTabulate<Material>;
+   /** Ticks not producing, by reason */
+   stalled: Partial<Record<NotProducingReason, number>>;
+}
+
+/**
+ * Plain data, so it can be stored and shown again later
+ */
+export interface IOfflineReport {
+   endedAt: number;
+   totalOfflineTime: number;
+   offlineProductionTime: number;
+   /** How fast offline production has run */
+   ticksPerSecond: number;
+   warpFull: boolean;
+   ticks: number;
+   resources: IOfflineResourceChange[];
+   buildings: IOfflineBuildingChange[];
+   tiles: IOfflineTileChange[];
+   techs: Tech[];
+   /** Levels gained this run */
+   greatPeople: PartialTabulate<GreatPerson>;
+}
+
+export interface IOfflineReportTimes {
+   endedAt: number;
+   totalOfflineTime: number;
+   offlineProductionTime: number;
+   ticksPerSecond: number;
+   warpFull: boolean;
+}
+
+/**
+ * Diffs the game state from before and after offline production, together with what was tallied in between
+ */
+export function makeOfflineReport(
+   before: GameState,
+   after: GameState,
+   tally: IOfflineTally,
+   times: IOfflineReportTimes,
+): IOfflineReport {
+   const stockBefore = getStock(before);
+   const stockAfter = getStock(after);
+   const materials = new Set<Material>([
+      ...stockBefore.keys(),
+      ...stockAfter.keys(),
+      ...tally.produced.keys(),
+      ...tally.consumed.keys(),
+   ]);
+   const resources: IOfflineResourceChange[] = [];
+   materials.forEach((res) => {
+      const change: IOfflineResourceChange = {
+         res,
+         produced: tally.produced.get(res) ?? 0,
+         consumed: tally.consumed.get(res) ?? 0,
+         before: stockBefore.get(res) ?? 0,
+         after: stockAfter.get(res) ?? 0,
+      };
+      if (change.produced > 0 || change.consumed > 0 || change.before !== change.after) {
+         resources.push(change);
+      }
+   });
+
+   const buildings = new Map<Building, IOfflineBuildingChange>();
+   const getBuilding = (building: Building) => {
+      let result = buildings.get(building);
+      if (!result) {
+         const b = tally.buildings.get(building);
+         result = {
+            building,
+            countBefore: 0,
+            countAfter: 0,
+            completed: 0,
+            levelsGained: 0,
+            produced: b?.produced ?? {},
+            consumed: b?.consumed ?? {},
+            workingTicks: b?.workingTicks ?? 0,
+            stalledTicks: b?.stalledTicks ?? 0,
+         };
+         buildings.set(building, result);
+      }
+      return result;
+   };
+   before.tiles.forEach((tile) => {
+      if (tile.building) {
+         ++getBuilding(tile.building.type).countBefore;
+      }
+   });
+
+   const tiles: IOfflineTileChange[] = [];
+   after.tiles.forEach((tile, xy) => {
+      const building = tile.building;
+      if (!building) {
+         return;
+      }
+      const b = getBuilding(building.type);
+      ++b.countAfter;
+      const old = before.tiles.get(xy)?.building;
+      const sameBuilding = old?.type === building.type;
+      const levelBefore = sameBuilding ? old.level : 0;
+      const completed = building.status === "completed" && (!sameBuilding || old.status !== "completed");
+      if (completed) {
+         ++b.completed;
+      }
+      b.levelsGained += Math.max(0, building.level - levelBefore);
+
+      const change: PartialTabulate<Material> = {};
+      let changed = false;
+      forEach(building.resources, (res, amount) => {
+         const diff = amount - (sameBuilding ? (old.resources[res] ?? 0) : 0);
+         if (Math.abs(diff) > 1) {
+            change[res] = diff;
+            changed = true;
+         }
+      });
+      const stalled: Partial<Record<NotProducingReason, number>> = {};
+      tally.stalled.get(xy)?.forEach((ticks, reason) => {
+         stalled[reason] = ticks;
+         changed = true;
+      });
+      if (changed || completed || levelBefore !== building.level) {
+         tiles.push({
+            xy,
+            building: building.type,
+            levelBefore,
+            levelAfter: building.level,
+            completed,
+            resources: change,
+            stalled,
+         });
+      }
+   });
+
+   const techs: Tech[] = [];
+   forEach(after.unlockedTech, (tech) => {
+      if (!before.unlockedTech[tech]) {
+         techs.push(tech);
+      }
+   });
+   const greatPeople: PartialTabulate<GreatPerson> = {};
+   forEach(after.greatPeople, (person, level) => {
+      const gained = level - (before.greatPeople[person] ?? 0);
+      if (gained > 0) {
+         greatPeople[person] = gained;
+      }
+   });
+
+   return {
+      ...times,
+      ticks: tally.ticks,
+      resources,
+      buildings: Array.from(buildings.values()).filter(
+         (b) =>
+            b.countBefore !== b.countAfter ||
+            b.completed > 0 ||
+            b.levelsGained > 0 ||
+            b.workingTicks > 0 ||
+            b.stalledTicks > 0,
+      ),
+      tiles,
+      techs,
+      greatPeople,
+   };
+}
+
+function getStock(gs: GameState): Map<Material, number> {
+   const result = new Map<Material, number>();
+   gs.tiles.forEach((tile) => {
+      forEach(tile.building?.resources, (res, amount) => {
+         mapSafeAdd(result, res, amount);
+      });
+   });
+   return result;
+}
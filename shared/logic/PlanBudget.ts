@@ -0,0 +1,191 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import type { Material } from "../definitions/MaterialDefinitions";
+import { forEach, formatHMS, formatNumber, safeAdd, type Tile } from "../utilities/Helper";
+import type { PartialTabulate } from "../utilities/TypeDefinitions";
+import { getBuilderCapacity, getBuildingCost, getTotalBuildingCost } from "./BuildingLogic";
+import { Config } from "./Config";
+import type { GameState } from "./GameState";
+import { getResourceAmount, getResourcesValue } from "./ResourceLogic";
+import { PRIORITY_MAX, PRIORITY_MIN } from "./Tile";
+
+export const PlanBudgetStrategies = ["stagger", "level"] as const;
+export type PlanBudgetStrategy = (typeof PlanBudgetStrategies)[number];
+
+/**
+ * Budget mode for build scripts. Without it, every building of a plan is queued at once and construction
+ * projects starve each other of resources.
+ */
+export interface IPlanBudgetOptions {
+   /** How long construction of the whole plan may take, in seconds */
+   seconds: number;
+   /**
+    * - `stagger`: keep the levels, split the plan into batches the current stock can pay for and give each batch
+    *   a lower construction priority than the one before
+    * - `level`: lower the target level of each building until it fits the stock and the time budget
+    */
+   strategy: PlanBudgetStrategy;
+}
+
+export interface IPlanBudgetItem {
+   type: Building;
+   level: number;
+   tile: Tile;
+   /** Construction priority, only set when staggering */
+   priority?: number;
+}
+
+export interface IPlanEstimate {
+   buildings: number;
+   cost: PartialTabulate<Material>;
+   /** The part of `cost` the current stock does not cover */
+   missing: PartialTabulate<Material>;
+   /** Limited by builder capacity only, i.e. assuming resources arrive in time */
+   seconds: number;
+}
+
+/**
+ * Seconds to construct `type` at `xy` from scratch, indexed by target level (`result[0]` is 0). Each level is
+ * delivered at the builder capacity of the level before, the same way construction ticks.
+ */
+export function getConstructionSeconds(type: Building, level: number, xy: Tile, gs: GameState): number[] {
+   const result = [0];
+   for (let l = 0; l < level; l++) {
+      let amount = 0;
+      forEach(getBuildingCost({ type, level: l }), (_res, value) => {
+         amount += value;
+      });
+      const { total } = getBuilderCapacity({ type, level: l }, xy, gs);
+      result.push(result[l] + (total > 0 ? Math.ceil(amount / total) : Number.POSITIVE_INFINITY));
+   }
+   return result;
+}
+
+/**
+ * Buildings with the same priority are built side by side, priorities are built one after the other.
+ */
+export function estimatePlan(items: IPlanBudgetItem[], gs: GameState): IPlanEstimate {
+   const cost: PartialTabulate<Material> = {};
+   const secondsByPriority = new Map<number, number>();
+   for (const item of items) {
+      forEach(getTotalBuildingCost({ type: item.type }, 0, item.level), (res, amount) => {
+         safeAdd(cost, res, amount);
+      });
+      const seconds = getConstructionSeconds(item.type, item.level, item.tile, gs)[item.level];
+      const priority = item.priority ?? PRIORITY_MIN;
+      secondsByPriority.set(priority, Math.max(secondsByPriority.get(priority) ?? 0, seconds));
+   }
+   let seconds = 0;
+   secondsByPriority.forEach((s) => {
+      seconds += s;
+   });
+   return { buildings: items.length, cost, missing: getMissing(cost), seconds };
+}
+
+/**
+ * The estimate of two plans placed one after the other. They start at the same priority, so they are built
+ * side by side
+ */
+export function mergePlanEstimates(a: IPlanEstimate, b: IPlanEstimate): IPlanEstimate {
+   const cost: PartialTabulate<Material> = { ...a.cost };
+   forEach(b.cost, (res, amount) => {
+      safeAdd(cost, res, amount);
+   });
+   return {
+      buildings: a.buildings + b.buildings,
+      cost,
+      missing: getMissing(cost),
+      seconds: Math.max(a.seconds, b.seconds),
+   };
+}
+
+function getMissing(cost: PartialTabulate<Material>): PartialTabulate<Material> {
+   const missing: PartialTabulate<Material> = {};
+   forEach(cost, (res, amount) => {
+      const stock = getResourceAmount(res);
+      if (amount > stock) {
+         missing[res] = amount - stock;
+      }
+   });
+   return missing;
+}
+
+/**
+ * Returns the items to place, in order, adjusted to `budget`. Items that do not fit are left out.
+ */
+export function fitPlanToBudget<T extends IPlanBudgetItem>(
+   items: T[],
+   budget: IPlanBudgetOptions,
+   gs: GameState,
+): T[] {
+   const stock = new Map<Material, number>();
+   const stockOf = (res: Material) => stock.get(res) ?? getResourceAmount(res);
+   const fits = (cost: PartialTabulate<Material>) => {
+      let result = true;
+      forEach(cost, (res, amount) => {
+         if (amount > stockOf(res)) {
+            result = false;
+         }
+      });
+      return result;
+   };
+   const take = (cost: PartialTabulate<Material>) => {
+      forEach(cost, (res, amount) => {
+         stock.set(res, stockOf(res) - amount);
+      });
+   };
+
+   const result: T[] = [];
+   if (budget.strategy === "level") {
+      for (const item of items) {
+         const seconds = getConstructionSeconds(item.type, item.level, item.tile, gs);
+         for (let level = item.level; level >= 1; level--) {
+            const cost = getTotalBuildingCost({ type: item.type }, 0, level);
+            if (seconds[level] <= budget.seconds && fits(cost)) {
+               take(cost);
+               result.push({ ...item, level });
+               break;
+            }
+         }
+      }
+      return result;
+   }
+
+   // The first batch is paid for by the current stock, later batches are assumed to be paid for by the time
+   // the batch before them completes
+   let priority = PRIORITY_MAX;
+   let elapsed = 0;
+   let batchSeconds = 0;
+   let batchSize = 0;
+   for (const item of items) {
+      const cost = getTotalBuildingCost({ type: item.type }, 0, item.level);
+      if (!fits(cost) && batchSize > 0) {
+         elapsed += batchSeconds;
+         batchSeconds = 0;
+         batchSize = 0;
+         priority = Math.max(priority - 1, PRIORITY_MIN);
+         stock.clear();
+      }
+      const seconds = getConstructionSeconds(item.type, item.level, item.tile, gs)[item.level];
+      if (elapsed + Math.max(batchSeconds, seconds) > budget.seconds) {
+         break;
+      }
+      take(cost);
+      batchSeconds = Math.max(batchSeconds, seconds);
+      ++batchSize;
+      result.push({ ...item, priority });
+   }
+   return result;
+}
+
+export function formatPlanEstimate(estimate: IPlanEstimate): string {
+   const missing: string[] = [];
+   forEach(estimate.missing, (res, amount) => {
+      missing.push(`${formatNumber(amount)} ${Config.Material[res].name()}`);
+   });
+   return [
+      `${estimate.buildings} buildings`,
+      `cost ${formatNumber(getResourcesValue(estimate.cost))}`,
+      `~${formatHMS(estimate.seconds * 1000)}`,
+      ...(missing.length > 0 ? [`short of ${missing.join(", ")}`] : []),
+   ].join(", ");
+}
@@ -0,0 +1,156 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import { IsDeposit, type Deposit, type Material } from "../definitions/MaterialDefinitions";
+import { forEach, keysOf, type Tile } from "../utilities/Helper";
+import type { IGrid } from "../utilities/Grid";
+import { getBuildingThatExtract, hasRequiredDeposit, isTransportable } from "./BuildingLogic";
+import { Config } from "./Config";
+import type { GameState } from "./GameState";
+import { getGrid } from "./IntraTickCache";
+
+export interface IAutoLayoutSpec {
+   type: Building;
+   count: number;
+   level: number;
+}
+
+export interface IAutoLayoutPlacement {
+   tile: Tile;
+   type: Building;
+   level: number;
+   /** Index into the specs passed to `solveAutoLayout` */
+   spec: number;
+}
+
+export interface IAutoLayoutResult {
+   /** In the order they should be placed: extractors first, then by tier */
+   placements: IAutoLayoutPlacement[];
+   /** Buildings that found no tile, e.g. extractors without a matching deposit among the candidates */
+   unplaced: Map<Building, number>;
+   /** Summed transport distance from every placed building to its nearest supplier, weighted by input amount */
+   distance: number;
+}
+
+// Put on a tile whose deposit an extractor of the same plan could use instead. Larger than any distance
+const DEPOSIT_PENALTY = 10000;
+
+/**
+ * Lays out `specs` on `candidates` (empty tiles), greedily: every building goes to the tile with the lowest
+ * transport distance to its nearest supplier of each input, suppliers being the buildings already on the map
+ * (`buildingAt`) and the ones placed before it. Distances are tile distances, the same that transports take to
+ * travel. Extractors are placed first, on tiles with their deposit, and other buildings stay off the deposits
+ * those extractors could use.
+ */
+export function solveAutoLayout(
+   specs: IAutoLayoutSpec[],
+   candidates: Tile[],
+   buildingAt: (tile: Tile) => Building | undefined,
+   gs: GameState,
+): IAutoLayoutResult {
+   const grid = getGrid(gs);
+   const suppliers = new Map<Material, Tile[]>();
+   const consumers = new Map<Material, Tile[]>();
+   const addBuilding = (type: Building, tile: Tile) => {
+      const def = Config.Building[type];
+      forEach(def.output, (res) => {
+         if (isTransportable(res)) addTo(suppliers, res, tile);
+      });
+      forEach(def.input, (res) => {
+         if (isTransportable(res)) addTo(consumers, res, tile);
+      });
+   };
+   gs.tiles.forEach((_td, tile) => {
+      const type = buildingAt(tile);
+      if (type) addBuilding(type, tile);
+   });
+
+   const planTypes = new Set(specs.map((s) => s.type));
+   const reservedDeposits = new Set<Deposit>();
+   keysOf(IsDeposit).forEach((deposit) => {
+      const extractor = getBuildingThatExtract(deposit);
+      if (extractor && planTypes.has(extractor)) reservedDeposits.add(deposit);
+   });
+
+   const queue = specs
+      .map((s, index) => ({ ...s, index }))
+      .filter((s) => Config.Building[s.type] && s.count > 0)
+      .sort((a, b) => {
+         const extractorA = isExtractor(a.type) ? 0 : 1;
+         const extractorB = isExtractor(b.type) ? 0 : 1;
+         if (extractorA !== extractorB) return extractorA - extractorB;
+         return (Config.BuildingTier[a.type] ?? 0) - (Config.BuildingTier[b.type] ?? 0);
+      });
+
+   const free = new Set(candidates);
+   const placements: IAutoLayoutPlacement[] = [];
+   const unplaced = new Map<Building, number>();
+   for (const spec of queue) {
+      const def = Config.Building[spec.type];
+      for (let i = 0; i < spec.count; i++) {
+         let best: Tile | null = null;
+         let bestScore = Number.POSITIVE_INFINITY;
+         for (const tile of free) {
+            const td = gs.tiles.get(tile);
+            if (!td) continue;
+            let score = 0;
+            if (def.deposit) {
+               if (!hasRequiredDeposit(def.deposit, tile, gs)) continue;
+            } else if (keysOf(td.deposit).some((d) => td.deposit[d] && reservedDeposits.has(d))) {
+               score += DEPOSIT_PENALTY;
+            }
+            forEach(def.input, (res, amount) => {
+               score += amount * nearest(grid, suppliers.get(res), tile);
+            });
+            // Consumers are usually placed after their suppliers, this only matters for cycles and extractors
+            forEach(def.output, (res) => {
+               score += nearest(grid, consumers.get(res), tile);
+            });
+            if (score < bestScore) {
+               bestScore = score;
+               best = tile;
+            }
+         }
+         if (best === null) {
+            unplaced.set(spec.type, (unplaced.get(spec.type) ?? 0) + spec.count - i);
+            break;
+         }
+         free.delete(best);
+         addBuilding(spec.type, best);
+         placements.push({ tile: best, type: spec.type, level: spec.level, spec: spec.index });
+      }
+   }
+
+   let distance = 0;
+   for (const { tile, type } of placements) {
+      forEach(Config.Building[type].input, (res, amount) => {
+         distance += amount * nearest(grid, suppliers.get(res), tile);
+      });
+   }
+   return { placements, unplaced, distance };
+}
+
+function isExtractor(type: Building): boolean {
+   const deposit = Config.Building[type].deposit;
+   return !!deposit && keysOf(deposit).length > 0;
+}
+
+/**
+ * 0 if there is no such building at all: nothing can be gained by moving closer to it
+ */
+function nearest(grid: IGrid, tiles: Tile[] | undefined, to: Tile): number {
+   if (!tiles || tiles.length === 0) return 0;
+   let result = Number.POSITIVE_INFINITY;
+   for (const tile of tiles) {
+      const distance = grid.distanceTile(tile, to);
+      if (distance < result) result = distance;
+   }
+   return result;
+}
+
+function addTo<K>(map: Map<K, Tile[]>, key: K, tile: Tile): void {
+   const tiles = map.get(key);
+   if (tiles) {
+      tiles.push(tile);
+   } else {
+      map.set(key, [tile]);
+   }
+}
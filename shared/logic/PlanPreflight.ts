@@ -0,0 +1,103 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import type { Deposit } from "../definitions/MaterialDefinitions";
+import { keysOf, pointToTile, type IPointData } from "../utilities/Helper";
+import { checkBuildingMax } from "./BuildingLogic";
+import { Config } from "./Config";
+import type { GameState } from "./GameState";
+import { unlockedBuildings } from "./IntraTickCache";
+import { getRevealedDeposits } from "./ResourceLogic";
+import { getBuildingUnlockTech } from "./TechLogic";
+
+export interface IPlanPreflightSpec {
+   type: Building;
+   requested: number;
+   /** How many the plan would actually place, given the empty tiles left by the specs before it */
+   expected: number;
+   /** Why the spec falls short or would place buildings that cannot work, empty if everything is fine */
+   problems: string[];
+}
+
+export interface IPlanPreflightReport {
+   specs: IPlanPreflightSpec[];
+   emptyTiles: number;
+}
+
+/**
+ * Checks `specs` against the area they are about to be placed in, without changing anything. Specs are assumed
+ * to fill `coords` in order, each taking the next empty tiles, the way the plan helpers in davescripts2 do.
+ * `reservedTiles` empty tiles are taken before the first spec (e.g. for a power plant).
+ */
+export function preflightBuildingPlan(
+   specs: { type: Building; count: number }[],
+   coords: IPointData[],
+   gs: GameState,
+   reservedTiles = 0,
+): IPlanPreflightReport {
+   const unlocked = unlockedBuildings(gs);
+   const revealed = new Set(getRevealedDeposits(gs));
+   const empty = coords
+      .map((point) => gs.tiles.get(pointToTile(point)))
+      .filter((tile) => tile && !tile.building);
+   const existing = new Map<Building, number>();
+   gs.tiles.forEach((tile) => {
+      if (tile.building) {
+         existing.set(tile.building.type, (existing.get(tile.building.type) ?? 0) + 1);
+      }
+   });
+
+   let cursor = Math.min(reservedTiles, empty.length);
+   const result: IPlanPreflightSpec[] = specs.map(({ type, count }) => {
+      const problems: string[] = [];
+      const def = Config.Building[type];
+      if (!def) {
+         return { type, requested: count, expected: 0, problems: ["unknown building"] };
+      }
+      if (!unlocked[type]) {
+         problems.push(lockedReason(type));
+      }
+      if (!checkBuildingMax(type, gs)) {
+         problems.push(`already at the maximum of ${def.max}`);
+      } else if (def.max !== undefined && count > def.max - (existing.get(type) ?? 0)) {
+         problems.push(`only ${def.max - (existing.get(type) ?? 0)} more allowed`);
+      }
+
+      const expected = Math.min(count, empty.length - cursor);
+      const taken = empty.slice(cursor, cursor + expected);
+      cursor += expected;
+      if (expected < count) {
+         problems.push(`only ${expected} empty tiles left in the area`);
+      }
+
+      keysOf(def.deposit ?? {}).forEach((deposit: Deposit) => {
+         const name = Config.Material[deposit].name();
+         if (!revealed.has(deposit)) {
+            problems.push(`${name} deposit is not revealed yet`);
+            return;
+         }
+         const onDeposit = taken.filter((tile) => tile?.deposit[deposit]).length;
+         if (onDeposit < expected) {
+            problems.push(`${name} deposit not found on ${expected - onDeposit} of its tiles`);
+         }
+      });
+      return { type, requested: count, expected, problems };
+   });
+   return { specs: result, emptyTiles: empty.length };
+}
+
+function lockedReason(type: Building): string {
+   try {
+      return `locked, requires ${Config.Tech[getBuildingUnlockTech(type)].name()}`;
+   } catch (error) {
+      // Not unlocked by any tech, e.g. buildings that come from upgrades
+      return "locked";
+   }
+}
+
+export function hasPreflightProblems(report: IPlanPreflightReport): boolean {
+   return report.specs.some((spec) => spec.problems.length > 0);
+}
+
+/**
+ * Thrown when the player aborts a plan after seeing its preflight report.
+ */
+export class PlanPreflightAbortedError extends Error {}
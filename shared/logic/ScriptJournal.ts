@@ -0,0 +1,125 @@
+import type { Tile } from "../utilities/Helper";
+import type { GameState } from "./GameState";
+import { getGameState } from "./GameStateLogic";
+import type { IBuildingData, ITileData } from "./Tile";
+import { notifyTileChanged } from "./Update";
+
+/**
+ * Scripted bulk edits (Dave's Scripts, building plans) record the building each tile had before the script
+ * first touched it, so the whole script can be undone. Entries are stored in the save: an entry that is still
+ * open when the game loads means the game was closed mid-script, and it is rolled back.
+ */
+export interface IScriptJournalEntry {
+   name: string;
+   startedAt: number;
+   completed: boolean;
+   /** `null` means the tile was empty */
+   tiles: Map<Tile, IBuildingData | null>;
+}
+
+export const SCRIPT_JOURNAL_MAX_ENTRIES = 5;
+
+let _depth = 0;
+
+/**
+ * Run `fn` as one undoable step. Nested calls (e.g. a script calling `doBuildingPlan`) join the outermost step.
+ * A script that throws still completes its entry, so whatever it did before failing can be undone.
+ */
+export async function runJournaled<T>(
+   name: string,
+   fn: () => Promise<T> | T,
+   gs = getGameState(),
+): Promise<T> {
+   if (_depth === 0) {
+      gs.scriptJournal.push({ name, startedAt: Date.now(), completed: false, tiles: new Map() });
+      while (gs.scriptJournal.length > SCRIPT_JOURNAL_MAX_ENTRIES) {
+         gs.scriptJournal.shift();
+      }
+   }
+   ++_depth;
+   try {
+      return await fn();
+   } finally {
+      --_depth;
+      const entry = gs.scriptJournal[gs.scriptJournal.length - 1];
+      if (_depth === 0 && entry) {
+         entry.completed = true;
+         if (entry.tiles.size === 0) {
+            gs.scriptJournal.pop();
+         }
+      }
+   }
+}
+
+/**
+ * Scripts must change `td.building` through here. Outside of `runJournaled` nothing is recorded.
+ */
+export function setTileBuilding(
+   td: ITileData,
+   building: IBuildingData | undefined,
+   gs = getGameState(),
+): void {
+   const entry = gs.scriptJournal[gs.scriptJournal.length - 1];
+   if (_depth > 0 && entry && !entry.completed && !entry.tiles.has(td.tile)) {
+      entry.tiles.set(td.tile, td.building ? structuredClone(td.building) : null);
+   }
+   if (building) {
+      td.building = building;
+   } else {
+      delete td.building;
+   }
+   notifyTileChanged(td.tile);
+}
+
+export function getLastScriptJournal(gs: GameState): IScriptJournalEntry | undefined {
+   const entry = gs.scriptJournal[gs.scriptJournal.length - 1];
+   return entry?.completed ? entry : undefined;
+}
+
+/**
+ * Restore every tile touched by the last completed script. Returns the undone entry.
+ */
+export function undoLastScript(gs: GameState): IScriptJournalEntry | undefined {
+   if (_depth > 0) {
+      throw new Error("Cannot undo while a script is running");
+   }
+   const entry = getLastScriptJournal(gs);
+   if (!entry) {
+      return undefined;
+   }
+   gs.scriptJournal.pop();
+   restoreTiles(entry, gs);
+   return entry;
+}
+
+/**
+ * Called on load: roll back scripts that never completed because the game was closed or crashed mid-script.
+ */
+export function rollbackInterruptedScripts(gs: GameState): IScriptJournalEntry[] {
+   const rolledBack: IScriptJournalEntry[] = [];
+   for (let i = gs.scriptJournal.length - 1; i >= 0; i--) {
+      const entry = gs.scriptJournal[i];
+      if (entry.completed) {
+         continue;
+      }
+      gs.scriptJournal.splice(i, 1);
+      restoreTiles(entry, gs);
+      rolledBack.push(entry);
+   }
+   return rolledBack;
+}
+
+function restoreTiles(entry: IScriptJournalEntry, gs: GameState): void {
+   entry.tiles.forEach((building, xy) => {
+      const td = gs.tiles.get(xy);
+      if (!td) {
+         return;
+      }
+      if (building) {
+         td.building = structuredClone(building);
+      } else {
+         delete td.building;
+      }
+      notifyTileChanged(xy);
+   });
+}
@@ -0,0 +1,234 @@
+import { GreatPersonTickFlag } from "../definitions/GreatPersonDefinitions";
+import { forEach, safeAdd, type Tile } from "../utilities/Helper";
+import { L, t } from "../utilities/i18n";
+import type { Disposable } from "../utilities/TypedEvent";
+import { TypedEvent } from "../utilities/TypedEvent";
+import { OnTileExplored, getScienceFromWorkers } from "./BuildingLogic";
+import { Config } from "./Config";
+import { ValueToTrack, type GameState, type SavedGame } from "./GameState";
+import { getGameOptions, savedGame } from "./GameStateLogic";
+import { calculateHappiness } from "./HappinessLogic";
+import { clearIntraTickCache, clearTickCache } from "./IntraTickCache";
+import { getGreatPeopleForWisdom, getGreatPersonThisRunLevel } from "./RebirthLogic";
+import { RequestResetTile } from "./TechLogic";
+import { EmptyTickData, Tick, freezeTickData } from "./TickLogic";
+import { beginProfile, endProfilePhase, recordProfiledTick } from "./TickProfiler";
+import { Transports } from "./Transports";
+import {
+   OnBuildingComplete,
+   OnBuildingOrUpgradeComplete,
+   OnBuildingProductionComplete,
+   OnPriceUpdated,
+   RequestChooseGreatPerson,
+   clearTransportSourceCache,
+   getSortedTiles,
+   tickPower,
+   tickPrice,
+   tickTransports,
+   tickUnlockable,
+   transportAndConsumeResources,
+   type IProduceResource,
+} from "./Update";
+
+/**
+ * First half of a tick: publishes `Tick.next` as `Tick.current`, then ticks everything that is not a tile. After
+ * this, every tile has to go through `transportAndConsumeResources` before `endTick` is called.
+ */
+export function beginTick(gs: GameState, tick: number, now = Date.now()): void {
+   Tick.next.tick = tick;
+   Tick.current = freezeTickData(Tick.next);
+   Tick.next = EmptyTickData();
+   clearTickCache();
+
+   let start = beginProfile();
+   forEach(gs.unlockedTech, (tech) => {
+      const td = Config.Tech[tech];
+      tickUnlockable(td, t(L.SourceResearch, { tech: td.name() }), gs);
+   });
+   endProfilePhase("tickUnlockable", start);
+
+   start = beginProfile();
+
+   forEach(gs.greatPeople, (person, level) => {
+      const greatPerson = Config.GreatPerson[person];
+      greatPerson.tick(
+         person,
+         getGreatPersonThisRunLevel(level),
+         t(L.SourceGreatPerson, { person: greatPerson.name() }),
+         GreatPersonTickFlag.None,
+      );
+   });
+
+   const options = getGameOptions();
+
+   forEach(options.greatPeople, (person, v) => {
+      const greatPerson = Config.GreatPerson[person];
+      greatPerson.tick(
+         person,
+         v.level,
+         t(L.SourceGreatPersonPermanent, { person: greatPerson.name() }),
+         GreatPersonTickFlag.None,
+      );
+   });
+
+   forEach(options.ageWisdom, (age, level) => {
+      getGreatPeopleForWisdom(age).forEach((gp) => {
+         const greatPerson = Config.GreatPerson[gp];
+         greatPerson.tick(
+            gp,
+            level,
+            t(L.AgeWisdomSource, { age: Config.TechAge[age].name(), person: greatPerson.name() }),
+            GreatPersonTickFlag.None,
+         );
+      });
+   });
+   endProfilePhase("greatPeople", start);
+
+   start = beginProfile();
+   tickPrice(gs, now);
+   endProfilePhase("tickPrice", start);
+
+   start = beginProfile();
+   tickTransports(gs);
+   endProfilePhase("tickTransports", start);
+}
+
+/**
+ * Second half of a tick, once every tile has been ticked: stores what the tiles produced and advances `gs.tick`
+ */
+export function endTick(gs: GameState, resourceProduced: IProduceResource[]): void {
+   for (const a of resourceProduced) {
+      const storage = gs.tiles.get(a.xy)?.building?.resources;
+      if (storage) {
+         safeAdd(storage, a.resource, a.amount);
+      }
+   }
+   resourceProduced.length = 0;
+
+   let start = beginProfile();
+   tickPower(gs);
+   endProfilePhase("tickPower", start);
+
+   start = beginProfile();
+   Tick.next.happiness = calculateHappiness(gs);
+   endProfilePhase("calculateHappiness", start);
+
+   const { scienceFromWorkers } = getScienceFromWorkers(gs);
+   const hq = Tick.current.specialBuildings.get("Headquarter")?.building.resources;
+   if (hq) {
+      safeAdd(hq, "Science", scienceFromWorkers);
+   }
+
+   let tracker = gs.valueTrackers.get(ValueToTrack.EmpireValue);
+   if (!tracker) {
+      tracker = { accumulated: 0, history: [] };
+      gs.valueTrackers.set(ValueToTrack.EmpireValue, tracker);
+   }
+   // Here we use Tick.next, make sure this is the last code before we increase the tick
+   tracker.accumulated += Tick.next.totalValue;
+   if (gs.tick % 3600 === 0) {
+      tracker.history.push(tracker.accumulated / 3600);
+      tracker.accumulated = 0;
+   }
+   gs.valueTrackers.set(ValueToTrack.EmpireValue, tracker);
+
+   recordProfiledTick();
+   ++gs.tick;
+}
+
+/**
+ * A whole tick the way offline production runs it, all tiles at once, and one more second of play for `gs`. Unlike
+ * the client's tick, it records no statistics and does not count against the wall clock, so it can also run a copy
+ * of the game
+ */
+export function runTick(
+   gs: GameState,
+   tick: number,
+   resourceProduced: IProduceResource[],
+   now = Date.now(),
+): void {
+   beginTick(gs, tick, now);
+   for (const [xy] of getSortedTiles(gs)) {
+      transportAndConsumeResources(xy, resourceProduced, gs, true);
+   }
+   endTick(gs, resourceProduced);
+   ++gs.seconds;
+}
+
+export type SimulationEvent =
+   | { type: "buildingComplete"; xy: Tile }
+   | { type: "buildingOrUpgradeComplete"; xy: Tile }
+   | { type: "productionComplete"; xy: Tile }
+   | { type: "tileExplored"; xy: Tile }
+   | { type: "resetTile"; xy: Tile }
+   | { type: "priceUpdated" }
+   | { type: "chooseGreatPerson"; permanent: boolean };
+
+/**
+ * Runs the tick loop of a save without a renderer, UI or server, for benchmarks, tests and Node scripts. Ticks are
+ * run the way offline production runs them, all tiles at once, and the clock is simulated: every tick is exactly
+ * one second after the one before, starting at `startTime`. The same save therefore always ends up in the same
+ * state.
+ *
+ * What the client does in response to game events (modals, sounds, and the building effects in
+ * src/scripts/logic/OnProductionComplete.tsx) does not happen here. Instead, the events are emitted on `onEvent`,
+ * tagged with the tick they happened in.
+ *
+ * The tick loop works on the global save (`savedGame`, `Tick`, `Transports`), so loading a simulation replaces it
+ * and only one simulation can run at a time.
+ */
+export class Simulation {
+   readonly onEvent = new TypedEvent<SimulationEvent & { tick: number }>();
+
+   private readonly _resourceProduced: IProduceResource[] = [];
+   private readonly _subscriptions: Disposable[];
+   private _now: number;
+   private _ticks = 0;
+
+   constructor(save: SavedGame, startTime = 0) {
+      Object.assign(savedGame, save);
+      Transports.length = 0;
+      clearTransportSourceCache();
+      clearIntraTickCache();
+      Tick.current = EmptyTickData();
+      Tick.next = EmptyTickData();
+      this._now = startTime;
+
+      const emit = (event: SimulationEvent) => this.onEvent.emit({ ...event, tick: this.gameState.tick });
+      this._subscriptions = [
+         OnBuildingComplete.on((xy) => emit({ type: "buildingComplete", xy })),
+         OnBuildingOrUpgradeComplete.on((xy) => emit({ type: "buildingOrUpgradeComplete", xy })),
+         OnBuildingProductionComplete.on(({ xy }) => emit({ type: "productionComplete", xy })),
+         OnTileExplored.on((xy) => emit({ type: "tileExplored", xy })),
+         RequestResetTile.on((xy) => emit({ type: "resetTile", xy })),
+         OnPriceUpdated.on(() => emit({ type: "priceUpdated" })),
+         RequestChooseGreatPerson.on(({ permanent }) => emit({ type: "chooseGreatPerson", permanent })),
+      ];
+   }
+
+   get gameState(): GameState {
+      return savedGame.current;
+   }
+
+   /** Simulated time of the next tick */
+   get now(): number {
+      return this._now;
+   }
+
+   /** Ticks run by this simulation so far */
+   get ticks(): number {
+      return this._ticks;
+   }
+
+   step(ticks = 1): void {
+      for (let i = 0; i < ticks; i++) {
+         runTick(this.gameState, ++this._ticks, this._resourceProduced, this._now);
+         this._now += 1000;
+      }
+   }
+
+   dispose(): void {
+      this._subscriptions.forEach((s) => s.dispose());
+      this._subscriptions.length = 0;
+   }
+}
@@ -0,0 +1,189 @@
+import type { Material } from "../definitions/MaterialDefinitions";
+import type { GameState } from "./GameState";
+import { getResourceIO } from "./IntraTickCache";
+import { Tick } from "./TickLogic";
+
+/**
+ * Named values recorded once per tick, e.g. `EmpireValue` or `Produce.Wheat`. Series that are missing from a sample
+ * count as 0, so per-material series only take space once the material shows up.
+ */
+export type StatSample = Record<string, number>;
+
+export const StatSeriesKeys = {
+   EmpireValue: "EmpireValue",
+   Science: "Science",
+   Workers: "Workers",
+   WorkersBusy: "WorkersBusy",
+   Happiness: "Happiness",
+   Electrified: "Electrified",
+   NotEnoughPower: "NotEnoughPower",
+} as const;
+
+export function produceKey(res: Material): string {
+   return `Produce.${res}`;
+}
+
+export function consumeKey(res: Material): string {
+   return `Consume.${res}`;
+}
+
+/**
+ * - `minute`: one point per minute (60 ticks) for the last day
+ * - `hour`: one point per hour for the last 30 days
+ * - `run`: one point per run, the current one included, for all of them
+ *
+ * Every point is the average of the ticks it covers.
+ */
+export const StatTiers = {
+   minute: { ticks: 60, capacity: 24 * 60 },
+   hour: { ticks: 60 * 60, capacity: 30 * 24 },
+} as const;
+export type StatTier = keyof typeof StatTiers | "run";
+
+export interface IStatColumns {
+   /** Ticks since recording started, across runs, at the end of each point. For the `run` tier, run length */
+   x: number[];
+   values: Record<string, number[]>;
+}
+
+interface IStatBucket {
+   ticks: number;
+   sums: StatSample;
+}
+
+export interface IStatSeries {
+   /** `GameState.id` of the run being recorded */
+   runId: string;
+   ticks: number;
+   minute: IStatColumns;
+   hour: IStatColumns;
+   /** Runs are added when they end, the current run is only in `pending.run` */
+   run: IStatColumns & { ids: string[] };
+   pending: Record<StatTier, IStatBucket>;
+}
+
+export function makeStatSeries(runId: string): IStatSeries {
+   return {
+      runId,
+      ticks: 0,
+      minute: { x: [], values: {} },
+      hour: { x: [], values: {} },
+      run: { x: [], values: {}, ids: [] },
+      pending: {
+         minute: { ticks: 0, sums: {} },
+         hour: { ticks: 0, sums: {} },
+         run: { ticks: 0, sums: {} },
+      },
+   };
+}
+
+export function collectStatSample(gs: GameState): StatSample {
+   const sample: StatSample = {
+      [StatSeriesKeys.EmpireValue]: Tick.current.totalValue,
+      [StatSeriesKeys.Science]:
+         Tick.current.specialBuildings.get("Headquarter")?.building.resources.Science ?? 0,
+      [StatSeriesKeys.Workers]: Tick.current.workersAvailable.get("Worker") ?? 0,
+      [StatSeriesKeys.WorkersBusy]: Tick.current.workersUsed.get("Worker") ?? 0,
+      [StatSeriesKeys.Happiness]: Tick.current.happiness?.value ?? 0,
+      [StatSeriesKeys.Electrified]: Tick.current.electrified.size,
+      [StatSeriesKeys.NotEnoughPower]: Tick.current.notEnoughPower.size,
+   };
+   const { actualInput, actualOutput } = getResourceIO(gs);
+   actualOutput.forEach((amount, res) => {
+      sample[produceKey(res)] = amount;
+   });
+   actualInput.forEach((amount, res) => {
+      sample[consumeKey(res)] = amount;
+   });
+   return sample;
+}
+
+/**
+ * Records one tick of `runId`. A different `runId` than the last sample closes the run before it.
+ */
+export function addStatSample(series: IStatSeries, runId: string, sample: StatSample): void {
+   if (runId !== series.runId) {
+      if (series.pending.run.ticks > 0) {
+         flush(series.run, series.pending.run);
+         series.run.ids.push(series.runId);
+      }
+      series.runId = runId;
+   }
+   ++series.ticks;
+   for (const tier of ["minute", "hour", "run"] as const) {
+      const bucket = series.pending[tier];
+      ++bucket.ticks;
+      for (const key in sample) {
+         bucket.sums[key] = (bucket.sums[key] ?? 0) + sample[key];
+      }
+   }
+   for (const tier of ["minute", "hour"] as const) {
+      const bucket = series.pending[tier];
+      if (bucket.ticks >= StatTiers[tier].ticks) {
+         flush(series[tier], bucket, series.ticks);
+         trim(series[tier], StatTiers[tier].capacity);
+      }
+   }
+}
+
+/**
+ * Points of `key` in `tier`, as `[x, y]`. For the `run` tier, the current run is included as the last point.
+ */
+export function getStatSeries(series: IStatSeries, tier: StatTier, key: string): [number[], number[]] {
+   const columns = series[tier];
+   const x = columns.x.slice();
+   const y = columns.values[key]?.slice() ?? x.map(() => 0);
+   if (tier === "run" && series.pending.run.ticks > 0) {
+      x.push(series.pending.run.ticks);
+      y.push((series.pending.run.sums[key] ?? 0) / series.pending.run.ticks);
+   }
+   return [x, y];
+}
+
+export function getStatSeriesKeys(series: IStatSeries): string[] {
+   const keys = new Set<string>();
+   for (const tier of ["minute", "hour", "run"] as const) {
+      Object.keys(series[tier].values).forEach((key) => keys.add(key));
+      Object.keys(series.pending[tier].sums).forEach((key) => keys.add(key));
+   }
+   return Array.from(keys).sort();
+}
+
+/**
+ * `keys` of `tier` as CSV, one row per point from the `from`th on, starting with the x value
+ */
+export function statSeriesToCsv(series: IStatSeries, tier: StatTier, keys: string[], from = 0): string {
+   const columns = keys.map((key) => getStatSeries(series, tier, key));
+   const [x] = columns[0] ?? getStatSeries(series, tier, "");
+   const rows = [[tier === "run" ? "RunTicks" : "Tick", ...keys].join(",")];
+   for (let i = from; i < x.length; i++) {
+      rows.push([x[i], ...columns.map(([, y]) => y[i])].join(","));
+   }
+   return rows.join("\n");
+}
+
+function flush(columns: IStatColumns, bucket: IStatBucket, x = bucket.ticks): void {
+   const index = columns.x.length;
+   columns.x.push(x);
+   for (const key in bucket.sums) {
+      if (!columns.values[key]) {
+         columns.values[key] = new Array(index).fill(0);
+      }
+   }
+   for (const key in columns.values) {
+      columns.values[key].push((bucket.sums[key] ?? 0) / bucket.ticks);
+   }
+   bucket.ticks = 0;
+   bucket.sums = {};
+}
+
+function trim(columns: IStatColumns, capacity: number): void {
+   const excess = columns.x.length - capacity;
+   if (excess <= 0) {
+      return;
+   }
+   columns.x.splice(0, excess);
+   for (const key in columns.values) {
+      columns.values[key].splice(0, excess);
+   }
+}
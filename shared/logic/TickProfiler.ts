@@ -0,0 +1,163 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+
+/**
+ * Named after the function that is measured. Phases can be nested: `intraTickCache` is also counted in the phase
+ * that needed the cache, and `transportAndConsumeResources` is the sum of all building types.
+ */
+export type TickPhase =
+   | "tickUnlockable"
+   | "greatPeople"
+   | "tickPrice"
+   | "tickTransports"
+   | "getSortedTiles"
+   | "transportAndConsumeResources"
+   | "tickPower"
+   | "calculateHappiness"
+   | "intraTickCache"
+   | "sceneUpdate";
+
+/** Ticks kept in `IProfileStat.recent` */
+export const ProfileRecentTicks = 60;
+
+export interface IProfileStat {
+   /** Times measured, over all ticks */
+   calls: number;
+   /** In milliseconds, over all ticks */
+   total: number;
+   /** The slowest tick, in milliseconds */
+   max: number;
+   /** Milliseconds per tick, oldest first */
+   recent: number[];
+}
+
+export interface ITickProfile {
+   startedAt: number;
+   /** Ticks recorded */
+   ticks: number;
+   phases: Map<TickPhase, IProfileStat>;
+   buildings: Map<Building, IProfileStat>;
+}
+
+export function makeTickProfile(): ITickProfile {
+   return { startedAt: Date.now(), ticks: 0, phases: new Map(), buildings: new Map() };
+}
+
+let profiler: ITickProfile | null = null;
+// Time spent in the tick that has not ended yet. An online tick spreads its tiles over frames, so this is only
+// flushed once the whole tick is done
+const currentPhases = new Map<TickPhase, number>();
+const currentBuildings = new Map<Building, number>();
+
+/**
+ * Ticks are only profiled while a profiler is set. Returns the one it replaces
+ */
+export function setTickProfiler(profile: ITickProfile | null): ITickProfile | null {
+   const previous = profiler;
+   profiler = profile;
+   currentPhases.clear();
+   currentBuildings.clear();
+   return previous;
+}
+
+export function getTickProfiler(): ITickProfile | null {
+   return profiler;
+}
+
+/**
+ * Returns the time to pass to `endProfilePhase`/`endProfileBuilding`, or 0 when nothing is profiled
+ */
+export function beginProfile(): number {
+   return profiler ? performance.now() : 0;
+}
+
+export function endProfilePhase(phase: TickPhase, start: number): void {
+   if (!profiler) {
+      return;
+   }
+   addTime(profiler.phases, currentPhases, phase, performance.now() - start);
+}
+
+export function endProfileBuilding(building: Building, start: number): void {
+   if (!profiler) {
+      return;
+   }
+   addTime(profiler.buildings, currentBuildings, building, performance.now() - start);
+}
+
+function addTime<K>(stats: Map<K, IProfileStat>, current: Map<K, number>, key: K, time: number): void {
+   let stat = stats.get(key);
+   if (!stat) {
+      stat = { calls: 0, total: 0, max: 0, recent: [] };
+      stats.set(key, stat);
+   }
+   ++stat.calls;
+   stat.total += time;
+   current.set(key, (current.get(key) ?? 0) + time);
+}
+
+/**
+ * Called by `endTick`, once everything of the tick has been measured
+ */
+export function recordProfiledTick(): void {
+   if (!profiler) {
+      return;
+   }
+   ++profiler.ticks;
+   flushTick(profiler.phases, currentPhases);
+   flushTick(profiler.buildings, currentBuildings);
+}
+
+function flushTick<K>(stats: Map<K, IProfileStat>, current: Map<K, number>): void {
+   stats.forEach((stat, key) => {
+      const time = current.get(key) ?? 0;
+      stat.max = Math.max(stat.max, time);
+      stat.recent.push(time);
+      if (stat.recent.length > ProfileRecentTicks) {
+         stat.recent.shift();
+      }
+   });
+   current.clear();
+}
+
+export interface IProfileTraceStat {
+   calls: number;
+   total: number;
+   /** Milliseconds per tick */
+   mean: number;
+   max: number;
+   recent: number[];
+}
+
+/**
+ * Plain data, to be saved as JSON and compared with another trace
+ */
+export interface ITickProfileTrace {
+   startedAt: number;
+   endedAt: number;
+   ticks: number;
+   phases: Partial<Record<TickPhase, IProfileTraceStat>>;
+   buildings: Partial<Record<Building, IProfileTraceStat>>;
+}
+
+export function makeTickProfileTrace(profile: ITickProfile): ITickProfileTrace {
+   const toTrace = <K extends string>(stats: Map<K, IProfileStat>) => {
+      const result: Partial<Record<K, IProfileTraceStat>> = {};
+      stats.forEach((stat, key) => {
+         result[key] = {
+            calls: stat.calls,
+            total: stat.total,
+            mean: profile.ticks > 0 ? stat.total / profile.ticks : 0,
+            max: stat.max,
+            recent: stat.recent.slice(),
+         };
+      });
+      return result;
+   };
+   return {
+      startedAt: profile.startedAt,
+      endedAt: Date.now(),
+      ticks: profile.ticks,
+      phases: toTrace(profile.phases),
+      buildings: toTrace(profile.buildings),
+   };
+}
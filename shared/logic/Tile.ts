@@ -12,7 +12,6 @@ import { L, t } from "../utilities/i18n";
 import { Config } from "./Config";
 import type { GameState } from "./GameState";
 import { getCitySize } from "./IntraTickCache";
-import { clearTransportSourceCache } from "./Update";
 
 export interface ITileData {
    tile: Tile;
@@ -357,7 +356,6 @@ export function makeBuilding(data: Pick<IBuildingData, "type"> & Partial<IBuildi
    building.stockpileMax = clamp(building.stockpileMax, STOCKPILE_MAX_MIN, STOCKPILE_MAX_MAX);
    building.productionPriority = clamp(building.productionPriority, PRIORITY_MIN, PRIORITY_MAX);
    building.constructionPriority = clamp(building.constructionPriority, PRIORITY_MIN, PRIORITY_MAX);
-   clearTransportSourceCache();
    return building;
 }
 
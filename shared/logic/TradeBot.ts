@@ -0,0 +1,238 @@
+import type { Material } from "../definitions/MaterialDefinitions";
+import type { IAddTradeRequest, IClientTrade, IUser } from "../utilities/Database";
+import { clamp, forEach, safeAdd } from "../utilities/Helper";
+import type { PartialTabulate } from "../utilities/TypeDefinitions";
+import { Config } from "./Config";
+import {
+   getBuyAmountRange,
+   getMaxActiveTrades,
+   getTradePercentage,
+   getUserTradePriceRange,
+} from "./PlayerTradeLogic";
+
+export interface IStockBand {
+   min: number;
+   max: number;
+}
+
+/**
+ * The trade bot keeps the stock of each material in the trade buildings within a band: it sells what is above
+ * the band and buys what is below it, by filling open trades first and posting trades for what is left.
+ * Materials without a band are never traded
+ */
+export interface ITradeBotOptions {
+   /** The kill switch, nothing is posted, filled or cancelled while it is off */
+   enabled: boolean;
+   bands: Partial<Record<Material, IStockBand>>;
+   /** How much more than the fair price posted trades ask for, clamped to the price range of the account */
+   postPremium: number;
+   /** The discount against the fair price, after tariff, an open trade must give to be filled */
+   fillDiscount: number;
+   /** Trades posted by the bot are cancelled when they are still open after this many seconds */
+   staleSeconds: number;
+   intervalSeconds: number;
+}
+
+export interface ITradeBotState {
+   /** Open trades the bot has posted, with the time they were first seen on the board */
+   trades: Map<string, number>;
+   /** Trades the bot has posted that are not on the board yet, with the time they were posted */
+   posted: { trade: IAddTradeRequest; postedAt: number }[];
+}
+
+export type TradeBotAction = "post" | "fill" | "cancel";
+
+export interface ITradeBotLogEntry {
+   time: number;
+   action: TradeBotAction;
+   /** For fills, the amounts that have changed hands */
+   trade: IAddTradeRequest;
+   /** Set if the action has failed */
+   error?: string;
+}
+
+export const TRADE_BOT_LOG_MAX_ENTRIES = 100;
+
+export function addTradeBotLog(log: ITradeBotLogEntry[], entry: ITradeBotLogEntry): void {
+   log.unshift(entry);
+   log.length = Math.min(log.length, TRADE_BOT_LOG_MAX_ENTRIES);
+}
+
+/**
+ * Positive for materials above their band, negative for materials below it. `incoming` is what open trades of
+ * the player will bring in once filled, it counts as stock
+ */
+export function getStockGaps(
+   options: ITradeBotOptions,
+   stock: PartialTabulate<Material>,
+   incoming: PartialTabulate<Material> = {},
+): PartialTabulate<Material> {
+   const result: PartialTabulate<Material> = {};
+   forEach(options.bands, (res, band) => {
+      const amount = (stock[res] ?? 0) + (incoming[res] ?? 0);
+      if (amount > band.max) {
+         result[res] = amount - band.max;
+      } else if (amount < band.min) {
+         result[res] = amount - band.min;
+      }
+   });
+   return result;
+}
+
+export function getIncomingResources(trades: IAddTradeRequest[]): PartialTabulate<Material> {
+   const result: PartialTabulate<Material> = {};
+   trades.forEach((trade) => safeAdd(result, trade.buyResource, trade.buyAmount));
+   return result;
+}
+
+/**
+ * Trades the bot has posted show up on the board with an id. Matches them up, and forgets trades that have left
+ * the board, filled or cancelled. A post that has not shown up by the time it would be stale has been rejected
+ */
+export function updateTradeBotState(
+   state: ITradeBotState,
+   options: ITradeBotOptions,
+   myTrades: IClientTrade[],
+   now = Date.now(),
+): void {
+   const open = new Set(myTrades.map((trade) => trade.id));
+   for (const id of state.trades.keys()) {
+      if (!open.has(id)) {
+         state.trades.delete(id);
+      }
+   }
+   myTrades.forEach((trade) => {
+      if (state.trades.has(trade.id)) {
+         return;
+      }
+      const index = state.posted.findIndex(
+         ({ trade: p }) =>
+            p.buyResource === trade.buyResource &&
+            p.buyAmount === trade.buyAmount &&
+            p.sellResource === trade.sellResource &&
+            p.sellAmount === trade.sellAmount,
+      );
+      if (index >= 0) {
+         state.posted.splice(index, 1);
+         state.trades.set(trade.id, now);
+      }
+   });
+   state.posted = state.posted.filter((p) => now - p.postedAt < options.staleSeconds * 1000);
+}
+
+export function getStaleTrades(state: ITradeBotState, options: ITradeBotOptions, now = Date.now()): string[] {
+   const result: string[] = [];
+   state.trades.forEach((seenAt, id) => {
+      if (now - seenAt >= options.staleSeconds * 1000) {
+         result.push(id);
+      }
+   });
+   return result;
+}
+
+/**
+ * Open trades of other players that sell a material below its band for one above it, at a discount of at least
+ * `fillDiscount` before tariff, best discount first. Tariff only lowers the discount, check it again with
+ * `getFillDiscount` once the path is known
+ */
+export function getFillCandidates(
+   options: ITradeBotOptions,
+   gaps: PartialTabulate<Material>,
+   trades: IClientTrade[],
+   user: IUser,
+): IClientTrade[] {
+   return trades
+      .filter(
+         (trade) =>
+            trade.status === "open" &&
+            trade.fromId !== user.userId &&
+            (gaps[trade.sellResource] ?? 0) < 0 &&
+            (gaps[trade.buyResource] ?? 0) > 0 &&
+            getTradePercentage(trade) >= options.fillDiscount,
+      )
+      .sort((a, b) => getTradePercentage(b) - getTradePercentage(a));
+}
+
+/**
+ * The discount against the fair price the filler gets once `tariff` is taken from what they receive
+ */
+export function getFillDiscount(trade: IAddTradeRequest, tariff: number): number {
+   if (tariff >= 1) {
+      return Number.NEGATIVE_INFINITY;
+   }
+   return 1 - (1 - getTradePercentage(trade)) / (1 - tariff);
+}
+
+/**
+ * How much of `trade.buyResource` to pay: no more than the surplus of it, and no more than it takes to bring the
+ * material received back into its band
+ */
+export function getFillAmount(
+   trade: IAddTradeRequest,
+   gaps: PartialTabulate<Material>,
+   tariff: number,
+): number {
+   const surplus = Math.max(gaps[trade.buyResource] ?? 0, 0);
+   const deficit = Math.max(-(gaps[trade.sellResource] ?? 0), 0);
+   const needed = (deficit * trade.buyAmount) / (trade.sellAmount * (1 - tariff));
+   return clamp(Math.min(surplus, needed), 0, trade.buyAmount);
+}
+
+/**
+ * Pairs the largest surplus with the largest deficit, by value, until one side runs out or every trade slot of
+ * the account is taken. `activeTrades` counts the open trades of the player, including the ones the bot has not
+ * posted
+ */
+export function planTradePosts(
+   options: ITradeBotOptions,
+   gaps: PartialTabulate<Material>,
+   user: IUser,
+   activeTrades: number,
+): IAddTradeRequest[] {
+   const price = (res: Material) => Config.MaterialPrice[res] ?? 0;
+   const surplus: [Material, number][] = [];
+   const deficit: [Material, number][] = [];
+   forEach(gaps, (res, gap) => {
+      if (price(res) <= 0) {
+         return;
+      }
+      if (gap > 0) {
+         surplus.push([res, gap * price(res)]);
+      } else if (gap < 0) {
+         deficit.push([res, -gap * price(res)]);
+      }
+   });
+   surplus.sort((a, b) => b[1] - a[1]);
+   deficit.sort((a, b) => b[1] - a[1]);
+
+   const range = getUserTradePriceRange(user);
+   const premium = clamp(options.postPremium, -range, range);
+   const result: IAddTradeRequest[] = [];
+   let slots = getMaxActiveTrades(user) - activeTrades;
+   while (slots > 0 && surplus.length > 0 && deficit.length > 0) {
+      const [sellResource, sellValue] = surplus[0];
+      const [buyResource, buyValue] = deficit[0];
+      const value = Math.min(sellValue, buyValue);
+      surplus[0][1] -= value;
+      deficit[0][1] -= value;
+      if (surplus[0][1] <= 0) {
+         surplus.shift();
+      }
+      if (deficit[0][1] <= 0) {
+         deficit.shift();
+      }
+      const trade: IAddTradeRequest = {
+         sellResource,
+         sellAmount: Math.floor(value / price(sellResource)),
+         buyResource,
+         buyAmount: 0,
+      };
+      const { min, max, amount } = getBuyAmountRange(trade, range);
+      trade.buyAmount = clamp(Math.round(amount * (1 + premium)), min, max);
+      if (trade.sellAmount >= 1 && trade.buyAmount >= 1) {
+         result.push(trade);
+         --slots;
+      }
+   }
+   return result;
+}
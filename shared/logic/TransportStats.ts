@@ -0,0 +1,150 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import type { Material } from "../definitions/MaterialDefinitions";
+import type { IGrid } from "../utilities/Grid";
+import { pointToTile, safeAdd, type Tile } from "../utilities/Helper";
+import type { PartialTabulate } from "../utilities/TypeDefinitions";
+import { getInputMode, getMaxInputDistance } from "./BuildingLogic";
+import type { GameState } from "./GameState";
+import type { BuildingInputMode } from "./Tile";
+import type { ITransportationDataV2 } from "./Transports";
+
+/**
+ * Everything that travelled from one building to another
+ */
+export interface ITransportRouteStat {
+   fromXy: Tile;
+   toXy: Tile;
+   distance: number;
+   /** Transports that arrived */
+   trips: number;
+   /** Amount delivered, of all resources */
+   volume: number;
+   resources: PartialTabulate<Material>;
+   /** Workers spent on the way */
+   fuel: number;
+   /** Ticks spent on the way, waiting for fuel included. Divide by `trips` for the time per trip */
+   ticksInFlight: number;
+}
+
+export interface ITransportTileStat {
+   /** Amount that passed over the tile, counted once per tick it spent there */
+   traffic: number;
+   fuel: number;
+}
+
+export interface ITransportStats {
+   /** Ticks recorded */
+   ticks: number;
+   routes: Map<string, ITransportRouteStat>;
+   tiles: Map<Tile, ITransportTileStat>;
+}
+
+export function makeTransportStats(): ITransportStats {
+   return { ticks: 0, routes: new Map(), tiles: new Map() };
+}
+
+let recorder: ITransportStats | null = null;
+
+/**
+ * Transports are only recorded while a recorder is set. Returns the one it replaces, so that ticks that are
+ * not part of the game (e.g. forecasts) can be kept out of it.
+ */
+export function setTransportStatsRecorder(stats: ITransportStats | null): ITransportStats | null {
+   const previous = recorder;
+   recorder = stats;
+   return previous;
+}
+
+export function getTransportStatsRecorder(): ITransportStats | null {
+   return recorder;
+}
+
+/**
+ * Called by `tickTransports` once per transport and tick, after the transport has moved
+ */
+export function recordTransportTick(transport: ITransportationDataV2, arrived: boolean, grid: IGrid): void {
+   if (!recorder) {
+      return;
+   }
+   const distance = grid.distanceTile(transport.fromXy, transport.toXy);
+   const fuel = transport.hasEnoughFuel ? transport.fuelCurrentTick : 0;
+
+   const key = `${transport.fromXy}>${transport.toXy}`;
+   let route = recorder.routes.get(key);
+   if (!route) {
+      route = {
+         fromXy: transport.fromXy,
+         toXy: transport.toXy,
+         distance,
+         trips: 0,
+         volume: 0,
+         resources: {},
+         fuel: 0,
+         ticksInFlight: 0,
+      };
+      recorder.routes.set(key, route);
+   }
+   route.fuel += fuel;
+   ++route.ticksInFlight;
+   if (arrived) {
+      ++route.trips;
+      route.volume += transport.amount;
+      safeAdd(route.resources, transport.resource, transport.amount);
+   }
+
+   const progress =
+      transport.ticksRequired > 0 ? Math.min(transport.ticksSpent / transport.ticksRequired, 1) : 1;
+   const xy = pointToTile(
+      grid.positionToGrid({
+         x: transport.fromPosition.x + (transport.toPosition.x - transport.fromPosition.x) * progress,
+         y: transport.fromPosition.y + (transport.toPosition.y - transport.fromPosition.y) * progress,
+      }),
+   );
+   let tile = recorder.tiles.get(xy);
+   if (!tile) {
+      tile = { traffic: 0, fuel: 0 };
+      recorder.tiles.set(xy, tile);
+   }
+   tile.traffic += transport.amount;
+   tile.fuel += fuel;
+}
+
+/**
+ * Called by `tickTransports` once per tick
+ */
+export function recordTransportStatsTick(): void {
+   if (recorder) {
+      ++recorder.ticks;
+   }
+}
+
+export interface ISupplyLine extends ITransportRouteStat {
+   from: Building | null;
+   to: Building | null;
+   /** Of the receiving building */
+   inputMode: BuildingInputMode | null;
+   /** Of the receiving building */
+   maxInputDistance: number;
+   /** Volume times distance, what the route costs in transport */
+   haul: number;
+}
+
+/**
+ * The `count` routes with the most haul, with the settings of the buildings at both ends as they are now
+ */
+export function getLongestSupplyLines(stats: ITransportStats, gs: GameState, count: number): ISupplyLine[] {
+   const result: ISupplyLine[] = [];
+   stats.routes.forEach((route) => {
+      const from = gs.tiles.get(route.fromXy)?.building;
+      const to = gs.tiles.get(route.toXy)?.building;
+      result.push({
+         ...route,
+         from: from?.type ?? null,
+         to: to?.type ?? null,
+         inputMode: to ? getInputMode(to, gs) : null,
+         maxInputDistance: to ? getMaxInputDistance(to, gs) : Number.POSITIVE_INFINITY,
+         haul: route.volume * route.distance,
+      });
+   });
+   return result.sort((a, b) => b.haul - a.haul || b.distance - a.distance).slice(0, count);
+}
@@ -79,12 +79,14 @@ import {
    getGrid,
    getStorageFullBuildings,
    getXyBuildings,
+   markTileChanged,
    unlockedResources,
 } from "./IntraTickCache";
 import { calculateEmpireValue } from "./RebirthLogic";
 import { getAmountInTransit } from "./ResourceLogic";
 import type { MultiplierWithStability } from "./TickLogic";
 import { NotProducingReason, Tick } from "./TickLogic";
+import { beginProfile, endProfileBuilding, endProfilePhase, getTickProfiler } from "./TickProfiler";
 import {
    BuildingInputMode,
    MarketOptions,
@@ -101,6 +103,7 @@ import {
    type IWarehouseBuildingData,
 } from "./Tile";
 import { Transports, type ITransportationDataV2 } from "./Transports";
+import { recordTransportStatsTick, recordTransportTick } from "./TransportStats";
 
 export const OnPriceUpdated = new TypedEvent<GameState>();
 export const OnBuildingComplete = new TypedEvent<Tile>();
@@ -126,9 +129,12 @@ export function tickUnlockable(td: IUnlockable, source: string, gs: GameState):
 
 export function tickTransports(gs: GameState): void {
    const grid = getGrid(gs);
+   recordTransportStatsTick();
    filterInPlace(Transports, (transport) => {
+      const arrived = tickTransport(transport, grid);
+      recordTransportTick(transport, arrived, grid);
       // Has arrived!
-      if (tickTransport(transport, grid)) {
+      if (arrived) {
          const targetBuilding = gs.tiles.get(transport.toXy)?.building;
          if (targetBuilding) {
             completeTransport(targetBuilding, transport.resource, transport.amount);
@@ -203,7 +209,8 @@ export function tickPower(gs: GameState): void {
 }
 
 export function getSortedTiles(gs: GameState): [Tile, IBuildingData][] {
-   return Array.from(getXyBuildings(gs)).sort(([_a, buildingA], [_b, buildingB]) => {
+   const start = beginProfile();
+   const result = Array.from(getXyBuildings(gs)).sort(([_a, buildingA], [_b, buildingB]) => {
       const diff = getCurrentPriority(buildingB, gs) - getCurrentPriority(buildingA, gs);
       if (diff !== 0) {
          return diff;
@@ -212,6 +219,8 @@ export function getSortedTiles(gs: GameState): [Tile, IBuildingData][] {
       const tier = (Config.BuildingTier[buildingA.type] ?? 0) - (Config.BuildingTier[buildingB.type] ?? 0);
       return tier;
    });
+   endProfilePhase("getSortedTiles", start);
+   return result;
 }
 
 const resourceSet = new Set<Material>();
@@ -222,6 +231,20 @@ export function transportAndConsumeResources(
    gs: GameState,
    offline: boolean,
 ): void {
+   if (!getTickProfiler()) {
+      tickTile(xy, result, gs, offline);
+      return;
+   }
+   const building = gs.tiles.get(xy)?.building?.type;
+   const start = beginProfile();
+   tickTile(xy, result, gs, offline);
+   endProfilePhase("transportAndConsumeResources", start);
+   if (building) {
+      endProfileBuilding(building, start);
+   }
+}
+
+function tickTile(xy: Tile, result: IProduceResource[], gs: GameState, offline: boolean): void {
    const tile = gs.tiles.get(xy);
    if (!tile) {
       return;
@@ -806,6 +829,16 @@ export function clearTransportSourceCache(): void {
    _transportSourceCache.clear();
 }
 
+/**
+ * Call after `tile.building` of `xy` has been placed, removed or replaced (e.g. moved to another tile, then call it
+ * for both). Only the cached lookups of where buildings are that involve `xy` are looked at again. The transport
+ * source cache is a snapshot of which buildings held a resource, so it is still cleared as a whole.
+ */
+export function notifyTileChanged(xy: Tile): void {
+   markTileChanged(xy);
+   clearTransportSourceCache();
+}
+
 export function transportResource(
    res: Material,
    amount: number,
@@ -1004,16 +1037,16 @@ export function addLevelBoost(building: Building, value: number, source: string,
    });
 }
 
-function getPriceId() {
-   return Math.floor(Date.now() / HOUR);
+function getPriceId(now = Date.now()) {
+   return Math.floor(now / HOUR);
 }
 
 export function convertPriceIdToTime(priceId: number) {
    return priceId * HOUR;
 }
 
-export function tickPrice(gs: GameState) {
-   const priceId = getPriceId();
+export function tickPrice(gs: GameState, now = Date.now()) {
+   const priceId = getPriceId(now);
    let forceUpdatePrice = false;
    if (gs.lastPriceUpdated !== priceId) {
       forceUpdatePrice = true;
@@ -0,0 +1,61 @@
+import { AccountLevel, UserAttributes, type IWelcomeMessage } from "../utilities/Database";
+import { isSaveOwner } from "../utilities/DatabaseShared";
+import { clamp, hasFlag, SECOND } from "../utilities/Helper";
+import { RankUpFlags, type GameOptions, type GameState } from "./GameState";
+
+export interface IWelcomeResult {
+   /** The save has changed and should be saved */
+   changed: boolean;
+   /** The account has ranked up, but not on this save. The rank has to be reset on the server */
+   resetRank: boolean;
+}
+
+/**
+ * Reconciles the save with the welcome message of the server: who owns it, whether the account has ranked up on it,
+ * and how much offline time it can claim, which is set on `w.offlineTime`.
+ *
+ * A replayed welcome message was recorded at another time, maybe for another save: it changes nothing and grants no
+ * offline time
+ */
+export function applyWelcomeMessage(
+   w: IWelcomeMessage,
+   gs: GameState,
+   options: GameOptions,
+   replay: boolean,
+   now = Date.now(),
+): IWelcomeResult {
+   const result: IWelcomeResult = { changed: false, resetRank: false };
+   if (replay) {
+      w.offlineTime = 0;
+      return result;
+   }
+   const { user } = w;
+   if (!options.userId) {
+      options.userId = user.userId;
+   }
+   if (isSaveOwner(w.platformInfo, user)) {
+      switch (options.rankUpFlags) {
+         case RankUpFlags.Unset:
+            if (user.level <= AccountLevel.Tribune) {
+               options.rankUpFlags = RankUpFlags.NotUpgraded;
+            } else {
+               options.rankUpFlags = RankUpFlags.Upgraded;
+            }
+            break;
+         case RankUpFlags.NotUpgraded:
+            if (!hasFlag(user.attr, UserAttributes.OverrideRankUp) && user.level > AccountLevel.Tribune) {
+               result.resetRank = true;
+            }
+            break;
+         case RankUpFlags.Upgraded:
+            break;
+      }
+   }
+   const offlineTicks = clamp(w.lastGameTick + w.offlineTime - gs.tick, 0, Number.POSITIVE_INFINITY);
+   gs.clientOfflineSec += (now - gs.lastClientTickAt) / SECOND;
+   gs.lastClientTickAt = now;
+   w.offlineTime = Math.min(w.offlineTime, offlineTicks, gs.clientOfflineSec);
+   gs.clientOfflineSec -= w.offlineTime;
+   result.changed = true;
+   return result;
+}
@@ -73,9 +73,12 @@ function getRequestId(req: unknown) {
    return null;
 }
 
-export async function handleRpc(
+/**
+ * `T` is the contract of the service, which may implement only part of it
+ */
+export async function handleRpc<T extends object = object>(
    request: JsonRpcRequest,
-   service: object,
+   service: Partial<T>,
 ): Promise<JsonRpcErrorResponse | JsonRpcSuccessResponse> {
    const id = getRequestId(request);
    if (!isJsonRpcRequest(request)) {
@@ -0,0 +1,111 @@
+import { RpcError } from "../thirdparty/TRPCClient";
+import { uuid4 } from "./Helper";
+import { InvalidRpcResultError, type IServerRpc, type RpcResult } from "./ServerRpc";
+
+/**
+ * Methods that can wait for the connection. All of them take an idempotency key, so an action that was sent just
+ * before the connection dropped can be sent again
+ */
+export type OutboxMethod =
+   | "addTrade"
+   | "cancelTrade"
+   | "claimTradesV2"
+   | "setTariffRate"
+   | "voteBoosts"
+   | "voteTradeTileBonus";
+
+export type OutboxParam<K extends OutboxMethod> = Parameters<IServerRpc[K]>[0];
+
+/**
+ * `pending` is waiting to be sent, `sending` has been sent and is waiting for the answer, and `rejected` has been
+ * turned down by the server. `unconfirmed` has been answered with a result the client cannot read: it might have
+ * been done, so it is neither undone nor sent again and needs the attention of the player. Accepted actions leave
+ * the outbox
+ */
+export type OutboxStatus = "pending" | "sending" | "rejected" | "unconfirmed";
+
+export interface IOutboxAction<K extends OutboxMethod = OutboxMethod> {
+   /** Sent as the idempotency key */
+   key: string;
+   method: K;
+   param: OutboxParam<K>;
+   status: OutboxStatus;
+   queuedAt: number;
+   /** Times the action has been sent */
+   attempts: number;
+   /** Why the server has rejected the action, or what is wrong with its answer */
+   error?: string;
+}
+
+export interface IOutboxCallbacks {
+   send: <K extends OutboxMethod>(action: IOutboxAction<K>) => Promise<RpcResult<K>>;
+   onAccepted: (action: IOutboxAction, result: unknown) => void;
+   onRejected: (action: IOutboxAction, error: RpcError) => void;
+   onUnconfirmed: (action: IOutboxAction, error: InvalidRpcResultError) => void;
+   /** Called whenever the status of an action changes */
+   onChanged: () => void;
+}
+
+export function queueOutboxAction<K extends OutboxMethod>(
+   actions: IOutboxAction[],
+   method: K,
+   param: OutboxParam<K>,
+   now = Date.now(),
+): IOutboxAction<K> {
+   const action: IOutboxAction<K> = {
+      key: uuid4(),
+      method,
+      param,
+      status: "pending",
+      queuedAt: now,
+      attempts: 0,
+   };
+   actions.push(action);
+   return action;
+}
+
+/**
+ * For actions loaded from storage: an action that was being sent when the game closed is sent again, its key makes
+ * sure it is not done twice
+ */
+export function restoreOutboxActions(actions: IOutboxAction[]): IOutboxAction[] {
+   return actions.map((action) => (action.status === "sending" ? { ...action, status: "pending" } : action));
+}
+
+/**
+ * Sends pending actions one at a time, in the order they are queued, including actions queued while sending. An
+ * action the server rejects, or answers with a result that does not pass `checkRpcResult`, does not hold up the
+ * rest. Stops at the first action that cannot be sent at all, and returns false, the action stays pending for the
+ * next flush
+ */
+export async function flushOutbox(actions: IOutboxAction[], callbacks: IOutboxCallbacks): Promise<boolean> {
+   let action = actions.find((a) => a.status === "pending");
+   while (action) {
+      action.status = "sending";
+      ++action.attempts;
+      callbacks.onChanged();
+      try {
+         const result = await callbacks.send(action);
+         actions.splice(actions.indexOf(action), 1);
+         callbacks.onAccepted(action, result);
+      } catch (error) {
+         // Only an RpcError comes from the server, anything else means the request has not been answered
+         if (!(error instanceof RpcError)) {
+            action.status = "pending";
+            callbacks.onChanged();
+            return false;
+         }
+         action.error = error.message;
+         if (error instanceof InvalidRpcResultError) {
+            action.status = "unconfirmed";
+            callbacks.onUnconfirmed(action, error);
+         } else {
+            action.status = "rejected";
+            callbacks.onRejected(action, error);
+         }
+      }
+      callbacks.onChanged();
+      action = actions.find((a) => a.status === "pending");
+   }
+   return true;
+}
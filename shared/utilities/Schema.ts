@@ -0,0 +1,143 @@
+/**
+ * Checks data that comes from outside, like server responses. A schema's type has to be assignable to the type it
+ * stands for, so when that type gains a field, the schema stops compiling until it checks the field too
+ */
+export interface Schema<T> {
+   /** Returns what is wrong with `value`, or null if nothing is */
+   check: (value: unknown, path: string) => string | null;
+   /** Never set, only carries the type */
+   readonly type?: T;
+}
+
+export type SchemaType<S> = S extends Schema<infer T> ? T : never;
+
+function describe(value: unknown): string {
+   if (value === null) {
+      return "null";
+   }
+   if (Array.isArray(value)) {
+      return "an array";
+   }
+   return typeof value;
+}
+
+function primitive<T>(name: string, test: (value: unknown) => boolean): Schema<T> {
+   return {
+      check: (value, path) => (test(value) ? null : `${path} should be ${name}, not ${describe(value)}`),
+   };
+}
+
+/**
+ * Pass a string union, like `Material`, when the value is a key of a definition. Keys are not checked: the server
+ * can be newer than the client
+ */
+export function string<T extends string = string>(): Schema<T> {
+   return primitive("a string", (value) => typeof value === "string");
+}
+
+/**
+ * Pass an enum, like `AccountLevel`, when the value is one. Values are not checked, enums can be flags
+ */
+export function number<T extends number = number>(): Schema<T> {
+   return primitive("a number", (value) => typeof value === "number");
+}
+
+export function boolean(): Schema<boolean> {
+   return primitive("a boolean", (value) => typeof value === "boolean");
+}
+
+export function bytes(): Schema<Uint8Array> {
+   return primitive("bytes", (value) => value instanceof Uint8Array);
+}
+
+/**
+ * For results the client does not look at
+ */
+export function ignored(): Schema<void> {
+   return { check: () => null };
+}
+
+/**
+ * Takes the value as it is. Only for data that is passed on without being read, or shown as it is
+ */
+export function unchecked<T = unknown>(): Schema<T> {
+   return { check: () => null };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+   return { check: (value, path) => (value === undefined ? null : schema.check(value, path)) };
+}
+
+/**
+ * MessagePack has no `undefined`, so null is also taken
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+   return {
+      check: (value, path) => (value === null || value === undefined ? null : schema.check(value, path)),
+   };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+   return {
+      check: (value, path) => {
+         if (!Array.isArray(value)) {
+            return `${path} should be an array, not ${describe(value)}`;
+         }
+         for (let i = 0; i < value.length; i++) {
+            const error = item.check(value[i], `${path}[${i}]`);
+            if (error) {
+               return error;
+            }
+         }
+         return null;
+      },
+   };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+   return (
+      typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array)
+   );
+}
+
+/**
+ * Keys are not checked, values are. Also stands for `Partial<Record<K, T>>`
+ */
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+   return {
+      check: (value, path) => {
+         if (!isObject(value)) {
+            return `${path} should be an object, not ${describe(value)}`;
+         }
+         for (const key in value) {
+            const error = item.check(value[key], `${path}.${key}`);
+            if (error) {
+               return error;
+            }
+         }
+         return null;
+      },
+   };
+}
+
+/**
+ * Fields that are not in `shape` are let through, the server may send more than the client knows about
+ */
+export function object<S extends Record<string, Schema<unknown>>>(
+   shape: S,
+): Schema<{ [K in keyof S]: SchemaType<S[K]> }> {
+   return {
+      check: (value, path) => {
+         if (!isObject(value)) {
+            return `${path} should be an object, not ${describe(value)}`;
+         }
+         for (const key in shape) {
+            const error = shape[key].check(value[key], `${path}.${key}`);
+            if (error) {
+               return error;
+            }
+         }
+         return null;
+      },
+   };
+}
@@ -0,0 +1,134 @@
+import { type AllMessageTypes, type IRPCMessage, MessageType } from "./Database";
+import { array, number, object, optional, string, unchecked } from "./Schema";
+
+export const ServerRecordingVersion = 1;
+
+export interface IRecordedMessage {
+   /** Milliseconds since the recording started */
+   time: number;
+   message: AllMessageTypes;
+   /** For RPC results, the method that was called. Request ids change between runs, methods do not */
+   method?: string;
+}
+
+/**
+ * What the server sent to one client, as decoded. Saved as MessagePack, so save files in messages survive
+ */
+export interface IServerRecording {
+   version: number;
+   startedAt: number;
+   messages: IRecordedMessage[];
+}
+
+export function makeServerRecording(now = Date.now()): IServerRecording {
+   return { version: ServerRecordingVersion, startedAt: now, messages: [] };
+}
+
+/**
+ * `message` is copied, the client changes some messages while handling them. The session token and the address
+ * of the player are left out of the welcome message, recordings are meant to be shared
+ */
+export function recordServerMessage(
+   recording: IServerRecording,
+   message: AllMessageTypes,
+   method?: string,
+   now = Date.now(),
+): void {
+   const recorded: IRecordedMessage = { time: now - recording.startedAt, message: structuredClone(message) };
+   if (recorded.message.type === MessageType.Welcome) {
+      recorded.message.user.token = null;
+      recorded.message.user.ip = "";
+   }
+   if (method) {
+      recorded.method = method;
+   }
+   recording.messages.push(recorded);
+}
+
+const ServerRecordingSchema = object({
+   version: number(),
+   startedAt: number(),
+   messages: array(
+      object({
+         time: number(),
+         message: object({ type: number<MessageType>() }),
+         method: optional(string()),
+      }),
+   ),
+});
+
+/**
+ * Returns what is wrong with a loaded recording, or null if it can be replayed
+ */
+export function checkServerRecording(value: unknown): string | null {
+   const error = ServerRecordingSchema.check(value, "recording");
+   if (error) {
+      return error;
+   }
+   const recording = value as IServerRecording;
+   if (recording.version !== ServerRecordingVersion) {
+      return `Recording version ${recording.version} is not supported`;
+   }
+   if (!recording.messages.some((m) => m.message.type === MessageType.Welcome)) {
+      return "Recording has no welcome message, it should be started before the client connects";
+   }
+   return null;
+}
+
+/**
+ * Plays a recording back in place of the server. Pushed messages (welcome, chat, trade, map and pending claims)
+ * are delivered when their time comes, RPC requests are answered with the next recorded result of the same method
+ */
+export class ServerReplay {
+   private readonly pushed: IRecordedMessage[] = [];
+   private readonly results = new Map<string, IRecordedMessage[]>();
+   private next = 0;
+   private _time = 0;
+
+   constructor(
+      recording: IServerRecording,
+      private readonly onMessage: (message: AllMessageTypes) => void,
+   ) {
+      recording.messages.forEach((m) => {
+         if (m.message.type !== MessageType.RPC) {
+            this.pushed.push(m);
+            return;
+         }
+         // Results of requests from before the recording started cannot be matched
+         if (m.method) {
+            const queue = this.results.get(m.method);
+            if (queue) {
+               queue.push(m);
+            } else {
+               this.results.set(m.method, [m]);
+            }
+         }
+      });
+   }
+
+   /** Milliseconds into the recording */
+   public get time(): number {
+      return this._time;
+   }
+
+   /** When the next pushed message is due, or null if all are delivered */
+   public nextTime(): number | null {
+      return this.next < this.pushed.length ? this.pushed[this.next].time : null;
+   }
+
+   /** Delivers every pushed message that is due by `time` */
+   public advanceTo(time: number): void {
+      this._time = Math.max(this._time, time);
+      while (this.next < this.pushed.length && this.pushed[this.next].time <= this._time) {
+         this.onMessage(structuredClone(this.pushed[this.next++].message));
+      }
+   }
+
+   public request(id: number, method: string): void {
+      const recorded = this.results.get(method)?.shift();
+      const data = recorded
+         ? { ...(recorded.message as IRPCMessage).data, id }
+         : { jsonrpc: "2.0", id, error: { code: -32601, message: `No recorded result for ${method}` } };
+      this.onMessage({ type: MessageType.RPC, data });
+   }
+}
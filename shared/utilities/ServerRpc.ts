@@ -0,0 +1,332 @@
+import type { Building } from "../definitions/BuildingDefinitions";
+import type { City } from "../definitions/CityDefinitions";
+import type { Material } from "../definitions/MaterialDefinitions";
+import type { TechAge } from "../definitions/TechDefinitions";
+import type { GameOptionServer } from "../logic/GameState";
+import type { IHeartbeatData } from "../logic/GameStateLogic";
+import { RpcError } from "../thirdparty/TRPCClient";
+import type {
+   AccountLevel,
+   ChatChannel,
+   IAddTradeRequest,
+   IFillTradeRequest,
+   IGetVotedBoostResponse,
+   IPendingClaim,
+   ITrade,
+   IUser,
+   PendingClaimFlag,
+   TradeStatus,
+   UserAttributes,
+   UserColors,
+   VotedBoostType,
+} from "./Database";
+import {
+   array,
+   boolean,
+   bytes,
+   ignored,
+   nullable,
+   number,
+   object,
+   optional,
+   record,
+   string,
+   unchecked,
+   type Schema,
+} from "./Schema";
+import type { Achievement } from "./SteamAchievement";
+import type { PartialTabulate } from "./TypeDefinitions";
+
+export interface IMutedPlayer {
+   handle: string;
+   time: number;
+}
+
+export interface ISlowedPlayer {
+   handle: string;
+   time: number;
+   interval: number;
+}
+
+/**
+ * Everything the game server answers over JSON-RPC. A method acts for the player of the connection, and throws
+ * with a message that can be shown to the player. Players are found by handle in mod commands.
+ *
+ * Methods that take an `idempotencyKey` can be sent again after a lost connection: a key the server has seen
+ * gets the first answer again instead of a second change
+ */
+export interface IServerRpc {
+   heartbeatV2: (data: IHeartbeatData) => Promise<void>;
+   updateGameId: (gameId: string) => Promise<void>;
+   /** In seconds */
+   getPlayTime: () => Promise<number>;
+   getOnlinePlayerCount: () => Promise<number>;
+   getTotalPlayerCount: () => Promise<number>;
+   /** The highest level the player can rank up to now */
+   queryRankUp: () => Promise<AccountLevel>;
+   rankUp: () => Promise<void>;
+   resetRank: () => Promise<void>;
+   upgrade: () => Promise<void>;
+   changeHandle: (handle: string, flag: string) => Promise<void>;
+   changeColor: (color: UserColors) => Promise<IUser>;
+   saveOptionsToServer: (options: GameOptionServer) => Promise<void>;
+   getOptionsFromServer: () => Promise<GameOptionServer | null>;
+   rebirthV3: (gameId: string, options: GameOptionServer) => Promise<void>;
+   /** Called without a transaction when the store says the supporter pack is not owned */
+   verifyReceipt: (transactionId?: string) => Promise<void>;
+   getGreatPeopleRecovery: () => Promise<number>;
+   doGreatPeopleRecovery: () => Promise<number>;
+
+   requestPassCode: () => Promise<string>;
+   verifyPassCode: (handle: string, passcode: string) => Promise<void>;
+   checkInSave: (save: Uint8Array) => Promise<void>;
+   checkOutSaveStart: () => Promise<Uint8Array>;
+   checkOutSaveEnd: () => Promise<void>;
+
+   chat: (message: string, channel: ChatChannel) => Promise<void>;
+
+   addTrade: (trade: IAddTradeRequest, idempotencyKey?: string) => Promise<void>;
+   cancelTrade: (id: string, idempotencyKey?: string) => Promise<ITrade>;
+   /** Returns what the player gets now, tariffs already taken off */
+   fillTrade: (request: IFillTradeRequest) => Promise<PartialTabulate<Material>>;
+   getPendingClaims: () => Promise<IPendingClaim[]>;
+   /** `claims` maps pending claim id to the amount to claim */
+   claimTradesV2: (
+      claims: Record<string, number>,
+      idempotencyKey?: string,
+   ) => Promise<{ resources: PartialTabulate<Material> }>;
+
+   getBuildings: () => Promise<Building[]>;
+   claimTile: (xy: string) => Promise<void>;
+   occupyTile: (xy: string) => Promise<void>;
+   setTariffRate: (rate: number, idempotencyKey?: string) => Promise<void>;
+
+   getVotedBoosts: () => Promise<IGetVotedBoostResponse>;
+   voteBoosts: (option: number, idempotencyKey?: string) => Promise<IGetVotedBoostResponse>;
+   getTradeTileBonusVotes: () => Promise<IGetVotedBoostResponse>;
+   voteTradeTileBonus: (option: number, idempotencyKey?: string) => Promise<IGetVotedBoostResponse>;
+
+   getHallOfFame: () => Promise<Partial<Record<AccountLevel, string[]>>>;
+   getSupporters: (count: number) => Promise<string[]>;
+   getAllAchievements: (language: string) => Promise<Record<string, Achievement>>;
+   getAchievedAchievements: () => Promise<string[]>;
+
+   // Mod commands
+   announce: (channel: ChatChannel, message: string) => Promise<void>;
+   getMods: () => Promise<string[]>;
+   makeMod: (handle: string, mod: boolean) => Promise<void>;
+   getPlayerAttr: (handle: string) => Promise<UserAttributes>;
+   setPlayerAttr: (handle: string, attr: UserAttributes) => Promise<UserAttributes>;
+   changePlayerLevel: (handle: string, level: AccountLevel) => Promise<void>;
+   /** `time` is in seconds */
+   setPlayTime: (handle: string, time: number) => Promise<void>;
+   renamePlayer: (handle: string, newHandle: string) => Promise<string>;
+   clearTileCooldown: () => Promise<void>;
+   removePlayerFromMap: (handle: string) => Promise<void>;
+   clearVotedBoost: () => Promise<void>;
+   tabulateVotedBoost: () => Promise<unknown>;
+   queryPlayer: (handle: string) => Promise<IUser>;
+   queryRelatedPlayers: (handle: string) => Promise<IUser[]>;
+   listSpecialPlayers: () => Promise<IUser[]>;
+   getGreatPeopleLevelRank: (count: number) => Promise<IUser[]>;
+   getEmpireValueRank: (count: number) => Promise<IUser[]>;
+   queryPlayerSave: (handle: string) => Promise<Uint8Array>;
+   queryCloudSave: (handle: string) => Promise<Uint8Array>;
+   queryChecksums: () => Promise<unknown>;
+   /** `duration` is in milliseconds, returns when the mute ends */
+   mutePlayer: (handle: string, duration: number) => Promise<number>;
+   getMutedPlayers: () => Promise<IMutedPlayer[]>;
+   /** `duration` and `interval` are in milliseconds */
+   slowPlayer: (handle: string, duration: number, interval: number) => Promise<Omit<ISlowedPlayer, "handle">>;
+   getSlowedPlayer: () => Promise<ISlowedPlayer[]>;
+   /** Returns how many trades are removed */
+   removeTrade: (handle: string) => Promise<number>;
+   addPendingClaim: (handle: string, resource: Material, amount: number) => Promise<void>;
+   setGreatPeopleRecovery: (handle: string, count: number) => Promise<number>;
+   queryGreatPeopleRecovery: (handle: string) => Promise<number>;
+   clearConnection: (handle: string) => Promise<void>;
+}
+
+export type RpcMethod = keyof IServerRpc;
+export type RpcResult<K extends RpcMethod> = Awaited<ReturnType<IServerRpc[K]>>;
+
+const HeartbeatDataSchema = object({
+   clientTick: number(),
+   clientTime: number(),
+   gameId: string(),
+   empireValue: number(),
+   greatPeopleLevel: number(),
+   city: string<City>(),
+   techAge: string<TechAge>(),
+   userFlags: nullable(number<UserAttributes>()),
+});
+
+const GameOptionServerSchema = object({
+   ageWisdom: record(number()),
+   greatPeople: record(object({ level: number(), amount: number() })),
+});
+
+export const UserSchema = object({
+   userId: string(),
+   handle: string(),
+   token: nullable(string()),
+   lastDisconnectAt: number(),
+   lastHeartbeatAt: number(),
+   lastGameTick: number(),
+   totalPlayTime: number(),
+   color: number<UserColors>(),
+   tradeValues: array(object({ value: number(), time: number() })),
+   level: number<AccountLevel>(),
+   flag: string(),
+   ip: string(),
+   attr: number<UserAttributes>(),
+   lastGameId: optional(string()),
+   connectionRequest: optional(object({ createdAt: number(), passcode: string() })),
+   saveOwner: optional(string()),
+   lastCheckInAt: optional(number()),
+   lastTradedAt: number(),
+   heartbeatData: optional(HeartbeatDataSchema),
+   gameOptions: optional(GameOptionServerSchema),
+});
+
+const TradeSchema = object({
+   id: string(),
+   status: string<TradeStatus>(),
+   fromId: string(),
+   fillById: optional(string()),
+   buyResource: string<Material>(),
+   buyAmount: number(),
+   sellResource: string<Material>(),
+   sellAmount: number(),
+});
+
+const PendingClaimSchema = object({
+   id: string(),
+   resource: string<Material>(),
+   amount: number(),
+   fillBy: string(),
+   flag: number<PendingClaimFlag>(),
+});
+
+const VotedBoostSchema = object({
+   options: array(object({ buildings: array(string<Building>()), type: number<VotedBoostType>() })),
+   voted: number(),
+});
+
+const GetVotedBoostResponseSchema = object({
+   id: number(),
+   current: VotedBoostSchema,
+   next: VotedBoostSchema,
+});
+
+const SlowedPlayerSchema = object({ handle: string(), time: number(), interval: number() });
+
+/**
+ * What the client expects back from each method, checked before the result is handed to the caller
+ */
+export const RpcResultSchemas: { [K in RpcMethod]: Schema<RpcResult<K>> } = {
+   heartbeatV2: ignored(),
+   updateGameId: ignored(),
+   getPlayTime: number(),
+   getOnlinePlayerCount: number(),
+   getTotalPlayerCount: number(),
+   queryRankUp: number<AccountLevel>(),
+   rankUp: ignored(),
+   resetRank: ignored(),
+   upgrade: ignored(),
+   changeHandle: ignored(),
+   changeColor: UserSchema,
+   saveOptionsToServer: ignored(),
+   getOptionsFromServer: nullable(GameOptionServerSchema),
+   rebirthV3: ignored(),
+   verifyReceipt: ignored(),
+   getGreatPeopleRecovery: number(),
+   doGreatPeopleRecovery: number(),
+
+   requestPassCode: string(),
+   verifyPassCode: ignored(),
+   checkInSave: ignored(),
+   checkOutSaveStart: bytes(),
+   checkOutSaveEnd: ignored(),
+
+   chat: ignored(),
+
+   addTrade: ignored(),
+   cancelTrade: TradeSchema,
+   fillTrade: record(number()),
+   getPendingClaims: array(PendingClaimSchema),
+   claimTradesV2: object({ resources: record(number()) }),
+
+   getBuildings: array(string<Building>()),
+   claimTile: ignored(),
+   occupyTile: ignored(),
+   setTariffRate: ignored(),
+
+   getVotedBoosts: GetVotedBoostResponseSchema,
+   voteBoosts: GetVotedBoostResponseSchema,
+   getTradeTileBonusVotes: GetVotedBoostResponseSchema,
+   voteTradeTileBonus: GetVotedBoostResponseSchema,
+
+   getHallOfFame: record(array(string())),
+   getSupporters: array(string()),
+   getAllAchievements: record(
+      object({
+         key: string(),
+         name: string(),
+         description: string(),
+         icon: string(),
+         iconDisabled: string(),
+      }),
+   ),
+   getAchievedAchievements: array(string()),
+
+   announce: ignored(),
+   getMods: array(string()),
+   makeMod: ignored(),
+   getPlayerAttr: number<UserAttributes>(),
+   setPlayerAttr: number<UserAttributes>(),
+   changePlayerLevel: ignored(),
+   setPlayTime: ignored(),
+   renamePlayer: string(),
+   clearTileCooldown: ignored(),
+   removePlayerFromMap: ignored(),
+   clearVotedBoost: ignored(),
+   tabulateVotedBoost: unchecked(),
+   queryPlayer: UserSchema,
+   queryRelatedPlayers: array(UserSchema),
+   listSpecialPlayers: array(UserSchema),
+   getGreatPeopleLevelRank: array(UserSchema),
+   getEmpireValueRank: array(UserSchema),
+   queryPlayerSave: bytes(),
+   queryCloudSave: bytes(),
+   queryChecksums: unchecked(),
+   mutePlayer: number(),
+   getMutedPlayers: array(object({ handle: string(), time: number() })),
+   slowPlayer: object({ time: number(), interval: number() }),
+   getSlowedPlayer: array(SlowedPlayerSchema),
+   removeTrade: number(),
+   addPendingClaim: ignored(),
+   setGreatPeopleRecovery: number(),
+   queryGreatPeopleRecovery: number(),
+   clearConnection: ignored(),
+};
+
+/**
+ * Returns what is wrong with the result of `method`, or null if it is what the client expects. Unknown methods are
+ * not checked
+ */
+export function checkRpcResult(method: string, result: unknown): string | null {
+   const schema = RpcResultSchemas[method as RpcMethod] as Schema<unknown> | undefined;
+   return schema ? schema.check(result, method) : null;
+}
+
+/**
+ * The server has answered, but not the way the client expects (see `checkRpcResult`). Unlike other errors, it does
+ * not mean the server has turned the call down: it might have been done
+ */
+export class InvalidRpcResultError extends RpcError {
+   constructor(problem: string, result: unknown) {
+      super(`Invalid response from server: ${problem}`, -32603, result);
+      Object.setPrototypeOf(this, InvalidRpcResultError.prototype);
+   }
+}
@@ -8,6 +8,7 @@ export interface Disposable {
 export class TypedEvent<T> {
    private listeners: Listener<T>[] = [];
    private listenersOnce: Listener<T>[] = [];
+   private muted = 0;
 
    on = (listener: Listener<T>): Disposable => {
       this.listeners.push(listener);
@@ -25,7 +26,23 @@ export class TypedEvent<T> {
       if (callbackIndex > -1) this.listeners.splice(callbackIndex, 1);
    };
 
+   /** Drops every event emitted until the returned handle is disposed */
+   mute = (): Disposable => {
+      ++this.muted;
+      let disposed = false;
+      return {
+         dispose: () => {
+            if (!disposed) {
+               disposed = true;
+               --this.muted;
+            }
+         },
+      };
+   };
+
    emit = (event: T) => {
+      if (this.muted > 0) return;
+
       /** Update any general listeners */
       this.listeners.forEach((listener) => listener(event));
 
@@ -4,25 +4,38 @@ import { IsDeposit } from "../../shared/definitions/MaterialDefinitions";
 import { TimedBuildingUnlock } from "../../shared/definitions/TimedBuildingUnlock";
 import { addPetraOfflineTime, findSpecialBuilding } from "../../shared/logic/BuildingLogic";
 import { Config } from "../../shared/logic/Config";
-import { MAX_OFFLINE_PRODUCTION_SEC, calculateTierAndPrice } from "../../shared/logic/Constants";
+import {
+   MAX_OFFLINE_PRODUCTION_SEC,
+   calculateTierAndPrice,
+   setCityOverride,
+} from "../../shared/logic/Constants";
 import { Languages, syncLanguage, type GameState } from "../../shared/logic/GameState";
 import {
    getGameOptions,
    getGameState,
    notifyGameOptionsUpdate,
    notifyGameStateUpdate,
+   savedGame,
 } from "../../shared/logic/GameStateLogic";
 import { initializeGameState } from "../../shared/logic/InitializeGameState";
+import { clearIntraTickCache } from "../../shared/logic/IntraTickCache";
+import {
+   makeOfflineReport,
+   makeOfflineTally,
+   tallyOfflineTick,
+   type IOfflineTally,
+} from "../../shared/logic/OfflineReport";
+import { rollbackInterruptedScripts } from "../../shared/logic/ScriptJournal";
+import { makeTransportStats, setTransportStatsRecorder } from "../../shared/logic/TransportStats";
+import { Transports } from "../../shared/logic/Transports";
 import type { IWelcomeMessage } from "../../shared/utilities/Database";
 import { isSaveOwner } from "../../shared/utilities/DatabaseShared";
 import {
    FormatNumberOptions,
    clamp,
-   deepFreeze,
    forEach,
    isNullOrUndefined,
    rejectIn,
-   safeAdd,
    safePush,
    schedule,
 } from "../../shared/utilities/Helper";
@@ -37,7 +50,12 @@ import {
    syncUITheme,
 } from "./Global";
 import type { RouteChangeEvent } from "./Route";
-import { tickEverySecond } from "./logic/ClientUpdate";
+import { tickEverySecond, tickOffline } from "./logic/ClientUpdate";
+import { getEffectHost } from "./logic/EffectHost";
+import { loadOutbox } from "./logic/Outbox";
+import { loadStatisticsHistory } from "./logic/StatisticsHistory";
+import { loadTradeBot } from "./logic/TradeBot";
+import { saveOfflineReport } from "./logic/OfflineReportHistory";
 import { clientHeartbeat } from "./logic/Heartbeat";
 import { getBuildNumber, getFullVersion } from "./logic/Version";
 import { getBuildingTexture, getTileTexture } from "./logic/VisualLogic";
@@ -60,6 +78,7 @@ import { initIAP } from "./utilities/IAP";
 import { SceneManager } from "./utilities/SceneManager";
 import { Singleton, initializeSingletons, type RouteTo } from "./utilities/Singleton";
 import { playError } from "./visuals/Sound";
+import { getOfflinePlayerMap, tickOfflineInWorker, type IOfflineWorkerResult } from "./workers/Offline";
 
 export async function startGame(
    app: Application,
@@ -108,6 +127,8 @@ export async function startGame(
       initializeGameState(gameState, options);
    }
    verifyTextures(textures, gameState.city);
+   // Has to happen before offline production, which would otherwise run on a half-built map
+   const interruptedScripts = rollbackInterruptedScripts(gameState);
 
    // ========== Game state is initialized ==========
    routeTo(LoadingPage, { stage: LoadingPageStage.CheckSave });
@@ -126,6 +147,10 @@ export async function startGame(
       textures,
    });
    setCityOverride(gameState);
+   await loadStatisticsHistory(gameState).catch(console.error);
+   // Before connecting, actions from the last session are sent once the client is connected
+   await loadOutbox().catch(console.error);
+   await loadTradeBot().catch(console.error);
 
    // ========== Connect to server ==========
    routeTo(LoadingPage, { stage: LoadingPageStage.SteamSignIn });
@@ -150,30 +175,24 @@ export async function startGame(
       routeTo(LoadingPage, { stage: LoadingPageStage.OfflineProduction });
       if (actualOfflineTime >= 60) {
          const before = structuredClone(gameState);
-         let timeLeft = offlineProductionTime;
-         while (timeLeft > 0) {
-            const batchSize = Math.min(timeLeft, MAX_OFFLINE_PRODUCTION_SEC / 100);
-            await schedule(() => {
-               for (let i = 0; i < batchSize; i++) {
-                  tickEverySecond(gameState, true);
-               }
-            });
-            await showOfflineProductionProgress(1 - timeLeft / offlineProductionTime, routeTo);
-            timeLeft -= batchSize;
-         }
-         const petraOfflineTime = actualOfflineTime - offlineProductionTime;
+         const { ticked, tally, ticksPerSecond } = await tickOfflineProduction(
+            gameState,
+            offlineProductionTime,
+            routeTo,
+         );
+         // If the player has cancelled, the time not ticked goes to Petra like the time over the limit
+         const petraOfflineTime = actualOfflineTime - ticked;
          const warp = addPetraOfflineTime(petraOfflineTime, gameState);
-         const after = structuredClone(gameState);
+         const report = makeOfflineReport(before, gameState, tally, {
+            endedAt: Date.now(),
+            totalOfflineTime: actualOfflineTime,
+            offlineProductionTime: ticked,
+            ticksPerSecond,
+            warpFull: petraOfflineTime > warp,
+         });
+         saveOfflineReport(report).catch(console.error);
          hasOfflineProductionModal = true;
-         showModal(
-            <OfflineProductionModal
-               before={before}
-               after={after}
-               totalOfflineTime={actualOfflineTime}
-               offlineProductionTime={offlineProductionTime}
-               warpFull={petraOfflineTime > warp}
-            />,
-         );
+         showModal(<OfflineProductionModal reports={[report]} />);
       }
    } catch (error) {
       console.error(error);
@@ -182,6 +201,12 @@ export async function startGame(
    }
 
    setTimedOverride(gameState);
+   // Offline production is not recorded, it would drown out how the city is doing now
+   setTransportStatsRecorder(makeTransportStats());
+
+   if (interruptedScripts.length > 0) {
+      showToast(`Rolled back unfinished script: ${interruptedScripts.map((entry) => entry.name).join(", ")}`);
+   }
 
    if (hasOfflineProductionModal) {
       // Do nothing
@@ -246,47 +271,63 @@ export function setTimedOverride(gs: GameState): void {
    });
 }
 
-// This method is called early during bootstrap!
-export function setCityOverride(gameState: GameState): void {
-   const city = Config.City[gameState.city];
-   forEach(city.buildingNames, (b, name) => {
-      Config.Building[b].name = name;
-   });
-   deepFreeze(Config.Building);
+interface IOfflineProductionResult {
+   ticked: number;
+   tally: IOfflineTally;
+   ticksPerSecond: number;
+}
 
-   forEach(city.uniqueBuildings, (building, tech) => {
-      if (!Config.Tech[tech].unlockBuilding) {
-         Config.Tech[tech].unlockBuilding = [];
-      }
-      Config.Tech[tech].unlockBuilding!.push(building);
-   });
+/**
+ * Runs offline production in a worker, so that the loading page stays responsive and the player can cancel it.
+ * Falls back to ticking on the main thread if the worker fails
+ */
+async function tickOfflineProduction(
+   gs: GameState,
+   seconds: number,
+   routeTo: RouteTo,
+): Promise<IOfflineProductionResult> {
+   const batchSize = MAX_OFFLINE_PRODUCTION_SEC / 100;
+   let result: IOfflineWorkerResult | null = null;
+   try {
+      const task = tickOfflineInWorker(savedGame, Transports, seconds, await getOfflinePlayerMap(), {
+         batchSize,
+         onProgress: (ticked, ticksPerSecond) =>
+            routeTo(LoadingPage, {
+               stage: LoadingPageStage.OfflineProduction,
+               progress: ticked / seconds,
+               ticksPerSecond,
+               onCancel: task.cancel,
+            }),
+      });
+      routeTo(LoadingPage, { stage: LoadingPageStage.OfflineProduction, onCancel: task.cancel });
+      result = await task.result;
+   } catch (error) {
+      console.error("Offline production worker failed, ticking on the main thread instead:", error);
+   }
 
-   forEach(city.uniqueMultipliers, (tech, multipliers) => {
-      const def = Config.Tech[tech];
-      if (multipliers.globalMultiplier) {
-         if (def.globalMultiplier) {
-            forEach(multipliers.globalMultiplier, (k, v) => {
-               safeAdd(def.globalMultiplier!, k, v);
-            });
-         } else {
-            def.globalMultiplier = structuredClone(multipliers.globalMultiplier);
-         }
-      }
-      if (multipliers.buildingMultiplier) {
-         forEach(multipliers.buildingMultiplier, (building, multipliers) => {
-            if (!def.buildingMultiplier) {
-               def.buildingMultiplier = {};
-            }
-            if (def.buildingMultiplier[building]) {
-               forEach(multipliers, (kk, vv) => {
-                  safeAdd(def.buildingMultiplier![building]!, kk, vv);
-               });
-            } else {
-               def.buildingMultiplier[building] = structuredClone(multipliers);
-            }
-         });
-      }
+   if (result) {
+      Object.assign(gs, result.save.current);
+      // Not `push(...result.transports)`, there can be more transports than a call takes arguments
+      Transports.length = 0;
+      result.transports.forEach((t) => Transports.push(t));
+      const options = getGameOptions();
+      result.save.options.themeColors = Object.assign(options.themeColors, result.save.options.themeColors);
+      Object.assign(options, result.save.options);
+      clearIntraTickCache();
+      result.achievements.forEach((key) => getEffectHost().unlockAchievement(key));
+      const ticksPerSecond = result.elapsed > 0 ? (result.ticked * 1000) / result.elapsed : 0;
+      return { ticked: result.ticked, tally: result.tally, ticksPerSecond };
+   }
+
+   const tally = makeOfflineTally();
+   const start = performance.now();
+   await tickOffline(gs, seconds, {
+      batchSize,
+      afterTick: () => tallyOfflineTick(tally, gs),
+      onProgress: (progress) => showOfflineProductionProgress(progress, routeTo),
    });
+   const elapsed = performance.now() - start;
+   return { ticked: seconds, tally, ticksPerSecond: elapsed > 0 ? (seconds * 1000) / elapsed : 0 };
 }
 
 function showOfflineProductionProgress(progress: number, routeTo: RouteTo): Promise<void> {
@@ -25,6 +25,7 @@ import {
    serializeSave,
 } from "../../shared/logic/GameStateLogic";
 import { initializeGameState } from "../../shared/logic/InitializeGameState";
+import { makeOfflineReport, makeOfflineTally } from "../../shared/logic/OfflineReport";
 import {
    getGreatPeopleChoiceCount,
    rollGreatPeopleThisRun,
@@ -51,11 +52,12 @@ import { UnicodeText } from "../../shared/utilities/UnicodeText";
 import { migrateSavedGame } from "./MigrateSavedGame";
 import { tickEverySecond } from "./logic/ClientUpdate";
 import { clientHeartbeat } from "./logic/Heartbeat";
-import { getUser } from "./rpc/RPCClient";
+import { getUser, isReplayingServer } from "./rpc/RPCClient";
 import { SteamClient, isSteam } from "./rpc/SteamClient";
 import { WorldScene } from "./scenes/WorldScene";
 import { AccountRankUpModal } from "./ui/AccountRankUpModal";
 import { BuildingCompleteModal } from "./ui/BuildingCompleteModal";
+import { DebugPage } from "./ui/DebugPage";
 import { showModal } from "./ui/GlobalModal";
 import { OfflineProductionModal } from "./ui/OfflineProductionModal";
 import { SupporterPackModal } from "./ui/SupporterPackModal";
@@ -133,7 +135,13 @@ interface ISaveGameTask {
 
 const saveGameQueue: ISaveGameTask[] = [];
 
+/**
+ * Does nothing during a server replay: what the recording sends is not the player's to keep
+ */
 export async function saveGame(): Promise<void> {
+   if (isReplayingServer()) {
+      return;
+   }
    let resolve: (() => void) | null = null;
    let reject: (() => void) | null = null;
 
@@ -357,15 +365,14 @@ if (import.meta.env.DEV) {
    // @ts-expect-error
    window.offline = () => {
       const gs = getGameState();
-      showModal(
-         <OfflineProductionModal
-            before={gs}
-            after={gs}
-            totalOfflineTime={500}
-            offlineProductionTime={100}
-            warpFull={true}
-         />,
-      );
+      const report = makeOfflineReport(gs, gs, makeOfflineTally(), {
+         endedAt: Date.now(),
+         totalOfflineTime: 500,
+         offlineProductionTime: 100,
+         ticksPerSecond: 0,
+         warpFull: true,
+      });
+      showModal(<OfflineProductionModal reports={[report]} />);
    };
 
    // @ts-expect-error
@@ -454,6 +461,9 @@ if (import.meta.env.DEV) {
    // @ts-expect-error
    window.hq = () => findSpecialBuilding("Headquarter", getGameState());
 
+   // @ts-expect-error
+   window.debug = () => Singleton().routeTo(DebugPage, {});
+
    // @ts-expect-error
    window.wonders = async () => {
       for (const building of keysOf(Config.Building)) {
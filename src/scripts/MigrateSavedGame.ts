@@ -40,6 +40,9 @@ export function migrateSavedGame(save: SavedGame) {
    if (!save.current.tradeValue) {
       save.current.tradeValue = 0;
    }
+   if (!save.current.scriptJournal) {
+      save.current.scriptJournal = [];
+   }
 
    save.current.tiles.forEach((tile, xy) => {
       if (!grid.isValid(tileToPoint(xy))) {
@@ -1,11 +1,79 @@
 import type { Building } from "../../../shared/definitions/BuildingDefinitions";
 import type { Deposit } from "../../../shared/definitions/MaterialDefinitions";
-import { getBuildingThatExtract, isWorldOrNaturalWonder } from "../../../shared/logic/BuildingLogic";
+import { getBuildingThatExtract, hasRequiredDeposit, isWorldOrNaturalWonder } from "../../../shared/logic/BuildingLogic";
+import {
+	DEFAULT_PLAN_TARGET_LEVEL,
+	formatBuildingPlanIssue,
+	getBuildingDisplayMap,
+	resolveBuildingName,
+	validateBuildingPlan,
+	type IBuildingPlanAutoTask,
+	type IBuildingPlanExactTask,
+	type IBuildingPlanIssue,
+	type IBuildingPlanPlaceOptions,
+	type IBuildingPlanTask,
+	type IBuildingPlanSpec,
+} from "../../../shared/logic/BuildingPlan";
 import { Config } from "../../../shared/logic/Config";
+import type { GameState } from "../../../shared/logic/GameState";
 import { getGameState, notifyGameStateUpdate } from "../../../shared/logic/GameStateLogic";
-import { makeBuilding } from "../../../shared/logic/Tile";
-import { clearTransportSourceCache } from "../../../shared/logic/Update";
-import { pointToTile, tileToPoint } from "../../../shared/utilities/Helper";
+import { getMapBounds, getRegionTiles, type MapRegion, type RegionOrder } from "../../../shared/logic/MapRegion";
+import { solveAutoLayout } from "../../../shared/logic/PlanLayout";
+import { runJournaled, setTileBuilding } from "../../../shared/logic/ScriptJournal";
+import { makeBuilding, type IBuildingData, type ITileData } from "../../../shared/logic/Tile";
+import { pointToTile, tileToPoint, type Tile } from "../../../shared/utilities/Helper";
+
+export interface IPlanResult {
+	type: string;
+	requested: number;
+	placed: number;
+}
+
+export interface IPlanPlacement {
+	xy: Tile;
+	type: Building;
+	desiredLevel: number;
+	task: number;
+}
+
+export interface IPlanClear {
+	xy: Tile;
+	type: Building;
+	task: number;
+}
+
+export interface IPlanPreserved {
+	xy: Tile;
+	type: Building;
+	reason: "wonder" | "extractor";
+	task: number;
+}
+
+/**
+ * Every change a plan makes to the map, in the order it was made. Live runs and dry runs produce the same
+ * diff, so a preview is exactly what confirming it will do (as long as the map does not change in between).
+ */
+export interface IPlanDiff {
+	placements: IPlanPlacement[];
+	clears: IPlanClear[];
+	preserved: IPlanPreserved[];
+}
+
+export interface IPlanRunOptions {
+	intervalMs?: number;
+	/** Compute the diff without touching `gs.tiles` */
+	dryRun?: boolean;
+	/** Replaces the anchor of every "exact" task, to replay a captured layout somewhere else */
+	anchor?: { x: number; y: number };
+}
+
+export interface IPlanRunResult {
+	results: IPlanResult[];
+	diff: IPlanDiff;
+	/** Validation warnings, e.g. unknown keys that were ignored */
+	issues: IBuildingPlanIssue[];
+	message?: string;
+}
 
 /**
  * Load a plan file (JSON). Try require/import/fetch and return parsed object.
@@ -38,31 +106,24 @@ async function loadPlanFile(path: string): Promise<unknown> {
 	throw new Error(`Unable to load plan file: ${path}`);
 }
 
-function buildDisplayMap(): Map<string, Building> {
-	const map = new Map<string, Building>();
-	for (const key of Object.keys(Config.Building)) {
-		try {
-			const def = (Config.Building as unknown as Record<string, { name?: () => string }>)[key];
-			if (!def) continue;
-			const dn = typeof def.name === "function" ? String(def.name()) : String(key);
-			map.set(dn, key as Building);
-			map.set(dn.toLowerCase(), key as Building);
-		} catch (e) {
-			// ignore malformed defs
-		}
-	}
-	return map;
-}
-
-function resolveSpecType(spec: unknown, displayMap: Map<string, Building>): Building | undefined {
-	if (!spec) return undefined;
-	const s = spec as Record<string, unknown>;
-	if (typeof s.type === "string") return s.type as Building;
-	if (typeof s.name === "string") {
-		const raw = s.name as string;
-		return displayMap.get(raw) ?? displayMap.get(raw.toLowerCase());
+/**
+ * Loose spec parsing for the exported helpers, which predate the plan schema. Unknown names are skipped.
+ */
+function toPlanSpecs(rawSpecs: unknown[], displayMap: Map<string, Building>): IBuildingPlanSpec[] {
+	const specs: IBuildingPlanSpec[] = [];
+	for (const s of Array.isArray(rawSpecs) ? rawSpecs : []) {
+		if (!s) continue;
+		const sRec = s as Record<string, unknown>;
+		let type: Building | undefined;
+		if (typeof sRec.type === "string") type = sRec.type as Building;
+		else if (typeof sRec.name === "string") type = resolveBuildingName(sRec.name, displayMap);
+		if (!type) continue;
+		const count = Number(sRec.count ?? 0);
+		if (Number.isNaN(count) || count <= 0) continue;
+		const level = typeof sRec.level === "number" ? sRec.level : undefined;
+		specs.push({ type, count, level });
 	}
-	return undefined;
+	return specs;
 }
 
 function ensureVisualRefreshLocal() {
@@ -78,10 +139,61 @@ function ensureVisualRefreshLocal() {
 	}
 }
 
+/**
+ * All tile reads and writes made by a plan go through here. In a dry run, writes land in an overlay instead of
+ * `gs.tiles` and reads check the overlay first, so later tasks see what earlier tasks would have done.
+ */
+class PlanTarget {
+	readonly diff: IPlanDiff = { placements: [], clears: [], preserved: [] };
+	task = 0;
+	private readonly _overlay = new Map<Tile, Building | null>();
+
+	constructor(readonly dryRun: boolean) {}
+
+	getBuildingType(td: ITileData): Building | undefined {
+		const pending = this._overlay.get(td.tile);
+		if (pending !== undefined) return pending ?? undefined;
+		return td.building?.type;
+	}
+
+	place(td: ITileData, type: Building, desiredLevel: number, settings?: Partial<IBuildingData>): void {
+		this.diff.placements.push({ xy: td.tile, type, desiredLevel, task: this.task });
+		if (this.dryRun) {
+			this._overlay.set(td.tile, type);
+			return;
+		}
+		setTileBuilding(td, makeBuilding({ ...settings, type, level: 0, desiredLevel }));
+	}
+
+	clear(td: ITileData): void {
+		const type = this.getBuildingType(td);
+		if (!type) return;
+		this.diff.clears.push({ xy: td.tile, type, task: this.task });
+		if (this.dryRun) {
+			this._overlay.set(td.tile, null);
+			return;
+		}
+		setTileBuilding(td, undefined);
+	}
+
+	preserve(td: ITileData, type: Building, reason: IPlanPreserved["reason"]): void {
+		this.diff.preserved.push({ xy: td.tile, type, reason, task: this.task });
+	}
+
+	refresh(): void {
+		if (this.dryRun) return;
+		ensureVisualRefreshLocal();
+	}
+}
+
 /**
  * Clear a rectangular region. Returns cleared counts and preserved counts.
  */
 export function clearRegion(minX: number, maxX: number, minY: number, maxY: number, opts?: { preserveWonders?: boolean; preserveExtractors?: boolean }) {
+	return clearRegionOn(new PlanTarget(false), minX, maxX, minY, maxY, opts);
+}
+
+function clearRegionOn(target: PlanTarget, minX: number, maxX: number, minY: number, maxY: number, opts?: { preserveWonders?: boolean; preserveExtractors?: boolean }) {
 	const gs = getGameState();
 	const preserveWonders = opts?.preserveWonders ?? true;
 	const preserveExtractors = opts?.preserveExtractors ?? true;
@@ -93,8 +205,14 @@ export function clearRegion(minX: number, maxX: number, minY: number, maxY: numb
 		for (let x = minX; x <= maxX; x++) {
 			const xy = pointToTile({ x, y });
 			const td = gs.tiles.get(xy);
-			if (!td || !td.building) continue;
-			if (preserveWonders && isWorldOrNaturalWonder(td.building.type)) { preservedWonders.add(xy); continue; }
+			if (!td) continue;
+			const type = target.getBuildingType(td);
+			if (!type) continue;
+			if (preserveWonders && isWorldOrNaturalWonder(type)) {
+				preservedWonders.add(xy);
+				target.preserve(td, type, "wonder");
+				continue;
+			}
 			if (preserveExtractors) {
 				let hasProtectedDeposit = false;
 				let isExtractorPresent = false;
@@ -103,21 +221,22 @@ export function clearRegion(minX: number, maxX: number, minY: number, maxY: numb
 					const extractor = getBuildingThatExtract(depositKey);
 					if (extractor) {
 						hasProtectedDeposit = true;
-						if (td.building && td.building.type === extractor) isExtractorPresent = true;
+						if (type === extractor) isExtractorPresent = true;
 						break;
 					}
 				}
-				if (hasProtectedDeposit && isExtractorPresent) { preservedMines.add(xy); continue; }
+				if (hasProtectedDeposit && isExtractorPresent) {
+					preservedMines.add(xy);
+					target.preserve(td, type, "extractor");
+					continue;
+				}
 			}
-			td.building = undefined;
+			target.clear(td);
 			cleared++;
 		}
 	}
 
-	if (cleared > 0) {
-		try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
-		ensureVisualRefreshLocal();
-	}
+	if (cleared > 0) target.refresh();
 
 	return { cleared, preservedWonders: preservedWonders.size, preservedMines: preservedMines.size };
 }
@@ -125,37 +244,34 @@ export function clearRegion(minX: number, maxX: number, minY: number, maxY: numb
 /**
  * Place a set of specs onto an explicit coords list (scan-order provided).
  */
-async function placeOnCoords(coords: Array<{ x: number; y: number }>, rawSpecs: unknown[], options?: { intervalMs?: number }, displayMap?: Map<string, Building>) {
+async function placeOnCoords(target: PlanTarget, coords: Array<{ x: number; y: number }>, specs: IBuildingPlanSpec[], options?: IBuildingPlanPlaceOptions): Promise<IPlanResult[]> {
 	const gs = getGameState();
-	const display = displayMap ?? buildDisplayMap();
-	const mappedSpecs: Array<{ type: Building; count: number; level?: number }> = [];
-	for (const s of Array.isArray(rawSpecs) ? rawSpecs : []) {
-		const resolved = resolveSpecType(s, display);
-		if (!resolved) continue;
-		const sRec = s as Record<string, unknown>;
-		const count = Number(sRec.count ?? 0);
-		if (Number.isNaN(count) || count <= 0) continue;
-		const level = typeof sRec.level === 'number' ? sRec.level as number : undefined;
-		mappedSpecs.push({ type: resolved, count, level });
-	}
+	const mappedSpecs = specs.filter((s) => s.count > 0);
 
 	// Place buildings one-at-a-time: iterate coords cyclically and attempt to place a single building
 	// at a time (one building placement per loop iteration). This prevents placing entire blocks
 	// of the same building type in a batch and ensures deterministic single-step progression.
 	mappedSpecs.sort((a, b) => ((Config.BuildingTier as unknown as Record<string, number>)[a.type] ?? 0) - ((Config.BuildingTier as unknown as Record<string, number>)[b.type] ?? 0));
 
-	const results: Array<{ type: string; requested: number; placed: number }> = [];
 	const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-	const intervalMs = options?.intervalMs ?? 0;
+	// Dry runs never wait: there is nothing to watch
+	const intervalMs = target.dryRun ? 0 : options?.intervalMs ?? 0;
 
 	// Track remaining counts and placed counts per spec
-	const specState = mappedSpecs.map(s => ({ type: s.type, remaining: s.count, requested: s.count, level: s.level ?? 10, placed: 0 }));
+	const defaultLevel = options?.targetLevelDefault ?? DEFAULT_PLAN_TARGET_LEVEL;
+	const specState = mappedSpecs.map(s => ({ type: s.type, remaining: s.count, requested: s.count, level: s.level ?? defaultLevel, placed: 0 }));
 	let remainingTotal = specState.reduce((a, b) => a + b.remaining, 0);
 	if (remainingTotal <= 0) return [];
 
 	// If no coords, nothing to do
 	if (!coords || coords.length === 0) return specState.map(s => ({ type: s.type, requested: s.requested, placed: 0 }));
 
+	const results: IPlanResult[] = [];
+	if (options?.ensureCoalForPower && specState.some((s) => Config.Building[s.type]?.power)) {
+		const coal = ensureCoalPowerPlant(target, coords);
+		if (coal) results.push(coal);
+	}
+
 	let idx = 0;
 	// To avoid infinite loops when no progress is possible (all coords blocked), count consecutive skips
 	let consecutiveNoPlace = 0;
@@ -166,7 +282,7 @@ async function placeOnCoords(coords: Array<{ x: number; y: number }>, rawSpecs:
 		idx = (idx + 1) % coords.length;
 		const xy = pointToTile({ x, y });
 		const td = gs.tiles.get(xy);
-		if (!td || td.building) {
+		if (!td || target.getBuildingType(td)) {
 			consecutiveNoPlace++;
 			continue;
 		}
@@ -176,15 +292,13 @@ async function placeOnCoords(coords: Array<{ x: number; y: number }>, rawSpecs:
 		for (const s of specState) {
 			if (s.remaining <= 0) continue;
 			// place one building of this type here
-			const b = makeBuilding({ type: s.type, level: 0, desiredLevel: s.level });
-			td.building = b;
+			target.place(td, s.type, s.level);
 			s.remaining -= 1;
 			s.placed += 1;
 			remainingTotal -= 1;
 			placedThisCoord = true;
 			consecutiveNoPlace = 0;
-			try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
-			ensureVisualRefreshLocal();
+			target.refresh();
 			if (intervalMs > 0) await sleep(intervalMs);
 			break; // move to next coord after placing one building
 		}
@@ -199,162 +313,241 @@ async function placeOnCoords(coords: Array<{ x: number; y: number }>, rawSpecs:
 		results.push({ type: s.type, requested: s.requested, placed: s.placed });
 	}
 
-	if (results.some(r => r.placed > 0)) {
-		try { clearTransportSourceCache(); } catch (e) { }
-		ensureVisualRefreshLocal();
-	}
+	if (results.some(r => r.placed > 0)) target.refresh();
 
 	return results;
 }
 
+/**
+ * Same as `doBuildingPlan` in davescripts2: if no Coal Power Plant exists among `coords`, put one on the first
+ * empty tile so the powered buildings of this task have a source.
+ */
+function ensureCoalPowerPlant(target: PlanTarget, coords: Array<{ x: number; y: number }>): IPlanResult | null {
+	const gs = getGameState();
+	const tiles = coords.map(({ x, y }) => gs.tiles.get(pointToTile({ x, y }))).filter((td) => !!td) as ITileData[];
+	if (tiles.some((td) => target.getBuildingType(td) === "CoalPowerPlant")) return null;
+	const empty = tiles.find((td) => !target.getBuildingType(td));
+	if (!empty) return { type: "CoalPowerPlant", requested: 1, placed: 0 };
+	target.place(empty, "CoalPowerPlant", DEFAULT_PLAN_TARGET_LEVEL);
+	target.refresh();
+	return { type: "CoalPowerPlant", requested: 1, placed: 1 };
+}
+
 /**
  * Place buildings in a rectangle [minX..maxX] x [minY..maxY]
  */
-export async function buildRect(minX: number, maxX: number, minY: number, maxY: number, specs: unknown[], options?: { intervalMs?: number }, displayMap?: Map<string, Building>) {
-	const coords: Array<{ x: number; y: number }> = [];
-	for (let y = minY; y <= maxY; y++) for (let x = minX; x <= maxX; x++) coords.push({ x, y });
-	return await placeOnCoords(coords, specs, options, displayMap);
+export async function buildRect(minX: number, maxX: number, minY: number, maxY: number, specs: unknown[], options?: IBuildingPlanPlaceOptions, displayMap?: Map<string, Building>) {
+	const planSpecs = toPlanSpecs(specs, displayMap ?? getBuildingDisplayMap());
+	return await buildRectOn(new PlanTarget(false), minX, maxX, minY, maxY, planSpecs, options);
+}
+
+async function buildRectOn(target: PlanTarget, minX: number, maxX: number, minY: number, maxY: number, specs: IBuildingPlanSpec[], options?: IBuildingPlanPlaceOptions) {
+	return await buildRegionOn(target, { kind: "rect", minX, maxX, minY, maxY }, "scan", specs, options);
 }
 
 /**
  * Place buildings into a vertical strip anchored to left or right.
  */
-export async function buildStrip(side: 'left' | 'right', width: number, specs: unknown[], startRow: number, options?: { intervalMs?: number }, displayMap?: Map<string, Building>) {
+export async function buildStrip(side: 'left' | 'right', width: number, specs: unknown[], startRow: number, options?: IBuildingPlanPlaceOptions, displayMap?: Map<string, Building>) {
+	const planSpecs = toPlanSpecs(specs, displayMap ?? getBuildingDisplayMap());
+	return await buildStripOn(new PlanTarget(false), side, width, planSpecs, startRow, options);
+}
+
+async function buildStripOn(target: PlanTarget, side: 'left' | 'right', width: number, specs: IBuildingPlanSpec[], startRow: number, options?: IBuildingPlanPlaceOptions) {
 	const gs = getGameState();
-	let mapMaxX = Number.NEGATIVE_INFINITY;
-	let mapMinX = Number.POSITIVE_INFINITY;
-	let mapMaxY = Number.NEGATIVE_INFINITY;
-	for (const xy of gs.tiles.keys()) {
-		const p = tileToPoint(xy);
-		if (p.x > mapMaxX) mapMaxX = p.x;
-		if (p.x < mapMinX) mapMinX = p.x;
-		if (p.y > mapMaxY) mapMaxY = p.y;
-	}
-	if (mapMaxX === Number.NEGATIVE_INFINITY || mapMinX === Number.POSITIVE_INFINITY) return [];
-	const floorMaxX = Math.floor(mapMaxX);
-	const floorMinX = Math.max(0, Math.floor(mapMinX));
-	const floorMaxY = Math.floor(mapMaxY);
-
-	let minX: number; let maxX: number;
-	if (side === 'right') { maxX = floorMaxX; minX = Math.max(0, maxX - Math.max(0, width - 1)); }
-	else { minX = floorMinX; maxX = Math.min(floorMaxX, minX + Math.max(0, width - 1)); }
 	const minY = Math.max(0, Math.floor(startRow));
-	const maxY = floorMaxY;
-	if (minY > maxY) return [];
-
-	const coords: Array<{ x: number; y: number }> = [];
-	for (let y = minY; y <= maxY; y++) for (let x = minX; x <= maxX; x++) coords.push({ x, y });
-	return await placeOnCoords(coords, specs, options, displayMap);
+	if (gs.tiles.size === 0 || minY > getMapBounds(gs).maxY) return [];
+	return await buildRegionOn(target, { kind: "strip", side, width: Math.max(1, width), startRow: minY }, "scan", specs, options);
 }
 
 /**
- * PerformBuildingPlan(filePath)
- * - Loads the JSON plan at `filePath` and executes tasks in order.
- * - Supported modes: "strip", "rect", "clear".
- * - Specs may use `name` (friendly display name) or `type` (internal key).
- * - Returns placed counts per spec as { type, requested, placed } entries.
+ * Place buildings into any `MapRegion`, filling its tiles in `order`.
  */
-export async function PerformBuildingPlan(filePath: string, opts?: { intervalMs?: number }): Promise<{ results: Array<{ type: string; requested: number; placed: number }>; message?: string }> {
-	const gs = getGameState();
-
-	const raw = await loadPlanFile(filePath);
-	const plan = raw as { tasks?: unknown[] } | undefined;
-	if (!plan || !Array.isArray(plan.tasks)) throw new Error("Invalid plan file: tasks array missing");
-
-	const displayMap = buildDisplayMap();
-	const results: Array<{ type: string; requested: number; placed: number }> = [];
-	const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+export async function buildRegion(region: MapRegion, order: RegionOrder, specs: unknown[], options?: IBuildingPlanPlaceOptions, displayMap?: Map<string, Building>) {
+	const planSpecs = toPlanSpecs(specs, displayMap ?? getBuildingDisplayMap());
+	return await buildRegionOn(new PlanTarget(false), region, order, planSpecs, options);
+}
 
-	const planObj = plan as Record<string, unknown>;
-	const tasks = Array.isArray(planObj.tasks) ? planObj.tasks as unknown[] : [];
-	for (let ti = 0; ti < tasks.length; ti++) {
-		const task = tasks[ti] as Record<string, unknown>;
-		if (!task || typeof task.mode !== "string") continue;
-		const mode = task.mode as string;
-		const options = (task.options as Record<string, unknown>) ?? {};
-		const intervalMs = typeof options.intervalMs === "number" ? options.intervalMs : (opts && typeof opts.intervalMs === "number" ? opts.intervalMs : 0);
-
-		if (mode === "clear") {
-			const minX = Number(options.minX ?? 0);
-			const maxX = Number(options.maxX ?? minX);
-			const minY = Number(options.minY ?? 0);
-			const maxY = Number(options.maxY ?? minY);
-			const cleared = clearRegion(minX, maxX, minY, maxY, { preserveWonders: true, preserveExtractors: true });
-			results.push({ type: "clear", requested: 0, placed: cleared.cleared });
-		}
+async function buildRegionOn(target: PlanTarget, region: MapRegion, order: RegionOrder, specs: IBuildingPlanSpec[], options?: IBuildingPlanPlaceOptions) {
+	const coords = getRegionTiles(region, getGameState(), { order }).map(tileToPoint);
+	return await placeOnCoords(target, coords, specs, options);
+}
 
-		if (mode === "rect") {
-			const minX = Number(options.minX ?? 0);
-			const maxX = Number(options.maxX ?? minX);
-			const minY = Number(options.minY ?? 0);
-			const maxY = Number(options.maxY ?? minY);
-			const r = await buildRect(minX, maxX, minY, maxY, Array.isArray(task.specs) ? task.specs as unknown[] : [], { intervalMs });
-			for (const item of r) results.push(item);
+/**
+ * Replay an "exact" task tile for tile. Tiles that are unexplored, taken by another building or lack the deposit
+ * the building needs are skipped; a tile that already has the same building counts as placed.
+ */
+async function placeExact(target: PlanTarget, task: IBuildingPlanExactTask, opts?: IPlanRunOptions): Promise<IPlanResult[]> {
+	const gs = getGameState();
+	const anchorX = opts?.anchor?.x ?? task.options.anchorX;
+	const anchorY = opts?.anchor?.y ?? task.options.anchorY;
+	const intervalMs = target.dryRun ? 0 : task.options.intervalMs ?? opts?.intervalMs ?? 0;
+	const results = new Map<Building, IPlanResult>();
+	for (const { dx, dy, type, level, ...settings } of task.placements) {
+		let result = results.get(type);
+		if (!result) {
+			result = { type, requested: 0, placed: 0 };
+			results.set(type, result);
 		}
-
-		if (mode === "strip") {
-			const side = String(options.side ?? "left") as 'left' | 'right';
-			const width = Math.max(1, Number(options.width ?? 10));
-			const startRow = typeof options.startRow === 'number' ? options.startRow : 0;
-			const r = await buildStrip(side, width, Array.isArray(task.specs) ? task.specs as unknown[] : [], startRow, { intervalMs });
-			for (const item of r) results.push(item);
+		++result.requested;
+		const td = gs.tiles.get(pointToTile({ x: anchorX + dx, y: anchorY + dy }));
+		if (!td?.explored) continue;
+		const existing = target.getBuildingType(td);
+		if (existing === type) {
+			++result.placed;
+			continue;
 		}
-		// unsupported mode -> skip
+		if (existing || !hasRequiredDeposit(Config.Building[type].deposit, td.tile, gs)) continue;
+		target.place(td, type, level, settings);
+		++result.placed;
+		target.refresh();
+		if (intervalMs > 0) await new Promise((r) => setTimeout(r, intervalMs));
 	}
-
-	return { results };
+	return Array.from(results.values());
 }
 
 /**
- * Execute a plan that's already loaded as an object (no file loading).
+ * Lay out an "auto" task with `solveAutoLayout` on the empty, explored tiles of its rectangle, then place it in the
+ * order the solver returned (extractors first, then by tier).
  */
-export async function PerformBuildingPlanFromObject(planRaw: unknown, opts?: { intervalMs?: number }): Promise<{ results: Array<{ type: string; requested: number; placed: number }>; message?: string }> {
+async function placeAuto(target: PlanTarget, task: IBuildingPlanAutoTask, intervalMs: number): Promise<IPlanResult[]> {
 	const gs = getGameState();
+	const { minX, maxX, minY, maxY } = task.options;
+	const coords = getRegionTiles({ kind: "rect", minX, maxX, minY, maxY }, gs).map(tileToPoint);
 
-	const plan = planRaw as { tasks?: unknown[] } | undefined;
-	if (!plan || !Array.isArray(plan.tasks)) throw new Error("Invalid plan object: tasks array missing");
+	const results: IPlanResult[] = [];
+	if (task.options.ensureCoalForPower && task.specs.some((s) => Config.Building[s.type]?.power)) {
+		const coal = ensureCoalPowerPlant(target, coords);
+		if (coal) results.push(coal);
+	}
 
-	const displayMap = buildDisplayMap();
-	const results: Array<{ type: string; requested: number; placed: number }> = [];
-	const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+	const candidates: Tile[] = [];
+	for (const point of coords) {
+		const td = gs.tiles.get(pointToTile(point));
+		if (td?.explored && !target.getBuildingType(td)) candidates.push(td.tile);
+	}
+	const defaultLevel = task.options.targetLevelDefault ?? DEFAULT_PLAN_TARGET_LEVEL;
+	const specs = task.specs.map((s) => ({ type: s.type, count: s.count, level: s.level ?? defaultLevel }));
+	const layout = solveAutoLayout(
+		specs,
+		candidates,
+		(tile) => {
+			const td = gs.tiles.get(tile);
+			return td ? target.getBuildingType(td) : undefined;
+		},
+		gs,
+	);
+
+	const specResults = specs.map((s) => ({ type: s.type, requested: s.count, placed: 0 }));
+	for (const { tile, type, level, spec } of layout.placements) {
+		target.place(gs.tiles.get(tile)!, type, level);
+		++specResults[spec].placed;
+		target.refresh();
+		if (intervalMs > 0) await new Promise((r) => setTimeout(r, intervalMs));
+	}
+	return results.concat(specResults);
+}
+
+/**
+ * Validate `plan` against the plan schema, then run its tasks in order against `target`. Throws if the plan has
+ * any errors, listing all of them so a broken plan can be fixed in one go.
+ */
+async function runPlan(plan: unknown, target: PlanTarget, opts?: IPlanRunOptions): Promise<IPlanRunResult> {
+	const validation = validateBuildingPlan(plan);
+	if (!validation.plan) {
+		const errors = validation.issues.filter((i) => i.severity === "error").map(formatBuildingPlanIssue);
+		throw new Error(`Invalid plan:\n${errors.join("\n")}`);
+	}
 
-	const planObj = plan as Record<string, unknown>;
-	const tasks = Array.isArray(planObj.tasks) ? planObj.tasks as unknown[] : [];
+	if (!target.dryRun) {
+		const name = validation.plan.meta.name;
+		return await runJournaled(`Building plan: ${name}`, () => runTasks(validation.plan!.tasks, target, validation.issues, opts));
+	}
+	return await runTasks(validation.plan.tasks, target, validation.issues, opts);
+}
+
+async function runTasks(tasks: IBuildingPlanTask[], target: PlanTarget, issues: IBuildingPlanIssue[], opts?: IPlanRunOptions): Promise<IPlanRunResult> {
+	const results: IPlanResult[] = [];
 	for (let ti = 0; ti < tasks.length; ti++) {
-		const task = tasks[ti] as Record<string, unknown>;
-		if (!task || typeof task.mode !== "string") continue;
-		const mode = task.mode as string;
-		const options = (task.options as Record<string, unknown>) ?? {};
-		const intervalMs = typeof options.intervalMs === "number" ? options.intervalMs : (opts && typeof opts.intervalMs === "number" ? opts.intervalMs : 0);
-
-		if (mode === "clear") {
-			const minX = Number(options.minX ?? 0);
-			const maxX = Number(options.maxX ?? minX);
-			const minY = Number(options.minY ?? 0);
-			const maxY = Number(options.maxY ?? minY);
-			const cleared = clearRegion(minX, maxX, minY, maxY, { preserveWonders: true, preserveExtractors: true });
+		const task = tasks[ti];
+		target.task = ti;
+
+		if (task.mode === "clear") {
+			const { minX, maxX, minY, maxY } = task.options;
+			const cleared = clearRegionOn(target, minX, maxX, minY, maxY, { preserveWonders: true, preserveExtractors: true });
 			results.push({ type: "clear", requested: 0, placed: cleared.cleared });
+			continue;
 		}
 
-		if (mode === "rect") {
-			const minX = Number(options.minX ?? 0);
-			const maxX = Number(options.maxX ?? minX);
-			const minY = Number(options.minY ?? 0);
-			const maxY = Number(options.maxY ?? minY);
-			const r = await buildRect(minX, maxX, minY, maxY, Array.isArray(task.specs) ? task.specs as unknown[] : [], { intervalMs });
+		if (task.mode === "exact") {
+			const r = await placeExact(target, task, opts);
 			for (const item of r) results.push(item);
+			continue;
 		}
 
-		if (mode === "strip") {
-			const side = String(options.side ?? "left") as 'left' | 'right';
-			const width = Math.max(1, Number(options.width ?? 10));
-			const startRow = typeof options.startRow === 'number' ? options.startRow : 0;
-			const r = await buildStrip(side, width, Array.isArray(task.specs) ? task.specs as unknown[] : [], startRow, { intervalMs });
+		const options = { ...task.options, intervalMs: task.options.intervalMs ?? opts?.intervalMs ?? 0 };
+		if (task.mode === "rect") {
+			const { minX, maxX, minY, maxY } = task.options;
+			const r = await buildRectOn(target, minX, maxX, minY, maxY, task.specs, options);
+			for (const item of r) results.push(item);
+		}
+
+		if (task.mode === "region") {
+			const r = await buildRegionOn(target, task.options.region, task.options.order, task.specs, options);
+			for (const item of r) results.push(item);
+		}
+
+		if (task.mode === "auto") {
+			const r = await placeAuto(target, task, target.dryRun ? 0 : options.intervalMs);
+			for (const item of r) results.push(item);
+		}
+
+		if (task.mode === "strip") {
+			const { side, width, startRow } = task.options;
+			const r = await buildStripOn(target, side, width, task.specs, startRow, options);
 			for (const item of r) results.push(item);
 		}
-		// unsupported mode -> skip
 	}
 
-	return { results };
+	return { results, diff: target.diff, issues };
 }
 
+/**
+ * PerformBuildingPlan(filePath)
+ * - Loads the JSON plan at `filePath` and executes tasks in order.
+ * - Supported modes: "strip", "rect", "clear", "exact" (see `captureBuildingPlan`), "auto" (see `solveAutoLayout`),
+ *   "region" (see `MapRegion`).
+ * - The plan is checked with `validateBuildingPlan` first, see shared/logic/BuildingPlan.ts for the schema.
+ * - Specs may use `name` (friendly display name) or `type` (internal key).
+ * - Returns placed counts per spec as { type, requested, placed } entries, plus the diff of what changed.
+ * - With `dryRun`, nothing is changed and the diff describes what would happen.
+ */
+export async function PerformBuildingPlan(filePath: string, opts?: IPlanRunOptions): Promise<IPlanRunResult> {
+	const raw = await loadPlanFile(filePath);
+	return await runPlan(raw, new PlanTarget(opts?.dryRun ?? false), opts);
+}
+
+/**
+ * Execute a plan that's already loaded as an object (no file loading).
+ */
+export async function PerformBuildingPlanFromObject(planRaw: unknown, opts?: IPlanRunOptions): Promise<IPlanRunResult> {
+	return await runPlan(planRaw, new PlanTarget(opts?.dryRun ?? false), opts);
+}
+
+/**
+ * Apply the diff of a dry run to `gs` directly: no journal, no refresh. For scratch copies of the game state, e.g.
+ * to forecast what a plan would do. Placed buildings lose the extra settings of "exact" placements.
+ */
+export function applyPlanDiff(diff: IPlanDiff, gs: GameState): void {
+	const tasks = new Set([...diff.clears.map((c) => c.task), ...diff.placements.map((p) => p.task)]);
+	for (const task of Array.from(tasks).sort((a, b) => a - b)) {
+		for (const c of diff.clears) {
+			const td = gs.tiles.get(c.xy);
+			if (c.task === task && td) delete td.building;
+		}
+		for (const p of diff.placements) {
+			const td = gs.tiles.get(p.xy);
+			if (p.task === task && td) td.building = makeBuilding({ type: p.type, level: 0, desiredLevel: p.desiredLevel });
+		}
+	}
+}
@@ -0,0 +1,43 @@
+import { getBuildingPlanKey, type IBuildingPlanMeta } from "../../../shared/logic/BuildingPlan";
+import { idbDel, idbGet, idbKeys, idbSet, Store } from "../utilities/BrowserStorage";
+
+const libraryStore = new Store("cividle-building-plans", "keyval");
+
+export interface ISavedBuildingPlan {
+   key: string;
+   name: string;
+   author?: string;
+   savedAt: number;
+   /** The plan as it was imported. It is validated again on load, so plans saved by an older client migrate */
+   json: string;
+}
+
+export async function getSavedBuildingPlans(): Promise<ISavedBuildingPlan[]> {
+   const result: ISavedBuildingPlan[] = [];
+   for (const key of await idbKeys(libraryStore)) {
+      const plan = await idbGet<ISavedBuildingPlan>(key, libraryStore);
+      if (plan) {
+         result.push(plan);
+      }
+   }
+   return result.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Replaces a saved plan with the same name and author
+ */
+export async function saveBuildingPlan(meta: IBuildingPlanMeta, json: string): Promise<ISavedBuildingPlan> {
+   const plan: ISavedBuildingPlan = {
+      key: getBuildingPlanKey(meta),
+      name: meta.name,
+      author: meta.author,
+      savedAt: Date.now(),
+      json,
+   };
+   await idbSet(plan.key, plan, libraryStore);
+   return plan;
+}
+
+export async function deleteSavedBuildingPlan(key: string): Promise<void> {
+   await idbDel(key, libraryStore);
+}
@@ -1,15 +1,15 @@
 import { App } from "@capacitor/app";
 import { Advisors } from "../../../shared/definitions/AdvisorDefinitions";
-import { GreatPersonTickFlag } from "../../../shared/definitions/GreatPersonDefinitions";
-import { OnTileExplored, getScienceFromWorkers } from "../../../shared/logic/BuildingLogic";
+import { OnTileExplored } from "../../../shared/logic/BuildingLogic";
 import { Config } from "../../../shared/logic/Config";
-import { ValueToTrack, type GameState } from "../../../shared/logic/GameState";
+import type { GameState } from "../../../shared/logic/GameState";
+import { MAX_OFFLINE_PRODUCTION_SEC } from "../../../shared/logic/Constants";
 import { getGameOptions, notifyGameStateUpdate } from "../../../shared/logic/GameStateLogic";
-import { calculateHappiness } from "../../../shared/logic/HappinessLogic";
-import { clearIntraTickCache, getBuildingsByType } from "../../../shared/logic/IntraTickCache";
-import { getGreatPeopleForWisdom, getGreatPersonThisRunLevel } from "../../../shared/logic/RebirthLogic";
+import { getBuildingsByType, verifyTileCache } from "../../../shared/logic/IntraTickCache";
+import { beginTick, endTick } from "../../../shared/logic/Simulation";
 import { RequestResetTile, getCurrentAge } from "../../../shared/logic/TechLogic";
-import { CurrentTickChanged, EmptyTickData, Tick, freezeTickData } from "../../../shared/logic/TickLogic";
+import { CurrentTickChanged, Tick } from "../../../shared/logic/TickLogic";
+import { beginProfile, endProfilePhase } from "../../../shared/logic/TickProfiler";
 import {
    OnBuildingComplete,
    OnBuildingOrUpgradeComplete,
@@ -19,34 +19,43 @@ import {
    RequestChooseGreatPerson,
    RequestFloater,
    getSortedTiles,
-   tickPower,
-   tickPrice,
-   tickTransports,
-   tickUnlockable,
    transportAndConsumeResources,
    type IProduceResource,
 } from "../../../shared/logic/Update";
 import { AccountLevel } from "../../../shared/utilities/Database";
-import { clamp, forEach, safeAdd, type Tile } from "../../../shared/utilities/Helper";
+import { clamp, forEach, schedule, type Tile } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
 import { saveGame } from "../Global";
-import { client, disconnectWebSocket, getUser, reconnectWebSocket } from "../rpc/RPCClient";
+import {
+   TileBuildings,
+   client,
+   disconnectWebSocket,
+   getUser,
+   isAllyWith,
+   populateTileBuildings,
+   reconnectWebSocket,
+} from "../rpc/RPCClient";
 import { SteamClient, isSteam } from "../rpc/SteamClient";
+import { getNeighboringPlayers, getOwnedOrOccupiedTiles } from "../scenes/PathFinder";
 import { PlayerMapScene } from "../scenes/PlayerMapScene";
 import { WorldScene } from "../scenes/WorldScene";
 import { AccountRankUpModal } from "../ui/AccountRankUpModal";
 import { AdvisorModal } from "../ui/AdvisorModal";
+import { BuildingCompleteModal } from "../ui/BuildingCompleteModal";
 import { ChooseGreatPersonModal } from "../ui/ChooseGreatPersonModal";
 import { hasOpenModal, showModal, showToast } from "../ui/GlobalModal";
 import { makeObservableHook } from "../utilities/Hook";
 import { Singleton } from "../utilities/Singleton";
-import { playAgeUp, playDing, playLevelUp } from "../visuals/Sound";
+import { playAgeUp, playChime, playDing, playLevelUp, playUpgrade } from "../visuals/Sound";
+import { setEffectHost } from "./EffectHost";
 import { clientHeartbeat } from "./Heartbeat";
 import { onBuildingComplete } from "./OnBuildingComplete";
 import { onBuildingOrUpgradeComplete } from "./OnBuildingOrUpgradeComplete";
 import { onProductionComplete } from "./OnProductionComplete";
 import { onTileExplored } from "./OnTileExplored";
+import { recordStatisticsHistory } from "./StatisticsHistory";
 import { TimeSeries } from "./TimeSeries";
+import { runTradeBot } from "./TradeBot";
 
 export function shouldTick(): boolean {
    return isSteam() || !document.hidden;
@@ -68,6 +77,7 @@ let timeSinceLastTick = 0;
 
 export function tickEveryFrame(gs: GameState, dt: number) {
    timeSinceLastTick = Math.min(timeSinceLastTick + dt, 1);
+   const start = beginProfile();
    const worldScene = Singleton().sceneManager.getCurrent(WorldScene);
    if (worldScene) {
       worldScene.update(dt, timeSinceLastTick);
@@ -77,6 +87,7 @@ export function tickEveryFrame(gs: GameState, dt: number) {
    if (playerMapScene) {
       playerMapScene.update(dt);
    }
+   endProfilePhase("sceneUpdate", start);
 
    const targetProgress = Math.ceil(timeSinceLastTick * tickTileQueueSize * Singleton().ticker.speedUp);
    const currentProgress = tickTileQueueSize - tickTileQueue.length;
@@ -92,6 +103,9 @@ const saveFreq = isSteam() ? 60 : 10;
 let tickTileQueue: Tile[] = [];
 let tickTileQueueSize = 0;
 const resourceProduced: IProduceResource[] = [];
+// Offline ticks can run in between the frames of an online tick (see `tickOffline`), so they must not pick up
+// what the online tick has produced so far
+const offlineResourceProduced: IProduceResource[] = [];
 
 let currentSessionTick = 0;
 export function tickEverySecond(gs: GameState, offline: boolean) {
@@ -103,69 +117,59 @@ export function tickEverySecond(gs: GameState, offline: boolean) {
 
    if (!offline) {
       tickTileQueue.forEach((tile) => transportAndConsumeResources(tile, resourceProduced, gs, false));
-      postTickTiles(gs, false);
+      postTickTiles(gs, false, resourceProduced);
    }
 
-   Tick.next.tick = ++currentSessionTick;
-   Tick.current = freezeTickData(Tick.next);
-   Tick.next = EmptyTickData();
-   clearIntraTickCache();
-
-   forEach(gs.unlockedTech, (tech) => {
-      const td = Config.Tech[tech];
-      tickUnlockable(td, t(L.SourceResearch, { tech: td.name() }), gs);
-   });
-
-   forEach(gs.greatPeople, (person, level) => {
-      const greatPerson = Config.GreatPerson[person];
-      greatPerson.tick(
-         person,
-         getGreatPersonThisRunLevel(level),
-         t(L.SourceGreatPerson, { person: greatPerson.name() }),
-         GreatPersonTickFlag.None,
-      );
-   });
-
    gs.lastClientTickAt = Date.now();
-
-   const options = getGameOptions();
-
-   forEach(options.greatPeople, (person, v) => {
-      const greatPerson = Config.GreatPerson[person];
-      greatPerson.tick(
-         person,
-         v.level,
-         t(L.SourceGreatPersonPermanent, { person: greatPerson.name() }),
-         GreatPersonTickFlag.None,
-      );
-   });
-
-   forEach(options.ageWisdom, (age, level) => {
-      getGreatPeopleForWisdom(age).forEach((gp) => {
-         const greatPerson = Config.GreatPerson[gp];
-         greatPerson.tick(
-            gp,
-            level,
-            t(L.AgeWisdomSource, { age: Config.TechAge[age].name(), person: greatPerson.name() }),
-            GreatPersonTickFlag.None,
-         );
-      });
-   });
-
-   tickPrice(gs);
-   tickTransports(gs);
+   beginTick(gs, ++currentSessionTick);
 
    const tiles = getSortedTiles(gs);
 
    if (offline) {
       tiles.forEach(function forEachTickTile([tile, _building]) {
-         transportAndConsumeResources(tile, resourceProduced, gs, offline);
+         transportAndConsumeResources(tile, offlineResourceProduced, gs, offline);
       });
-      postTickTiles(gs, true);
+      postTickTiles(gs, true, offlineResourceProduced);
    } else {
       tickTileQueue = tiles.map(([tile, _building]) => tile);
       tickTileQueueSize = tickTileQueue.length;
       checkForAdvisors(gs);
+      // A building changed without `notifyTileChanged` is only ticked once the tile cache is rebuilt
+      if (import.meta.env.DEV && gs.tick % 60 === 0) {
+         verifyTileCache(gs).forEach((error) => console.error(`Tile cache is out of date: ${error}`));
+      }
+   }
+}
+
+export interface ITickOfflineOptions {
+   /** Ticks run without giving the browser a chance to render */
+   batchSize?: number;
+   /** Called after every tick */
+   afterTick?: () => void;
+   /** Called in between batches, with the share of `seconds` ticked so far */
+   onProgress?: (progress: number) => Promise<void>;
+}
+
+/**
+ * Runs `seconds` offline ticks on `gs`, in batches so the page stays responsive
+ */
+export async function tickOffline(
+   gs: GameState,
+   seconds: number,
+   options: ITickOfflineOptions = {},
+): Promise<void> {
+   const batchSize = options.batchSize ?? MAX_OFFLINE_PRODUCTION_SEC / 100;
+   let ticked = 0;
+   while (ticked < seconds) {
+      const batch = Math.min(seconds - ticked, batchSize);
+      await schedule(() => {
+         for (let i = 0; i < batch; i++) {
+            tickEverySecond(gs, true);
+            options.afterTick?.();
+         }
+         ticked += batch;
+      });
+      await options.onProgress?.(ticked / seconds);
    }
 }
 
@@ -191,30 +195,8 @@ let lastTickTime = Date.now();
 let hasShownAccountRankUpModal = false;
 let eligibleRank = AccountLevel.Tribune;
 
-function postTickTiles(gs: GameState, offline: boolean) {
-   produceResources(gs);
-   tickPower(gs);
-   Tick.next.happiness = calculateHappiness(gs);
-   const { scienceFromWorkers } = getScienceFromWorkers(gs);
-   const hq = Tick.current.specialBuildings.get("Headquarter")?.building.resources;
-   if (hq) {
-      safeAdd(hq, "Science", scienceFromWorkers);
-   }
-
-   let tracker = gs.valueTrackers.get(ValueToTrack.EmpireValue);
-   if (!tracker) {
-      tracker = { accumulated: 0, history: [] };
-      gs.valueTrackers.set(ValueToTrack.EmpireValue, tracker);
-   }
-   // Here we use Tick.next, make sure this is the last code before we increase the tick
-   tracker.accumulated += Tick.next.totalValue;
-   if (gs.tick % 3600 === 0) {
-      tracker.history.push(tracker.accumulated / 3600);
-      tracker.accumulated = 0;
-   }
-   gs.valueTrackers.set(ValueToTrack.EmpireValue, tracker);
-
-   ++gs.tick;
+function postTickTiles(gs: GameState, offline: boolean, produced: IProduceResource[]) {
+   endTick(gs, produced);
 
    while (Date.now() - lastTickTime > 1000) {
       lastTickTime += 1000;
@@ -230,6 +212,7 @@ function postTickTiles(gs: GameState, offline: boolean) {
          }
          notifyGameStateUpdate();
       }
+      recordStatisticsHistory(gs);
       if (gs.tick % (saveFreq * speed) === 0) {
          saveGame().catch(console.error);
       }
@@ -254,9 +237,14 @@ function postTickTiles(gs: GameState, offline: boolean) {
             SteamClient.setRichPresence("steam_display", "#default_status");
          }
       }
+      const tradeBot = getGameOptions().tradeBot;
+      if (tradeBot.enabled && gs.tick % (Math.max(tradeBot.intervalSeconds, 1) * speed) === 0) {
+         runTradeBot().catch(console.error);
+      }
    }
 
    if (Tick.current.totalValue > 0 && Tick.current.tick > 10) {
+      const hq = Tick.current.specialBuildings.get("Headquarter")?.building.resources;
       TimeSeries.add(gs.tick, Tick.current.totalValue, hq?.Science ?? 0);
    }
 }
@@ -270,6 +258,37 @@ RequestFloater.on(({ xy, amount }) => {
 RequestResetTile.on((xy) => {
    Singleton().sceneManager.enqueue(WorldScene, (s) => s.resetTile(xy));
 });
+setEffectHost({
+   populateTileBuildings: () => {
+      populateTileBuildings();
+   },
+   getTileBuilding: (xy) => TileBuildings.get(xy),
+   getOwnedOrOccupiedTiles,
+   getNeighboringPlayers,
+   isAllyWith,
+   getVotedBoosts: () => client.getVotedBoosts(),
+   unlockAchievement: (key) => {
+      if (isSteam()) {
+         SteamClient.unlockAchievement(key);
+      }
+   },
+   setSpeedUp: (speedUp) => {
+      Singleton().ticker.speedUp = speedUp;
+   },
+   revealTile: (xy) => {
+      Singleton().sceneManager.enqueue(WorldScene, (s) => s.revealTile(xy));
+   },
+   hasOpenModal,
+   chooseGreatPerson: () => {
+      playAgeUp();
+      showModal(<ChooseGreatPersonModal permanent={false} />);
+   },
+   showBuildingComplete: (building) => {
+      showModal(<BuildingCompleteModal building={building} />);
+   },
+   playChime,
+   playUpgrade,
+});
 OnTileExplored.on(onTileExplored);
 OnBuildingComplete.on(onBuildingComplete);
 OnBuildingOrUpgradeComplete.on(onBuildingOrUpgradeComplete);
@@ -288,13 +307,3 @@ RequestChooseGreatPerson.on(({ permanent }) => {
 
 export const useCurrentTick = makeObservableHook(CurrentTickChanged, () => Tick.current);
 export const useEligibleAccountRank = makeObservableHook(OnEligibleAccountRankUpdated, () => eligibleRank);
-
-function produceResources(gs: GameState) {
-   for (const a of resourceProduced) {
-      const storage = gs.tiles.get(a.xy)?.building?.resources;
-      if (storage) {
-         safeAdd(storage, a.resource, a.amount);
-      }
-   }
-   resourceProduced.length = 0;
-}
@@ -0,0 +1,388 @@
+import type { Building } from "../../../shared/definitions/BuildingDefinitions";
+import type { TechAge } from "../../../shared/definitions/TechDefinitions";
+import { Config } from "../../../shared/logic/Config";
+import type { GameOptions, GameState } from "../../../shared/logic/GameState";
+import {
+   getGameOptions,
+   getGameState,
+   notifyGameOptionsUpdate,
+   notifyGameStateUpdate,
+} from "../../../shared/logic/GameStateLogic";
+import { unlockedBuildings } from "../../../shared/logic/IntraTickCache";
+import { PlanPreflightAbortedError } from "../../../shared/logic/PlanPreflight";
+import { getLastScriptJournal, runJournaled, undoLastScript } from "../../../shared/logic/ScriptJournal";
+import { isAgeUnlocked } from "../../../shared/logic/TechLogic";
+
+export interface IDaveScriptRequirements {
+   /** Buildings that must be unlocked by research */
+   buildings?: Building[];
+   age?: TechAge;
+   /** Wonders that must already be built */
+   wonders?: Building[];
+}
+
+export interface IDaveScript<T = unknown> {
+   /** Key in `GameOptions.daveScriptsRun`, do not change once released */
+   id: string;
+   label: string;
+   order: number;
+   requires?: IDaveScriptRequirements;
+   run: () => Promise<T>;
+   format: (result: T) => string;
+   /** Return false to not mark the script as run this rebirth, e.g. when it found nothing to do */
+   isDone?: (result: T) => boolean;
+}
+
+const _scripts: IDaveScript[] = [];
+
+export function registerDaveScript<T>(script: IDaveScript<T>): void {
+   if (_scripts.some((s) => s.id === script.id)) {
+      throw new Error(`Dave's script ${script.id} is registered twice`);
+   }
+   _scripts.push(script as IDaveScript);
+}
+
+export function getDaveScripts(): readonly IDaveScript[] {
+   return _scripts.slice().sort((a, b) => a.order - b.order);
+}
+
+export function hasRunThisRebirth(script: IDaveScript, options: GameOptions): boolean {
+   return (options.daveScriptsRun?.[script.id] ?? -1) === (options.rebirthInfo?.length ?? 0);
+}
+
+/**
+ * Returns a description of every requirement that is not met, empty if the script can run.
+ */
+export function getUnmetRequirements(script: IDaveScript, gs: GameState): string[] {
+   const unmet: string[] = [];
+   const requires = script.requires;
+   if (!requires) {
+      return unmet;
+   }
+   if (requires.age && !isAgeUnlocked(requires.age, gs)) {
+      unmet.push(Config.TechAge[requires.age].name());
+   }
+   const unlocked = unlockedBuildings(gs);
+   requires.buildings?.forEach((b) => {
+      if (!unlocked[b]) {
+         unmet.push(Config.Building[b].name());
+      }
+   });
+   requires.wonders?.forEach((w) => {
+      let built = false;
+      gs.tiles.forEach((tile) => {
+         if (tile.building?.type === w && tile.building.status === "completed") {
+            built = true;
+         }
+      });
+      if (!built) {
+         unmet.push(Config.Building[w].name());
+      }
+   });
+   return unmet;
+}
+
+/**
+ * Runs `script` as one undoable step and returns the message to show, followed by the budget of everything it
+ * placed. Throws if a requirement is not met.
+ */
+export async function runDaveScript(script: IDaveScript): Promise<string> {
+   const unmet = getUnmetRequirements(script, getGameState());
+   if (unmet.length > 0) {
+      throw new Error(`${script.label} requires ${unmet.join(", ")}`);
+   }
+   const gs = getGameState();
+   const before = getLastScriptJournal(gs);
+   let result: unknown;
+   let budget: string | null = null;
+   try {
+      result = await runJournaled(script.label, script.run, gs);
+   } catch (err) {
+      // Whatever the script placed before the player aborted is undone, the script counts as not run
+      if (err instanceof PlanPreflightAbortedError) {
+         if (getLastScriptJournal(gs) !== before) {
+            undoLastScript(gs);
+            notifyGameStateUpdate(gs);
+         }
+         return `${script.label}: aborted`;
+      }
+      throw err;
+   } finally {
+      budget = (await placements()).takePlanBudgetMessage();
+   }
+   if (script.isDone?.(result) ?? true) {
+      const options = getGameOptions();
+      options.daveScriptsRun = options.daveScriptsRun ?? {};
+      options.daveScriptsRun[script.id] = options.rebirthInfo?.length ?? 0;
+      notifyGameOptionsUpdate(options);
+   }
+   const message = script.format(result);
+   return budget ? `${message}. ${budget}` : message;
+}
+
+/**
+ * Called after a script has been undone, `journalName` is the name of the undone journal entry.
+ */
+export function clearDaveScriptRun(journalName: string): void {
+   const script = _scripts.find((s) => s.label === journalName);
+   const options = getGameOptions();
+   if (script && options.daveScriptsRun?.[script.id] !== undefined) {
+      delete options.daveScriptsRun[script.id];
+      notifyGameOptionsUpdate(options);
+   }
+}
+
+function formatPlacements(results?: { type: string; requested?: number; placed?: number }[]): string {
+   return results?.length ? results.map((r) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
+}
+
+function countPlaced(results?: { placed?: number }[]): number {
+   return (results ?? []).reduce((total, r) => total + (r.placed ?? 0), 0);
+}
+
+// Scripts are loaded on demand so the menu does not pull davescripts into the main bundle
+const scripts = () => import("./davescripts");
+const placements = () => import("./davescripts2");
+
+registerDaveScript({
+   id: "BuildInitialMines",
+   label: "001 - Build Initial Mines",
+   order: 1,
+   run: async () => (await scripts()).buildInitialMines(),
+   format: (res) =>
+      `BuildInitialMines: Houses ${res.houseResult?.placed ?? 0}, Aqueducts ${res.aqueductPlaced}, Quarries ${res.stoneQuarryPlaced}, Logging ${res.loggingCampPlaced}`,
+});
+
+registerDaveScript({
+   id: "BuildApartments",
+   label: "002 - Build Apartments",
+   order: 2,
+   requires: { buildings: ["Apartment"] },
+   run: async () => (await scripts()).buildApartments(),
+   format: (res) => `BuildApartments: ${res?.message ?? "no summary"}`,
+});
+
+registerDaveScript({
+   id: "BuildBigBenMaterials",
+   label: "003 - Build Big Ben Materials",
+   order: 3,
+   requires: { buildings: ["Parliament"] },
+   run: async () => (await scripts()).buildBigBenMaterials(),
+   format: (res) =>
+      res.results
+         ? `BuildBigBenMaterials: ${formatPlacements(res.results)}`
+         : `BuildBigBenMaterials: ${res.message ?? "no tiles placed"}`,
+   isDone: (res) => !!res.results,
+});
+
+registerDaveScript({
+   id: "PrepareCondoMaterials",
+   label: "004 - Prepare Condo Materials",
+   order: 4,
+   requires: { buildings: ["ReinforcedConcretePlant"] },
+   run: async () => (await scripts()).prepareCondoMaterials(),
+   format: (res) =>
+      `PrepareCondoMaterials: top: ${formatPlacements(res.topPlacement?.results)}; cleared ${res.cleared?.cleared ?? 0}; bottom: ${formatPlacements(res.bottomPlacement?.results)}`,
+});
+
+registerDaveScript({
+   id: "ReplaceApartmentsWithCondos",
+   label: "005 - Replace Apartments with Condos",
+   order: 5,
+   requires: { buildings: ["Condo"] },
+   run: async () => (await scripts()).replaceApartmentsWithCondos(),
+   format: (res) =>
+      `ReplaceApartmentsWithCondos: removed ${res.removedApartments}, placed ${res.placed}/${res.requested}`,
+});
+
+registerDaveScript({
+   id: "PrepareCnTowerMaterial",
+   label: "006 - Prepare CN Tower Material",
+   order: 6,
+   requires: { buildings: ["RadioStation"] },
+   run: async () => (await scripts()).prepareCnTowerMaterials(),
+   format: (res) =>
+      `PrepareCN: cleared ${res.cleared?.cleared ?? 0}; non-elect: ${formatPlacements(res.nonElectPlacement?.results)}; elect: ${formatPlacements(res.electPlacement?.results)}`,
+});
+
+registerDaveScript({
+   id: "PrepareAtomiumAndOxUni",
+   label: "007 - Prepare Atomium and Ox Uni",
+   order: 7,
+   requires: { buildings: ["AtomicFacility"] },
+   run: async () => (await scripts()).prepareAtomiumAndOxUni(),
+   format: (res) =>
+      `PrepareAtomiumAndOxUni: clearedTop ${res.clearedTop?.cleared ?? 0}; clearedBottom ${res.clearedBottom?.cleared ?? 0}; non-elect: ${formatPlacements(res.nonElectPlacement?.results)}; elect: ${formatPlacements(res.electPlacement?.results)}`,
+});
+
+registerDaveScript({
+   id: "PrepareCloneLabs",
+   label: "008 - Prepare Clone Labs",
+   order: 8,
+   requires: { buildings: ["SpacecraftFactory"] },
+   run: async () => (await scripts()).prepareCloneLabs(),
+   format: (res) =>
+      `PrepareCloneLabs: clearedTop ${res.clearedTop?.cleared ?? 0}; clearedBottom ${res.clearedBottom?.cleared ?? 0}; non-elect: ${formatPlacements(res.nonElectPlacement?.results)}; elect: ${formatPlacements(res.electPlacement?.results)}`,
+});
+
+registerDaveScript({
+   id: "BuildCloneLabs",
+   label: "009 - Build Clone Labs",
+   order: 9,
+   requires: { buildings: ["CloneLab"] },
+   run: async () => (await scripts()).buildCloneLabs(),
+   format: (res) =>
+      `BuildCloneLabs: removedCondos ${res.removedCondos}; placed ${res.placed}/${res.requested}; remaining ${res.remaining}`,
+});
+
+registerDaveScript({
+   id: "DysonPart1",
+   label: "Dyson Part 1",
+   order: 10,
+   requires: { buildings: ["DysonSphere"] },
+   run: async () => (await scripts()).dysonBuildPlan1(),
+   format: (res) =>
+      `Dyson Part 1 complete: removedCloneLabs; cleared ${res.cleared?.cleared ?? 0}; smallRow: ${formatPlacements(res.smallRowPlacement?.results)}`,
+});
+
+registerDaveScript({
+   id: "DysonPart2",
+   label: "Dyson Part 2",
+   order: 11,
+   requires: { buildings: ["DysonSphere"] },
+   run: async () => (await scripts()).dysonBuildPlan2(),
+   format: (res) =>
+      `Dyson Part 2 complete: placed ${countPlaced(res.placement?.results)}; ${formatPlacements(res.placement?.results)}`,
+});
+
+registerDaveScript({
+   id: "DysonPart3",
+   label: "Dyson Part 3",
+   order: 12,
+   requires: { buildings: ["DysonSphere"] },
+   run: async () => (await scripts()).dysonBuildPlan3(),
+   format: (res) =>
+      `Dyson Part 3 complete: placed ${countPlaced(res.placement?.results)}; ${formatPlacements(res.placement?.results)}`,
+});
+
+registerDaveScript({
+   id: "DysonPart4",
+   label: "Dyson Part 4",
+   order: 13,
+   requires: { buildings: ["DysonSphere"] },
+   run: async () => (await scripts()).dysonBuildPlan4(),
+   format: (res) => `Dyson Part 4 complete: ${formatPlacements(res.leftStripPlacement)}`,
+});
+
+registerDaveScript({
+   id: "AldersonDisc1",
+   label: "Alderson Disc 1",
+   order: 14,
+   requires: { buildings: ["AldersonDisk"] },
+   run: async () => (await scripts()).aldersonDisc1(),
+   format: (res) =>
+      `Alderson Disc 1: cleared ${res.cleared?.cleared ?? 0}; preservedWonders ${res.cleared?.preservedWonders ?? 0}; preservedMines ${res.cleared?.preservedMines ?? 0}`,
+});
+
+registerDaveScript({
+   id: "AldersonDisc2",
+   label: "Alderson Disc 2",
+   order: 15,
+   requires: { buildings: ["AldersonDisk"] },
+   run: async () => (await scripts()).aldersonDisc2(),
+   format: (res) => `Alderson Disc 2 complete: ${formatPlacements(res.placement?.results)}`,
+});
+
+registerDaveScript({
+   id: "AldersonDisc3",
+   label: "Alderson Disc 3",
+   order: 16,
+   requires: { buildings: ["AldersonDisk"] },
+   run: async () => (await scripts()).aldersonDisc3(),
+   format: (res) => `Alderson Disc 3 complete: ${formatPlacements(res.placement?.results)}`,
+});
+
+registerDaveScript({
+   id: "AldersonDisc4",
+   label: "Alderson Disc 4",
+   order: 17,
+   requires: { buildings: ["AldersonDisk"] },
+   run: async () => (await scripts()).aldersonDisc4(),
+   format: (res) =>
+      `Alderson Disc 4 complete: removed ${res.removed ?? 0}; ${formatPlacements(res.leftStripPlacement)}`,
+});
+
+registerDaveScript({
+   id: "LargeHadronCollider1",
+   label: "Large Hadron Collider 1",
+   order: 18,
+   requires: { buildings: ["LargeHadronCollider"] },
+   run: async () => (await scripts()).largeHadronCollider1(),
+   format: (res) =>
+      `LHC 1 complete: removed ${res.removed}; ${res.cleared ? `${res.cleared.cleared} cleared` : "none"}`,
+});
+
+registerDaveScript({
+   id: "LargeHadronCollider2",
+   label: "Large Hadron Collider 2",
+   order: 19,
+   requires: { buildings: ["LargeHadronCollider"] },
+   run: async () => (await scripts()).largeHadronCollider2(),
+   format: (res) => `LHC 2 complete: ${formatPlacements(res.placement?.results)}`,
+});
+
+registerDaveScript({
+   id: "LargeHadronCollider3",
+   label: "Large Hadron Collider 3",
+   order: 20,
+   requires: { buildings: ["LargeHadronCollider"] },
+   run: async () => (await scripts()).largeHadronCollider3(),
+   format: (res) => `LHC 3 complete: ${formatPlacements(res.placement?.results)}`,
+});
+
+registerDaveScript({
+   id: "LargeHadronCollider4",
+   label: "Large Hadron Collider 4",
+   order: 21,
+   requires: { buildings: ["LargeHadronCollider"] },
+   run: async () => (await scripts()).largeHadronCollider4(),
+   format: (res) =>
+      `LHC 4 complete: removed ${res.removed ?? 0}; ${formatPlacements(res.leftStripPlacement)}`,
+});
+
+registerDaveScript({
+   id: "BuildSpaceCenter1",
+   label: "Build Space Center 1",
+   order: 22,
+   requires: { buildings: ["SpaceCenter"] },
+   run: async () => (await scripts()).buildSpaceCenter1(),
+   format: (res) =>
+      `Build Space Center 1 complete: removed ${res.removed}; ${res.cleared ? `${res.cleared.cleared} cleared` : "none"}`,
+});
+
+registerDaveScript({
+   id: "BuildSpaceCenter2",
+   label: "Build Space Center 2",
+   order: 23,
+   requires: { buildings: ["SpaceCenter"] },
+   run: async () => (await scripts()).buildSpaceCenter2(),
+   format: (res) => `Build Space Center 2: ${res.message ?? "complete"}`,
+});
+
+registerDaveScript({
+   id: "BuildSpaceCenter3",
+   label: "Build Space Center 3",
+   order: 24,
+   requires: { buildings: ["SpaceCenter"] },
+   run: async () => (await scripts()).buildSpaceCenter3(),
+   format: (res) => `Build Space Center 3: ${res.message ?? "complete"}`,
+});
+
+registerDaveScript({
+   id: "BuildSpaceCenter4",
+   label: "Build Space Center 4",
+   order: 25,
+   requires: { buildings: ["SpaceCenter"] },
+   run: async () => (await scripts()).buildSpaceCenter4(),
+   format: (res) => `Build Space Center 4: ${res.message ?? "complete"}`,
+});
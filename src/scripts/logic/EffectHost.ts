@@ -0,0 +1,39 @@
+import type { Building } from "../../../shared/definitions/BuildingDefinitions";
+import type { IClientMapEntry, IGetVotedBoostResponse } from "../../../shared/utilities/Database";
+import type { Tile } from "../../../shared/utilities/Helper";
+
+/**
+ * Everything the game event handlers (`onProductionComplete`, `onBuildingComplete`, ...) need from outside the
+ * game state: the player map, the server, the scene and the UI. The handlers must not import any of these
+ * directly, so that they can also run in the offline production worker, which has none of them.
+ */
+export interface IEffectHost {
+   populateTileBuildings: () => void;
+   getTileBuilding: (xy: string) => Building | undefined;
+   getOwnedOrOccupiedTiles: () => string[];
+   getNeighboringPlayers: () => Map<string, [string, IClientMapEntry][]>;
+   isAllyWith: (tile: IClientMapEntry) => boolean;
+   getVotedBoosts: () => Promise<IGetVotedBoostResponse>;
+   unlockAchievement: (key: string) => void;
+   setSpeedUp: (speedUp: number) => void;
+   revealTile: (xy: Tile) => void;
+   hasOpenModal: () => boolean;
+   /** Lets the player pick from `gs.greatPeopleChoicesV2` */
+   chooseGreatPerson: () => void;
+   showBuildingComplete: (building: Building) => void;
+   playChime: () => void;
+   playUpgrade: () => void;
+}
+
+let host: IEffectHost | null = null;
+
+export function setEffectHost(h: IEffectHost): void {
+   host = h;
+}
+
+export function getEffectHost(): IEffectHost {
+   if (!host) {
+      throw new Error("Game events are handled before an effect host is set");
+   }
+   return host;
+}
@@ -0,0 +1,54 @@
+import type { Building } from "../../../shared/definitions/BuildingDefinitions";
+import { getTotalBuildingCost } from "../../../shared/logic/BuildingLogic";
+import { copyForecastWorld, runForecast, type IForecastResult } from "../../../shared/logic/Forecast";
+import { HOUR } from "../../../shared/utilities/Helper";
+import { applyPlanDiff, PerformBuildingPlanFromObject } from "./BuildTemplate";
+
+export interface IForecastOptions {
+   hours: number;
+   /** Building to report the time to afford for */
+   target?: Building;
+   /** Level of `target` to afford, from scratch */
+   targetLevel?: number;
+   /** A building plan (see shared/logic/BuildingPlan.ts) to apply to the copy before running it */
+   plan?: unknown;
+}
+
+/**
+ * Runs a copy of the current game `options.hours` ahead, see `runForecast`
+ */
+export async function forecast(
+   options: IForecastOptions,
+   onProgress?: (progress: number) => Promise<void>,
+): Promise<IForecastResult> {
+   const world = copyForecastWorld();
+   if (options.plan !== undefined) {
+      // A dry run against the real game state, which the copy is still identical to
+      const { diff } = await PerformBuildingPlanFromObject(options.plan, { dryRun: true });
+      applyPlanDiff(diff, world.current);
+   }
+   const cost = options.target
+      ? getTotalBuildingCost({ type: options.target }, 0, options.targetLevel ?? 1)
+      : null;
+   return runForecast(world, Math.round((options.hours * HOUR) / 1000), cost, onProgress);
+}
+
+export interface IForecastComparison {
+   baseline: IForecastResult;
+   withPlan: IForecastResult;
+}
+
+/**
+ * Forecasts the game as it is and with `plan` applied, to see what the plan gains
+ */
+export async function compareForecast(
+   options: IForecastOptions & { plan: unknown },
+   onProgress?: (progress: number) => Promise<void>,
+): Promise<IForecastComparison> {
+   const baseline = await forecast(
+      { ...options, plan: undefined },
+      (p) => onProgress?.(p / 2) ?? Promise.resolve(),
+   );
+   const withPlan = await forecast(options, (p) => onProgress?.(0.5 + p / 2) ?? Promise.resolve());
+   return { baseline, withPlan };
+}
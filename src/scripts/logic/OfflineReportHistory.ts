@@ -0,0 +1,22 @@
+import type { IOfflineReport } from "../../../shared/logic/OfflineReport";
+import { idbGet, idbSet, Store } from "../utilities/BrowserStorage";
+
+const offlineReportStore = new Store("cividle-offline-reports", "keyval");
+const OfflineReportsKey = "reports";
+const MaxOfflineReports = 10;
+
+/**
+ * Keeps the last `MaxOfflineReports` reports, apart from the save like the statistics history
+ */
+export async function saveOfflineReport(report: IOfflineReport): Promise<void> {
+   const reports = await getOfflineReports();
+   reports.unshift(report);
+   await idbSet(OfflineReportsKey, reports.slice(0, MaxOfflineReports), offlineReportStore);
+}
+
+/**
+ * Newest first
+ */
+export async function getOfflineReports(): Promise<IOfflineReport[]> {
+   return (await idbGet<IOfflineReport[]>(OfflineReportsKey, offlineReportStore)) ?? [];
+}
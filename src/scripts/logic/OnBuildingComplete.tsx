@@ -32,7 +32,7 @@ import {
    makeBuilding,
    type IBuildingData,
 } from "../../../shared/logic/Tile";
-import { OnBuildingComplete } from "../../../shared/logic/Update";
+import { OnBuildingComplete, notifyTileChanged } from "../../../shared/logic/Update";
 import {
    clamp,
    filterOf,
@@ -46,17 +46,12 @@ import {
    tileToPoint,
    type Tile,
 } from "../../../shared/utilities/Helper";
-import { WorldScene } from "../scenes/WorldScene";
-import { BuildingCompleteModal } from "../ui/BuildingCompleteModal";
-import { ChooseGreatPersonModal } from "../ui/ChooseGreatPersonModal";
-import { hasOpenModal, showModal } from "../ui/GlobalModal";
-import { Singleton } from "../utilities/Singleton";
-import { playAgeUp, playChime } from "../visuals/Sound";
+import { getEffectHost } from "./EffectHost";
 
 export function onBuildingComplete(xy: Tile): void {
    const gs = getGameState();
    for (const g of ensureTileFogOfWar(xy, getExtraVisionRange(), gs)) {
-      Singleton().sceneManager.enqueue(WorldScene, (s) => s.revealTile(g));
+      getEffectHost().revealTile(g);
    }
    const building = gs.tiles.get(xy)?.building;
    if (!building) {
@@ -69,7 +64,7 @@ export function onBuildingComplete(xy: Tile): void {
          gs.tiles.forEach((tile, xy) => {
             if (tile.deposit.Water) {
                exploreTile(xy, gs);
-               Singleton().sceneManager.enqueue(WorldScene, (s) => s.revealTile(xy));
+               getEffectHost().revealTile(xy);
             }
          });
          break;
@@ -86,8 +81,7 @@ export function onBuildingComplete(xy: Tile): void {
          }
 
          if (gs.greatPeopleChoicesV2.length > 0) {
-            playAgeUp();
-            showModal(<ChooseGreatPersonModal permanent={false} />);
+            getEffectHost().chooseGreatPerson();
          }
          break;
       }
@@ -111,8 +105,7 @@ export function onBuildingComplete(xy: Tile): void {
          }
 
          if (gs.greatPeopleChoicesV2.length > 0) {
-            playAgeUp();
-            showModal(<ChooseGreatPersonModal permanent={false} />);
+            getEffectHost().chooseGreatPerson();
          }
          break;
       }
@@ -177,8 +170,7 @@ export function onBuildingComplete(xy: Tile): void {
             gs.city,
          ).forEach((c) => gs.greatPeopleChoicesV2.push(c));
          if (gs.greatPeopleChoicesV2.length > 0) {
-            playAgeUp();
-            showModal(<ChooseGreatPersonModal permanent={false} />);
+            getEffectHost().chooseGreatPerson();
          }
          break;
       }
@@ -213,6 +205,7 @@ export function onBuildingComplete(xy: Tile): void {
                }),
                getGameOptions(),
             );
+            notifyTileChanged(xy);
             OnBuildingComplete.emit(xy);
             ++count;
 
@@ -226,7 +219,7 @@ export function onBuildingComplete(xy: Tile): void {
                !isNaturalWonder(tile.building.type)
             ) {
                for (const g of ensureTileFogOfWar(xy, 1, gs)) {
-                  Singleton().sceneManager.enqueue(WorldScene, (s) => s.revealTile(g));
+                  getEffectHost().revealTile(g);
                }
             }
          });
@@ -255,8 +248,7 @@ export function onBuildingComplete(xy: Tile): void {
          }
 
          if (gs.greatPeopleChoicesV2.length > 0) {
-            playAgeUp();
-            showModal(<ChooseGreatPersonModal permanent={false} />);
+            getEffectHost().chooseGreatPerson();
          }
          break;
       }
@@ -280,8 +272,7 @@ export function onBuildingComplete(xy: Tile): void {
                }
             }
             if (gs.greatPeopleChoicesV2.length > 0) {
-               playAgeUp();
-               showModal(<ChooseGreatPersonModal permanent={false} />);
+               getEffectHost().chooseGreatPerson();
             }
          }
          break;
@@ -289,9 +280,9 @@ export function onBuildingComplete(xy: Tile): void {
       /* SaviorOnSpilledBlood removed upstream; no action required here. */
    }
    checkCerneAbbasGiant(building, gs);
-   if (isWorldWonder(building.type) && getGameOptions().showWonderPopup && !hasOpenModal()) {
-      playChime();
-      showModal(<BuildingCompleteModal building={building.type} />);
+   if (isWorldWonder(building.type) && getGameOptions().showWonderPopup && !getEffectHost().hasOpenModal()) {
+      getEffectHost().playChime();
+      getEffectHost().showBuildingComplete(building.type);
    }
 }
 
@@ -306,8 +297,7 @@ function checkCerneAbbasGiant(building: IBuildingData, gs: GameState) {
          gs.greatPeopleChoicesV2.push(candidates);
       }
       if (gs.greatPeopleChoicesV2.length > 0) {
-         playAgeUp();
-         showModal(<ChooseGreatPersonModal permanent={false} />);
+         getEffectHost().chooseGreatPerson();
       }
    }
 }
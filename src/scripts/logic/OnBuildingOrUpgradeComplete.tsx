@@ -5,9 +5,7 @@ import { rollGreatPeopleThisRun } from "../../../shared/logic/RebirthLogic";
 import { getCurrentAge } from "../../../shared/logic/TechLogic";
 import type { IChateauFrontenacBuildingData } from "../../../shared/logic/Tile";
 import { entriesOf, keysOf, shuffle, type Tile } from "../../../shared/utilities/Helper";
-import { ChooseGreatPersonModal } from "../ui/ChooseGreatPersonModal";
-import { showModal } from "../ui/GlobalModal";
-import { playAgeUp } from "../visuals/Sound";
+import { getEffectHost } from "./EffectHost";
 
 export function onBuildingOrUpgradeComplete(xy: Tile): void {
    const gs = getGameState();
@@ -23,8 +21,7 @@ export function onBuildingOrUpgradeComplete(xy: Tile): void {
             gs.greatPeopleChoicesV2.push(candidates1);
          }
          if (gs.greatPeopleChoicesV2.length > 0) {
-            playAgeUp();
-            showModal(<ChooseGreatPersonModal permanent={false} />);
+            getEffectHost().chooseGreatPerson();
          }
          break;
       }
@@ -36,8 +33,7 @@ export function onBuildingOrUpgradeComplete(xy: Tile): void {
             gs.greatPeopleChoicesV2.push(candidates1);
          }
          if (gs.greatPeopleChoicesV2.length > 0) {
-            playAgeUp();
-            showModal(<ChooseGreatPersonModal permanent={false} />);
+            getEffectHost().chooseGreatPerson();
          }
          break;
       }
@@ -101,13 +101,7 @@ import {
 } from "../../../shared/utilities/Helper";
 import { srand } from "../../../shared/utilities/Random";
 import { L, t } from "../../../shared/utilities/i18n";
-import { TileBuildings, client, isAllyWith, populateTileBuildings } from "../rpc/RPCClient";
-import { SteamClient, isSteam } from "../rpc/SteamClient";
-import { getNeighboringPlayers, getOwnedOrOccupiedTiles } from "../scenes/PathFinder";
-import { ChooseGreatPersonModal } from "../ui/ChooseGreatPersonModal";
-import { hasOpenModal, showModal } from "../ui/GlobalModal";
-import { Singleton } from "../utilities/Singleton";
-import { playAgeUp } from "../visuals/Sound";
+import { getEffectHost } from "./EffectHost";
 
 let votedBoost: IGetVotedBoostResponse | null = null;
 let lastVotedBoostUpdatedAt = 0;
@@ -152,12 +146,13 @@ export function onProductionComplete({ xy, offline }: { xy: Tile; offline: boole
             gs.festival = false;
          }
 
-         populateTileBuildings();
+         const host = getEffectHost();
+         host.populateTileBuildings();
 
          const wtoLevel = Tick.current.specialBuildings.get("WorldTradeOrganization")?.building.level ?? 0;
 
-         getOwnedOrOccupiedTiles().forEach((xy, i) => {
-            const building = TileBuildings.get(xy);
+         host.getOwnedOrOccupiedTiles().forEach((xy, i) => {
+            const building = host.getTileBuilding(xy);
             if (building) {
                addMultiplier(
                   building,
@@ -177,12 +172,12 @@ export function onProductionComplete({ xy, offline }: { xy: Tile; offline: boole
          let allyCount = 0;
          const hasLakeLouise = Tick.current.specialBuildings.has("LakeLouise");
          const lakeLouiseLevelBoosts = new Map<Building, number>();
-         getNeighboringPlayers().forEach((player) => {
+         host.getNeighboringPlayers().forEach((player) => {
             let isAlly = false;
             player.forEach(([xy, tile]) => {
-               const building = TileBuildings.get(xy);
+               const building = host.getTileBuilding(xy);
                if (building) {
-                  if (isAllyWith(tile)) {
+                  if (host.isAllyWith(tile)) {
                      isAlly = true;
                      addMultiplier(
                         building,
@@ -210,8 +205,8 @@ export function onProductionComplete({ xy, offline }: { xy: Tile; offline: boole
             addLevelBoost(building, level, t(L.LakeLouise), gs);
          }
 
-         if (isSteam() && allyCount > 0 && !declareFriendshipAchievementUnlocked) {
-            SteamClient.unlockAchievement("DeclareFriendship");
+         if (allyCount > 0 && !declareFriendshipAchievementUnlocked) {
+            host.unlockAchievement("DeclareFriendship");
             declareFriendshipAchievementUnlocked = true;
          }
 
@@ -230,7 +225,7 @@ export function onProductionComplete({ xy, offline }: { xy: Tile; offline: boole
             } else {
                gs.speedUp = 1;
             }
-            Singleton().ticker.speedUp = gs.speedUp;
+            host.setSpeedUp(gs.speedUp);
          }
          break;
       }
@@ -862,9 +857,11 @@ export function onProductionComplete({ xy, offline }: { xy: Tile; offline: boole
          if (Date.now() - lastVotedBoostUpdatedAt > MINUTE) {
             lastVotedBoostUpdatedAt = Date.now();
             if (votedBoost === null || getWeekId() !== votedBoost.id) {
-               client.getVotedBoosts().then((resp) => {
-                  votedBoost = resp;
-               });
+               getEffectHost()
+                  .getVotedBoosts()
+                  .then((resp) => {
+                     votedBoost = resp;
+                  });
             }
          }
 
@@ -1634,9 +1631,8 @@ export function onProductionComplete({ xy, offline }: { xy: Tile; offline: boole
                hasGreatPeople = true;
             }
          }
-         if (hasGreatPeople && !hasOpenModal()) {
-            playAgeUp();
-            showModal(<ChooseGreatPersonModal permanent={false} />);
+         if (hasGreatPeople && !getEffectHost().hasOpenModal()) {
+            getEffectHost().chooseGreatPerson();
          }
          break;
       }
@@ -1711,9 +1707,8 @@ export function onProductionComplete({ xy, offline }: { xy: Tile; offline: boole
             if (candidates) {
                gs.greatPeopleChoicesV2.push(candidates);
             }
-            if (!hasOpenModal() && gs.greatPeopleChoicesV2.length > 0) {
-               playAgeUp();
-               showModal(<ChooseGreatPersonModal permanent={false} />);
+            if (!getEffectHost().hasOpenModal() && gs.greatPeopleChoicesV2.length > 0) {
+               getEffectHost().chooseGreatPerson();
             }
          }
          break;
@@ -2030,8 +2025,9 @@ export function onProductionComplete({ xy, offline }: { xy: Tile; offline: boole
       }
       case "GreatOceanRoad": {
          const buildings = new Set<Building>();
-         getOwnedOrOccupiedTiles().forEach((xy, i) => {
-            const building = TileBuildings.get(xy);
+         const host = getEffectHost();
+         host.getOwnedOrOccupiedTiles().forEach((xy, i) => {
+            const building = host.getTileBuilding(xy);
             if (building) {
                buildings.add(building);
             }
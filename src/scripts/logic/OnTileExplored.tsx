@@ -20,19 +20,14 @@ import {
    tileToPoint,
    type Tile,
 } from "../../../shared/utilities/Helper";
-import { WorldScene } from "../scenes/WorldScene";
-import { BuildingCompleteModal } from "../ui/BuildingCompleteModal";
-import { ChooseGreatPersonModal } from "../ui/ChooseGreatPersonModal";
-import { showModal } from "../ui/GlobalModal";
-import { Singleton } from "../utilities/Singleton";
-import { playAgeUp, playUpgrade } from "../visuals/Sound";
+import { getEffectHost } from "./EffectHost";
 
 export function onTileExplored(xy: Tile): void {
    const gs = getGameState();
    const building = gs.tiles.get(xy)?.building;
    if (isNaturalWonder(building?.type)) {
       if (building && getGameOptions().showNaturalWonderPopup) {
-         showModal(<BuildingCompleteModal building={building.type} />);
+         getEffectHost().showBuildingComplete(building.type);
       }
       switch (building?.type) {
          case "GrottaAzzurra": {
@@ -58,8 +53,7 @@ export function onTileExplored(xy: Tile): void {
                gs.greatPeopleChoicesV2.push(candidates);
             }
             if (gs.greatPeopleChoicesV2.length > 0) {
-               playAgeUp();
-               showModal(<ChooseGreatPersonModal permanent={false} />);
+               getEffectHost().chooseGreatPerson();
             }
             break;
          }
@@ -92,7 +86,7 @@ export function onTileExplored(xy: Tile): void {
             gs.tiles.forEach((tile, xy) => {
                if (tile.deposit.Wood) {
                   exploreTile(xy, gs);
-                  Singleton().sceneManager.enqueue(WorldScene, (s) => s.revealTile(xy));
+                  getEffectHost().revealTile(xy);
                }
             });
             break;
@@ -101,7 +95,7 @@ export function onTileExplored(xy: Tile): void {
             gs.tiles.forEach((tile, xy) => {
                if (!tile.explored) {
                   exploreTile(xy, gs);
-                  Singleton().sceneManager.enqueue(WorldScene, (s) => s.revealTile(xy));
+                  getEffectHost().revealTile(xy);
                }
             });
             break;
@@ -118,7 +112,7 @@ export function onTileExplored(xy: Tile): void {
                   safeAdd(gs.greatPeople, gp, 1);
                }
             });
-            playUpgrade();
+            getEffectHost().playUpgrade();
             break;
          }
          case "AuroraBorealis": {
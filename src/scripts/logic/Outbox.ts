@@ -0,0 +1,250 @@
+import type { Material } from "../../../shared/definitions/MaterialDefinitions";
+import { Config } from "../../../shared/logic/Config";
+import { TRADE_CANCEL_REFUND_PERCENT } from "../../../shared/logic/Constants";
+import { getGameState } from "../../../shared/logic/GameStateLogic";
+import { addResourceTo, getAvailableStorage } from "../../../shared/logic/ResourceLogic";
+import { Tick } from "../../../shared/logic/TickLogic";
+import type { ITrade } from "../../../shared/utilities/Database";
+import {
+   clamp,
+   forEach,
+   formatNumber,
+   mapOf,
+   safeAdd,
+   sizeOf,
+   uuid4,
+} from "../../../shared/utilities/Helper";
+import {
+   flushOutbox,
+   queueOutboxAction,
+   restoreOutboxActions,
+   type IOutboxAction,
+   type OutboxMethod,
+   type OutboxParam,
+} from "../../../shared/utilities/Outbox";
+import type { RpcResult } from "../../../shared/utilities/ServerRpc";
+import { TypedEvent } from "../../../shared/utilities/TypedEvent";
+import { L, t } from "../../../shared/utilities/i18n";
+import { OnConnected, client, isConnected, isReplayingServer } from "../rpc/RPCClient";
+import { showToast } from "../ui/GlobalModal";
+import { idbGet, idbSet } from "../utilities/BrowserStorage";
+import { makeObservableHook } from "../utilities/Hook";
+import { playError, playKaching } from "../visuals/Sound";
+import { RequestPendingClaimUpdate } from "./PendingClaim";
+
+const OutboxKey = "CIVIDLE_OUTBOX";
+
+// Changed in place, a flush holds on to it
+const outbox: IOutboxAction[] = [];
+let flushing = false;
+/** Callbacks of actions queued since the game started, by key */
+const waiting = new Map<string, (result: unknown) => void>();
+
+export const OnOutboxChanged = new TypedEvent<IOutboxAction[]>();
+export const useOutbox = makeObservableHook(OnOutboxChanged, getOutbox);
+
+export function getOutbox(): IOutboxAction[] {
+   return outbox;
+}
+
+interface IOutboxEffects<K extends OutboxMethod> {
+   /** What the action changes in the game once the server has accepted it */
+   accepted?: (param: OutboxParam<K>, result: RpcResult<K>) => void;
+   /** Undoes what was changed in the game when the action was queued */
+   rejected?: (param: OutboxParam<K>) => void;
+   /** Fits the action to the game as it is when it is first sent, which can be long after it was queued */
+   sending?: (param: OutboxParam<K>) => OutboxParam<K>;
+}
+
+/**
+ * Effects are kept here and not with the UI that queues the action: an action can be sent after a restart
+ */
+const OutboxEffects: { [K in OutboxMethod]: IOutboxEffects<K> } = {
+   addTrade: {
+      accepted: () => {
+         const token = uuid4();
+         client
+            .updateGameId(token)
+            .then(() => {
+               getGameState().id = token;
+            })
+            .catch(console.error);
+         playKaching();
+         showToast(t(L.PlayerTradeAddSuccess));
+      },
+      // The resources are deducted when the trade is queued
+      rejected: (trade) => {
+         addResourceTo(
+            trade.sellResource,
+            trade.sellAmount,
+            Array.from(Tick.current.playerTradeBuildings.keys()),
+            getGameState(),
+         );
+      },
+   },
+   cancelTrade: {
+      accepted: (_, trade: ITrade) => {
+         addResourceTo(
+            trade.sellResource,
+            trade.sellAmount * TRADE_CANCEL_REFUND_PERCENT,
+            Array.from(Tick.current.playerTradeBuildings.keys()),
+            getGameState(),
+         );
+         playKaching();
+      },
+   },
+   claimTradesV2: {
+      // Storage can have filled up since the claim was queued, what does not fit is left to be claimed later
+      sending: (claims) => {
+         let storageLeft = getAvailableStorage(
+            Array.from(Tick.current.playerTradeBuildings.keys()),
+            getGameState(),
+         );
+         const fitted: Record<string, number> = {};
+         forEach(claims, (id, amount) => {
+            fitted[id] = clamp(Math.min(amount, storageLeft), 0, Number.POSITIVE_INFINITY);
+            storageLeft -= fitted[id];
+         });
+         return fitted;
+      },
+      accepted: (_, { resources }) => {
+         RequestPendingClaimUpdate.emit();
+         const gameState = getGameState();
+         const tiles = Array.from(Tick.current.playerTradeBuildings.keys());
+         forEach(resources, (res, amount) => {
+            const result = addResourceTo(res, amount, tiles, gameState);
+            console.assert(result.amount === amount);
+         });
+         if (sizeOf(resources) <= 0) {
+            playError();
+            showToast(t(L.PlayerTradeClaimAllFailedMessageV2));
+            return;
+         }
+         playKaching();
+         showToast(
+            t(L.PlayerTradeClaimAllMessageV2, {
+               resources: mapOf(
+                  resources,
+                  (res, amount) => `${Config.Material[res as Material].name()}: ${formatNumber(amount)}`,
+               ).join(", "),
+            }),
+         );
+         const eic = Tick.current.specialBuildings.get("EastIndiaCompany");
+         forEach(resources, (res, amount) => {
+            const tradeValue = amount * (Config.MaterialPrice[res] ?? 0);
+            if (eic) {
+               safeAdd(eic.building.resources, "TradeValue", tradeValue);
+            }
+            gameState.tradeValue += tradeValue;
+         });
+      },
+   },
+   setTariffRate: {},
+   voteBoosts: {},
+   voteTradeTileBonus: {},
+};
+
+function saveOutbox(): void {
+   idbSet(OutboxKey, outbox).catch(console.error);
+   OnOutboxChanged.emit(outbox);
+}
+
+export async function loadOutbox(): Promise<void> {
+   outbox.splice(0, outbox.length, ...restoreOutboxActions((await idbGet<IOutboxAction[]>(OutboxKey)) ?? []));
+   OnOutboxChanged.emit(outbox);
+}
+
+/**
+ * Sends the action now if the client is connected, otherwise when it connects again. The action is kept until the
+ * server has answered, also over a restart. `onAccepted` is for the UI and is only called if the answer comes
+ * before a restart, what the action changes in the game happens either way. Rejections are shown to the player.
+ * During a server replay the action is rejected right away
+ */
+export function queueAction<K extends OutboxMethod>(
+   method: K,
+   param: OutboxParam<K>,
+   onAccepted?: (result: RpcResult<K>) => void,
+): void {
+   if (isReplayingServer()) {
+      OutboxEffects[method].rejected?.(param);
+      playError();
+      showToast(t(L.NotAvailableDuringServerReplay));
+      return;
+   }
+   const action = queueOutboxAction(outbox, method, param);
+   saveOutbox();
+   if (onAccepted) {
+      waiting.set(action.key, onAccepted as (result: unknown) => void);
+   }
+   if (isConnected()) {
+      flushActions();
+   } else {
+      showToast(t(L.PendingActionQueued));
+   }
+}
+
+/**
+ * Only for rejected and unconfirmed actions, pending actions cannot be taken back: they might already be sent
+ */
+export function dismissAction(key: string): void {
+   const index = outbox.findIndex((action) => action.key === key && isDismissible(action));
+   if (index >= 0) {
+      outbox.splice(index, 1);
+      saveOutbox();
+   }
+}
+
+export function isDismissible(action: IOutboxAction): boolean {
+   return action.status === "rejected" || action.status === "unconfirmed";
+}
+
+function sendAction<K extends OutboxMethod>(action: IOutboxAction<K>): Promise<RpcResult<K>> {
+   // A resend asks for the same as the first send, which the server might have answered already
+   const sending = (OutboxEffects[action.method] as IOutboxEffects<K>).sending;
+   if (sending && action.attempts === 1) {
+      action.param = sending(action.param);
+      saveOutbox();
+   }
+   // Every outbox method takes the idempotency key after its one parameter
+   const send = client[action.method] as (param: OutboxParam<K>, key: string) => Promise<RpcResult<K>>;
+   return send(action.param, action.key);
+}
+
+async function flushActions(): Promise<void> {
+   // A recording does not have answers for what is in the outbox
+   if (flushing || isReplayingServer()) {
+      return;
+   }
+   flushing = true;
+   try {
+      await flushOutbox(outbox, {
+         send: sendAction,
+         onAccepted: (action, result) => {
+            const effects = OutboxEffects[action.method] as IOutboxEffects<OutboxMethod>;
+            effects.accepted?.(action.param, result as never);
+            waiting.get(action.key)?.(result);
+            waiting.delete(action.key);
+         },
+         onRejected: (action, error) => {
+            const effects = OutboxEffects[action.method] as IOutboxEffects<OutboxMethod>;
+            effects.rejected?.(action.param);
+            playError();
+            showToast(String(error));
+            waiting.delete(action.key);
+         },
+         // Neither accepted nor rejected, the player has to check what has happened
+         onUnconfirmed: (action, error) => {
+            playError();
+            showToast(String(error));
+            waiting.delete(action.key);
+         },
+         onChanged: saveOutbox,
+      });
+   } finally {
+      flushing = false;
+   }
+}
+
+OnConnected.on(() => {
+   flushActions();
+});
@@ -0,0 +1,40 @@
+import type { GameState } from "../../../shared/logic/GameState";
+import {
+   addStatSample,
+   collectStatSample,
+   makeStatSeries,
+   StatTiers,
+   type IStatSeries,
+} from "../../../shared/logic/StatSeries";
+import { idbGet, idbSet, Store } from "../utilities/BrowserStorage";
+
+const statisticsStore = new Store("cividle-statistics", "keyval");
+const StatSeriesKey = "series";
+// Every save writes the whole series, so it is saved every 10 points of the minute tier rather than with the game.
+// Closing the game loses the samples since the last save
+const SaveEveryTicks = 10 * StatTiers.minute.ticks;
+
+let series: IStatSeries | null = null;
+
+/**
+ * Kept apart from the save: it outlives rebirths and is not worth uploading or syncing across devices
+ */
+export async function loadStatisticsHistory(gs: GameState): Promise<void> {
+   series = (await idbGet<IStatSeries>(StatSeriesKey, statisticsStore)) ?? makeStatSeries(gs.id);
+}
+
+/**
+ * Called once per online tick. Offline production and forecasts are not recorded
+ */
+export function recordStatisticsHistory(gs: GameState): void {
+   if (series) {
+      addStatSample(series, gs.id, collectStatSample(gs));
+      if (series.ticks % SaveEveryTicks === 0) {
+         idbSet(StatSeriesKey, series, statisticsStore).catch(console.error);
+      }
+   }
+}
+
+export function getStatisticsHistory(): IStatSeries | null {
+   return series;
+}
@@ -26,6 +26,18 @@ class TimeSeriesDefinition {
          );
       }
 
+      while (this.deltaTick.length > 100) {
+         this.deltaTick.shift();
+      }
+
+      while (this.empireValueDelta.length > 100) {
+         this.empireValueDelta.shift();
+      }
+
+      while (this.scienceDelta.length > 100) {
+         this.scienceDelta.shift();
+      }
+
       while (this.tick.length > 100) {
          this.tick.shift();
       }
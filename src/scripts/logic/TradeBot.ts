@@ -0,0 +1,278 @@
+import type { Material } from "../../../shared/definitions/MaterialDefinitions";
+import { getStorageFor } from "../../../shared/logic/BuildingLogic";
+import { Config } from "../../../shared/logic/Config";
+import { getGameOptions, getGameState } from "../../../shared/logic/GameStateLogic";
+import { getSeaTileCost, getTotalSeaTileCost } from "../../../shared/logic/PlayerTradeLogic";
+import { addResourceTo, combineResources, deductResourceFrom } from "../../../shared/logic/ResourceLogic";
+import { Tick } from "../../../shared/logic/TickLogic";
+import {
+   addTradeBotLog,
+   getFillAmount,
+   getFillCandidates,
+   getFillDiscount,
+   getIncomingResources,
+   getStaleTrades,
+   getStockGaps,
+   planTradePosts,
+   updateTradeBotState,
+   type ITradeBotLogEntry,
+   type ITradeBotState,
+} from "../../../shared/logic/TradeBot";
+import {
+   MAP_MAX_X,
+   type IAddTradeRequest,
+   type IClientTrade,
+   type IUser,
+} from "../../../shared/utilities/Database";
+import { pointToXy, safeAdd, uuid4, xyToPoint } from "../../../shared/utilities/Helper";
+import { TypedEvent } from "../../../shared/utilities/TypedEvent";
+import type { PartialTabulate } from "../../../shared/utilities/TypeDefinitions";
+import { client, getPlayerMap, getTrades, getUser, isConnected, isReplayingServer } from "../rpc/RPCClient";
+import { findPathAsync, findUserOwnedTile, getOwnedTradeTile } from "../scenes/PathFinder";
+import { idbGet, idbSet } from "../utilities/BrowserStorage";
+import { makeObservableHook } from "../utilities/Hook";
+import { getOutbox, queueAction } from "./Outbox";
+
+const TradeBotKey = "CIVIDLE_TRADE_BOT";
+/** Path finding is slow, only this many open trades are looked at in one run */
+const MaxFillCandidates = 5;
+
+interface ITradeBotSave {
+   state: ITradeBotState;
+   log: ITradeBotLogEntry[];
+}
+
+const save: ITradeBotSave = { state: { trades: new Map(), posted: [] }, log: [] };
+let running = false;
+
+export const OnTradeBotLogChanged = new TypedEvent<ITradeBotLogEntry[]>();
+export const useTradeBotLog = makeObservableHook(OnTradeBotLogChanged, () => save.log);
+
+function saveTradeBot(): void {
+   idbSet(TradeBotKey, save).catch(console.error);
+}
+
+export async function loadTradeBot(): Promise<void> {
+   Object.assign(save, await idbGet<ITradeBotSave>(TradeBotKey));
+   OnTradeBotLogChanged.emit(save.log);
+}
+
+export function clearTradeBotLog(): void {
+   save.log.length = 0;
+   saveTradeBot();
+   OnTradeBotLogChanged.emit(save.log);
+}
+
+function log(entry: ITradeBotLogEntry): void {
+   addTradeBotLog(save.log, entry);
+   saveTradeBot();
+   OnTradeBotLogChanged.emit(save.log);
+}
+
+/**
+ * Cancels stale trades, fills the best open trade and posts trades for the rest. Does nothing while the kill switch
+ * is off, or without a connection: a bot acting on an old trade board would post and fill blindly
+ */
+export async function runTradeBot(): Promise<void> {
+   const options = getGameOptions().tradeBot;
+   const user = getUser();
+   if (
+      running ||
+      !options.enabled ||
+      !user ||
+      !isConnected() ||
+      isReplayingServer() ||
+      !getOwnedTradeTile()
+   ) {
+      return;
+   }
+   running = true;
+   try {
+      const myTrades = getTrades().filter((trade) => trade.fromId === user.userId && trade.status === "open");
+      updateTradeBotState(save.state, options, myTrades);
+
+      const cancelled = new Set(getStaleTrades(save.state, options));
+      myTrades.forEach((trade) => {
+         if (cancelled.has(trade.id)) {
+            save.state.trades.delete(trade.id);
+            // The outbox refunds the resources when the server has cancelled the trade
+            queueAction("cancelTrade", trade.id);
+            log({ time: Date.now(), action: "cancel", trade });
+         }
+      });
+      // The outbox sends in order, the trade slots are free again by the time new trades are posted
+      const open = myTrades.filter((trade) => !cancelled.has(trade.id));
+
+      await fillBestTrade(user, open);
+
+      // The kill switch might have been turned off while filling
+      if (!getGameOptions().tradeBot.enabled) {
+         return;
+      }
+      const posting = getPostingTrades();
+      const gaps = getStockGaps(options, getTradeStock(), getIncomingResources([...open, ...posting]));
+      planTradePosts(options, gaps, user, open.length + posting.length).forEach((trade) => {
+         // Deducted first, the outbox refunds the resources if the trade is rejected. See `AddTradeFormComponent`
+         const transaction = deductResourceFrom(
+            trade.sellResource,
+            trade.sellAmount,
+            Array.from(Tick.current.playerTradeBuildings.keys()),
+            getGameState(),
+         );
+         if (transaction.amount < trade.sellAmount) {
+            transaction.rollback();
+            return;
+         }
+         save.state.posted.push({ trade, postedAt: Date.now() });
+         queueAction("addTrade", trade);
+         log({ time: Date.now(), action: "post", trade });
+      });
+   } finally {
+      running = false;
+      saveTradeBot();
+   }
+}
+
+function getTradeStock() {
+   return combineResources(Array.from(Tick.current.playerTradeBuildings.values()).map((b) => b.resources));
+}
+
+/** Trades of the player that are queued and not on the board yet */
+function getPostingTrades(): IAddTradeRequest[] {
+   return getOutbox()
+      .filter((action) => action.method === "addTrade" && action.status !== "rejected")
+      .map((action) => action.param as IAddTradeRequest);
+}
+
+/**
+ * One fill per run at most, the stock it was planned with is out of date afterwards
+ */
+async function fillBestTrade(user: IUser, myTrades: IClientTrade[]): Promise<void> {
+   const options = getGameOptions().tradeBot;
+   const myXy = getOwnedTradeTile();
+   const gaps = getStockGaps(
+      options,
+      getTradeStock(),
+      getIncomingResources([...myTrades, ...getPostingTrades()]),
+   );
+   const candidates = getFillCandidates(options, gaps, getTrades(), user).slice(0, MaxFillCandidates);
+   for (const trade of candidates) {
+      const targetXy = findUserOwnedTile(trade.fromId);
+      if (!myXy || !targetXy) {
+         continue;
+      }
+      const path = await findTradePath(myXy, targetXy, user, trade);
+      if (path.length <= 0) {
+         continue;
+      }
+      let tariff: number;
+      try {
+         tariff = getTradeTariff(path, user, trade);
+      } catch (error) {
+         // The path crosses the sea before it can be crossed
+         continue;
+      }
+      const amount = Math.min(getFillAmount(trade, gaps, tariff), getMaxFillForStorage(trade));
+      if (getFillDiscount(trade, tariff) < options.fillDiscount || amount <= 0) {
+         continue;
+      }
+      // Path finding takes a while, the kill switch might have been turned off
+      if (!getGameOptions().tradeBot.enabled) {
+         return;
+      }
+      await fillTrade(trade, amount, path);
+      return;
+   }
+}
+
+/**
+ * Trades that give more than they take need the difference in free storage, see `FillPlayerTradeModal`
+ */
+function getMaxFillForStorage(trade: IClientTrade): number {
+   if (trade.sellAmount <= trade.buyAmount) {
+      return trade.buyAmount;
+   }
+   let available = 0;
+   for (const xy of Tick.current.playerTradeBuildings.keys()) {
+      const storage = getStorageFor(xy, getGameState());
+      available += Math.max(storage.total - storage.used, 0);
+   }
+   return Math.floor((available * trade.buyAmount) / (trade.sellAmount - trade.buyAmount));
+}
+
+function findTradePath(myXy: string, targetXy: string, user: IUser, trade: IClientTrade): Promise<string[]> {
+   const freeTiles = new Set<number>();
+   getPlayerMap().forEach((entry, xy) => {
+      if (entry.userId === user.userId || entry.userId === trade.fromId) {
+         const point = xyToPoint(xy);
+         freeTiles.add(point.y * MAP_MAX_X + point.x);
+      }
+   });
+   return findPathAsync(xyToPoint(myXy), xyToPoint(targetXy), freeTiles).then((path) =>
+      path.map((x) => pointToXy(x)),
+   );
+}
+
+/**
+ * Same as `FillPlayerTradeModal`: the sea tile cost plus the tariff of every tile on the way that is neither the
+ * player's nor the trader's. Throws if the path crosses the sea before it can be crossed
+ */
+function getTradeTariff(path: string[], user: IUser, trade: IClientTrade): number {
+   const map = getPlayerMap();
+   return (
+      getTotalSeaTileCost(path, getSeaTileCost(getGameState())) +
+      path.reduce((prev, xy, i) => {
+         const tile = map.get(xy);
+         if (!tile || i === 0 || i === path.length - 1) {
+            return prev;
+         }
+         if (tile.userId === user.userId || tile.userId === trade.fromId) {
+            return prev;
+         }
+         return prev + tile.tariffRate;
+      }, 0)
+   );
+}
+
+async function fillTrade(trade: IClientTrade, amount: number, path: string[]): Promise<void> {
+   const gs = getGameState();
+   const tiles = Array.from(Tick.current.playerTradeBuildings.keys());
+   // Reserved first, see `FillPlayerTradeModal`
+   const transaction = deductResourceFrom(trade.buyResource, amount, tiles, gs);
+   const filled: IAddTradeRequest = {
+      buyResource: trade.buyResource,
+      buyAmount: transaction.amount,
+      sellResource: trade.sellResource,
+      sellAmount: 0,
+   };
+   let resources: PartialTabulate<Material>;
+   try {
+      resources = await client.fillTrade({
+         id: trade.id,
+         amount: transaction.amount,
+         path,
+         seaTileCost: getSeaTileCost(gs),
+      });
+   } catch (error) {
+      transaction.rollback();
+      log({ time: Date.now(), action: "fill", trade: filled, error: String(error) });
+      return;
+   }
+   // The trade has been filled, a failed game id update must not give the resources back
+   const token = uuid4();
+   client
+      .updateGameId(token)
+      .then(() => {
+         getGameState().id = token;
+      })
+      .catch(console.error);
+   filled.sellAmount = resources[trade.sellResource] ?? 0;
+   addResourceTo(trade.sellResource, filled.sellAmount, tiles, gs);
+   const tradeValue = filled.sellAmount * (Config.MaterialPrice[trade.sellResource] ?? 0);
+   gs.tradeValue += tradeValue;
+   const eic = Tick.current.specialBuildings.get("EastIndiaCompany");
+   if (eic) {
+      safeAdd(eic.building.resources, "TradeValue", tradeValue);
+   }
+   log({ time: Date.now(), action: "fill", trade: filled });
+}
@@ -14,10 +14,11 @@ import type { Deposit } from "../../../shared/definitions/MaterialDefinitions";
 import { findSpecialBuilding, isWorldOrNaturalWonder } from "../../../shared/logic/BuildingLogic";
 import { Config } from "../../../shared/logic/Config";
 import { getGameState } from "../../../shared/logic/GameStateLogic";
-import { getGrid } from "../../../shared/logic/IntraTickCache";
+import { getMapBounds, getRegionTiles } from "../../../shared/logic/MapRegion";
+import { PlanPreflightAbortedError } from "../../../shared/logic/PlanPreflight";
+import { setTileBuilding } from "../../../shared/logic/ScriptJournal";
 import type { ICloneBuildingData } from "../../../shared/logic/Tile";
 import { makeBuilding } from "../../../shared/logic/Tile";
-import { clearTransportSourceCache } from "../../../shared/logic/Update";
 import { pointToTile, tileToPoint } from "../../../shared/utilities/Helper";
 import { showToast } from "../ui/GlobalModal";
 import { clearRange, doBuildingPlan, doBuildingPlanRect, ensureVisualRefresh, getMapSize, removeBuildingsByDisplayNames, splitElectricityBuildings } from "./davescripts2";
@@ -35,41 +36,17 @@ import { clearRange, doBuildingPlan, doBuildingPlanRect, ensureVisualRefresh, ge
  */
 export function buildMines(mineType: Building, desiredLevel: number, quantity: number): number {
 	const gs = getGameState();
-	const grid = getGrid(gs);
 
 	// Determine required deposit keys for this mine type from config
 	const depositReq = Config.Building[mineType].deposit ?? {};
 	const requiredDeposits = Object.keys(depositReq) as Deposit[];
 
-	// Find bottom-right coordinate among known tiles
-	let maxX = Number.NEGATIVE_INFINITY;
-	let maxY = Number.NEGATIVE_INFINITY;
-	for (const xy of gs.tiles.keys()) {
-		const p = tileToPoint(xy);
-		if (p.x > maxX) maxX = p.x;
-		if (p.y > maxY) maxY = p.y;
-	}
-	const bottomRightTile = pointToTile({ x: Math.max(0, Math.floor(maxX)), y: Math.max(0, Math.floor(maxY)) });
-
-	// Collect candidate tiles that have a required deposit and are empty
-	const candidates: number[] = [];
-	for (const [xy, td] of gs.tiles.entries()) {
-		if (!td) continue;
-		// skip tiles that already have buildings (mines must never be overwritten)
-		if (td.building) continue;
-		// check deposits
-		let ok = false;
-		for (const d of requiredDeposits) {
-			if (td.deposit[d]) {
-				ok = true;
-				break;
-			}
-		}
-		if (ok) candidates.push(xy);
-	}
-
-	// Sort by distance to bottom-right (closest first)
-	candidates.sort((a, b) => grid.distanceTile(a, bottomRightTile) - grid.distanceTile(b, bottomRightTile));
+	// Empty tiles with a required deposit, closest to the bottom-right first
+	const { maxX, maxY } = getMapBounds(gs);
+	const candidates = getRegionTiles({ kind: "deposit", deposits: requiredDeposits }, gs, {
+		order: "nearest",
+		origin: pointToTile({ x: maxX, y: maxY }),
+	});
 
 	let placed = 0;
 	for (const xy of candidates) {
@@ -83,11 +60,10 @@ export function buildMines(mineType: Building, desiredLevel: number, quantity: n
 		// Create mine at level 0 with desiredLevel set so construction resources are applied
 		const b = makeBuilding({ type: mineType, level: 0, desiredLevel });
 		// makeBuilding sets status to 'building' when level=0
-		td.building = b;
+		setTileBuilding(td, b);
 		placed++;
 	}
 
-	if (placed > 0) clearTransportSourceCache();
 	ensureVisualRefresh();
 	return placed;
 }
@@ -336,7 +312,6 @@ export async function replaceApartmentsWithCondos(): Promise<{
 
     const placed = res?.results && res.results.length > 0 ? res.results[0].placed : 0;
 
-    if (placed > 0) clearTransportSourceCache();
     ensureVisualRefresh();
     return { requested: 850, placed, removedApartments };
 }
@@ -583,10 +558,9 @@ export async function buildCloneLabs(): Promise<{
 		if (keepSet.has(xy)) continue;
 		const td = gs.tiles.get(xy);
 		if (!td || !td.building) continue;
-		td.building = undefined;
+		setTileBuilding(td, undefined);
 		removed++;
 	}
-	if (removed > 0) clearTransportSourceCache();
 	ensureVisualRefresh();
 
 	// Determine left-hand strip bounds using shared helper (assume left origin at x=0)
@@ -618,7 +592,6 @@ export async function buildCloneLabs(): Promise<{
 		}
 	}
 
-	if (placed > 0) clearTransportSourceCache();
 	ensureVisualRefresh();
 	return { requested: TOTAL, placed, remaining: Math.max(0, TOTAL - placed), chunks: [], removedCondos: removed };
 }
@@ -782,6 +755,7 @@ export async function dysonBuildPlan2(): Promise<{
 			const entry = summaryMap.get(spec.type);
 			if (entry) entry.placed += placed;
 		} catch (e) {
+			if (e instanceof PlanPreflightAbortedError) throw e;
 			console.error("dysonBuildPlan2: placement failed for", spec.type, e);
 		}
 	}
@@ -804,7 +778,7 @@ export async function dysonBuildPlan2(): Promise<{
 			if (!td || !td.building) continue;
 			try {
 				if (toRemove.has(td.building.type as string)) {
-					td.building = undefined;
+					setTileBuilding(td, undefined);
 					removed++;
 				}
 			} catch (e) {
@@ -812,7 +786,6 @@ export async function dysonBuildPlan2(): Promise<{
 			}
 		}
 		if (removed > 0) {
-			try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
 			try { ensureVisualRefresh(); } catch (e) { /* swallow */ }
 		}
 
@@ -858,6 +831,7 @@ export async function dysonBuildPlan2(): Promise<{
 				summaryEntry.placed += placed;
 				summaryEntry.remaining -= placed;
 			} catch (e) {
+				if (e instanceof PlanPreflightAbortedError) throw e;
 				console.error("aldersonDisc4: placement failed for", item.type, e);
 			}
 
@@ -896,7 +870,7 @@ export async function dysonBuildPlan2(): Promise<{
 			if (!td || !td.building) continue;
 			try {
 				if (toRemove.has(td.building.type as string)) {
-					td.building = undefined;
+					setTileBuilding(td, undefined);
 					removed++;
 				}
 			} catch (e) {
@@ -904,7 +878,6 @@ export async function dysonBuildPlan2(): Promise<{
 			}
 		}
 		if (removed > 0) {
-			try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
 			try { ensureVisualRefresh(); } catch (e) { /* swallow */ }
 		}
 
@@ -922,7 +895,6 @@ export async function dysonBuildPlan2(): Promise<{
 		const cleared = clearRange(minX, maxX, minY, maxY);
 
 		// Best-effort clear transport cache and force a double visual refresh
-		try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
 		try {
 			ensureVisualRefresh();
 			await new Promise((r) => setTimeout(r, 50));
@@ -1014,6 +986,7 @@ export async function dysonBuildPlan2(): Promise<{
 				const entry = summaryMap.get(spec.type);
 				if (entry) entry.placed += placed;
 			} catch (e) {
+				if (e instanceof PlanPreflightAbortedError) throw e;
 				console.error("largeHadronCollider2: placement failed for", spec.type, e);
 			}
 		}
@@ -1100,12 +1073,12 @@ export async function dysonBuildPlan2(): Promise<{
 					if (!td) continue;
 					if (!td.building) {
 						const b = makeBuilding({ type: "CoalPowerPlant" as Building, level: 0, desiredLevel: 10 });
-						td.building = b;
+						setTileBuilding(td, b);
 						placedCoal = true;
 					}
 				}
 			}
-			if (placedCoal) { clearTransportSourceCache(); ensureVisualRefresh(); }
+			if (placedCoal) { ensureVisualRefresh(); }
 		}
 
 		// Prepare summary map
@@ -1128,6 +1101,7 @@ export async function dysonBuildPlan2(): Promise<{
 				const entry = summaryMap.get(spec.type);
 				if (entry) entry.placed += placed;
 			} catch (e) {
+				if (e instanceof PlanPreflightAbortedError) throw e;
 				console.error("largeHadronCollider3: placement failed for", spec.type, e);
 			}
 		}
@@ -1200,6 +1174,7 @@ export async function dysonBuildPlan4(): Promise<{
 			summaryEntry.placed += placed;
 			summaryEntry.remaining -= placed;
 		} catch (e) {
+			if (e instanceof PlanPreflightAbortedError) throw e;
 			console.error("dysonBuildPlan4: placement failed for", item.type, e);
 		}
 
@@ -1239,7 +1214,7 @@ export async function largeHadronCollider4(): Promise<{
 		if (!td || !td.building) continue;
 		try {
 			if (toRemove.has(td.building.type as string)) {
-				td.building = undefined;
+				setTileBuilding(td, undefined);
 				removed++;
 			}
 		} catch (e) {
@@ -1247,7 +1222,6 @@ export async function largeHadronCollider4(): Promise<{
 		}
 	}
 	if (removed > 0) {
-		try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
 		try { ensureVisualRefresh(); } catch (e) { /* swallow */ }
 	}
 
@@ -1294,6 +1268,7 @@ export async function largeHadronCollider4(): Promise<{
 			summaryEntry.placed += placed;
 			summaryEntry.remaining -= placed;
 		} catch (e) {
+			if (e instanceof PlanPreflightAbortedError) throw e;
 			console.error("largeHadronCollider4: placement failed for", item.type, e);
 		}
 
@@ -1310,12 +1285,12 @@ export async function largeHadronCollider4(): Promise<{
 			if (!td) continue;
 			if (!td.building) {
 				const b = makeBuilding({ type: "CoalPowerPlant" as Building, level: 0, desiredLevel: 10 });
-				td.building = b;
+				setTileBuilding(td, b);
 				coalPlaced = true;
 			}
 		}
 	}
-	if (coalPlaced) { clearTransportSourceCache(); ensureVisualRefresh(); }
+	if (coalPlaced) { ensureVisualRefresh(); }
 
 	try { ensureVisualRefresh(); } catch (e) { console.error("ensureVisualRefresh failed in largeHadronCollider4:", e); }
 	try {
@@ -1348,7 +1323,7 @@ export async function buildSpaceCenter1(): Promise<{
 		if (!td || !td.building) continue;
 		try {
 			if (toRemove.has(td.building.type as string)) {
-				td.building = undefined;
+				setTileBuilding(td, undefined);
 				removed++;
 			}
 		} catch (e) {
@@ -1356,7 +1331,6 @@ export async function buildSpaceCenter1(): Promise<{
 		}
 	}
 	if (removed > 0) {
-		try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
 		try { ensureVisualRefresh(); } catch (e) { /* swallow */ }
 	}
 
@@ -1374,7 +1348,6 @@ export async function buildSpaceCenter1(): Promise<{
 	const cleared = clearRange(minX, maxX, minY, maxY);
 
 	// Best-effort clear transport cache and force a double visual refresh
-	try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
 	try {
 		ensureVisualRefresh();
 		await new Promise((r) => setTimeout(r, 50));
@@ -1502,7 +1475,7 @@ export async function buildSpaceCenter4(): Promise<{
 		if (!td || !td.building) continue;
 		try {
 			if (toRemove.has(td.building.type as string)) {
-				td.building = undefined;
+				setTileBuilding(td, undefined);
 				removed++;
 			}
 		} catch (e) {
@@ -1510,23 +1483,14 @@ export async function buildSpaceCenter4(): Promise<{
 		}
 	}
 	if (removed > 0) {
-		try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
 		try { ensureVisualRefresh(); } catch (e) { /* swallow */ }
 	}
 
 	// Determine left-hand strip bounds; extend to 25 tiles wide
-	let mapMaxX = Number.NEGATIVE_INFINITY;
-	let mapMinX = Number.POSITIVE_INFINITY;
-	let mapMaxY = Number.NEGATIVE_INFINITY;
-	for (const xy of gs.tiles.keys()) {
-		const p = tileToPoint(xy);
-		if (p.x > mapMaxX) mapMaxX = p.x;
-		if (p.x < mapMinX) mapMinX = p.x;
-		if (p.y > mapMaxY) mapMaxY = p.y;
-	}
-	if (mapMaxX === Number.NEGATIVE_INFINITY || mapMinX === Number.POSITIVE_INFINITY) {
+	if (gs.tiles.size === 0) {
 		return { leftStripPlacement: [], removed, message: "No map tiles available" };
 	}
+	const { minX: mapMinX, maxX: mapMaxX, maxY: mapMaxY } = getMapBounds(gs);
 
 	const minX = Math.max(0, Math.floor(mapMinX));
 	const maxX = Math.min(Math.floor(mapMaxX), minX + 24); // 25 tiles wide
@@ -1564,6 +1528,7 @@ export async function buildSpaceCenter4(): Promise<{
 			summaryEntry.placed += placed;
 			summaryEntry.remaining -= placed;
 		} catch (e) {
+			if (e instanceof PlanPreflightAbortedError) throw e;
 			console.error("buildSpaceCenter4: placement failed for", item.type, e);
 		}
 
@@ -1579,12 +1544,12 @@ export async function buildSpaceCenter4(): Promise<{
 			if (!td) continue;
 			if (!td.building) {
 				const b = makeBuilding({ type: "CoalPowerPlant" as Building, level: 0, desiredLevel: 10 });
-				td.building = b;
+				setTileBuilding(td, b);
 				coalPlaced = true;
 			}
 		}
 	}
-	if (coalPlaced) { clearTransportSourceCache(); ensureVisualRefresh(); }
+	if (coalPlaced) { ensureVisualRefresh(); }
 
 	try { ensureVisualRefresh(); } catch (e) { console.error("ensureVisualRefresh failed in buildSpaceCenter4:", e); }
 	try {
@@ -1661,12 +1626,12 @@ export async function dysonBuildPlan3(): Promise<{
 				if (!td) continue;
 				if (!td.building) {
 					const b = makeBuilding({ type: "CoalPowerPlant" as Building, level: 0, desiredLevel: 10 });
-					td.building = b;
+					setTileBuilding(td, b);
 					placedCoal = true;
 				}
 			}
 		}
-		if (placedCoal) { clearTransportSourceCache(); ensureVisualRefresh(); }
+		if (placedCoal) { ensureVisualRefresh(); }
 	}
 
 	// Build one-by-one with 200ms gap; collect summary like plan2
@@ -1685,6 +1650,7 @@ export async function dysonBuildPlan3(): Promise<{
 			const entry = summaryMap.get(spec.type);
 			if (entry) entry.placed += placed;
 		} catch (e) {
+			if (e instanceof PlanPreflightAbortedError) throw e;
 			console.error("dysonBuildPlan3: placement failed for", spec.type, e);
 		}
 	}
@@ -1723,12 +1689,7 @@ export async function aldersonDisc1(): Promise<{
 
 	const cleared = clearRange(minX, maxX, minY, maxY);
 
-	// Best-effort clear transport cache and force a double visual refresh
-	try {
-		clearTransportSourceCache();
-	} catch (e) {
-		// swallow
-	}
+	// Force a double visual refresh
 	try {
 		ensureVisualRefresh();
 		// small tick and another refresh to avoid rendering artefacts
@@ -1754,14 +1715,8 @@ export async function aldersonDisc2(): Promise<{
 	const gs = getGameState();
 
 	// Determine map bounds
-	let mapMaxX = Number.NEGATIVE_INFINITY;
-	let mapMaxY = Number.NEGATIVE_INFINITY;
-	for (const xy of gs.tiles.keys()) {
-		const p = tileToPoint(xy);
-		if (p.x > mapMaxX) mapMaxX = p.x;
-		if (p.y > mapMaxY) mapMaxY = p.y;
-	}
-	if (mapMaxX === Number.NEGATIVE_INFINITY) {
+	const { maxX: mapMaxX, maxY: mapMaxY } = getMapBounds(gs);
+	if (gs.tiles.size === 0) {
 		return { placement: null, message: "No map tiles available" };
 	}
 
@@ -1842,6 +1797,7 @@ export async function aldersonDisc2(): Promise<{
 				const entry = summaryMap.get(spec.type);
 				if (entry) entry.placed += placed;
 			} catch (e) {
+				if (e instanceof PlanPreflightAbortedError) throw e;
 				console.error("aldersonDisc2: placement failed for", spec.type, e);
 			}
 
@@ -1870,15 +1826,9 @@ export async function aldersonDisc3(): Promise<{
 	const gs = getGameState();
 
 	// Determine map bounds
-	let mapMaxX = Number.NEGATIVE_INFINITY;
-	let mapMaxY = Number.NEGATIVE_INFINITY;
-	for (const xy of gs.tiles.keys()) {
-		const p = tileToPoint(xy);
-		if (p.x > mapMaxX) mapMaxX = p.x;
-		if (p.y > mapMaxY) mapMaxY = p.y;
-	}
+	const { maxX: mapMaxX, maxY: mapMaxY } = getMapBounds(gs);
 
-	if (mapMaxX === Number.NEGATIVE_INFINITY) {
+	if (gs.tiles.size === 0) {
 		return { placement: null, message: "No map tiles available" };
 	}
 
@@ -1939,12 +1889,12 @@ export async function aldersonDisc3(): Promise<{
 				if (!td) continue;
 				if (!td.building) {
 					const b = makeBuilding({ type: "CoalPowerPlant" as Building, level: 0, desiredLevel: 10 });
-					td.building = b;
+					setTileBuilding(td, b);
 					placedCoal = true;
 				}
 			}
 		}
-		if (placedCoal) { clearTransportSourceCache(); ensureVisualRefresh(); }
+		if (placedCoal) { ensureVisualRefresh(); }
 	}
 
 	// Prepare summary map
@@ -1967,6 +1917,7 @@ export async function aldersonDisc3(): Promise<{
 			const entry = summaryMap.get(spec.type);
 			if (entry) entry.placed += placed;
 		} catch (e) {
+			if (e instanceof PlanPreflightAbortedError) throw e;
 			console.error("aldersonDisc3: placement failed for", spec.type, e);
 		}
 	}
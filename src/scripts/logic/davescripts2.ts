@@ -2,20 +2,17 @@ import type { Building, IBuildingDefinition } from "../../../shared/definitions/
 import type { Deposit } from "../../../shared/definitions/MaterialDefinitions";
 import { getBuildingThatExtract, isWorldOrNaturalWonder } from "../../../shared/logic/BuildingLogic";
 import { Config } from "../../../shared/logic/Config";
-import { getGameState, notifyGameStateUpdate } from "../../../shared/logic/GameStateLogic";
-import { BuildingInputMode, makeBuilding, STOCKPILE_CAPACITY_MAX, STOCKPILE_MAX_MAX } from "../../../shared/logic/Tile";
-import { clearTransportSourceCache } from "../../../shared/logic/Update";
+import { getGameOptions, getGameState, notifyGameStateUpdate } from "../../../shared/logic/GameStateLogic";
+import { estimatePlan, fitPlanToBudget, formatPlanEstimate, mergePlanEstimates, type IPlanBudgetItem, type IPlanEstimate } from "../../../shared/logic/PlanBudget";
+import { getMapBounds, getRegionTiles, type IRegionOrderOptions, type MapRegion } from "../../../shared/logic/MapRegion";
+import { hasPreflightProblems, PlanPreflightAbortedError, preflightBuildingPlan } from "../../../shared/logic/PlanPreflight";
+import { setTileBuilding } from "../../../shared/logic/ScriptJournal";
+import { BuildingInputMode, makeBuilding, STOCKPILE_CAPACITY_MAX, STOCKPILE_MAX_MAX, type ITileData } from "../../../shared/logic/Tile";
 import { pointToTile, tileToPoint } from "../../../shared/utilities/Helper";
+import { confirmPlanPreflight } from "../ui/PlanPreflightModal";
 
 export async function getMapSize(): Promise<{ width: number; height: number; }> {
-    const gs = getGameState();
-    let maxX = 0;
-    let maxY = 0;
-    for (const xy of gs.tiles.keys()) {
-        const p = tileToPoint(xy);
-        if (p.x > maxX) maxX = p.x;
-        if (p.y > maxY) maxY = p.y;
-    }
+    const { maxX, maxY } = getMapBounds(getGameState());
     return { width: maxX + 1, height: maxY + 1 };
 }
 
@@ -33,107 +30,100 @@ export async function doBuildingPlanRect(
     maxY: number,
     plan: Array<{ type: Building; count: number; level?: number }>,
     intervalMs: number,
-): Promise<{ results: Array<{ type: Building; requested: number; placed: number }>; message?: string }> {
-    const gs = getGameState();
+): Promise<IBuildingPlanPlacement> {
+    return await doBuildingPlanRegion({ kind: "rect", minX, maxX, minY, maxY }, plan, intervalMs);
+}
 
-    // Build linear coords in scan order
-    const coords: { x: number; y: number }[] = [];
-    for (let y = minY; y <= maxY; y++) {
-        for (let x = minX; x <= maxX; x++) {
-            coords.push({ x, y });
-        }
-    }
+interface IPendingPlacement {
+    td: ITileData;
+    type: Building;
+    level: number;
+    /** Index into the results of the plan */
+    result: number;
+}
 
-    // Sort by building tier ascending
-    const sortedPlan = [...plan].sort((a, b) => (Config.BuildingTier[a.type] ?? 0) - (Config.BuildingTier[b.type] ?? 0));
+interface IPlanBudgetReport {
+    before: IPlanEstimate;
+    after: IPlanEstimate;
+    message: string;
+}
 
-    // If any spec requires power, ensure coal exists in the rectangle
-    let containsElectrified = false;
-    for (const p of sortedPlan) {
-        try {
-            if (Config.Building[p.type] && Config.Building[p.type].power === true) { containsElectrified = true; break; }
-        } catch (e) {
-            // ignore
-        }
-    }
+// Estimates of every placement since the last `takePlanBudgetMessage`, a script places spec by spec but reports
+// the budget once
+let _runBudget: { before: IPlanEstimate; after: IPlanEstimate } | null = null;
 
-    if (containsElectrified) {
-        let coalExists = false;
-        for (const { x, y } of coords) {
-            const xy = pointToTile({ x, y });
-            const td = gs.tiles.get(xy);
-            if (!td) continue;
-            if (td.building && td.building.type === ("CoalPowerPlant" as Building)) { coalExists = true; break; }
-        }
-        if (!coalExists) {
-            for (let i = 0; i < coords.length; i++) {
-                const { x, y } = coords[i];
-                const xy = pointToTile({ x, y });
-                const td = gs.tiles.get(xy);
-                if (!td) continue;
-                if (!td.building) {
-                    const b = makeBuilding({ type: "CoalPowerPlant" as Building, level: 0, desiredLevel: 10 });
-                    b.stockpileCapacity = STOCKPILE_CAPACITY_MAX;
-                    b.stockpileMax = STOCKPILE_MAX_MAX;
-                    b.inputMode = BuildingInputMode.StoragePercentage ?? undefined;
-                    b.maxInputDistance = Number.POSITIVE_INFINITY;
-                    td.building = b;
-                    // advance cursor past coal if needed by placements
-                    break;
-                }
-            }
-            clearTransportSourceCache();
-            ensureVisualRefresh();
-        }
-    }
+/**
+ * Returns the budget of the placements since the last call, `null` if no budget was applied
+ */
+export function takePlanBudgetMessage(): string | null {
+    const budget = _runBudget;
+    _runBudget = null;
+    return budget ? `Budget: ${formatPlanEstimate(budget.before)} → ${formatPlanEstimate(budget.after)}` : null;
+}
 
+/**
+ * Places the buildings picked by a plan at level 0 with `desiredLevel` set, so the game's construction logic
+ * applies (resources reserved, status 'building'). With a budget in the game options, the placements are
+ * fitted to it first and the estimates before and after are returned. Tiles that got a building while the
+ * placements before them were spaced out are skipped.
+ */
+async function placePending(
+    pending: IPendingPlacement[],
+    results: Array<{ placed: number }>,
+    intervalMs: number,
+    budget = getGameOptions().buildScriptBudget ?? null,
+): Promise<IPlanBudgetReport | null> {
+    const gs = getGameState();
     const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+    let items: Array<IPlanBudgetItem & { pending: IPendingPlacement }> = pending.map((p) => ({
+        type: p.type,
+        level: p.level,
+        tile: p.td.tile,
+        pending: p,
+    }));
+    let report: IPlanBudgetReport | null = null;
+    if (budget) {
+        const before = estimatePlan(items, gs);
+        items = fitPlanToBudget(items, budget, gs);
+        const after = estimatePlan(items, gs);
+        report = { before, after, message: `Budget: ${formatPlanEstimate(before)} → ${formatPlanEstimate(after)}` };
+        _runBudget = _runBudget
+            ? { before: mergePlanEstimates(_runBudget.before, before), after: mergePlanEstimates(_runBudget.after, after) }
+            : { before, after };
+    }
 
-    const results: Array<{ type: Building; requested: number; placed: number }> = [];
-    let cursor = 0;
-
-    for (const spec of sortedPlan) {
-        const requested = spec.count;
-        const targetLevel = spec.level ?? 10;
-        let placed = 0;
-
-        try {
-            if (!Config.Building[spec.type]) {
-                results.push({ type: spec.type, requested, placed: 0 });
-                continue;
-            }
-        } catch (e) {
-            results.push({ type: spec.type, requested, placed: 0 });
-            continue;
-        }
-
-        while (placed < requested && cursor < coords.length) {
-            const { x, y } = coords[cursor++];
-            const xy = pointToTile({ x, y });
-            const td = gs.tiles.get(xy);
-            if (!td) continue;
-
-            // Only place on empty tiles (do not overwrite)
-            if (td.building) continue;
-
-            const b = makeBuilding({ type: spec.type, level: 0, desiredLevel: targetLevel });
-            b.stockpileCapacity = STOCKPILE_CAPACITY_MAX;
-            b.stockpileMax = STOCKPILE_MAX_MAX;
-            b.inputMode = BuildingInputMode.StoragePercentage;
-            b.maxInputDistance = Number.POSITIVE_INFINITY;
-            td.building = b;
-            placed++;
-
-            if (intervalMs > 0) await sleep(intervalMs);
-        }
-
-        results.push({ type: spec.type, requested, placed });
-        if (cursor >= coords.length) break;
+    for (const item of items) {
+        if (item.pending.td.building) continue;
+        const b = makeBuilding({ type: item.type, level: 0, desiredLevel: item.level });
+        b.stockpileCapacity = STOCKPILE_CAPACITY_MAX;
+        b.stockpileMax = STOCKPILE_MAX_MAX;
+        b.inputMode = BuildingInputMode.StoragePercentage;
+        b.maxInputDistance = Number.POSITIVE_INFINITY;
+        if (item.priority !== undefined) b.constructionPriority = item.priority;
+        setTileBuilding(item.pending.td, b);
+        results[item.pending.result].placed++;
+
+        // Wait the configured interval between placements so the UI can
+        // show incremental progress. We avoid trying to force an extra
+        // visual refresh here; callers should rely on `intervalMs`.
+        if (intervalMs > 0) await sleep(intervalMs);
     }
+    return report;
+}
 
-    if (results.some((r) => r.placed > 0)) clearTransportSourceCache();
-    ensureVisualRefresh();
-    return { results };
+/**
+ * Runs the preflight checks for a plan about to fill `coords`. If any spec would fall short, the player is shown
+ * why and can abort, which throws `PlanPreflightAbortedError`.
+ */
+async function checkPlanPreflight(
+    plan: Array<{ type: Building; count: number }>,
+    coords: { x: number; y: number }[],
+    reservedTiles: number,
+): Promise<void> {
+    const report = preflightBuildingPlan(plan, coords, getGameState(), reservedTiles);
+    if (hasPreflightProblems(report) && !(await confirmPlanPreflight("Build Script Preflight", report))) {
+        throw new PlanPreflightAbortedError("Build script aborted by player");
+    }
 }
 
 export async function splitElectricityBuildings(plan: Array<{ type: Building; count: number }>) : Promise<{
@@ -218,7 +208,7 @@ export function removeBuildingsByNames(names: string[]): number {
             }
 
             // Safe to delete
-            td.building = undefined;
+            setTileBuilding(td, undefined);
             removed++;
 
         } catch (e) {
@@ -227,7 +217,6 @@ export function removeBuildingsByNames(names: string[]): number {
     }
 
     if (removed > 0) {
-        try { clearTransportSourceCache(); } catch (e) { /* swallow */ }
         ensureVisualRefresh();
     }
 
@@ -277,93 +266,57 @@ export function removeBuildingsByDisplayNames(displayNames: string[], caseInsens
 export function clearRange(minX: number, maxX: number, minY: number, maxY: number): { cleared: number; preservedWonders: number; preservedMines: number };
 export function clearRange(side: "left" | "right", width: number, startRow: number, endRow: number): { cleared: number; preservedWonders: number; preservedMines: number };
 export function clearRange(a: number | "left" | "right", b: number, c: number, d: number) {
-    const gs = getGameState();
-
-    // Resolve args into rectangle bounds
-    let minX: number;
-    let maxX: number;
-    let minY: number;
-    let maxY: number;
-
-    if (a === "left" || a === "right") {
-        const side = a as "left" | "right";
-        const width = b;
-        const startRow = c;
-        const endRow = d;
-
-        // Determine map bounds
-        let mapMaxX = Number.NEGATIVE_INFINITY;
-        let mapMinX = Number.POSITIVE_INFINITY;
-        let mapMaxY = Number.NEGATIVE_INFINITY;
-        for (const xy of gs.tiles.keys()) {
-            const p = tileToPoint(xy);
-            if (p.x > mapMaxX) mapMaxX = p.x;
-            if (p.x < mapMinX) mapMinX = p.x;
-            if (p.y > mapMaxY) mapMaxY = p.y;
-        }
-        if (mapMaxX === Number.NEGATIVE_INFINITY || mapMinX === Number.POSITIVE_INFINITY) {
-            return { cleared: 0, preservedWonders: 0, preservedMines: 0 };
-        }
-
-        if (side === "left") {
-            minX = Math.max(0, Math.floor(mapMinX));
-            maxX = Math.min(Math.floor(mapMaxX), minX + width - 1);
-        } else {
-            maxX = Math.floor(mapMaxX);
-            minX = Math.max(0, maxX - (width - 1));
-        }
-        minY = startRow;
-        maxY = Math.min(Math.floor(mapMaxY), endRow);
-    } else {
-        minX = a as number;
-        maxX = b;
-        minY = c;
-        maxY = d;
-    }
+    const region: MapRegion = a === "left" || a === "right"
+        ? { kind: "strip", side: a, width: b, startRow: c, endRow: d }
+        : { kind: "rect", minX: a, maxX: b, minY: c, maxY: d };
+    return clearRegion(region);
+}
 
+/**
+ * Remove every building in `region`, except wonders and extractors sitting on
+ * their deposit.
+ */
+export function clearRegion(region: MapRegion): { cleared: number; preservedWonders: number; preservedMines: number } {
+    const gs = getGameState();
     let clearedTotal = 0;
     const preservedWondersSet = new Set<number>();
     const preservedMinesSet = new Set<number>();
 
-    for (let y = minY; y <= maxY; y++) {
-        for (let x = minX; x <= maxX; x++) {
-            const xy = pointToTile({ x, y });
-            const td = gs.tiles.get(xy);
-            if (!td || !td.building) continue;
+    for (const xy of getRegionTiles(region, gs)) {
+        const td = gs.tiles.get(xy);
+        if (!td || !td.building) continue;
 
-            // Never remove wonders
-            if (isWorldOrNaturalWonder(td.building.type)) {
-                preservedWondersSet.add(xy);
-                continue;
-            }
+        // Never remove wonders
+        if (isWorldOrNaturalWonder(td.building.type)) {
+            preservedWondersSet.add(xy);
+            continue;
+        }
 
-            // If the tile has a deposit that has an extractor type defined in config,
-            // and that extractor is present on this tile, preserve it.
-            let hasProtectedDeposit = false;
-            let isExtractorBuildingPresent = false;
-            for (const depositKey of Object.keys(td.deposit) as Deposit[]) {
-                if (!td.deposit[depositKey]) continue;
-                const extractor = getBuildingThatExtract(depositKey);
-                if (extractor) {
-                    hasProtectedDeposit = true;
-                    if (td.building.type === extractor) {
-                        isExtractorBuildingPresent = true;
-                    }
-                    break;
+        // If the tile has a deposit that has an extractor type defined in config,
+        // and that extractor is present on this tile, preserve it.
+        let hasProtectedDeposit = false;
+        let isExtractorBuildingPresent = false;
+        for (const depositKey of Object.keys(td.deposit) as Deposit[]) {
+            if (!td.deposit[depositKey]) continue;
+            const extractor = getBuildingThatExtract(depositKey);
+            if (extractor) {
+                hasProtectedDeposit = true;
+                if (td.building.type === extractor) {
+                    isExtractorBuildingPresent = true;
                 }
+                break;
             }
-            if (hasProtectedDeposit && isExtractorBuildingPresent) {
-                preservedMinesSet.add(xy);
-                continue;
-            }
-
-            // Safe to delete
-            td.building = undefined;
-            clearedTotal++;
         }
+        if (hasProtectedDeposit && isExtractorBuildingPresent) {
+            preservedMinesSet.add(xy);
+            continue;
+        }
+
+        // Safe to delete
+        setTileBuilding(td, undefined);
+        clearedTotal++;
     }
 
-    if (clearedTotal > 0) clearTransportSourceCache();
     ensureVisualRefresh();
     return { cleared: clearedTotal, preservedWonders: preservedWondersSet.size, preservedMines: preservedMinesSet.size };
 }
@@ -374,53 +327,38 @@ export async function doBuildingPlan(
     plan: Array<{ type: Building; count: number; level?: number }>,
     startRow: number,
     intervalMs: number,
-): Promise<{ results: Array<{ type: Building; requested: number; placed: number }>; message?: string }> {
+): Promise<IBuildingPlanPlacement> {
 	const gs = getGameState();
-
-	// Determine map bounds
-	let mapMaxX = Number.NEGATIVE_INFINITY;
-	let mapMinX = Number.POSITIVE_INFINITY;
-	let mapMaxY = Number.NEGATIVE_INFINITY;
-	for (const xy of gs.tiles.keys()) {
-		const p = tileToPoint(xy);
-		if (p.x > mapMaxX) mapMaxX = p.x;
-		if (p.x < mapMinX) mapMinX = p.x;
-		if (p.y > mapMaxY) mapMaxY = p.y;
-	}
-
-	if (mapMaxX === Number.NEGATIVE_INFINITY || mapMinX === Number.POSITIVE_INFINITY) {
+	if (gs.tiles.size === 0) {
 		return { results: [], message: "No map tiles available" };
 	}
-
-	const floorMaxX = Math.floor(mapMaxX);
-	const floorMinX = Math.max(0, Math.floor(mapMinX));
-	const floorMaxY = Math.floor(mapMaxY);
-
-	// Compute strip bounds
-	let minX: number;
-	let maxX: number;
-	if (side === "right") {
-		maxX = floorMaxX;
-		minX = Math.max(0, maxX - Math.max(0, width - 1));
-	} else {
-		minX = floorMinX;
-		maxX = Math.min(floorMaxX, minX + Math.max(0, width - 1));
-	}
-
 	const minY = Math.max(0, Math.floor(startRow));
-	const maxY = floorMaxY;
+	if (minY > getMapBounds(gs).maxY) return { results: [], message: "Start row is below map bounds" };
+	return await doBuildingPlanRegion({ kind: "strip", side, width: Math.max(1, width), startRow: minY }, plan, intervalMs);
+}
 
-	if (minY > maxY) return { results: [], message: "Start row is below map bounds" };
+export interface IBuildingPlanPlacement {
+	results: Array<{ type: Building; requested: number; placed: number }>;
+	message?: string;
+	budget?: IPlanBudgetReport;
+}
 
-	// Build a linear list of coordinates in scan order starting at startRow
-	const coords: { x: number; y: number }[] = [];
-	for (let y = minY; y <= maxY; y++) {
-		for (let x = minX; x <= maxX; x++) {
-			coords.push({ x, y });
-		}
-	}
+/**
+ * Fill the empty tiles of `region` with `plan`, in `order`: lower tier
+ * buildings first, each spec taking the next empty tiles. Only empty tiles
+ * are used (no overwriting), and a CoalPowerPlant is put on the first empty
+ * tile if the plan contains electrified buildings and the region has none.
+ */
+export async function doBuildingPlanRegion(
+	region: MapRegion,
+	plan: Array<{ type: Building; count: number; level?: number }>,
+	intervalMs: number,
+	order?: IRegionOrderOptions,
+): Promise<IBuildingPlanPlacement> {
+	const gs = getGameState();
+	const coords = getRegionTiles(region, gs, order).map(tileToPoint);
 
-	// Cursor across coords so we fill the strip sequentially and do not
+	// Cursor across coords so we fill the region sequentially and do not
 	// repeatedly attempt the same tiles for different building types.
 	let cursor = 0;
 	let anyPlaced = false;
@@ -430,7 +368,7 @@ export async function doBuildingPlan(
 	const sortedPlan = [...plan].sort((a, b) => (Config.BuildingTier[a.type] ?? 0) - (Config.BuildingTier[b.type] ?? 0));
 
 	// If the plan contains any electrified buildings, ensure a CoalPowerPlant
-	// exists in the target strip. If none exists, place one on the first empty
+	// exists in the target region. If none exists, place one on the first empty
 	// tile and advance the cursor past it so subsequent placements don't reuse it.
 	let containsElectrified = false;
 	for (const p of sortedPlan) {
@@ -441,14 +379,20 @@ export async function doBuildingPlan(
 		}
 	}
 
+	let coalExists = false;
 	if (containsElectrified) {
-		let coalExists = false;
 		for (const { x, y } of coords) {
 			const xy = pointToTile({ x, y });
 			const td = gs.tiles.get(xy);
 			if (!td) continue;
 			if (td.building && td.building.type === ("CoalPowerPlant" as Building)) { coalExists = true; break; }
 		}
+	}
+
+	// Nothing has been changed yet: explain what will fall short and let the player abort
+	await checkPlanPreflight(sortedPlan, coords, containsElectrified && !coalExists ? 1 : 0);
+
+	if (containsElectrified) {
 		if (!coalExists) {
 			for (let i = 0; i < coords.length; i++) {
 				const { x, y } = coords[i];
@@ -462,7 +406,7 @@ export async function doBuildingPlan(
 					b.stockpileMax = STOCKPILE_MAX_MAX;
 					b.inputMode = BuildingInputMode.StoragePercentage;
 					b.maxInputDistance = Number.POSITIVE_INFINITY;
-					td.building = b;
+					setTileBuilding(td, b);
 					anyPlaced = true;
 					cursor = i + 1;
 					break;
@@ -471,9 +415,8 @@ export async function doBuildingPlan(
 		}
 	}
 
-	const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
 	const results: Array<{ type: Building; requested: number; placed: number }> = [];
+	const pending: IPendingPlacement[] = [];
 
 	for (const spec of sortedPlan) {
 		const requested = spec.count;
@@ -503,29 +446,18 @@ export async function doBuildingPlan(
 			// wonders or deposits; empty-state is the sole placement condition).
 			if (td.building) continue;
 
-			// Create building at level 0 and set desiredLevel so the game's
-			// construction logic applies (resources reserved, status 'building').
-			const b = makeBuilding({ type: spec.type, level: 0, desiredLevel: targetLevel });
-			b.stockpileCapacity = STOCKPILE_CAPACITY_MAX;
-			b.stockpileMax = STOCKPILE_MAX_MAX;
-			b.inputMode = BuildingInputMode.StoragePercentage;
-			b.maxInputDistance = Number.POSITIVE_INFINITY;
-			td.building = b;
+			// Tiles are only picked here, placement happens below once the
+			// budget (if any) has had its say.
+			pending.push({ td, type: spec.type, level: targetLevel, result: results.length });
 			placed++;
-			anyPlaced = true;
-
-			// Wait the configured interval between placements so the UI can
-			// show incremental progress. We avoid trying to force an extra
-			// visual refresh here; callers should rely on `intervalMs`.
-			if (intervalMs > 0) await sleep(intervalMs);
 		}
 
-		results.push({ type: spec.type, requested, placed });
+		results.push({ type: spec.type, requested, placed: 0 });
 		// If we exhausted coords early, stop processing further specs
 		if (cursor >= coords.length) break;
 	}
 
-	if (anyPlaced) clearTransportSourceCache();
+	const budget = await placePending(pending, results, intervalMs);
 	ensureVisualRefresh();
-	return { results };
+	return budget ? { results, budget } : { results };
 }
@@ -5,9 +5,10 @@ import WorldMap from "../../../shared/definitions/WorldMap.json";
 import { addPetraOfflineTime } from "../../../shared/logic/BuildingLogic";
 import { Config } from "../../../shared/logic/Config";
 import { GOOGLE_PLAY_GAMES_CLIENT_ID } from "../../../shared/logic/Constants";
-import { PremiumTileTextures, RankUpFlags } from "../../../shared/logic/GameState";
+import { PremiumTileTextures } from "../../../shared/logic/GameState";
 import { checksum, getGameOptions, getGameState } from "../../../shared/logic/GameStateLogic";
 import { Tick } from "../../../shared/logic/TickLogic";
+import { applyWelcomeMessage } from "../../../shared/logic/WelcomeLogic";
 import { RpcError, removeTrailingUndefs, rpcClient } from "../../../shared/thirdparty/TRPCClient";
 import type {
    AllMessageTypes,
@@ -31,19 +32,17 @@ import {
    UserAttributes,
    type ChatChannel,
 } from "../../../shared/utilities/Database";
-import { isSaveOwner, vacuumChat } from "../../../shared/utilities/DatabaseShared";
-import {
-   SECOND,
-   WEEK,
-   clamp,
-   forEach,
-   hasFlag,
-   mapSafeAdd,
-   shuffle,
-   uuid4,
-} from "../../../shared/utilities/Helper";
+import { vacuumChat } from "../../../shared/utilities/DatabaseShared";
+import { SECOND, WEEK, forEach, hasFlag, mapSafeAdd, shuffle, uuid4 } from "../../../shared/utilities/Helper";
 import { srand } from "../../../shared/utilities/Random";
 import { setServerNow } from "../../../shared/utilities/ServerNow";
+import {
+   ServerReplay,
+   makeServerRecording,
+   recordServerMessage,
+   type IServerRecording,
+} from "../../../shared/utilities/ServerRecording";
+import { InvalidRpcResultError, checkRpcResult, type IServerRpc } from "../../../shared/utilities/ServerRpc";
 import { TypedEvent } from "../../../shared/utilities/TypedEvent";
 import { L, t } from "../../../shared/utilities/i18n";
 import { saveGame } from "../Global";
@@ -55,12 +54,6 @@ import { idbGet, idbSet } from "../utilities/BrowserStorage";
 import { makeObservableHook } from "../utilities/Hook";
 import { playBubble, playKaching } from "../visuals/Sound";
 import { SteamClient, isSteam } from "./SteamClient";
-// import type { ServerImpl } from "../../../server/src/Server";
-
-// Temporary type definition for ServerImpl
-interface ServerImpl {
-  [key: string]: (...args: any[]) => Promise<any>;
-}
 
 let user: IUser | null = null;
 let platformInfo: IPlatformInfo | null = null;
@@ -71,6 +64,8 @@ export const OnChatMessage = new TypedEvent<LocalChat[]>();
 export const OnTradeChanged = new TypedEvent<IClientTrade[]>();
 export const OnPlayerMapChanged = new TypedEvent<Map<string, IClientMapEntry>>();
 export const OnPlayerMapMessage = new TypedEvent<IMapMessage>();
+/** After the welcome message of a connection is handled */
+export const OnConnected = new TypedEvent<IWelcomeMessage>();
 
 export interface PlayGamesPlugin {
    requestServerSideAccess: (opt: { clientId: string }) => Promise<{ serverAuthToken: string }>;
@@ -98,14 +93,27 @@ export function getPlayerMap(): Map<string, IClientMapEntry> {
 }
 
 let ws: WebSocket | null = null;
+let recording: IServerRecording | null = null;
+let replay: { player: ServerReplay; timer: number } | null = null;
+// Their recorded results would change the game that is replaying, they are not answered during a replay
+const ReplayRejectedMethods = new Set<string>(["addTrade", "cancelTrade", "claimTradesV2", "fillTrade"]);
 
 export function isConnected(): boolean {
-   return ws?.readyState === WebSocket.OPEN;
+   return replay !== null || ws?.readyState === WebSocket.OPEN;
 }
 
-export const client = rpcClient<ServerImpl>({
+export const client = rpcClient<IServerRpc>({
    request: (method: string, params: any[]) => {
       return new Promise((resolve, reject) => {
+         if (replay) {
+            if (ReplayRejectedMethods.has(method)) {
+               return reject(t(L.NotAvailableDuringServerReplay));
+            }
+            const id = ++requestId;
+            rpcRequests[id] = { method, resolve, reject, time: Date.now() };
+            replay.player.request(id, method);
+            return;
+         }
          if (!ws || ws.readyState !== WebSocket.OPEN) {
             return reject("WebSocket is not ready yet");
          }
@@ -117,7 +125,7 @@ export const client = rpcClient<ServerImpl>({
             params: removeTrailingUndefs(params),
          };
          ws.send(encode(request));
-         rpcRequests[id] = { resolve, reject, time: Date.now() };
+         rpcRequests[id] = { method, resolve, reject, time: Date.now() };
       });
    },
 });
@@ -226,7 +234,7 @@ export const CLIENT_ID = "CIVIDLE_CLIENT_ID";
 let reconnect = 0;
 let requestId = 0;
 // biome-ignore lint/complexity/noBannedTypes: <explanation>
-const rpcRequests: Record<number, { resolve: Function; reject: Function; time: number }> = {};
+const rpcRequests: Record<number, { method: string; resolve: Function; reject: Function; time: number }> = {};
 
 let steamTicket: string | null = null;
 let steamTicketTime = 0;
@@ -318,138 +326,7 @@ export async function connectWebSocket(): Promise<IWelcomeMessage> {
    });
 
    ws.onmessage = (e) => {
-      const message = decode(e.data as ArrayBuffer) as AllMessageTypes;
-      const type = message.type as MessageType;
-      const options = getGameOptions();
-      switch (type) {
-         case MessageType.Chat: {
-            const c = message as IChatMessage;
-            if (c.flush) {
-               chatMessages = c.chat.map((c) => ({ ...c, id: mapSafeAdd(_chatIds, c.channel, 1) }));
-            } else {
-               c.chat.forEach((m) => {
-                  const mentionsMe =
-                     user && m.message.toLowerCase().includes(` @${user.handle.toLowerCase()}`);
-                  const isAnnounce =
-                     hasFlag(m.attr, ChatAttributes.Announce) && options.chatChannels.has(m.channel);
-                  if (mentionsMe || isAnnounce) {
-                     playBubble();
-                     showToast(`${m.name}: ${m.message}`);
-                  }
-                  chatMessages.push({ ...m, id: mapSafeAdd(_chatIds, m.channel, 1) });
-               });
-            }
-            chatMessages = vacuumChat(chatMessages);
-            OnChatMessage.emit(chatMessages);
-            break;
-         }
-         case MessageType.Welcome: {
-            const w = message as IWelcomeMessage;
-            user = w.user;
-            if (!options.userId) {
-               options.userId = user.userId;
-            }
-            if (hasFlag(user.attr, UserAttributes.DLC1) && !options.supporterPackPurchased) {
-               showModal(<SupporterPackModal />);
-            }
-            if (isSaveOwner(w.platformInfo, w.user)) {
-               switch (options.rankUpFlags) {
-                  case RankUpFlags.Unset:
-                     if (user.level <= AccountLevel.Tribune) {
-                        options.rankUpFlags = RankUpFlags.NotUpgraded;
-                     } else {
-                        options.rankUpFlags = RankUpFlags.Upgraded;
-                     }
-                     break;
-                  case RankUpFlags.NotUpgraded:
-                     if (
-                        !hasFlag(user.attr, UserAttributes.OverrideRankUp) &&
-                        user.level > AccountLevel.Tribune
-                     ) {
-                        client.resetRank();
-                     }
-                     break;
-                  case RankUpFlags.Upgraded:
-                     break;
-               }
-            }
-            saveGame().catch(console.error);
-            OnUserChanged.emit(user);
-            platformInfo = w.platformInfo;
-            OnPlatformInfoChanged.emit(platformInfo);
-            const tick = getGameState().tick;
-            const offlineTicks = clamp(w.lastGameTick + w.offlineTime - tick, 0, Number.POSITIVE_INFINITY);
-            const gs = getGameState();
-            gs.clientOfflineSec += (Date.now() - gs.lastClientTickAt) / SECOND;
-            gs.lastClientTickAt = Date.now();
-            console.log(
-               "[WelcomeMessage]",
-               "CurrentTick:",
-               tick,
-               "OfflineTicks:",
-               offlineTicks,
-               "ClientOfflineSec:",
-               gs.clientOfflineSec,
-               "OfflineTime:",
-               w.offlineTime,
-               "User:",
-               JSON.stringify(w),
-            );
-            setServerNow(w.now);
-            w.offlineTime = Math.min(w.offlineTime, offlineTicks, gs.clientOfflineSec);
-            gs.clientOfflineSec -= w.offlineTime;
-            resolve?.(w);
-            RequestPendingClaimUpdate.emit();
-            break;
-         }
-         case MessageType.Trade: {
-            const tm = message as ITradeMessage;
-            if (tm.upsert) {
-               tm.upsert.forEach((trade) => {
-                  trades.set(trade.id, trade);
-               });
-            }
-            if (tm.remove) {
-               tm.remove.forEach((id) => {
-                  trades.delete(id);
-               });
-            }
-            OnTradeChanged.emit(getTrades());
-            break;
-         }
-         case MessageType.Map: {
-            const m = message as IMapMessage;
-            OnPlayerMapMessage.emit(m);
-            if (m.upsert) {
-               forEach(m.upsert, (xy, entry) => {
-                  playerMap.set(xy, entry);
-               });
-            }
-            if (m.remove) {
-               m.remove.forEach((xy) => {
-                  playerMap.delete(xy);
-               });
-            }
-            OnPlayerMapChanged.emit({ ...playerMap });
-            break;
-         }
-         case MessageType.PendingClaim: {
-            const r = message as IPendingClaimMessage;
-            if (user && r.claims[user.userId]) {
-               if (getGameOptions().tradeFilledSound) {
-                  playKaching();
-               }
-               showToast(t(L.PlayerTradeClaimAvailable, { count: r.claims[user.userId] }));
-               RequestPendingClaimUpdate.emit();
-            }
-            break;
-         }
-         case MessageType.RPC: {
-            const r = message as IRPCMessage;
-            handleRpcResponse(r.data);
-            break;
-         }
-      }
+      handleMessage(decode(e.data as ArrayBuffer) as AllMessageTypes, resolve);
    };
 
    ws.onopen = () => {
@@ -458,6 +335,7 @@ export async function connectWebSocket(): Promise<IWelcomeMessage> {
 
    ws.onclose = (ev) => {
       ws = null;
+      rejectPendingRequests();
       user = null;
       OnUserChanged.emit(null);
       console.log("WebSocket connection closed. Code:", ev.code);
@@ -485,11 +363,121 @@ export function disconnectWebSocket() {
 }
 
 export function reconnectWebSocket() {
-   if (!ws) {
+   if (!ws && !replay) {
       connectWebSocket().then(convertOfflineTimeToWarp);
    }
 }
 
+/**
+ * Closes the connection without the usual reaction to a close, for when the client connects again right away
+ */
+function dropWebSocket(): void {
+   if (!ws) {
+      return;
+   }
+   ws.onmessage = null;
+   ws.onclose = null;
+   ws.close(ServerWSErrorCode.Background);
+   ws = null;
+   rejectPendingRequests();
+}
+
+/**
+ * Answers to requests on a closed connection never come
+ */
+function rejectPendingRequests(): void {
+   forEach(rpcRequests, (id, { reject }) => {
+      delete rpcRequests[id];
+      reject("WebSocket is closed");
+   });
+}
+
+/**
+ * Forgets what the server has sent, so what is sent next is all the client knows
+ */
+function clearServerState(): void {
+   user = null;
+   OnUserChanged.emit(null);
+   chatMessages = [];
+   OnChatMessage.emit(chatMessages);
+   trades.clear();
+   OnTradeChanged.emit(getTrades());
+   playerMap.clear();
+   OnPlayerMapChanged.emit({ ...playerMap });
+}
+
+export function getServerRecording(): IServerRecording | null {
+   return recording;
+}
+
+/**
+ * Records everything the server sends from now on. The client connects again, so the recording starts with the
+ * welcome message and the chat, trade and map snapshots that a replay needs
+ */
+export function startServerRecording(): void {
+   recording = makeServerRecording();
+   if (ws) {
+      dropWebSocket();
+      reconnectWebSocket();
+   }
+}
+
+export function stopServerRecording(): IServerRecording | null {
+   const result = recording;
+   recording = null;
+   return result;
+}
+
+export function isReplayingServer(): boolean {
+   return replay !== null;
+}
+
+/**
+ * Feeds `recording` into the client in place of the server, at the pace it was recorded. The connection to the
+ * server is closed until the replay is stopped
+ */
+export function startServerReplay(source: IServerRecording): Promise<IWelcomeMessage> {
+   stopServerReplay(false);
+   dropWebSocket();
+   clearServerState();
+   return new Promise((resolve) => {
+      const player = new ServerReplay(source, (message) => handleMessage(message, resolve));
+      replay = { player, timer: 0 };
+      scheduleReplay();
+   });
+}
+
+function scheduleReplay(): void {
+   if (!replay) {
+      return;
+   }
+   const { player } = replay;
+   const next = player.nextTime();
+   if (next === null) {
+      console.log("[Replay] All recorded messages are delivered");
+      return;
+   }
+   replay.timer = window.setTimeout(
+      () => {
+         player.advanceTo(next);
+         scheduleReplay();
+      },
+      Math.max(next - player.time, 0),
+   );
+}
+
+export function stopServerReplay(reconnect = true): void {
+   if (!replay) {
+      return;
+   }
+   clearTimeout(replay.timer);
+   replay = null;
+   clearServerState();
+   if (reconnect) {
+      reconnectWebSocket();
+   }
+}
+
 function retryConnect() {
    setTimeout(reconnectWebSocket, Math.min(Math.pow(2, reconnect++) * SECOND, 16 * SECOND));
 }
@@ -504,6 +492,121 @@ export function convertOfflineTimeToWarp(w: IWelcomeMessage): void {
    }
 }
 
+function handleMessage(message: AllMessageTypes, onWelcome: ((w: IWelcomeMessage) => void) | null): void {
+   if (recording) {
+      const method = message.type === MessageType.RPC ? rpcRequests[message.data?.id]?.method : undefined;
+      recordServerMessage(recording, message, method);
+   }
+   const type = message.type as MessageType;
+   const options = getGameOptions();
+   switch (type) {
+      case MessageType.Chat: {
+         const c = message as IChatMessage;
+         if (c.flush) {
+            chatMessages = c.chat.map((c) => ({ ...c, id: mapSafeAdd(_chatIds, c.channel, 1) }));
+         } else {
+            c.chat.forEach((m) => {
+               const mentionsMe = user && m.message.toLowerCase().includes(` @${user.handle.toLowerCase()}`);
+               const isAnnounce =
+                  hasFlag(m.attr, ChatAttributes.Announce) && options.chatChannels.has(m.channel);
+               if (mentionsMe || isAnnounce) {
+                  playBubble();
+                  showToast(`${m.name}: ${m.message}`);
+               }
+               chatMessages.push({ ...m, id: mapSafeAdd(_chatIds, m.channel, 1) });
+            });
+         }
+         chatMessages = vacuumChat(chatMessages);
+         OnChatMessage.emit(chatMessages);
+         break;
+      }
+      case MessageType.Welcome: {
+         const w = message as IWelcomeMessage;
+         user = w.user;
+         if (!replay && hasFlag(user.attr, UserAttributes.DLC1) && !options.supporterPackPurchased) {
+            showModal(<SupporterPackModal />);
+         }
+         const gs = getGameState();
+         const recordedOfflineTime = w.offlineTime;
+         const { changed, resetRank } = applyWelcomeMessage(w, gs, options, replay !== null);
+         if (resetRank) {
+            client.resetRank();
+         }
+         if (changed) {
+            saveGame().catch(console.error);
+         }
+         OnUserChanged.emit(user);
+         platformInfo = w.platformInfo;
+         OnPlatformInfoChanged.emit(platformInfo);
+         console.log(
+            "[WelcomeMessage]",
+            "CurrentTick:",
+            gs.tick,
+            "ClientOfflineSec:",
+            gs.clientOfflineSec,
+            "OfflineTime:",
+            recordedOfflineTime,
+            "Granted:",
+            w.offlineTime,
+            "User:",
+            JSON.stringify(w),
+         );
+         setServerNow(w.now);
+         onWelcome?.(w);
+         RequestPendingClaimUpdate.emit();
+         OnConnected.emit(w);
+         break;
+      }
+      case MessageType.Trade: {
+         const tm = message as ITradeMessage;
+         if (tm.upsert) {
+            tm.upsert.forEach((trade) => {
+               trades.set(trade.id, trade);
+            });
+         }
+         if (tm.remove) {
+            tm.remove.forEach((id) => {
+               trades.delete(id);
+            });
+         }
+         OnTradeChanged.emit(getTrades());
+         break;
+      }
+      case MessageType.Map: {
+         const m = message as IMapMessage;
+         OnPlayerMapMessage.emit(m);
+         if (m.upsert) {
+            forEach(m.upsert, (xy, entry) => {
+               playerMap.set(xy, entry);
+            });
+         }
+         if (m.remove) {
+            m.remove.forEach((xy) => {
+               playerMap.delete(xy);
+            });
+         }
+         OnPlayerMapChanged.emit({ ...playerMap });
+         break;
+      }
+      case MessageType.PendingClaim: {
+         const r = message as IPendingClaimMessage;
+         if (user && r.claims[user.userId]) {
+            if (getGameOptions().tradeFilledSound) {
+               playKaching();
+            }
+            showToast(t(L.PlayerTradeClaimAvailable, { count: r.claims[user.userId] }));
+            RequestPendingClaimUpdate.emit();
+         }
+         break;
+      }
+      case MessageType.RPC: {
+         const r = message as IRPCMessage;
+         handleRpcResponse(r.data);
+         break;
+      }
+   }
+}
+
 function handleRpcResponse(response: any) {
    if (!response || !response.id) {
       throw new Error(`Invalid RPC Response received: ${response}`);
@@ -511,12 +614,20 @@ function handleRpcResponse(response: any) {
    if (!rpcRequests[response.id]) {
       throw new Error(`RPC Request ${response.id} is already handled`);
    }
-   const { resolve, reject } = rpcRequests[response.id];
+   const { method, resolve, reject } = rpcRequests[response.id];
    delete rpcRequests[response.id];
    const { result, error } = response;
    if (error) {
       const { code, message, data } = error;
       reject(new RpcError(message, code, data));
+      return;
+   }
+   // The server does not answer the way this client expects, better to fail the call than the game
+   const invalid = checkRpcResult(method, result);
+   if (invalid) {
+      console.error("[RPC] Invalid response:", invalid, result);
+      reject(new InvalidRpcResultError(invalid, result));
+      return;
    }
    resolve(result);
 }
@@ -1,198 +1,204 @@
-const MaxX = 200;
-const MaxY = 200;
-const GridSize = 50;
-
-// export class FlowGraphScene extends ViewportScene {
-//    override onLoad(): void {
-//       const { app, textures } = this.context;
-
-//       this.viewport.worldWidth = MaxX * GridSize;
-//       this.viewport.worldHeight = MaxY * GridSize;
-
-//       this.viewport
-//          .drag()
-//          .wheel({ smooth: 10 })
-//          .clamp({
-//             direction: "all",
-//          })
-//          .clampZoom({
-//             maxScale: 1,
-//             minScale: Math.max(
-//                app.screen.width / this.viewport.worldWidth,
-//                app.screen.height / this.viewport.worldHeight,
-//             ),
-//          });
-
-//       app.renderer.background.color = 0xeeeeee;
-
-//       const graphics = this.viewport.addChild(new SmoothGraphics()).lineStyle({
-//          color: 0xdddddd,
-//          width: 1,
-//          cap: LINE_CAP.ROUND,
-//          join: LINE_JOIN.ROUND,
-//          alignment: 0.5,
-//       });
-
-//       for (let x = 0; x <= MaxX; x++) {
-//          graphics.moveTo(x * GridSize, 0);
-//          graphics.lineTo(x * GridSize, MaxY * GridSize);
-//       }
-
-//       for (let y = 0; y <= MaxY; y++) {
-//          graphics.moveTo(0, y * GridSize);
-//          graphics.lineTo(MaxX * GridSize, y * GridSize);
-//       }
-
-//       const flourMill = new BuildingCard("FlourMill");
-//       this.viewport.addChild(flourMill).position.set(100, 200);
-//       const pizzeria = new BuildingCard("Bakery");
-//       pizzeria.interactive = true;
-//       this.viewport.addChild(pizzeria).position.set(500, 100);
-//       this.viewport.addChild(new BuildingCard("SiegeWorkshop")).position.set(900, 100);
-
-//       const connections = this.viewport.addChild(new SmoothGraphics());
-
-//       drawConnection(
-//          connections,
-//          flourMill.getPortPosition("Flour")!,
-//          pizzeria.getPortPosition("Flour")!,
-//          0xbbbbbb,
-//          4,
-//       );
-
-//       this.viewport.on("card-moved", () => {
-//          connections.clear();
-//          drawConnection(
-//             connections,
-//             flourMill.getPortPosition("Flour")!,
-//             pizzeria.getPortPosition("Flour")!,
-//             0xbbbbbb,
-//             4,
-//          );
-//       });
-
-//       Singleton().routeTo(DebugPage, {});
-//    }
-// }
-
-// function drawConnection(g: SmoothGraphics, from: IPointData, to: IPointData, color: number, width: number) {
-//    g.lineStyle({
-//       color: 0x666666,
-//       width: 3,
-//       cap: LINE_CAP.ROUND,
-//       join: LINE_JOIN.ROUND,
-//       alignment: 0.5,
-//    }).moveTo(from.x, from.y);
-//    const oldColor = g.line.color;
-//    g.lineStyle({ ...g.line, color, width });
-//    g.bezierCurveTo((from.x + to.x) / 2, from.y, (from.x + to.x) / 2, to.y, to.x, to.y);
-//    g.lineStyle({ ...g.line, color: oldColor });
-// }
-
-// class BuildingCard extends Container {
-//    private port: Partial<Record<Resource, IPointData>> = {};
-
-//    constructor(b: Building) {
-//       super();
-//       const graphics = this.addChild(new SmoothGraphics()).lineStyle({
-//          color: 0xcccccc,
-//          width: 1,
-//          cap: LINE_CAP.ROUND,
-//          join: LINE_JOIN.ROUND,
-//          alignment: 0.5,
-//       });
-//       graphics.beginFill(0xffffff).drawRoundedRect(0, 0, 300, 400, 10).endFill();
-
-//       const building = Config.Building[b];
-//       this.addChild(
-//          new BitmapText(building.name(), {
-//             fontName: Fonts.CabinSketch,
-//             fontSize: 36,
-//             tint: 0x333333,
-//          }),
-//       ).position.set(20, 20);
-
-//       const desc = this.addChild(
-//          new BitmapText('What do you call a flour mill that tells jokes? A "kneady" comedian!', {
-//             fontName: Fonts.Cabin,
-//             fontSize: 16,
-//             tint: 0x333333,
-//             maxWidth: 260,
-//          }),
-//       );
-//       desc.position.set(20, 60);
-
-//       const inputCount = sizeOf(building.input);
-//       let i = 0;
-//       forEach(building.input, (res, amount) => {
-//          ++i;
-//          const input = this.addChild(
-//             new BitmapText(Config.Resource[res].name(), {
-//                fontName: Fonts.Cabin,
-//                fontSize: 20,
-//                tint: 0x333333,
-//             }),
-//          );
-//          input.anchor.set(0, 0.5);
-//          input.position.set(50, 100 + (i * 300) / (inputCount + 1));
-//          const portX = 30;
-//          const portY = 100 + 2 + (i * 300) / (inputCount + 1);
-//          graphics.beginFill(0xf1c40f).drawCircle(portX, portY, 10).endFill();
-//          this.port[res] = { x: portX, y: portY };
-//       });
-
-//       const outputCount = sizeOf(building.output);
-//       i = 0;
-//       forEach(building.output, (res, amount) => {
-//          ++i;
-//          const output = this.addChild(
-//             new BitmapText(Config.Resource[res].name(), {
-//                fontName: Fonts.Cabin,
-//                fontSize: 20,
-//                align: "right",
-//                tint: 0x333333,
-//             }),
-//          );
-//          output.anchor.set(1, 0.5);
-//          output.position.set(250, 100 + (i * 300) / (outputCount + 1));
-//          const portX = 270;
-//          const portY = 100 + 2 + (i * 300) / (outputCount + 1);
-//          graphics.beginFill(0x2ecc71).drawCircle(portX, portY, 10).endFill();
-//          this.port[res] = { x: portX, y: portY };
-//       });
-
-//       let pointerDownPos: IPointData | null = null;
-//       const startPos = { x: this.x, y: this.y };
-
-//       this.on("pointerdown", (e) => {
-//          e.stopPropagation();
-//          pointerDownPos = { x: e.x, y: e.y };
-//          startPos.x = this.x;
-//          startPos.y = this.y;
-//       });
-
-//       this.on("pointermove", (e) => {
-//          e.stopPropagation();
-//          if (pointerDownPos) {
-//             this.x = startPos.x + e.x - pointerDownPos.x;
-//             this.y = startPos.y + e.y - pointerDownPos.y;
-//             this.parent.emit("card-moved");
-//          }
-//       });
-
-//       this.on("pointerup", (e) => {
-//          e.stopPropagation();
-//          pointerDownPos = null;
-//          startPos.x = this.x;
-//          startPos.y = this.y;
-//       });
-//    }
-
-//    getPortPosition(res: Resource): IPointData | null {
-//       const pos = this.port[res];
-//       if (!pos) {
-//          return null;
-//       }
-//       return { x: pos.x + this.x, y: pos.y + this.y };
-//    }
-// }
+import { SmoothGraphics } from "@pixi/graphics-smooth";
+import type { ColorSource, FederatedPointerEvent } from "pixi.js";
+import { BitmapText, LINE_CAP, LINE_JOIN, Rectangle, Text } from "pixi.js";
+import type { Building } from "../../../shared/definitions/BuildingDefinitions";
+import { Config } from "../../../shared/logic/Config";
+import { buildFlowGraph, type IFlowGraph } from "../../../shared/logic/FlowGraph";
+import type { GameOptions, GameState } from "../../../shared/logic/GameState";
+import { getGameOptions } from "../../../shared/logic/GameStateLogic";
+import { containsNonASCII, formatNumber, forEach } from "../../../shared/utilities/Helper";
+import { getColorCached } from "../utilities/CachedColor";
+import { Scene, destroyAllChildren, type ISceneContext } from "../utilities/SceneManager";
+import { Singleton } from "../utilities/Singleton";
+import { Fonts } from "../visuals/Fonts";
+import { LookAtMode, WorldScene } from "./WorldScene";
+
+const BOX_WIDTH = 260;
+const BOX_HEIGHT = 80;
+const COLUMN_WIDTH = 460;
+const ROW_HEIGHT = 140;
+const MARGIN = 100;
+const DEFICIT_COLOR = 0xe74c3c;
+// Transport and game state updates come every tick, the graph does not need to be that fresh
+const REDRAW_INTERVAL = 5000;
+
+const LINE_STYLE = {
+   cap: LINE_CAP.ROUND,
+   join: LINE_JOIN.ROUND,
+   alignment: 0.5,
+};
+
+/**
+ * The material flow of the city, one box per building type, laid out left to right from raw materials to
+ * end products. Edges are as thick as the amount transported along them, and red if the city does not make
+ * enough of the material. Clicking a box selects those buildings in the city.
+ */
+export class FlowGraphScene extends Scene {
+   private _boxPositions = new Map<Building, Rectangle>();
+   private _graph: IFlowGraph | null = null;
+   private _lastDrawn = 0;
+
+   constructor(context: ISceneContext) {
+      super(context);
+      this.viewport.setWorldSize(COLUMN_WIDTH, ROW_HEIGHT);
+   }
+
+   override backgroundColor(): ColorSource {
+      return getGameOptions().themeColors.ResearchBackground;
+   }
+
+   override onEnable(): void {
+      this.renderGraph(true);
+      super.onEnable();
+   }
+
+   override onGameStateChanged(gameState: GameState): void {
+      if (Date.now() - this._lastDrawn > REDRAW_INTERVAL) {
+         this.renderGraph(false);
+      }
+   }
+
+   override onGameOptionsChanged(gameOptions: GameOptions): void {
+      this.setBackgroundColor(gameOptions.themeColors.ResearchBackground);
+      this.renderGraph(false);
+   }
+
+   override onClicked(e: FederatedPointerEvent): void {
+      const pos = this.viewport.screenToWorld(e);
+      for (const [building, rect] of this._boxPositions) {
+         if (!rect.contains(pos.x, pos.y)) {
+            continue;
+         }
+         const tiles = this._graph?.nodes.get(building)?.tiles ?? [];
+         if (tiles.length === 0) {
+            return;
+         }
+         const scene = Singleton().sceneManager.loadScene(WorldScene);
+         scene.lookAtTile(tiles[0], LookAtMode.Select);
+         scene.drawSelection(null, tiles);
+         return;
+      }
+   }
+
+   private renderGraph(resetCamera: boolean): void {
+      const { app, gameState } = this.context;
+      this._lastDrawn = Date.now();
+      this._graph = buildFlowGraph(gameState);
+      const graph = this._graph;
+
+      const width = Math.max(1, graph.columns) * COLUMN_WIDTH - COLUMN_WIDTH + BOX_WIDTH + MARGIN * 2;
+      const height = Math.max(1, graph.rows) * ROW_HEIGHT + MARGIN * 2;
+      this.viewport.setWorldSize(width, height);
+      const minZoom = Math.min(app.screen.width / width, app.screen.height / height);
+      this.viewport.setZoomRange(Math.min(minZoom, 1), 2);
+      if (resetCamera) {
+         this.viewport.zoom = Math.min(1, Math.max(minZoom, app.screen.height / (ROW_HEIGHT * 8)));
+         this.viewport.center = { x: width / 2, y: height / 2 };
+      }
+
+      destroyAllChildren(this.viewport);
+      this._boxPositions.clear();
+      const theme = getGameOptions().themeColors;
+      const color = getColorCached(theme.ResearchUnlockedColor).toNumber();
+
+      graph.nodes.forEach((node, building) => {
+         this._boxPositions.set(
+            building,
+            new Rectangle(
+               MARGIN + node.column * COLUMN_WIDTH,
+               MARGIN + node.row * ROW_HEIGHT,
+               BOX_WIDTH,
+               BOX_HEIGHT,
+            ),
+         );
+      });
+
+      const maxPerSecond = graph.edges.reduce((prev, edge) => Math.max(prev, edge.perSecond), 0);
+      const edges = this.viewport.addChild(new SmoothGraphics());
+      // Deficit edges last, so they are drawn on top
+      const sorted = graph.edges.slice().sort((a, b) => Number(a.deficit) - Number(b.deficit));
+      for (const edge of sorted) {
+         const from = this._boxPositions.get(edge.from)!;
+         const to = this._boxPositions.get(edge.to)!;
+         const weight = maxPerSecond > 0 ? Math.sqrt(edge.perSecond / maxPerSecond) : 0;
+         edges.lineStyle({
+            ...LINE_STYLE,
+            width: 1 + weight * 9,
+            color: edge.deficit ? DEFICIT_COLOR : color,
+            alpha: edge.perSecond > 0 || edge.deficit ? 1 : 0.3,
+         });
+         this.drawConnection(edges, from.right, from.y + from.height / 2, to.x, to.y + to.height / 2);
+      }
+
+      const boxes = this.viewport.addChild(new SmoothGraphics());
+      graph.nodes.forEach((node, building) => {
+         const rect = this._boxPositions.get(building)!;
+         const deficit = graph.edges.some((e) => e.to === building && e.deficit);
+         boxes
+            .lineStyle({ ...LINE_STYLE, width: 2, color: deficit ? DEFICIT_COLOR : color })
+            .beginFill(theme.ResearchBackground)
+            .drawRoundedRect(rect.x, rect.y, rect.width, rect.height, 10)
+            .endFill();
+         const title = this.viewport.addChild(
+            this.drawText(
+               `${Config.Building[building].name()} x${node.tiles.length}`,
+               color,
+               24,
+               rect.width - 20,
+            ),
+         );
+         title.anchor.set(0.5);
+         title.position.set(rect.x + rect.width / 2, rect.y + rect.height / 3);
+         const output: string[] = [];
+         forEach(Config.Building[building].output, (res) => {
+            output.push(Config.Material[res].name());
+         });
+         const desc = this.viewport.addChild(
+            this.drawText(
+               [`Level ${formatNumber(node.totalLevel)}`, ...output].join(", "),
+               color,
+               16,
+               rect.width - 20,
+            ),
+         );
+         desc.anchor.set(0.5);
+         desc.position.set(rect.x + rect.width / 2, rect.y + (rect.height * 2) / 3);
+      });
+   }
+
+   private drawConnection(g: SmoothGraphics, fromX: number, fromY: number, toX: number, toY: number): void {
+      g.moveTo(fromX, fromY);
+      if (toX > fromX) {
+         g.bezierCurveTo((fromX + toX) / 2, fromY, (fromX + toX) / 2, toY, toX, toY);
+      } else {
+         // An edge that closes a loop goes backwards, around the boxes
+         const loop = Math.max(COLUMN_WIDTH - BOX_WIDTH, Math.abs(fromX - toX) / 4);
+         g.bezierCurveTo(fromX + loop, fromY - ROW_HEIGHT, toX - loop, toY - ROW_HEIGHT, toX, toY);
+      }
+   }
+
+   private drawText(text: string, color: ColorSource, size: number, maxWidth: number): Text | BitmapText {
+      if (containsNonASCII(text)) {
+         const result = new Text(text, {
+            fontFamily: "serif",
+            fontSize: size,
+            fill: getColorCached(color).toHex(),
+            align: "center",
+         });
+         while (result.width > maxWidth) {
+            result.style.fontSize = (result.style.fontSize as number) - 1;
+         }
+         return result;
+      }
+      const result = new BitmapText(text, {
+         fontName: Fonts.Platypi,
+         fontSize: size,
+         tint: color,
+         align: "center",
+      });
+      while (result.width > maxWidth) {
+         result.fontSize--;
+      }
+      return result;
+   }
+}
@@ -1,6 +1,7 @@
 import type { SmoothGraphics } from "@pixi/graphics-smooth";
 import type { IDestroyOptions, IPointData } from "pixi.js";
 import { BitmapText, Container, Rectangle, Sprite, Texture } from "pixi.js";
+import type { Building } from "../../../shared/definitions/BuildingDefinitions";
 import type { Material } from "../../../shared/definitions/MaterialDefinitions";
 import { getBuildingLevelLabel, getBuildingPercentage } from "../../../shared/logic/BuildingLogic";
 import {
@@ -34,6 +35,9 @@ import { Easing } from "../utilities/pixi-actions/Easing";
 import { Fonts } from "../visuals/Fonts";
 import type { WorldScene } from "./WorldScene";
 
+const PLAN_GHOST_ALPHA = 0.4;
+const PLAN_GHOST_REMOVED_TINT = 0xe74c3c;
+
 export class TileVisual extends Container {
    private readonly _world: WorldScene;
    private _lastBuildingType?: string;
@@ -54,6 +58,7 @@ export class TileVisual extends Container {
    private _floaterValue = 0;
    private _aabb: Rectangle;
    private _bg: Sprite;
+   private _ghost: Sprite | null = null;
 
    constructor(world: WorldScene, grid: IPointData) {
       super();
@@ -242,6 +247,29 @@ export class TileVisual extends Container {
       ).start();
    }
 
+   /**
+    * Show a translucent preview of a planned building on top of this tile. `removed` marks the building that
+    * is currently here as going away instead.
+    */
+   public setPlanGhost(ghost: { type: Building; removed: boolean } | null): void {
+      if (!ghost) {
+         if (this._ghost) {
+            this._ghost.visible = false;
+         }
+         return;
+      }
+      if (!this._ghost) {
+         this._ghost = this.addChild(new Sprite());
+         this._ghost.anchor.set(0.5);
+         this._ghost.scale.set(0.5);
+      }
+      const { textures, gameState } = this._world.context;
+      this._ghost.texture = getBuildingTexture(ghost.type, textures, gameState.city);
+      this._ghost.tint = ghost.removed ? PLAN_GHOST_REMOVED_TINT : getTextColor();
+      this._ghost.alpha = ghost.removed ? 0.75 : PLAN_GHOST_ALPHA;
+      this._ghost.visible = true;
+   }
+
    public addFloater(value: number): void {
       this._floaterValue += value;
    }
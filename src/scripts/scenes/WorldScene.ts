@@ -11,6 +11,7 @@ import {
    type FederatedPointerEvent,
    type IPointData,
 } from "pixi.js";
+import type { Building } from "../../../shared/definitions/BuildingDefinitions";
 import {
    applyBuildingDefaults,
    checkBuildingMax,
@@ -34,7 +35,9 @@ import {
    makeBuilding,
    type IResourceImportBuildingData,
 } from "../../../shared/logic/Tile";
+import type { ITransportStats } from "../../../shared/logic/TransportStats";
 import { Transports } from "../../../shared/logic/Transports";
+import { notifyTileChanged } from "../../../shared/logic/Update";
 import {
    clamp,
    hasFlag,
@@ -47,6 +50,7 @@ import {
 } from "../../../shared/utilities/Helper";
 import { ObjectPool } from "../../../shared/utilities/ObjectPool";
 import { lerpVector2, v2 } from "../../../shared/utilities/Vector2";
+import type { IPlanDiff } from "../logic/BuildTemplate";
 import { getTexture } from "../logic/VisualLogic";
 import { TilePage } from "../ui/TilePage";
 import { getColorCached } from "../utilities/CachedColor";
@@ -67,6 +71,8 @@ const MARGIN = 200;
 const SELECTOR_ALPHA = 0.4;
 const HIGHLIGHT_ALPHA = 0.2;
 const ANIMATION_TIME = 0.2;
+const HEATMAP_REDRAW_INTERVAL = 2000;
+const HEATMAP_COLOR = 0xe74c3c;
 
 export class WorldScene extends Scene {
    private _width!: number;
@@ -83,10 +89,15 @@ export class WorldScene extends Scene {
 
    private _transportLines!: SmoothGraphics;
 
+   private _transportHeatmap: SmoothGraphics;
+   private _transportHeatmapStats: ITransportStats | null = null;
+   private _transportHeatmapDrawn = 0;
+
    private cameraMovement: Action | null = null;
    private readonly _tiles: Map<number, TileVisual> = new Map();
    private readonly _transport: Map<number, Sprite> = new Map();
    private _selectedXy: Tile | null = null;
+   private readonly _planPreview: Set<Tile> = new Set();
    private _hijackSelectGridResolve: ((grid: IPointData) => void) | null = null;
 
    constructor(context: ISceneContext) {
@@ -107,6 +118,7 @@ export class WorldScene extends Scene {
 
       this._tileVisualContainer = this.viewport.addChild(new Container());
       this._tileVisualContainer.name = "TileVisualContainer";
+      this._transportHeatmap = this.viewport.addChild(new SmoothGraphics());
 
       getGrid(getGameState()).forEach((grid) => {
          const xy = pointToTile(grid);
@@ -257,6 +269,7 @@ export class WorldScene extends Scene {
          makeBuilding({ type: selectBuilding.type }),
          getGameOptions(),
       );
+      notifyTileChanged(currentTile.tile);
       notifyGameStateUpdate();
    }
 
@@ -277,6 +290,9 @@ export class WorldScene extends Scene {
          this._tiles.get(xy)?.onTileDataChanged(tile);
       });
       this.drawTransportation(gameState);
+      if (this._transportHeatmapStats && Date.now() - this._transportHeatmapDrawn > HEATMAP_REDRAW_INTERVAL) {
+         this.drawTransportHeatmap();
+      }
    }
 
    override onGameOptionsChanged(gameOptions: GameOptions): void {
@@ -532,6 +548,60 @@ export class WorldScene extends Scene {
       });
    }
 
+   /**
+    * Colors every tile by the amount transported over it, `null` to hide it again
+    */
+   showTransportHeatmap(stats: ITransportStats | null): void {
+      this._transportHeatmapStats = stats;
+      this.drawTransportHeatmap();
+   }
+
+   get transportHeatmapShown(): boolean {
+      return this._transportHeatmapStats !== null;
+   }
+
+   private drawTransportHeatmap(): void {
+      this._transportHeatmapDrawn = Date.now();
+      this._transportHeatmap.clear();
+      const stats = this._transportHeatmapStats;
+      if (!stats) {
+         return;
+      }
+      let max = 0;
+      stats.tiles.forEach((tile) => {
+         max = Math.max(max, tile.traffic);
+      });
+      if (max <= 0) {
+         return;
+      }
+      const grid = getGrid(getGameState());
+      stats.tiles.forEach((tile, xy) => {
+         const position = grid.xyToPosition(xy);
+         // Square root, so that quiet roads still show next to the busiest ones
+         const heat = Math.sqrt(tile.traffic / max);
+         this._transportHeatmap
+            .beginFill(HEATMAP_COLOR, 0.1 + heat * 0.6)
+            .drawCircle(position.x, position.y, grid.size * 0.8)
+            .endFill();
+      });
+   }
+
+   showPlanPreview(diff: IPlanDiff): void {
+      this.clearPlanPreview();
+      const ghosts = new Map<Tile, { type: Building; removed: boolean }>();
+      diff.clears.forEach((c) => ghosts.set(c.xy, { type: c.type, removed: true }));
+      diff.placements.forEach((p) => ghosts.set(p.xy, { type: p.type, removed: false }));
+      ghosts.forEach((ghost, xy) => {
+         this._tiles.get(xy)?.setPlanGhost(ghost);
+         this._planPreview.add(xy);
+      });
+   }
+
+   clearPlanPreview(): void {
+      this._planPreview.forEach((xy) => this._tiles.get(xy)?.setPlanGhost(null));
+      this._planPreview.clear();
+   }
+
    public update(dt: number, timeSinceLastTick: number): void {
       for (const visual of this._tiles.values()) {
          visual.update(dt);
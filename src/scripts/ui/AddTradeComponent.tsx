@@ -4,7 +4,7 @@ import { NoPrice, NoStorage, type Material } from "../../../shared/definitions/M
 import { Config } from "../../../shared/logic/Config";
 import { DISABLE_PLAYER_TRADES } from "../../../shared/logic/Constants";
 import type { GameState } from "../../../shared/logic/GameState";
-import { getGameState, notifyGameOptionsUpdate } from "../../../shared/logic/GameStateLogic";
+import { notifyGameOptionsUpdate } from "../../../shared/logic/GameStateLogic";
 import { unlockedResources } from "../../../shared/logic/IntraTickCache";
 import {
    getBuyAmountRange,
@@ -20,12 +20,12 @@ import {
    isNullOrUndefined,
    keysOf,
    safeParseInt,
-   uuid4,
 } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
 import { useGameOptions } from "../Global";
-import { client, useTrades, useUser } from "../rpc/RPCClient";
-import { playClick, playError, playKaching } from "../visuals/Sound";
+import { queueAction } from "../logic/Outbox";
+import { useTrades, useUser } from "../rpc/RPCClient";
+import { playClick, playError } from "../visuals/Sound";
 import { showToast } from "./GlobalModal";
 import { FormatNumber } from "./HelperComponents";
 
@@ -227,7 +227,7 @@ export function AddTradeFormComponent({
             <button
                className="row f1 jcc"
                disabled={!isTradeValid(trade) || !enabled}
-               onClick={async () => {
+               onClick={() => {
                   if (
                      !isTradeValid(trade) ||
                      !enabled ||
@@ -245,25 +245,15 @@ export function AddTradeFormComponent({
                      Array.from(Tick.current.playerTradeBuildings.keys()),
                      gameState,
                   );
-                  try {
-                     // The deduction might not be 100% successful, we need to correct the actual amount
-                     // based on the result!
-                     const percentage = transaction.amount / trade.sellAmount;
-                     trade.sellAmount *= percentage;
-                     trade.buyAmount *= percentage;
-                     await client.addTrade(trade);
-                     const token = uuid4();
-                     await client.updateGameId(token);
-                     getGameState().id = token;
-                     playKaching();
-                     showToast(t(L.PlayerTradeAddSuccess));
-                     if (!options.keepNewTradeWindowOpen) {
-                        hideModal();
-                     }
-                  } catch (error) {
-                     transaction.rollback();
-                     playError();
-                     showToast(String(error));
+                  // The deduction might not be 100% successful, we need to correct the actual amount
+                  // based on the result!
+                  const percentage = transaction.amount / trade.sellAmount;
+                  trade.sellAmount *= percentage;
+                  trade.buyAmount *= percentage;
+                  // A copy, the form keeps changing `trade`. The outbox refunds the resources if it is rejected
+                  queueAction("addTrade", { ...trade });
+                  if (!options.keepNewTradeWindowOpen) {
+                     hideModal();
                   }
                }}
             >
@@ -1,8 +1,7 @@
 import { useState } from "react";
 import { notifyGameStateUpdate } from "../../../shared/logic/GameStateLogic";
-import { clearIntraTickCache } from "../../../shared/logic/IntraTickCache";
 import { RequestResetTile } from "../../../shared/logic/TechLogic";
-import { clearTransportSourceCache } from "../../../shared/logic/Update";
+import { notifyTileChanged } from "../../../shared/logic/Update";
 import { pointToTile } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
 import { WorldScene } from "../scenes/WorldScene";
@@ -48,9 +47,9 @@ export function AkademikLomonosovBuildingBody({ gameState, xy }: IBuildingCompon
                   delete tile.building;
                   RequestResetTile.emit(tile.tile);
                   RequestResetTile.emit(newTile.tile);
+                  notifyTileChanged(tile.tile);
+                  notifyTileChanged(newTile.tile);
                   notifyGameStateUpdate();
-                  clearTransportSourceCache();
-                  clearIntraTickCache();
                   Singleton().sceneManager.getCurrent(WorldScene)?.selectGrid(point);
                } else {
                   showToast(L.MoveBuildingFail);
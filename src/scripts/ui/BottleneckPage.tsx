@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { analyzeBottlenecks, type BottleneckFix } from "../../../shared/logic/BottleneckLogic";
+import { Config } from "../../../shared/logic/Config";
+import { getGameState } from "../../../shared/logic/GameStateLogic";
+import { NotProducingReason } from "../../../shared/logic/TickLogic";
+import { formatNumber, type Tile } from "../../../shared/utilities/Helper";
+import { L, t } from "../../../shared/utilities/i18n";
+import { LookAtMode, WorldScene } from "../scenes/WorldScene";
+import { Singleton } from "../utilities/Singleton";
+import { playClick } from "../visuals/Sound";
+import { FormatNumber } from "./HelperComponents";
+import { MenuComponent } from "./MenuComponent";
+import { TitleBarComponent } from "./TitleBarComponent";
+
+export const ReasonLabels: Record<NotProducingReason, () => string> = {
+   [NotProducingReason.None]: () => t(L.BottleneckReasonProducing),
+   [NotProducingReason.NotEnoughResources]: () => t(L.BottleneckReasonNotEnoughResources),
+   [NotProducingReason.NotEnoughWorkers]: () => t(L.BottleneckReasonNotEnoughWorkers),
+   [NotProducingReason.StorageFull]: () => t(L.BottleneckReasonStorageFull),
+   [NotProducingReason.TurnedOff]: () => t(L.BottleneckReasonTurnedOff),
+   [NotProducingReason.NotOnDeposit]: () => t(L.BottleneckReasonNotOnDeposit),
+   [NotProducingReason.NoActiveTransports]: () => t(L.BottleneckReasonNoActiveTransports),
+   [NotProducingReason.NoPower]: () => t(L.BottleneckReasonNoPower),
+};
+
+export function BottleneckPage(): React.ReactNode {
+   const [report, setReport] = useState(() => analyzeBottlenecks(getGameState()));
+   return (
+      <div className="window">
+         <TitleBarComponent>{t(L.Bottlenecks)}</TitleBarComponent>
+         <MenuComponent />
+         <div className="window-body">
+            <div className="text-desc">{t(L.BottlenecksDesc)}</div>
+            <button
+               className="w100 mt5"
+               onClick={() => {
+                  playClick();
+                  setReport(analyzeBottlenecks(getGameState()));
+               }}
+            >
+               {t(L.BottleneckRefresh)}
+            </button>
+            <fieldset className="mt10">
+               <legend>{t(L.BottleneckRootCauses)}</legend>
+               {report.causes.length === 0 ? (
+                  <div className="text-desc">{t(L.BottleneckAllProducing)}</div>
+               ) : (
+                  <div className="row text-desc text-small">
+                     <div className="f1">{t(L.BottleneckLostValue)}</div>
+                     <FormatNumber value={report.totalLostValue} />
+                  </div>
+               )}
+               {report.causes.map((cause, i) => (
+                  <div className="row mv5" key={i}>
+                     <div className="f1">
+                        <div>{formatFix(cause.fix)}</div>
+                        <div className="text-desc text-small">
+                           {t(L.BottleneckCauseDesc, {
+                              count: cause.tiles.length,
+                              value: formatNumber(cause.lostValue),
+                           })}
+                        </div>
+                     </div>
+                     <LocateButton tiles={cause.tiles} />
+                  </div>
+               ))}
+            </fieldset>
+            <fieldset>
+               <legend>{t(L.BottleneckIdleBuildings)}</legend>
+               <div className="table-view">
+                  <table>
+                     <tbody>
+                        <tr>
+                           <th>{t(L.BottleneckBuilding)}</th>
+                           <th>{t(L.BottleneckReason)}</th>
+                           <th className="text-right">{t(L.BottleneckCount)}</th>
+                           <th className="text-right">{t(L.BottleneckValue)}</th>
+                           <th></th>
+                        </tr>
+                        {report.groups.map((group) => (
+                           <tr key={`${group.reason}.${group.building}`}>
+                              <td>{Config.Building[group.building].name()}</td>
+                              <td>{ReasonLabels[group.reason]()}</td>
+                              <td className="text-right">{group.tiles.length}</td>
+                              <td className="text-right">
+                                 <FormatNumber value={group.lostValue} />
+                              </td>
+                              <td className="text-right">
+                                 <LocateButton tiles={group.tiles} />
+                              </td>
+                           </tr>
+                        ))}
+                     </tbody>
+                  </table>
+               </div>
+            </fieldset>
+         </div>
+      </div>
+   );
+}
+
+/**
+ * Every click moves on to the next tile
+ */
+function LocateButton({ tiles }: { tiles: Tile[] }): React.ReactNode {
+   const [index, setIndex] = useState(0);
+   return (
+      <button
+         onClick={() => {
+            playClick();
+            const xy = tiles[index % tiles.length];
+            Singleton().sceneManager.getCurrent(WorldScene)?.lookAtTile(xy, LookAtMode.Highlight);
+            setIndex(index + 1);
+         }}
+      >
+         {tiles.length > 1
+            ? t(L.BottleneckLocateX, { index: (index % tiles.length) + 1, count: tiles.length })
+            : t(L.BottleneckLocate)}
+      </button>
+   );
+}
+
+function formatFix(fix: BottleneckFix): string {
+   switch (fix.type) {
+      case "BuildProducers": {
+         const resource = Config.Material[fix.resource].name();
+         if (!fix.building) {
+            return t(L.BottleneckFixNoProducer, { resource });
+         }
+         return t(L.BottleneckFixBuildProducers, {
+            resource,
+            count: fix.count,
+            building: Config.Building[fix.building].name(),
+         });
+      }
+      case "AddWorkers":
+         return t(L.BottleneckFixAddWorkers, { workers: fix.workers });
+      case "RaiseStorage":
+         return t(L.BottleneckFixRaiseStorage, { building: Config.Building[fix.building].name() });
+      case "AddPower":
+         return t(L.BottleneckFixAddPower);
+      case "CheckImports":
+         return t(L.BottleneckFixCheckImports);
+      case "MoveToDeposit":
+         return t(L.BottleneckFixMoveToDeposit, { building: Config.Building[fix.building].name() });
+   }
+}
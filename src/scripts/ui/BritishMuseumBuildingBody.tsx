@@ -10,6 +10,7 @@ import { Config } from "../../../shared/logic/Config";
 import { getGameOptions, notifyGameStateUpdate } from "../../../shared/logic/GameStateLogic";
 import { RequestResetTile } from "../../../shared/logic/TechLogic";
 import { makeBuilding } from "../../../shared/logic/Tile";
+import { notifyTileChanged } from "../../../shared/logic/Update";
 import { forEach } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
 import { playUpgrade } from "../visuals/Sound";
@@ -53,6 +54,7 @@ export function BritishMuseumBuildingBody({ gameState, xy }: IBuildingComponentP
                         wonder.resources[res] = amount;
                      });
                      tile.building = wonder;
+                     notifyTileChanged(xy);
                      RequestResetTile.emit(xy);
                      notifyGameStateUpdate();
                      playUpgrade();
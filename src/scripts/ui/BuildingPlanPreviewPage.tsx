@@ -0,0 +1,144 @@
+import { useEffect } from "react";
+import type { Building } from "../../../shared/definitions/BuildingDefinitions";
+import { findSpecialBuilding } from "../../../shared/logic/BuildingLogic";
+import { formatBuildingPlanIssue } from "../../../shared/logic/BuildingPlan";
+import { Config } from "../../../shared/logic/Config";
+import { getGameState } from "../../../shared/logic/GameStateLogic";
+import { mapSafeAdd, tileToPoint } from "../../../shared/utilities/Helper";
+import { type IPlanRunResult, PerformBuildingPlanFromObject } from "../logic/BuildTemplate";
+import { WorldScene } from "../scenes/WorldScene";
+import { Singleton } from "../utilities/Singleton";
+import { playClick, playError } from "../visuals/Sound";
+import { showToast } from "./GlobalModal";
+import { MenuComponent } from "./MenuComponent";
+import { TitleBarComponent } from "./TitleBarComponent";
+
+export function BuildingPlanPreviewPage({
+   name,
+   plan,
+   preview,
+}: {
+   name: string;
+   plan: unknown;
+   preview: IPlanRunResult;
+}): React.ReactNode {
+   useEffect(() => {
+      Singleton().sceneManager.getCurrent(WorldScene)?.showPlanPreview(preview.diff);
+      return () => {
+         Singleton().sceneManager.getCurrent(WorldScene)?.clearPlanPreview();
+      };
+   }, [preview]);
+
+   const placements = new Map<Building, number>();
+   preview.diff.placements.forEach((p) => mapSafeAdd(placements, p.type, 1));
+   const clears = new Map<Building, number>();
+   preview.diff.clears.forEach((c) => mapSafeAdd(clears, c.type, 1));
+   const preservedWonders = preview.diff.preserved.filter((p) => p.reason === "wonder").length;
+   const preservedMines = preview.diff.preserved.filter((p) => p.reason === "extractor").length;
+
+   return (
+      <div className="window">
+         <TitleBarComponent>{`Preview: ${name}`}</TitleBarComponent>
+         <MenuComponent />
+         <div className="window-body">
+            <div className="text-desc">
+               Nothing has been built yet. Planned buildings are shown as ghosts on the map, buildings that
+               will be removed are shown in red.
+            </div>
+            {preview.issues.length > 0 ? (
+               <fieldset>
+                  <legend>Warnings ({preview.issues.length})</legend>
+                  {preview.issues.map((issue, i) => (
+                     <div className="text-desc text-small" key={i}>
+                        {formatBuildingPlanIssue(issue)}
+                     </div>
+                  ))}
+               </fieldset>
+            ) : null}
+            <fieldset>
+               <legend>Place ({preview.diff.placements.length})</legend>
+               <PreviewTable counts={placements} />
+            </fieldset>
+            <fieldset>
+               <legend>Remove ({preview.diff.clears.length})</legend>
+               <PreviewTable counts={clears} />
+               {preservedWonders + preservedMines > 0 ? (
+                  <div className="text-desc mt5">
+                     {`Kept: ${preservedWonders} wonders, ${preservedMines} extractors on deposits`}
+                  </div>
+               ) : null}
+            </fieldset>
+            <fieldset>
+               <legend>Results</legend>
+               {preview.results.map((r, i) => (
+                  <div className="row" key={i}>
+                     <div className="f1">{r.type}</div>
+                     <div className={r.placed < r.requested ? "text-red" : undefined}>
+                        {r.requested > 0 ? `${r.placed}/${r.requested}` : r.placed}
+                     </div>
+                  </div>
+               ))}
+            </fieldset>
+            <div className="row">
+               <button
+                  className="f1"
+                  style={{ fontWeight: "bold" }}
+                  onClick={async () => {
+                     playClick();
+                     try {
+                        const res = await PerformBuildingPlanFromObject(plan);
+                        const summary = res.results
+                           .map((r) => `${r.type} ${r.placed}/${r.requested}`)
+                           .join(", ");
+                        showToast(`${name}: ${summary}`);
+                     } catch (err) {
+                        playError();
+                        showToast(String(err));
+                     }
+                     closePreview();
+                  }}
+               >
+                  Build
+               </button>
+               <div style={{ width: "10px" }} />
+               <button
+                  className="f1"
+                  onClick={() => {
+                     playClick();
+                     closePreview();
+                  }}
+               >
+                  Cancel
+               </button>
+            </div>
+         </div>
+      </div>
+   );
+}
+
+function PreviewTable({ counts }: { counts: Map<Building, number> }): React.ReactNode {
+   if (counts.size === 0) {
+      return <div className="text-desc">None</div>;
+   }
+   return (
+      <>
+         {Array.from(counts.entries())
+            .sort(([a], [b]) => Config.Building[a].name().localeCompare(Config.Building[b].name()))
+            .map(([building, count]) => (
+               <div className="row" key={building}>
+                  <div className="f1">{Config.Building[building].name()}</div>
+                  <div>{count}</div>
+               </div>
+            ))}
+      </>
+   );
+}
+
+function closePreview(): void {
+   const scene = Singleton().sceneManager.getCurrent(WorldScene);
+   scene?.clearPlanPreview();
+   const hq = findSpecialBuilding("Headquarter", getGameState());
+   if (scene && hq) {
+      scene.selectGrid(tileToPoint(hq.tile));
+   }
+}
@@ -5,7 +5,7 @@ import { Config } from "../../../shared/logic/Config";
 import { GameStateFlags } from "../../../shared/logic/GameState";
 import { notifyGameStateUpdate } from "../../../shared/logic/GameStateLogic";
 import { getCitySize, getGrid } from "../../../shared/logic/IntraTickCache";
-import { clearTransportSourceCache } from "../../../shared/logic/Update";
+import { notifyTileChanged } from "../../../shared/logic/Update";
 import { pointToTile, setFlag, tileToPoint } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
 import { WorldScene } from "../scenes/WorldScene";
@@ -24,8 +24,8 @@ export function BuildingSellComponent({ gameState, xy }: IBuildingComponentProps
    }
    const demolishBuilding = useCallback(() => {
       delete tile!.building;
+      notifyTileChanged(tile!.tile);
       Singleton().sceneManager.enqueue(WorldScene, (s) => s.resetTile(tile!.tile));
-      clearTransportSourceCache();
       gameState.flags = setFlag(gameState.flags, GameStateFlags.HasDemolishedBuilding);
       notifyGameStateUpdate();
    }, [tile, gameState]);
@@ -79,6 +79,7 @@ export function BuildingSellComponent({ gameState, xy }: IBuildingComponentProps
                                     .forEach((tile) => {
                                        if (tile?.building?.type === building.type) {
                                           delete tile.building;
+                                          notifyTileChanged(tile.tile);
                                           ++count;
                                           Singleton().sceneManager.enqueue(WorldScene, (s) =>
                                              s.resetTile(tile.tile),
@@ -91,7 +92,6 @@ export function BuildingSellComponent({ gameState, xy }: IBuildingComponentProps
                                        GameStateFlags.HasDemolishedBuilding,
                                     );
                                  }
-                                 clearTransportSourceCache();
                                  notifyGameStateUpdate();
                                  showToast(t(L.ApplyToBuildingsToastHTML, { count, building: def.name() }));
                               }}
@@ -8,11 +8,11 @@ import {
 } from "../../../shared/logic/BuildingLogic";
 import { Config } from "../../../shared/logic/Config";
 import { notifyGameStateUpdate } from "../../../shared/logic/GameStateLogic";
-import { clearIntraTickCache, getGrid } from "../../../shared/logic/IntraTickCache";
+import { getGrid } from "../../../shared/logic/IntraTickCache";
 import { RequestResetTile } from "../../../shared/logic/TechLogic";
 import { NotProducingReason, Tick } from "../../../shared/logic/TickLogic";
 import type { IBuildingData } from "../../../shared/logic/Tile";
-import { clearTransportSourceCache } from "../../../shared/logic/Update";
+import { notifyTileChanged } from "../../../shared/logic/Update";
 import {
    formatNumber,
    keysOf,
@@ -302,9 +302,9 @@ export function BuildingUpgradeComponent({ gameState, xy }: IBuildingComponentPr
                         delete tile.building;
                         RequestResetTile.emit(tile.tile);
                         RequestResetTile.emit(newTile.tile);
+                        notifyTileChanged(tile.tile);
+                        notifyTileChanged(newTile.tile);
                         notifyGameStateUpdate();
-                        clearTransportSourceCache();
-                        clearIntraTickCache();
                         Singleton().sceneManager.getCurrent(WorldScene)?.selectGrid(point);
                      } else {
                         showToast(L.MoveBuildingFail);
@@ -0,0 +1,95 @@
+import { useMemo, useState } from "react";
+import { captureBuildingPlan, type IBuildingPlanRect } from "../../../shared/logic/BuildingPlan";
+import { getGrid } from "../../../shared/logic/IntraTickCache";
+import { safeParseInt } from "../../../shared/utilities/Helper";
+import { useGameState } from "../Global";
+import { playClick, playError } from "../visuals/Sound";
+import { showToast } from "./GlobalModal";
+import { MenuComponent } from "./MenuComponent";
+import { TitleBarComponent } from "./TitleBarComponent";
+
+export function CaptureBuildingPlanPage(): React.ReactNode {
+   const gs = useGameState();
+   const grid = getGrid(gs);
+   const [name, setName] = useState("Captured Layout");
+   const [rect, setRect] = useState<IBuildingPlanRect>({
+      minX: 0,
+      maxX: grid.maxX - 1,
+      minY: 0,
+      maxY: grid.maxY - 1,
+   });
+   const { count, json } = useMemo(() => {
+      const plan = captureBuildingPlan(gs, { name }, rect);
+      const task = plan.tasks[0];
+      return {
+         count: task.mode === "exact" ? task.placements.length : 0,
+         json: JSON.stringify(plan, null, 2),
+      };
+   }, [gs, name, rect]);
+
+   return (
+      <div className="window">
+         <TitleBarComponent>Capture Building Plan</TitleBarComponent>
+         <MenuComponent />
+         <div className="window-body">
+            <div className="text-desc">
+               Saves the buildings in the area below as an "exact" plan: every building keeps its position
+               relative to the top left corner, its level, stockpile, input and priority settings. Headquarter
+               and wonders are not included.
+            </div>
+            <fieldset>
+               <div className="row">
+                  <div className="f1">Name</div>
+                  <input type="text" value={name} onChange={(e) => setName(e.target.value)} />
+               </div>
+               {(["minX", "maxX", "minY", "maxY"] as const).map((key) => (
+                  <div className="row mt5" key={key}>
+                     <div className="f1">{key}</div>
+                     <input
+                        className="text-right"
+                        type="text"
+                        value={rect[key]}
+                        onChange={(e) => setRect({ ...rect, [key]: safeParseInt(e.target.value) })}
+                     />
+                  </div>
+               ))}
+               <div className="text-desc text-small mt5">{`${count} buildings`}</div>
+            </fieldset>
+            <div className="row">
+               <button
+                  className="f1"
+                  disabled={count === 0}
+                  onClick={() => {
+                     playClick();
+                     navigator.clipboard
+                        .writeText(json)
+                        .then(() => showToast(`${name}: copied to clipboard`))
+                        .catch((error) => {
+                           playError();
+                           showToast(String(error));
+                        });
+                  }}
+               >
+                  Copy to Clipboard
+               </button>
+               <div style={{ width: "10px" }} />
+               <button
+                  className="f1"
+                  disabled={count === 0}
+                  onClick={() => {
+                     playClick();
+                     const link = document.createElement("a");
+                     link.href = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+                     link.download = `${name}.json`;
+                     link.click();
+                     URL.revokeObjectURL(link.href);
+                     link.remove();
+                  }}
+               >
+                  Download
+               </button>
+            </div>
+         </div>
+      </div>
+   );
+}
@@ -6,6 +6,7 @@ import { GameFeature, hasFeature } from "../../../shared/logic/FeatureLogic";
 import { notifyGameStateUpdate } from "../../../shared/logic/GameStateLogic";
 import { getBuildingsByType } from "../../../shared/logic/IntraTickCache";
 import { PRIORITY_MAX, PRIORITY_MIN, type IBuildingData, type ITileData } from "../../../shared/logic/Tile";
+import { notifyTileChanged } from "../../../shared/logic/Update";
 import { safeParseInt } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
 import { useGameState } from "../Global";
@@ -149,6 +150,7 @@ function EndConstructionComponent({ tile }: { tile: ITileData }): React.ReactNod
    const endConstruction = () => {
       if (tile.building?.status === "building") {
          delete tile.building;
+         notifyTileChanged(tile.tile);
          Singleton().sceneManager.enqueue(WorldScene, (s) => s.resetTile(tile.tile));
          notifyGameStateUpdate();
       }
@@ -1,8 +1,30 @@
+import { decode, encode } from "@msgpack/msgpack";
 import { useState } from "react";
 import type { Material } from "../../../shared/definitions/MaterialDefinitions";
 import { Config } from "../../../shared/logic/Config";
+import {
+   getTickProfiler,
+   makeTickProfile,
+   makeTickProfileTrace,
+   setTickProfiler,
+   type IProfileStat,
+} from "../../../shared/logic/TickProfiler";
 import { clamp, keysOf, mapOf, safeAdd } from "../../../shared/utilities/Helper";
+import { checkServerRecording, type IServerRecording } from "../../../shared/utilities/ServerRecording";
 import type { PartialTabulate } from "../../../shared/utilities/TypeDefinitions";
+import { useCurrentTick } from "../logic/ClientUpdate";
+import {
+   getServerRecording,
+   isReplayingServer,
+   startServerRecording,
+   startServerReplay,
+   stopServerRecording,
+   stopServerReplay,
+} from "../rpc/RPCClient";
+import { useForceUpdate } from "../utilities/Hook";
+import { playClick, playError } from "../visuals/Sound";
+import { showToast } from "./GlobalModal";
+import { MenuComponent } from "./MenuComponent";
 import { TitleBarComponent } from "./TitleBarComponent";
 
 export function DebugPage(): React.ReactNode {
@@ -10,7 +32,10 @@ export function DebugPage(): React.ReactNode {
    return (
       <div className="window">
          <TitleBarComponent>Debug</TitleBarComponent>
+         <MenuComponent />
          <div className="window-body">
+            <TickProfilerComponent />
+            <ServerRecordingComponent />
             <div className="table-view">
                <table>
                   <thead>
@@ -83,3 +108,208 @@ export function DebugPage(): React.ReactNode {
       </div>
    );
 }
+
+function TickProfilerComponent(): React.ReactNode {
+   // Re-renders every tick, the profile itself is not observable
+   useCurrentTick();
+   const forceUpdate = useForceUpdate();
+   const profile = getTickProfiler();
+   return (
+      <fieldset>
+         <legend>Tick Profiler</legend>
+         <div className="row g5">
+            <div className="f1">
+               {profile
+                  ? `Profiling since ${new Date(profile.startedAt).toLocaleTimeString()}, ${profile.ticks} ticks`
+                  : "Not profiling"}
+            </div>
+            <button
+               onClick={() => {
+                  playClick();
+                  setTickProfiler(profile ? null : makeTickProfile());
+                  forceUpdate();
+               }}
+            >
+               {profile ? "Stop" : "Start"}
+            </button>
+            <button
+               disabled={!profile}
+               onClick={() => {
+                  playClick();
+                  setTickProfiler(makeTickProfile());
+                  forceUpdate();
+               }}
+            >
+               Reset
+            </button>
+            <button
+               disabled={!profile}
+               onClick={() => {
+                  if (profile) {
+                     playClick();
+                     downloadTrace(JSON.stringify(makeTickProfileTrace(profile), null, 2));
+                  }
+               }}
+            >
+               Download JSON
+            </button>
+            <button
+               disabled={!profile}
+               onClick={() => {
+                  if (profile) {
+                     playClick();
+                     navigator.clipboard.writeText(JSON.stringify(makeTickProfileTrace(profile)));
+                  }
+               }}
+            >
+               Copy JSON
+            </button>
+         </div>
+         {profile ? (
+            <>
+               <div className="sep10"></div>
+               <ProfileStatTable title="Phase" ticks={profile.ticks} stats={profile.phases} />
+               <div className="sep10"></div>
+               <ProfileStatTable
+                  title="Building"
+                  ticks={profile.ticks}
+                  stats={profile.buildings}
+                  name={(building) => Config.Building[building].name()}
+               />
+            </>
+         ) : null}
+      </fieldset>
+   );
+}
+
+function ServerRecordingComponent(): React.ReactNode {
+   // Re-renders every tick, recording and replay are not observable
+   useCurrentTick();
+   const forceUpdate = useForceUpdate();
+   const recording = getServerRecording();
+   const replaying = isReplayingServer();
+   return (
+      <fieldset>
+         <legend>Server Recording</legend>
+         <div className="row g5">
+            <div className="f1">
+               {recording
+                  ? `Recording since ${new Date(recording.startedAt).toLocaleTimeString()}, ${recording.messages.length} messages`
+                  : replaying
+                    ? "Replaying a recording"
+                    : "Not recording"}
+            </div>
+            <button
+               disabled={replaying}
+               onClick={() => {
+                  playClick();
+                  if (recording) {
+                     const result = stopServerRecording();
+                     if (result) {
+                        downloadRecording(result);
+                     }
+                  } else {
+                     startServerRecording();
+                  }
+                  forceUpdate();
+               }}
+            >
+               {recording ? "Stop And Download" : "Start"}
+            </button>
+            <button
+               disabled={!!recording}
+               onClick={async () => {
+                  playClick();
+                  if (replaying) {
+                     stopServerReplay();
+                     forceUpdate();
+                     return;
+                  }
+                  try {
+                     const [handle] = await window.showOpenFilePicker();
+                     const file = await handle.getFile();
+                     const data = decode(new Uint8Array(await file.arrayBuffer()));
+                     const error = checkServerRecording(data);
+                     if (error) {
+                        throw new Error(error);
+                     }
+                     startServerReplay(data as IServerRecording);
+                     forceUpdate();
+                  } catch (error) {
+                     playError();
+                     showToast(String(error));
+                  }
+               }}
+            >
+               {replaying ? "Stop Replay" : "Replay"}
+            </button>
+         </div>
+      </fieldset>
+   );
+}
+
+function ProfileStatTable<K extends string>({
+   title,
+   ticks,
+   stats,
+   name,
+}: {
+   title: string;
+   ticks: number;
+   stats: Map<K, IProfileStat>;
+   name?: (key: K) => string;
+}): React.ReactNode {
+   const rows = Array.from(stats).sort(([_a, a], [_b, b]) => b.total - a.total);
+   return (
+      <div className="table-view" style={{ maxHeight: "40vh", overflowY: "auto" }}>
+         <table>
+            <thead>
+               <tr>
+                  <th>{title}</th>
+                  <th className="text-right">Calls/Tick</th>
+                  <th className="text-right">Mean (ms)</th>
+                  <th className="text-right">Recent (ms)</th>
+                  <th className="text-right">Max (ms)</th>
+               </tr>
+            </thead>
+            <tbody>
+               {rows.map(([key, stat]) => (
+                  <tr key={key}>
+                     <td>{name ? name(key) : key}</td>
+                     <td className="text-right">{ticks > 0 ? Math.round(stat.calls / ticks) : "-"}</td>
+                     <td className="text-right">{ticks > 0 ? formatMs(stat.total / ticks) : "-"}</td>
+                     <td className="text-right">
+                        {stat.recent.length > 0
+                           ? formatMs(stat.recent.reduce((prev, curr) => prev + curr, 0) / stat.recent.length)
+                           : "-"}
+                     </td>
+                     <td className="text-right">{formatMs(stat.max)}</td>
+                  </tr>
+               ))}
+            </tbody>
+         </table>
+      </div>
+   );
+}
+
+function formatMs(ms: number): string {
+   return ms.toFixed(3);
+}
+
+function downloadTrace(json: string): void {
+   const link = document.createElement("a");
+   link.href = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+   link.download = `CivIdle-TickProfile-${Date.now()}.json`;
+   link.click();
+   URL.revokeObjectURL(link.href);
+   link.remove();
+}
+
+function downloadRecording(recording: IServerRecording): void {
+   const link = document.createElement("a");
+   link.href = URL.createObjectURL(new Blob([encode(recording)], { type: "application/octet-stream" }));
+   link.download = `CivIdle-ServerRecording-${recording.startedAt}.bin`;
+   link.click();
+   URL.revokeObjectURL(link.href);
+   link.remove();
+}
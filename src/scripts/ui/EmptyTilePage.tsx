@@ -13,6 +13,7 @@ import { getGrid, getTypeBuildings, unlockedBuildings } from "../../../shared/lo
 import { getBuildingUnlockTech } from "../../../shared/logic/TechLogic";
 import type { ITileData } from "../../../shared/logic/Tile";
 import { makeBuilding } from "../../../shared/logic/Tile";
+import { notifyTileChanged } from "../../../shared/logic/Update";
 import {
    anyOf,
    cls,
@@ -69,6 +70,7 @@ export function EmptyTilePage({ tile }: { tile: ITileData }): React.ReactNode {
          }
 
          tile.building = applyBuildingDefaults(makeBuilding({ type: k }), getGameOptions());
+         notifyTileChanged(tile.tile);
          if (!isSpecialBuilding(k) && buildRange > 0) {
             getGrid(gs)
                .getRange(tileToPoint(tile.tile), buildRange)
@@ -77,6 +79,7 @@ export function EmptyTilePage({ tile }: { tile: ITileData }): React.ReactNode {
                   const tileData = gs.tiles.get(xy);
                   if (tileData?.explored && !tileData.building) {
                      tileData.building = applyBuildingDefaults(makeBuilding({ type: k }), getGameOptions());
+                     notifyTileChanged(xy);
                   }
                });
          }
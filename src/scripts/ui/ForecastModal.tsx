@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import type { Building } from "../../../shared/definitions/BuildingDefinitions";
+import { parseBuildingPlan } from "../../../shared/logic/BuildingPlan";
+import { Config } from "../../../shared/logic/Config";
+import { getResourceAmount } from "../../../shared/logic/ResourceLogic";
+import { formatHMS, keysOf, SECOND } from "../../../shared/utilities/Helper";
+import { L, t } from "../../../shared/utilities/i18n";
+import { getSavedBuildingPlans, type ISavedBuildingPlan } from "../logic/BuildingPlanLibrary";
+import type { IForecastResult } from "../../../shared/logic/Forecast";
+import { compareForecast, forecast } from "../logic/Forecast";
+import { playClick, playError } from "../visuals/Sound";
+import { hideModal, showToast } from "./GlobalModal";
+import { FormatNumber } from "./HelperComponents";
+import { ProgressBarComponent } from "./ProgressBarComponent";
+
+const ForecastHours = [1, 4, 8, 12, 24, 48];
+
+interface IForecastColumn {
+   title: string;
+   result: IForecastResult;
+}
+
+export function ForecastModal(): React.ReactNode {
+   const [hours, setHours] = useState(4);
+   const [target, setTarget] = useState<Building | "">("");
+   const [planKey, setPlanKey] = useState("");
+   const [library, setLibrary] = useState<ISavedBuildingPlan[]>([]);
+   const [progress, setProgress] = useState<number | null>(null);
+   const [columns, setColumns] = useState<IForecastColumn[]>([]);
+   useEffect(() => {
+      getSavedBuildingPlans().then(setLibrary).catch(console.error);
+   }, []);
+
+   const run = async () => {
+      const saved = library.find((p) => p.key === planKey);
+      const options = { hours, target: target || undefined };
+      const onProgress = async (p: number) => setProgress(p);
+      setProgress(0);
+      try {
+         if (saved) {
+            const { raw, plan } = parseBuildingPlan(saved.json);
+            if (!plan) {
+               throw new Error(t(L.ForecastPlanCannotRun, { plan: saved.key }));
+            }
+            const { baseline, withPlan } = await compareForecast({ ...options, plan: raw }, onProgress);
+            setColumns([
+               { title: t(L.ForecastInXHours, { hours }), result: baseline },
+               { title: t(L.ForecastWithPlan, { plan: saved.name }), result: withPlan },
+            ]);
+         } else {
+            setColumns([
+               { title: t(L.ForecastInXHours, { hours }), result: await forecast(options, onProgress) },
+            ]);
+         }
+      } catch (err) {
+         playError();
+         showToast(String(err));
+      }
+      setProgress(null);
+   };
+
+   const materials = new Set(columns.flatMap((c) => keysOf(c.result.resources)));
+   const changes = Array.from(materials)
+      .filter((res) => !!Config.Material[res])
+      .map((res) => ({
+         res,
+         now: getResourceAmount(res),
+         after: columns.map((c) => c.result.resources[res] ?? 0),
+      }))
+      .sort((a, b) => Math.abs(b.after[0] - b.now) - Math.abs(a.after[0] - a.now))
+      .slice(0, 15);
+
+   return (
+      <div className="window" style={{ width: "500px" }}>
+         <div className="title-bar">
+            <div className="title-bar-text">{t(L.Forecast)}</div>
+            <div className="title-bar-controls">
+               <button onClick={hideModal} aria-label="Close"></button>
+            </div>
+         </div>
+         <div className="window-body">
+            <div className="text-desc">{t(L.ForecastDesc)}</div>
+            <fieldset>
+               <div className="row">
+                  <div className="f1">{t(L.ForecastHoursAhead)}</div>
+                  <select value={hours} onChange={(e) => setHours(Number.parseInt(e.target.value, 10))}>
+                     {ForecastHours.map((h) => (
+                        <option key={h} value={h}>
+                           {h}
+                        </option>
+                     ))}
+                  </select>
+               </div>
+               <div className="row mt5">
+                  <div className="f1">{t(L.ForecastTimeToAfford)}</div>
+                  <select value={target} onChange={(e) => setTarget(e.target.value as Building | "")}>
+                     <option value="">{t(L.ForecastNone)}</option>
+                     {keysOf(Config.Building)
+                        .sort((a, b) => Config.Building[a].name().localeCompare(Config.Building[b].name()))
+                        .map((b) => (
+                           <option key={b} value={b}>
+                              {Config.Building[b].name()}
+                           </option>
+                        ))}
+                  </select>
+               </div>
+               <div className="row mt5">
+                  <div className="f1">{t(L.ForecastCompareWithPlan)}</div>
+                  <select value={planKey} onChange={(e) => setPlanKey(e.target.value)}>
+                     <option value="">{t(L.ForecastNone)}</option>
+                     {library.map((p) => (
+                        <option key={p.key} value={p.key}>
+                           {p.key}
+                        </option>
+                     ))}
+                  </select>
+               </div>
+            </fieldset>
+            {progress !== null ? (
+               <ProgressBarComponent progress={progress} />
+            ) : (
+               <button
+                  className="w100"
+                  onClick={() => {
+                     playClick();
+                     run();
+                  }}
+               >
+                  {t(L.ForecastRun)}
+               </button>
+            )}
+            {columns.length > 0 ? (
+               <div className="table-view mt10">
+                  <table>
+                     <tbody>
+                        <tr>
+                           <th></th>
+                           <th className="text-right">{t(L.ForecastNow)}</th>
+                           {columns.map((c) => (
+                              <th className="text-right" key={c.title}>
+                                 {c.title}
+                              </th>
+                           ))}
+                        </tr>
+                        <tr>
+                           <td>{t(L.EmpireValue)}</td>
+                           <td className="text-right">
+                              <FormatNumber value={columns[0].result.samples[0]?.empireValue ?? 0} />
+                           </td>
+                           {columns.map((c) => (
+                              <td className="text-right" key={c.title}>
+                                 <FormatNumber
+                                    value={c.result.samples[c.result.samples.length - 1]?.empireValue ?? 0}
+                                 />
+                              </td>
+                           ))}
+                        </tr>
+                        <tr>
+                           <td>{t(L.Science)}</td>
+                           <td className="text-right">
+                              <FormatNumber value={columns[0].result.samples[0]?.science ?? 0} />
+                           </td>
+                           {columns.map((c) => (
+                              <td className="text-right" key={c.title}>
+                                 <FormatNumber
+                                    value={c.result.samples[c.result.samples.length - 1]?.science ?? 0}
+                                 />
+                              </td>
+                           ))}
+                        </tr>
+                        {target ? (
+                           <tr>
+                              <td>{t(L.ForecastAfford, { building: Config.Building[target].name() })}</td>
+                              <td></td>
+                              {columns.map((c) => (
+                                 <td className="text-right" key={c.title}>
+                                    {c.result.affordableAfter === null
+                                       ? t(L.ForecastNotWithinXHours, { hours })
+                                       : formatHMS(c.result.affordableAfter * SECOND)}
+                                 </td>
+                              ))}
+                           </tr>
+                        ) : null}
+                        {changes.map(({ res, now, after }) => (
+                           <tr key={res}>
+                              <td>{Config.Material[res].name()}</td>
+                              <td className="text-right">
+                                 <FormatNumber value={now} />
+                              </td>
+                              {after.map((amount, i) => (
+                                 <td className="text-right" key={i}>
+                                    <FormatNumber value={amount} />
+                                 </td>
+                              ))}
+                           </tr>
+                        ))}
+                     </tbody>
+                  </table>
+               </div>
+            ) : null}
+         </div>
+      </div>
+   );
+}
@@ -10,6 +10,7 @@ import {
    type ExtraTileInfoType,
 } from "../../../shared/logic/GameState";
 import { getGameOptions, notifyGameOptionsUpdate } from "../../../shared/logic/GameStateLogic";
+import type { PlanBudgetStrategy } from "../../../shared/logic/PlanBudget";
 import {
    MAX_ELECTRIFICATION_LEVEL,
    PRIORITY_MAX,
@@ -535,6 +536,50 @@ export function GameplayOptionPage(): React.ReactNode {
                   {t(L.RecoverFromServer)}
                </button>
             </fieldset>
+            <fieldset>
+               <legend>{t(L.BuildScriptBudget)}</legend>
+               <div className="text-desc mb5">{t(L.BuildScriptBudgetDesc)}</div>
+               <select
+                  value={options.buildScriptBudget?.strategy ?? ""}
+                  onChange={(e) => {
+                     const strategy = e.target.value as PlanBudgetStrategy | "";
+                     options.buildScriptBudget = strategy
+                        ? { seconds: options.buildScriptBudget?.seconds ?? 3600, strategy }
+                        : null;
+                     notifyGameOptionsUpdate(options);
+                  }}
+                  className="w100"
+               >
+                  <option value="">{t(L.BuildScriptBudgetOff)}</option>
+                  <option value="stagger">{t(L.BuildScriptBudgetStagger)}</option>
+                  <option value="level">{t(L.BuildScriptBudgetLevel)}</option>
+               </select>
+               {options.buildScriptBudget ? (
+                  <>
+                     <div className="sep10" />
+                     <div className="row mb5">
+                        <div className="f1">{t(L.BuildScriptBudgetTimeLimit)}</div>
+                        <div className="text-strong">
+                           {formatHM(options.buildScriptBudget.seconds * 1000)}
+                        </div>
+                     </div>
+                     <input
+                        type="range"
+                        min={1}
+                        max={48}
+                        step="1"
+                        value={Math.round(options.buildScriptBudget.seconds / 3600)}
+                        onChange={(e) => {
+                           if (options.buildScriptBudget) {
+                              options.buildScriptBudget.seconds =
+                                 clamp(safeParseInt(e.target.value, 1), 1, 48) * 3600;
+                              notifyGameOptionsUpdate(options);
+                           }
+                        }}
+                     />
+                  </>
+               ) : null}
+            </fieldset>
             {sizeOf(options.buildingDefaults) > 0 ? (
                <fieldset>
                   <legend>{t(L.BuildingDefaults)}</legend>
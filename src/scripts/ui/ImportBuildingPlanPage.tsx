@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { formatBuildingPlanIssue, parseBuildingPlan } from "../../../shared/logic/BuildingPlan";
+import { PerformBuildingPlanFromObject } from "../logic/BuildTemplate";
+import {
+   deleteSavedBuildingPlan,
+   getSavedBuildingPlans,
+   saveBuildingPlan,
+   type ISavedBuildingPlan,
+} from "../logic/BuildingPlanLibrary";
+import { isSteam, SteamClient } from "../rpc/SteamClient";
+import { Singleton } from "../utilities/Singleton";
+import { playClick, playError } from "../visuals/Sound";
+import { BuildingPlanPreviewPage } from "./BuildingPlanPreviewPage";
+import { showToast } from "./GlobalModal";
+import { MenuComponent } from "./MenuComponent";
+import { TitleBarComponent } from "./TitleBarComponent";
+
+export function ImportBuildingPlanPage(): React.ReactNode {
+   const [json, setJson] = useState("");
+   const [library, setLibrary] = useState<ISavedBuildingPlan[]>([]);
+   const refreshLibrary = () => {
+      getSavedBuildingPlans()
+         .then(setLibrary)
+         .catch((err) => {
+            playError();
+            showToast(String(err));
+         });
+   };
+   useEffect(refreshLibrary, []);
+
+   const parsed = json.trim().length > 0 ? parseBuildingPlan(json) : null;
+   const plan = parsed?.plan ?? null;
+
+   return (
+      <div className="window">
+         <TitleBarComponent>Import Building Plan</TitleBarComponent>
+         <MenuComponent />
+         <div className="window-body">
+            <div className="text-desc">
+               Paste a plan below or open a plan file. Plans are checked before anything is built, and you get
+               to see a preview first.
+            </div>
+            <fieldset>
+               <legend>Plan</legend>
+               <div className="row">
+                  <button
+                     className="f1"
+                     onClick={async () => {
+                        playClick();
+                        try {
+                           const content = await openPlanFile();
+                           if (content !== null) {
+                              setJson(content);
+                           }
+                        } catch (err) {
+                           playError();
+                           showToast(String(err));
+                        }
+                     }}
+                  >
+                     Open File
+                  </button>
+                  <div style={{ width: "10px" }} />
+                  <button
+                     className="f1"
+                     onClick={async () => {
+                        playClick();
+                        try {
+                           setJson(await navigator.clipboard.readText());
+                        } catch (err) {
+                           playError();
+                           showToast(String(err));
+                        }
+                     }}
+                  >
+                     Paste from Clipboard
+                  </button>
+               </div>
+               <textarea
+                  className="w100 mt5"
+                  rows={10}
+                  spellCheck={false}
+                  style={{ fontFamily: "monospace", resize: "vertical" }}
+                  placeholder='{ "meta": { "name": "..." }, "tasks": [ ... ] }'
+                  value={json}
+                  onChange={(e) => setJson(e.target.value)}
+               />
+               {parsed ? (
+                  <>
+                     <div className={plan ? "text-green" : "text-red"}>
+                        {plan
+                           ? `${plan.meta.name}${plan.meta.author ? ` by ${plan.meta.author}` : ""}: ${plan.tasks.length} tasks`
+                           : "This plan cannot be run"}
+                     </div>
+                     {parsed.issues.map((issue, i) => (
+                        <div
+                           className={`text-small ${issue.severity === "error" ? "text-red" : "text-desc"}`}
+                           key={i}
+                        >
+                           {formatBuildingPlanIssue(issue)}
+                        </div>
+                     ))}
+                  </>
+               ) : null}
+            </fieldset>
+            <div className="row">
+               <button
+                  className="f1"
+                  style={{ fontWeight: "bold" }}
+                  disabled={!plan}
+                  onClick={async () => {
+                     if (!plan || !parsed) return;
+                     playClick();
+                     await previewPlan(plan.meta.name, parsed.raw);
+                  }}
+               >
+                  Preview
+               </button>
+               <div style={{ width: "10px" }} />
+               <button
+                  className="f1"
+                  disabled={!plan}
+                  onClick={async () => {
+                     if (!plan) return;
+                     playClick();
+                     try {
+                        const saved = await saveBuildingPlan(plan.meta, json);
+                        showToast(`${saved.key}: saved to library`);
+                        refreshLibrary();
+                     } catch (err) {
+                        playError();
+                        showToast(String(err));
+                     }
+                  }}
+               >
+                  Save to Library
+               </button>
+            </div>
+            <fieldset className="mt10">
+               <legend>Library ({library.length})</legend>
+               {library.length === 0 ? <div className="text-desc">No saved plans</div> : null}
+               {library.map((saved) => (
+                  <div className="row mv5" key={saved.key}>
+                     <div className="f1">
+                        <div>{saved.name}</div>
+                        <div className="text-desc text-small">
+                           {[saved.author, new Date(saved.savedAt).toLocaleString()]
+                              .filter(Boolean)
+                              .join(", ")}
+                        </div>
+                     </div>
+                     <button
+                        onClick={() => {
+                           playClick();
+                           setJson(saved.json);
+                        }}
+                     >
+                        Load
+                     </button>
+                     <div style={{ width: "5px" }} />
+                     <button
+                        onClick={async () => {
+                           playClick();
+                           const result = parseBuildingPlan(saved.json);
+                           if (!result.plan) {
+                              playError();
+                              setJson(saved.json);
+                              showToast(`${saved.key}: this plan cannot be run`);
+                              return;
+                           }
+                           await previewPlan(result.plan.meta.name, result.raw);
+                        }}
+                     >
+                        Preview
+                     </button>
+                     <div style={{ width: "5px" }} />
+                     <button
+                        onClick={async () => {
+                           playClick();
+                           try {
+                              await deleteSavedBuildingPlan(saved.key);
+                              refreshLibrary();
+                           } catch (error) {
+                              playError();
+                              showToast(String(error));
+                           }
+                        }}
+                     >
+                        Delete
+                     </button>
+                  </div>
+               ))}
+            </fieldset>
+         </div>
+      </div>
+   );
+}
+
+async function previewPlan(name: string, raw: unknown): Promise<void> {
+   try {
+      const preview = await PerformBuildingPlanFromObject(raw, { dryRun: true });
+      Singleton().routeTo(BuildingPlanPreviewPage, { name, plan: raw, preview });
+   } catch (err) {
+      playError();
+      showToast(String(err));
+   }
+}
+
+/**
+ * Electron's file dialog on Steam, the browser file picker everywhere else. Resolves to `null` if the player
+ * cancels.
+ */
+async function openPlanFile(): Promise<string | null> {
+   if (isSteam()) {
+      const file = await SteamClient.openTextFile("Building Plan", ["json"]);
+      return file?.content ?? null;
+   }
+   return await new Promise((resolve) => {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.accept = ".json,application/json";
+      input.onchange = () => {
+         const file = input.files?.[0];
+         resolve(file ? file.text() : null);
+      };
+      input.oncancel = () => resolve(null);
+      input.click();
+   });
+}
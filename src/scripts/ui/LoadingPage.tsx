@@ -1,7 +1,7 @@
 import { useEffect } from "react";
 import { DISCORD_URL } from "../../../shared/logic/Constants";
 import { OnKeydown } from "../../../shared/logic/Shortcut";
-import { formatPercent } from "../../../shared/utilities/Helper";
+import { formatNumber, formatPercent } from "../../../shared/utilities/Helper";
 import "../../css/LoadingPage.css";
 import energyStar from "../../images/energy_star.png";
 import { getFullVersion } from "../logic/Version";
@@ -20,10 +20,16 @@ export function LoadingPage({
    stage,
    onload,
    progress,
+   ticksPerSecond,
+   onCancel,
 }: {
    stage: LoadingPageStage;
    onload?: () => void;
    progress?: number;
+   /** Of offline production */
+   ticksPerSecond?: number;
+   /** Stops offline production, keeping what has been produced so far */
+   onCancel?: () => void;
 }): React.ReactNode {
    useEffect(() => {
       onload?.();
@@ -42,6 +48,9 @@ export function LoadingPage({
       if (e.key === "l") {
          if (isSteam()) SteamClient.openLogFolder();
       }
+      if (e.key === "c") {
+         onCancel?.();
+      }
    });
 
    return (
@@ -84,6 +93,17 @@ export function LoadingPage({
             current={stage}
             progress={progress}
          />
+         {ticksPerSecond ? (
+            <div className="row">
+               <div className="f1">Ticks per Second</div>
+               <div>{formatNumber(ticksPerSecond)}</div>
+            </div>
+         ) : null}
+         {onCancel ? (
+            <div className="row pointer" onClick={onCancel}>
+               <span className="highlight">[C]</span>ancel and keep what has been produced so far
+            </div>
+         ) : null}
          <div className="report-issue">
             Report Issues on <span className="highlight">[D]</span>iscord
             <br />
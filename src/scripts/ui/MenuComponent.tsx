@@ -1,10 +1,16 @@
 import classNames from "classnames";
 import type { PropsWithChildren } from "react";
 import { useEffect, useRef, useState } from "react";
-import type { Building } from "../../../shared/definitions/BuildingDefinitions";
 import { isChristmas, isHalloween } from "../../../shared/definitions/TimedBuildingUnlock";
 import { DISCORD_URL, SUPPORTER_PACK_URL } from "../../../shared/logic/Constants";
-import { getGameOptions, notifyGameOptionsUpdate, watchGameOptions } from "../../../shared/logic/GameStateLogic";
+import {
+   getGameOptions,
+   getGameState,
+   notifyGameOptionsUpdate,
+   notifyGameStateUpdate,
+   watchGameOptions,
+} from "../../../shared/logic/GameStateLogic";
+import { getLastScriptJournal, undoLastScript } from "../../../shared/logic/ScriptJournal";
 import { Tick } from "../../../shared/logic/TickLogic";
 import { isSaveOwner } from "../../../shared/utilities/DatabaseShared";
 import { isNullOrUndefined, sizeOf } from "../../../shared/utilities/Helper";
@@ -20,8 +26,16 @@ import Xmas6 from "../../images/Xmas6.png";
 import Xmas7 from "../../images/Xmas7.png";
 import Xmas8 from "../../images/Xmas8.png";
 import { compressSave, saveGame, useFloatingMode } from "../Global";
+import {
+   clearDaveScriptRun,
+   getDaveScripts,
+   getUnmetRequirements,
+   hasRunThisRebirth,
+   runDaveScript,
+} from "../logic/DaveScriptRegistry";
 import { client, usePlatformInfo, useUser } from "../rpc/RPCClient";
 import { SteamClient, isSteam } from "../rpc/SteamClient";
+import { FlowGraphScene } from "../scenes/FlowGraphScene";
 import { getOwnedTradeTile } from "../scenes/PathFinder";
 import { PlayerMapScene } from "../scenes/PlayerMapScene";
 import { TechTreeScene } from "../scenes/TechTreeScene";
@@ -30,8 +44,12 @@ import { openUrl } from "../utilities/Platform";
 import { Singleton } from "../utilities/Singleton";
 import { playClick, playError } from "../visuals/Sound";
 import { AboutModal } from "./AboutModal";
+import { BuildingPlanPreviewPage } from "./BuildingPlanPreviewPage";
+import { CaptureBuildingPlanPage } from "./CaptureBuildingPlanPage";
+import { ConfirmModal } from "./ConfirmModal";
 import { GameplayOptionPage } from "./GameplayOptionPage";
 import { showModal, showToast } from "./GlobalModal";
+import { ImportBuildingPlanPage } from "./ImportBuildingPlanPage";
 import { ManageAgeWisdomModal } from "./ManageAgeWisdomModal";
 import { ManagePermanentGreatPersonModal } from "./ManagePermanentGreatPersonModal";
 import { ManualAndGuidePage } from "./ManualAndGuidePage";
@@ -150,6 +168,18 @@ export function MenuComponent(): React.ReactNode {
                         {t(L.ResearchMenu)}
                      </MenuItem>
                   </div>
+                  <div
+                     className="menu-popover-item"
+                     onPointerDown={() => {
+                        playClick();
+                        Singleton().sceneManager.loadScene(FlowGraphScene);
+                        setActive(null);
+                     }}
+                  >
+                     <MenuItem check={Singleton().sceneManager.isCurrent(FlowGraphScene)}>
+                        {t(L.ProductionFlowMenu)}
+                     </MenuItem>
+                  </div>
                   {sizeOf(Tick.current.playerTradeBuildings) <= 0 ? null : (
                      <div
                         className="menu-popover-item"
@@ -412,332 +442,75 @@ export function MenuComponent(): React.ReactNode {
                      active: active === "scripts",
                   })}
                >
-                  <div
-                     className="menu-popover-item"
-                     onPointerDown={async () => {
-                        playClick();
-                        setActive(null);
-                        try {
-                           // dynamic import so UI doesn't depend on the scripts module at compile time
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.buildInitialMines === "function") {
-                              const result = await mod.buildInitialMines();
-                              const houses = result.houseResult?.placed ?? 0;
-                              // mark as run for this rebirth
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.BuildInitialMines = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              showToast(
-                                 `BuildInitialMines: Houses ${houses}, Aqueducts ${result.aqueductPlaced}, Quarries ${result.stoneQuarryPlaced}, Logging ${result.loggingCampPlaced}`,
-                              );
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
-                           playError();
-                           showToast(String(err));
-                        }
-                     }}
-                  >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.BuildInitialMines ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"001 - Build Initial Mines"}</MenuItem>
-                  </div>
- 
-                  <div
-                     className="menu-popover-item"
-                     onPointerDown={async () => {
-                        playClick();
-                        setActive(null);
-                        try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.buildApartments === "function") {
-                              const res = await mod.buildApartments();
-                              // mark as run for this rebirth
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.BuildApartments = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              // Present the single-string summary returned by buildApartments
-                              const summary = res?.message ?? 'no summary';
-                              showToast(`BuildApartments: ${summary}`);
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
-                           playError();
-                           showToast(String(err));
-                        }
-                     }}
-                  >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.BuildApartments ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"002 - Build Apartments"}</MenuItem>
-                  </div>
-                  <div
-                     className="menu-popover-item"
-                     onPointerDown={async () => {
-                        playClick();
-                        setActive(null);
-                        try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.buildBigBenMaterials === "function") {
-                              const res = await mod.buildBigBenMaterials();
-                              if (!res.results) {
-                                 showToast(`BuildBigBenMaterials: ${res.message ?? 'no tiles placed'}`);
-                                 return;
+                  {getDaveScripts().map((script) => {
+                     const unmet = getUnmetRequirements(script, getGameState());
+                     return (
+                        <div
+                           key={script.id}
+                           className={classNames({ "menu-popover-item": true, "text-desc": unmet.length > 0 })}
+                           onPointerDown={async () => {
+                              playClick();
+                              setActive(null);
+                              try {
+                                 showToast(await runDaveScript(script));
+                              } catch (err) {
+                                 playError();
+                                 showToast(String(err));
                               }
-                              // mark as run for this rebirth
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.BuildBigBenMaterials = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              const summary = res.results.map((r: { type: Building; requested?: number; placed?: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ");
-                              showToast(`BuildBigBenMaterials: ${summary}`);
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
-                           playError();
-                           showToast(String(err));
-                        }
-                     }}
-                  >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.BuildBigBenMaterials ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"003 - Build Big Ben Materials"}</MenuItem>
-                  </div>
-                  <div
-                     className="menu-popover-item"
-                     onPointerDown={async () => {
-                        playClick();
-                        setActive(null);
-                        try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.prepareCondoMaterials === "function") {
-                              const res = await mod.prepareCondoMaterials();
-                              // mark as run for this rebirth
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.PrepareCondoMaterials = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              const top = res.topPlacement ? res.topPlacement.results.map((r: { type: Building; requested?: number; placed?: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                              const bottom = res.bottomPlacement ? res.bottomPlacement.results.map((r: { type: Building; requested?: number; placed?: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                              showToast(`PrepareCondoMaterials: top: ${top}; cleared ${res.cleared?.cleared ?? 0}; bottom: ${bottom}`);
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
-                           playError();
-                           showToast(String(err));
-                        }
-                     }}
-                  >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.PrepareCondoMaterials ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"004 - Prepare Condo Materials"}</MenuItem>
-                  </div>
-                  {/* 004 was removed to keep the list contiguous */}
-                  <div
-                     className="menu-popover-item"
-                     onPointerDown={async () => {
-                        playClick();
-                        setActive(null);
-                        try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.replaceApartmentsWithCondos === "function") {
-                              const res = await mod.replaceApartmentsWithCondos();
-                              // mark as run for this rebirth
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.ReplaceApartmentsWithCondos = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              showToast(
-                                 `ReplaceApartmentsWithCondos: removed ${res.removedApartments}, placed ${res.placed}/${res.requested}`,
-                              );
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
-                           playError();
-                           showToast(String(err));
-                        }
-                     }}
-                  >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.ReplaceApartmentsWithCondos ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"005 - Replace Apartments with Condos"}</MenuItem>
-                  </div>
-                  <div
-                     className="menu-popover-item"
-                     onPointerDown={async () => {
-                        playClick();
-                        setActive(null);
-                        try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.prepareCnTowerMaterials === "function") {
-                              const res = await mod.prepareCnTowerMaterials();
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.PrepareCnTowerMaterial = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              const top = res.nonElectPlacement ? res.nonElectPlacement.results.map((r: { type: string; requested: number; placed: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                              const bottom = res.electPlacement ? res.electPlacement.results.map((r: { type: string; requested: number; placed: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                              showToast(`PrepareCN: cleared ${res.cleared?.cleared ?? 0}; non-elect: ${top}; elect: ${bottom}`);
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
-                           playError();
-                           showToast(String(err));
-                        }
-                     }}
-                  >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.PrepareCnTowerMaterial ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"006 - Prepare CN Tower Material"}</MenuItem>
-                  </div>
-                  <div
-                     className="menu-popover-item"
-                     onPointerDown={async () => {
-                        playClick();
-                        setActive(null);
-                        try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.prepareAtomiumAndOxUni === "function") {
-                              const res = await mod.prepareAtomiumAndOxUni();
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.PrepareAtomiumAndOxUni = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              const non = res.nonElectPlacement ? res.nonElectPlacement.results.map((r: { type: string; requested: number; placed: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                              const elect = res.electPlacement ? res.electPlacement.results.map((r: { type: string; requested: number; placed: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                              showToast(`PrepareAtomiumAndOxUni: clearedTop ${res.clearedTop?.cleared ?? 0}; clearedBottom ${res.clearedBottom?.cleared ?? 0}; non-elect: ${non}; elect: ${elect}`);
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
-                           playError();
-                           showToast(String(err));
-                        }
-                     }}
-                  >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.PrepareAtomiumAndOxUni ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"007 - Prepare Atomium and Ox Uni"}</MenuItem>
-                  </div>
-                    <div
-                       className="menu-popover-item"
-                       onPointerDown={async () => {
-                          playClick();
-                          setActive(null);
-                          try {
-                             const mod = await import("../logic/davescripts");
-                             if (mod && typeof mod.prepareCloneLabs === "function") {
-                                const res = await mod.prepareCloneLabs();
-                                const opts = getGameOptions();
-                                opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                opts.daveScriptsRun.PrepareCloneLabs = opts.rebirthInfo?.length ?? 0;
-                                notifyGameOptionsUpdate(opts);
-                                const non = res.nonElectPlacement ? res.nonElectPlacement.results.map((r: { type: string; requested: number; placed: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                                const elect = res.electPlacement ? res.electPlacement.results.map((r: { type: string; requested: number; placed: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                                showToast(`PrepareCloneLabs: clearedTop ${res.clearedTop?.cleared ?? 0}; clearedBottom ${res.clearedBottom?.cleared ?? 0}; non-elect: ${non}; elect: ${elect}`);
-                             } else {
-                                showToast("Dave's scripts are not available in this build.");
-                             }
-                          } catch (err) {
-                             playError();
-                             showToast(String(err));
-                          }
-                       }}
-                    >
-                       <MenuItem check={((gameOptions.daveScriptsRun?.PrepareCloneLabs ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"008 - Prepare Clone Labs"}</MenuItem>
-                    </div>
-                   <div
-                      className="menu-popover-item"
-                      onPointerDown={async () => {
-                         playClick();
-                         setActive(null);
-                         try {
-                            const mod = await import("../logic/davescripts");
-                            if (mod && typeof mod.buildCloneLabs === "function") {
-                               const res = await mod.buildCloneLabs();
-                               const opts = getGameOptions();
-                               opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                               opts.daveScriptsRun.BuildCloneLabs = opts.rebirthInfo?.length ?? 0;
-                               notifyGameOptionsUpdate(opts);
-                               showToast(`BuildCloneLabs: removedCondos ${res.removedCondos}; placed ${res.placed}/${res.requested}; remaining ${res.remaining}`);
-                            } else {
-                               showToast("Dave's scripts are not available in this build.");
-                            }
-                         } catch (err) {
-                            playError();
-                            showToast(String(err));
-                         }
-                      }}
-                   >
-                      <MenuItem check={((gameOptions.daveScriptsRun?.BuildCloneLabs ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"009 - Build Clone Labs"}</MenuItem>
-                   </div>
-                 
- 
-                  <div
-                     className="menu-popover-item"
-                     onPointerDown={async () => {
-                        playClick();
-                        setActive(null);
-                        try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.dysonBuildPlan1 === "function") {
-                              const res = await mod.dysonBuildPlan1();
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.DysonPart1 = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              const smallSummary = res.smallRowPlacement ? res.smallRowPlacement.results.map((r: { type: Building; requested?: number; placed?: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                              showToast(`Dyson Part 1 complete: removedCloneLabs; cleared ${res.cleared?.cleared ?? 0}; smallRow: ${smallSummary}`);
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
-                           playError();
-                           showToast(String(err));
-                        }
-                     }}
-                  >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.DysonPart1 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Dyson Part 1"}</MenuItem>
-                  </div>
-
+                           }}
+                        >
+                           <MenuItem check={hasRunThisRebirth(script, gameOptions)}>{script.label}</MenuItem>
+                        </div>
+                     );
+                  })}
                   <div
                      className="menu-popover-item"
-                     onPointerDown={async () => {
+                     onPointerDown={() => {
                         playClick();
                         setActive(null);
-                        try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.dysonBuildPlan2 === "function") {
-                              const res = await mod.dysonBuildPlan2();
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.DysonPart2 = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              const summary = res.placement ? res.placement.results.map((r: { type: Building; requested?: number; placed?: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                              showToast(`Dyson Part 2 complete: placed ${res.placement ? res.placement.results.reduce((a,b)=>a+(b.placed||0),0):0}; ${summary}`);
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
+                        const last = getLastScriptJournal(getGameState());
+                        if (!last) {
                            playError();
-                           showToast(String(err));
+                           showToast("There is no script to undo");
+                           return;
                         }
+                        showModal(
+                           <ConfirmModal
+                              title="Undo last script"
+                              onConfirm={() => {
+                                 try {
+                                    const undone = undoLastScript(getGameState());
+                                    if (undone) {
+                                       clearDaveScriptRun(undone.name);
+                                    }
+                                    notifyGameStateUpdate();
+                                    showToast(`Undone: ${undone?.name} (${undone?.tiles.size ?? 0} tiles restored)`);
+                                 } catch (err) {
+                                    playError();
+                                    showToast(String(err));
+                                 }
+                              }}
+                           >
+                              {`Restore the ${last.tiles.size} tiles changed by "${last.name}"? Upgrades made to those tiles since then are lost.`}
+                           </ConfirmModal>,
+                        );
                      }}
                   >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.DysonPart2 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Dyson Part 2"}</MenuItem>
+                     <MenuItem check={false}>{"Undo last script"}</MenuItem>
                   </div>
 
+                  {/* Building Manager - opens UI modal (dynamic import) */}
                   <div
                      className="menu-popover-item"
                      onPointerDown={async () => {
                         playClick();
                         setActive(null);
                         try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.dysonBuildPlan3 === "function") {
-                              const res = await mod.dysonBuildPlan3();
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.DysonPart3 = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              const summary = res.placement ? res.placement.results.map((r) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                              showToast(`Dyson Part 3 complete: placed ${res.placement ? res.placement.results.reduce((a,b)=>a+(b.placed||0),0):0}; ${summary}`);
+                           const mod = await import("./BuildingManagerModal");
+                           if (mod && typeof mod.BuildingManagerModal === "function") {
+                              showModal(<mod.BuildingManagerModal />);
                            } else {
-                              showToast("Dave's scripts are not available in this build.");
+                              showToast("Building Manager is not available in this build.");
                            }
                         } catch (err) {
                            playError();
@@ -745,400 +518,9 @@ export function MenuComponent(): React.ReactNode {
                         }
                      }}
                   >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.DysonPart3 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Dyson Part 3"}</MenuItem>
+                     <MenuItem check={false}>{"Building Manager"}</MenuItem>
                   </div>
 
-                  <div
-                     className="menu-popover-item"
-                     onPointerDown={async () => {
-                        playClick();
-                        setActive(null);
-                        try {
-                           const mod = await import("../logic/davescripts");
-                           if (mod && typeof mod.dysonBuildPlan4 === "function") {
-                              const res = await mod.dysonBuildPlan4();
-                              const opts = getGameOptions();
-                              opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                              opts.daveScriptsRun.DysonPart4 = opts.rebirthInfo?.length ?? 0;
-                              notifyGameOptionsUpdate(opts);
-                              const summary = (res.leftStripPlacement || []).map((r: { type: Building; requested?: number; placed?: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") || "none";
-                              showToast(`Dyson Part 4 complete: ${summary}`);
-                           } else {
-                              showToast("Dave's scripts are not available in this build.");
-                           }
-                        } catch (err) {
-                           playError();
-                           showToast(String(err));
-                        }
-                     }}
-                  >
-                     <MenuItem check={((gameOptions.daveScriptsRun?.DysonPart4 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Dyson Part 4"}</MenuItem>
-                     </div>
-
-                     {/* Alderson Disc items at the end in order 1..4 */}
-                     <div
-                        className="menu-popover-item"
-                        onPointerDown={async () => {
-                           playClick();
-                           setActive(null);
-                           try {
-                              const mod = await import("../logic/davescripts");
-                              if (mod && typeof mod.aldersonDisc1 === "function") {
-                                 const res = await mod.aldersonDisc1();
-                                 const opts = getGameOptions();
-                                 opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                 opts.daveScriptsRun.AldersonDisc1 = opts.rebirthInfo?.length ?? 0;
-                                 notifyGameOptionsUpdate(opts);
-                                 showToast(`Alderson Disc 1: cleared ${res.cleared?.cleared ?? 0}; preservedWonders ${res.cleared?.preservedWonders ?? 0}; preservedMines ${res.cleared?.preservedMines ?? 0}`);
-                              } else {
-                                 showToast("Dave's scripts are not available in this build.");
-                              }
-                           } catch (err) {
-                              playError();
-                              showToast(String(err));
-                           }
-                        }}
-                     >
-                        <MenuItem check={((gameOptions.daveScriptsRun?.AldersonDisc1 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Alderson Disc 1"}</MenuItem>
-                     </div>
-
-                     <div
-                        className="menu-popover-item"
-                        onPointerDown={async () => {
-                           playClick();
-                           setActive(null);
-                           try {
-                              const mod = await import("../logic/davescripts");
-                              const fn = typeof mod.aldersonDisc2 === "function" ? mod.aldersonDisc2 : null;
-                              if (fn) {
-                                 const res = await fn();
-
-                                 // Define a specific shape for the placement results
-                                 type PlacementResult = { type: string; placed: number; requested: number };
-                                 type AldersonResult = { placement?: { results?: PlacementResult[] } };
-
-                                 // Narrow the result to the expected shape without using `any`
-                                 const typed = res as AldersonResult;
-                                 const results = typed.placement?.results ?? [];
-
-                                 const opts = getGameOptions();
-                                 opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                 opts.daveScriptsRun.AldersonDisc2 = opts.rebirthInfo?.length ?? 0;
-                                 notifyGameOptionsUpdate(opts);
-
-                                 const summary = results.length
-                                   ? results.map(r => `${r.type} ${r.placed}/${r.requested}`).join(", ")
-                                   : "none";
-
-                                 showToast(`Alderson Disc 2 complete: ${summary}`);
-                              } else {
-                                 showToast("Dave's scripts are not available in this build.");
-                              }
-                           } catch (err) {
-                              playError();
-                              showToast(String(err));
-                           }
-                        }}
-                     >
-                        <MenuItem check={((gameOptions.daveScriptsRun?.AldersonDisc2 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Alderson Disc 2"}</MenuItem>
-                     </div>
-
-                     <div
-                        className="menu-popover-item"
-                        onPointerDown={async () => {
-                           playClick();
-                           setActive(null);
-                           try {
-                              const mod = await import("../logic/davescripts");
-                              const fn = typeof mod.aldersonDisc3 === "function" ? mod.aldersonDisc3 : null;
-                              if (fn) {
-                                 const res = await fn();
-                                 const opts = getGameOptions();
-                                 opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                 opts.daveScriptsRun.AldersonDisc3 = opts.rebirthInfo?.length ?? 0;
-                                 notifyGameOptionsUpdate(opts);
-                                 const summary = res.placement ? res.placement.results.map((r: { type: Building; requested?: number; placed?: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                                 showToast(`Alderson Disc 3 complete: ${summary}`);
-                              } else {
-                                 showToast("Dave's scripts are not available in this build.");
-                              }
-                           } catch (err) {
-                              playError();
-                              showToast(String(err));
-                           }
-                        }}
-                     >
-                        <MenuItem check={((gameOptions.daveScriptsRun?.AldersonDisc3 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Alderson Disc 3"}</MenuItem>
-                     </div>
-
-                     <div
-                        className="menu-popover-item"
-                        onPointerDown={async () => {
-                           playClick();
-                           setActive(null);
-                           try {
-                              const mod = await import("../logic/davescripts");
-                              const fn = typeof mod.aldersonDisc4 === "function" ? mod.aldersonDisc4 : null;
-                              if (fn) {
-                                 const res = await fn();
-                                 const opts = getGameOptions();
-                                 opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                 opts.daveScriptsRun.AldersonDisc4 = opts.rebirthInfo?.length ?? 0;
-                                 notifyGameOptionsUpdate(opts);
-                                 const summary = res.leftStripPlacement ? res.leftStripPlacement.map((r) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                                 showToast(`Alderson Disc 4 complete: removed ${res.removed ?? 0}; ${summary}`);
-                              } else {
-                                 showToast("Dave's scripts are not available in this build.");
-                              }
-                           } catch (err) {
-                              playError();
-                              showToast(String(err));
-                           }
-                        }}
-                     >
-                        <MenuItem check={((gameOptions.daveScriptsRun?.AldersonDisc4 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Alderson Disc 4"}</MenuItem>
-                     </div>
-
-                     {/* Large Hadron Collider items 1..4 */}
-                     <div
-                        className="menu-popover-item"
-                        onPointerDown={async () => {
-                           playClick();
-                           setActive(null);
-                           try {
-                              const mod = await import("../logic/davescripts");
-                              const fn = typeof mod.largeHadronCollider1 === "function" ? mod.largeHadronCollider1 : null;
-                              if (fn) {
-                                 const res = await fn();
-                                 const opts = getGameOptions();
-                                 opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                 opts.daveScriptsRun.LargeHadronCollider1 = opts.rebirthInfo?.length ?? 0;
-                                 notifyGameOptionsUpdate(opts);
-                                 const cleared = res.cleared ? `${res.cleared.cleared} cleared` : "none";
-                                 showToast(`LHC 1 complete: removed ${res.removed}; ${cleared}`);
-                              } else {
-                                 showToast("Dave's scripts are not available in this build.");
-                              }
-                           } catch (err) {
-                              playError();
-                              showToast(String(err));
-                           }
-                        }}
-                     >
-                        <MenuItem check={((gameOptions.daveScriptsRun?.LargeHadronCollider1 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Large Hadron Collider 1"}</MenuItem>
-                     </div>
-
-                     <div
-                        className="menu-popover-item"
-                        onPointerDown={async () => {
-                           playClick();
-                           setActive(null);
-                           try {
-                              const mod = await import("../logic/davescripts");
-                              if (mod && typeof mod.largeHadronCollider2 === "function") {
-                                 const res = await mod.largeHadronCollider2();
-                                 const opts = getGameOptions();
-                                 opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                 opts.daveScriptsRun.LargeHadronCollider2 = opts.rebirthInfo?.length ?? 0;
-                                 notifyGameOptionsUpdate(opts);
-                                 const summary = res.placement ? res.placement.results.map((r: { type: Building; requested?: number; placed?: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                                 showToast(`LHC 2 complete: ${summary}`);
-                              } else {
-                                 showToast("Dave's scripts are not available in this build.");
-                              }
-                           } catch (err) {
-                              playError();
-                              showToast(String(err));
-                           }
-                        }}
-                     >
-                        <MenuItem check={((gameOptions.daveScriptsRun?.LargeHadronCollider2 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Large Hadron Collider 2"}</MenuItem>
-                     </div>
-
-                     <div
-                        className="menu-popover-item"
-                        onPointerDown={async () => {
-                           playClick();
-                           setActive(null);
-                           try {
-                              const mod = await import("../logic/davescripts");
-                              if (mod && typeof mod.largeHadronCollider3 === "function") {
-                                 const res = await mod.largeHadronCollider3();
-                                 const opts = getGameOptions();
-                                 opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                 opts.daveScriptsRun.LargeHadronCollider3 = opts.rebirthInfo?.length ?? 0;
-                                 notifyGameOptionsUpdate(opts);
-                                 const summary = res.placement ? res.placement.results.map((r) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                                 showToast(`LHC 3 complete: ${summary}`);
-                              } else {
-                                 showToast("Dave's scripts are not available in this build.");
-                              }
-                           } catch (err) {
-                              playError();
-                              showToast(String(err));
-                           }
-                        }}
-                     >
-                        <MenuItem check={((gameOptions.daveScriptsRun?.LargeHadronCollider3 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Large Hadron Collider 3"}</MenuItem>
-                     </div>
-
-                     <div
-                        className="menu-popover-item"
-                        onPointerDown={async () => {
-                           playClick();
-                           setActive(null);
-                           try {
-                              const mod = await import("../logic/davescripts");
-                              if (mod && typeof mod.largeHadronCollider4 === "function") {
-                                 const res = await mod.largeHadronCollider4();
-                                 const opts = getGameOptions();
-                                 opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                 opts.daveScriptsRun.LargeHadronCollider4 = opts.rebirthInfo?.length ?? 0;
-                                 notifyGameOptionsUpdate(opts);
-                                 const summary = res.leftStripPlacement ? res.leftStripPlacement.map((r: { type: Building; requested?: number; placed?: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ") : "none";
-                                 showToast(`LHC 4 complete: removed ${res.removed ?? 0}; ${summary}`);
-                              } else {
-                                 showToast("Dave's scripts are not available in this build.");
-                              }
-                           } catch (err) {
-                              playError();
-                              showToast(String(err));
-                           }
-                        }}
-                     >
-                        <MenuItem check={((gameOptions.daveScriptsRun?.LargeHadronCollider4 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Large Hadron Collider 4"}</MenuItem>
-                     </div>
-
-                        {/* Build Space Center 1..4 */}
-                        <div
-                           className="menu-popover-item"
-                           onPointerDown={async () => {
-                              playClick();
-                              setActive(null);
-                              try {
-                                 const mod = await import("../logic/davescripts");
-                                 if (mod && typeof mod.buildSpaceCenter1 === "function") {
-                                    const res = await mod.buildSpaceCenter1();
-                                    const opts = getGameOptions();
-                                    opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                    opts.daveScriptsRun.BuildSpaceCenter1 = opts.rebirthInfo?.length ?? 0;
-                                    notifyGameOptionsUpdate(opts);
-                                    const cleared = res.cleared ? `${res.cleared.cleared} cleared` : "none";
-                                    showToast(`Build Space Center 1 complete: removed ${res.removed}; ${cleared}`);
-                                 } else {
-                                    showToast("Dave's scripts are not available in this build.");
-                                 }
-                              } catch (err) {
-                                 playError();
-                                 showToast(String(err));
-                              }
-                           }}
-                        >
-                           <MenuItem check={((gameOptions.daveScriptsRun?.BuildSpaceCenter1 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Build Space Center 1"}</MenuItem>
-                        </div>
-
-                       {/* experimental SC items removed */}
-
-                        <div
-                           className="menu-popover-item"
-                           onPointerDown={async () => {
-                              playClick();
-                              setActive(null);
-                              try {
-                                 const mod = await import("../logic/davescripts");
-                                 if (mod && typeof mod.buildSpaceCenter2 === "function") {
-                                    const res = await mod.buildSpaceCenter2();
-                                    const opts = getGameOptions();
-                                    opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                    opts.daveScriptsRun.BuildSpaceCenter2 = opts.rebirthInfo?.length ?? 0;
-                                    notifyGameOptionsUpdate(opts);
-                                    showToast(`Build Space Center 2: ${res.message ?? "complete"}`);
-                                 } else {
-                                    showToast("Dave's scripts are not available in this build.");
-                                 }
-                              } catch (err) {
-                                 playError();
-                                 showToast(String(err));
-                              }
-                           }}
-                        >
-                           <MenuItem check={((gameOptions.daveScriptsRun?.BuildSpaceCenter2 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Build Space Center 2"}</MenuItem>
-                        </div>
-
-                        <div
-                           className="menu-popover-item"
-                           onPointerDown={async () => {
-                              playClick();
-                              setActive(null);
-                              try {
-                                 const mod = await import("../logic/davescripts");
-                                 if (mod && typeof mod.buildSpaceCenter3 === "function") {
-                                    const res = await mod.buildSpaceCenter3();
-                                    const opts = getGameOptions();
-                                    opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                    opts.daveScriptsRun.BuildSpaceCenter3 = opts.rebirthInfo?.length ?? 0;
-                                    notifyGameOptionsUpdate(opts);
-                                    showToast(`Build Space Center 3: ${res.message ?? "complete"}`);
-                                 } else {
-                                    showToast("Dave's scripts are not available in this build.");
-                                 }
-                              } catch (err) {
-                                 playError();
-                                 showToast(String(err));
-                              }
-                           }}
-                        >
-                           <MenuItem check={((gameOptions.daveScriptsRun?.BuildSpaceCenter3 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Build Space Center 3"}</MenuItem>
-                        </div>
-
-                        <div
-                           className="menu-popover-item"
-                           onPointerDown={async () => {
-                              playClick();
-                              setActive(null);
-                              try {
-                                 const mod = await import("../logic/davescripts");
-                                 if (mod && typeof mod.buildSpaceCenter4 === "function") {
-                                    const res = await mod.buildSpaceCenter4();
-                                    const opts = getGameOptions();
-                                    opts.daveScriptsRun = opts.daveScriptsRun ?? {};
-                                    opts.daveScriptsRun.BuildSpaceCenter4 = opts.rebirthInfo?.length ?? 0;
-                                    notifyGameOptionsUpdate(opts);
-                                    showToast(`Build Space Center 4: ${res.message ?? "complete"}`);
-                                 } else {
-                                    showToast("Dave's scripts are not available in this build.");
-                                 }
-                              } catch (err) {
-                                 playError();
-                                 showToast(String(err));
-                              }
-                           }}
-                        >
-                           <MenuItem check={((gameOptions.daveScriptsRun?.BuildSpaceCenter4 ?? -1) === (gameOptions.rebirthInfo?.length ?? 0))}>{"Build Space Center 4"}</MenuItem>
-                        </div>
-
-                        {/* Building Manager - opens UI modal (dynamic import) */}
-                        <div
-                           className="menu-popover-item"
-                           onPointerDown={async () => {
-                              playClick();
-                              setActive(null);
-                              try {
-                                 const mod = await import("./BuildingManagerModal");
-                                 if (mod && typeof mod.BuildingManagerModal === "function") {
-                                    showModal(<mod.BuildingManagerModal />);
-                                 } else {
-                                    showToast("Building Manager is not available in this build.");
-                                 }
-                              } catch (err) {
-                                 playError();
-                                 showToast(String(err));
-                              }
-                           }}
-                        >
-                           <MenuItem check={false}>{"Building Manager"}</MenuItem>
-                        </div>
-
                   </div>
                </div>
             <div
@@ -1164,6 +546,26 @@ export function MenuComponent(): React.ReactNode {
                      active: active === "templates",
                   })}
                >
+                  <div
+                     className="menu-popover-item"
+                     onPointerDown={() => {
+                        playClick();
+                        setActive(null);
+                        Singleton().routeTo(CaptureBuildingPlanPage, {});
+                     }}
+                  >
+                     <MenuItem check={false}>{"Capture City Layout"}</MenuItem>
+                  </div>
+                  <div
+                     className="menu-popover-item"
+                     onPointerDown={() => {
+                        playClick();
+                        setActive(null);
+                        Singleton().routeTo(ImportBuildingPlanPage, {});
+                     }}
+                  >
+                     <MenuItem check={false}>{"Import Building Plan"}</MenuItem>
+                  </div>
                   {/* Load templates via Vite glob (eager) so we can show meta names */}
                   {(() => {
                      try {
@@ -1196,9 +598,9 @@ export function MenuComponent(): React.ReactNode {
                                     const planObj = mod?.default ? (mod.default as unknown) : (mod as unknown);
                                     const bt = await import("../logic/BuildTemplate");
                                     if (bt && typeof bt.PerformBuildingPlanFromObject === 'function') {
-                                       const res = await bt.PerformBuildingPlanFromObject(planObj, { intervalMs: 0 });
-                                       const summary = res.results.map((r: { type: string; requested: number; placed: number }) => `${r.type} ${r.placed}/${r.requested}`).join(", ");
-                                       showToast(`${e.meta.name}: ${summary}`);
+                                       // Dry run first; the preview page asks for confirmation before building
+                                       const preview = await bt.PerformBuildingPlanFromObject(planObj, { dryRun: true });
+                                       Singleton().routeTo(BuildingPlanPreviewPage, { name: e.meta.name, plan: planObj, preview });
                                     } else {
                                        showToast('BuildTemplate runner not available');
                                     }
@@ -10,19 +10,12 @@ import { UserAttributes, UserColorsMapping } from "../../../shared/utilities/Dat
 import { formatPercent, hasFlag, safeParseInt } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
 import { AccountLevelNames } from "../logic/AccountLevel";
-import {
-   OnTileBuildingsChanged,
-   TileBuildings,
-   client,
-   isAllyWith,
-   usePlayerMap,
-   useUser,
-} from "../rpc/RPCClient";
+import { queueAction } from "../logic/Outbox";
+import { OnTileBuildingsChanged, TileBuildings, isAllyWith, usePlayerMap, useUser } from "../rpc/RPCClient";
 import { getNeighboringPlayers } from "../scenes/PathFinder";
 import { getCountryName } from "../utilities/CountryCode";
 import { jsxMMapOf } from "../utilities/Helper";
 import { refreshOnTypedEvent } from "../utilities/Hook";
-import { showToast } from "./GlobalModal";
 import { MapTileBonusComponent } from "./MapTileBonusComponent";
 import { MenuComponent } from "./MenuComponent";
 import { PlayerHandleComponent } from "./PlayerHandleComponent";
@@ -67,12 +60,8 @@ export function MyTilePage({ xy }: { xy: string }): React.ReactNode {
                <button
                   className="w100 row jcc"
                   disabled={tariffRate === playerMap.get(xy)?.tariffRate}
-                  onClick={async () => {
-                     try {
-                        await client.setTariffRate(tariffRate);
-                     } catch (error) {
-                        showToast(String(error));
-                     }
+                  onClick={() => {
+                     queueAction("setTariffRate", tariffRate);
                   }}
                >
                   <div className="m-icon small mr5">cached</div>
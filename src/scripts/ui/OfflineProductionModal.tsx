@@ -1,34 +1,58 @@
 import classNames from "classnames";
+import { useState } from "react";
 import type { Material } from "../../../shared/definitions/MaterialDefinitions";
 import { Config } from "../../../shared/logic/Config";
 import { MAX_OFFLINE_PRODUCTION_SEC } from "../../../shared/logic/Constants";
-import type { GameState } from "../../../shared/logic/GameState";
-import { forEach, formatHM, formatHMS, isEmpty, SECOND } from "../../../shared/utilities/Helper";
+import type { IOfflineReport } from "../../../shared/logic/OfflineReport";
+import type { NotProducingReason } from "../../../shared/logic/TickLogic";
+import { formatHM, formatHMS, isEmpty, SECOND } from "../../../shared/utilities/Helper";
 import type { PartialTabulate } from "../../../shared/utilities/TypeDefinitions";
 import { L, t } from "../../../shared/utilities/i18n";
 import { useGameOptions } from "../Global";
-import { jsxMapOf, jsxMMapOf } from "../utilities/Helper";
+import { LookAtMode, WorldScene } from "../scenes/WorldScene";
+import { jsxMapOf } from "../utilities/Helper";
+import { Singleton } from "../utilities/Singleton";
+import { playClick } from "../visuals/Sound";
+import { ReasonLabels } from "./BottleneckPage";
 import { hideModal } from "./GlobalModal";
 import { FormatNumber } from "./HelperComponents";
 import { RenderHTML } from "./RenderHTMLComponent";
 import { WarningComponent } from "./WarningComponent";
 
-export function OfflineProductionModal({
-   before,
-   after,
-   offlineProductionTime,
-   totalOfflineTime,
-   warpFull,
-}: {
-   before: GameState;
-   after: GameState;
-   offlineProductionTime: number;
-   totalOfflineTime: number;
-   warpFull: boolean;
-}): React.ReactNode {
+type OfflineReportTab = "tiles" | "resources" | "buildings" | "stalled" | "progress";
+
+const TabLabels: Record<OfflineReportTab, () => string> = {
+   tiles: () => t(L.OfflineReportTabTiles),
+   resources: () => t(L.OfflineReportTabResources),
+   buildings: () => t(L.OfflineReportTabBuildings),
+   stalled: () => t(L.OfflineReportTabStalled),
+   progress: () => t(L.OfflineReportTabProgress),
+};
+
+/**
+ * Shows the first of `reports`, the others can be picked from a list. Pass the reports newest first
+ */
+export function OfflineProductionModal({ reports }: { reports: IOfflineReport[] }): React.ReactNode {
    const options = useGameOptions();
+   const [index, setIndex] = useState(0);
+   const [tab, setTab] = useState<OfflineReportTab>("tiles");
+   const report = reports[index];
+   let content: React.ReactNode = null;
+   if (!report) {
+      content = <div className="text-desc">{t(L.OfflineReportNone)}</div>;
+   } else if (tab === "tiles") {
+      content = <TilesTab report={report} />;
+   } else if (tab === "resources") {
+      content = <ResourcesTab report={report} />;
+   } else if (tab === "buildings") {
+      content = <BuildingsTab report={report} />;
+   } else if (tab === "stalled") {
+      content = <StalledTab report={report} />;
+   } else if (tab === "progress") {
+      content = <ProgressTab report={report} />;
+   }
    return (
-      <div className="window" style={{ width: "500px" }}>
+      <div className="window" style={{ width: "650px" }}>
          <div className="title-bar">
             <div className="title-bar-text">{t(L.OfflineProduction)}</div>
             <div className="title-bar-controls">
@@ -36,93 +60,315 @@ export function OfflineProductionModal({
             </div>
          </div>
          <div className="window-body">
-            {warpFull ? (
+            {reports.length > 1 ? (
+               <select
+                  className="w100 mb10"
+                  value={index}
+                  onChange={(e) => setIndex(Number.parseInt(e.target.value, 10))}
+               >
+                  {reports.map((r, i) => (
+                     <option key={r.endedAt} value={i}>
+                        {new Date(r.endedAt).toLocaleString()} ({formatHMS(r.offlineProductionTime * SECOND)})
+                     </option>
+                  ))}
+               </select>
+            ) : null}
+            {report?.warpFull ? (
                <WarningComponent icon="info" className="mb10">
                   <RenderHTML html={t(L.WarpStorageFullHTML)} />
                </WarningComponent>
             ) : null}
-            <ul className="tree-view">
-               <li className="row">
-                  <div className="f1">{t(L.TotalOfflineTime)}</div>
-                  <div className="text-strong">{formatHMS(totalOfflineTime * SECOND)}</div>
-               </li>
-               <li className="row">
-                  <div className="f1">
-                     {t(L.OfflineProductionTime)}{" "}
-                     <div className="text-small text-desc">
-                        {t(L.MaxOfflineProductionTimeDesc, {
-                           time: formatHM(
-                              (options.offlineProductionPercent ?? 0) * MAX_OFFLINE_PRODUCTION_SEC,
-                           ),
-                        })}
+            {report ? (
+               <ul className="tree-view">
+                  <li className="row">
+                     <div className="f1">{t(L.TotalOfflineTime)}</div>
+                     <div className="text-strong">{formatHMS(report.totalOfflineTime * SECOND)}</div>
+                  </li>
+                  <li className="row">
+                     <div className="f1">
+                        {t(L.OfflineProductionTime)}{" "}
+                        <div className="text-small text-desc">
+                           {t(L.MaxOfflineProductionTimeDesc, {
+                              time: formatHM(
+                                 (options.offlineProductionPercent ?? 0) * MAX_OFFLINE_PRODUCTION_SEC,
+                              ),
+                           })}
+                        </div>
                      </div>
-                  </div>
-                  <div className="text-strong">{formatHMS(offlineProductionTime * SECOND)}</div>
-               </li>
-            </ul>
+                     <div className="text-strong">{formatHMS(report.offlineProductionTime * SECOND)}</div>
+                  </li>
+                  {report.ticksPerSecond > 0 ? (
+                     <li className="row">
+                        <div className="f1">{t(L.OfflineReportTicksPerSecond)}</div>
+                        <div className="text-strong">
+                           <FormatNumber value={report.ticksPerSecond} />
+                        </div>
+                     </li>
+                  ) : null}
+               </ul>
+            ) : null}
             <div className="sep10"></div>
-            <div className="table-view" style={{ maxHeight: "40vh", overflowY: "auto" }}>
-               <table>
-                  <tbody>
-                     <tr>
-                        <th>{t(L.BuildingName)}</th>
-                        <th>{t(L.Level)}</th>
-                        <th></th>
-                     </tr>
-                     {jsxMMapOf(after.tiles, (xy, tile) => {
-                        const building = tile.building;
-                        if (!building) {
-                           return null;
-                        }
-                        const diff: PartialTabulate<Material> = {};
-                        forEach(building.resources, (res, amount) => {
-                           const beforeAmount = before.tiles.get(xy)?.building?.resources[res] ?? 0;
-                           if (Math.abs(amount - beforeAmount) > 1) {
-                              diff[res] = amount - beforeAmount;
-                           }
-                        });
-                        const beforeLevel = before.tiles.get(xy)?.building?.level ?? 0;
-                        if (isEmpty(diff) && beforeLevel === building.level) {
-                           return null;
-                        }
-                        return (
-                           <tr key={xy}>
-                              <td>{Config.Building[building.type].name()}</td>
-                              <td>
-                                 {beforeLevel === building.level ? (
-                                    building.level
-                                 ) : (
-                                    <span className="text-green text-strong">
-                                       {beforeLevel}-&gt;{building.level}
-                                    </span>
-                                 )}
-                              </td>
-                              <td>
-                                 {jsxMapOf(diff, (res, amount) => {
-                                    return (
-                                       <span key={res} className="mr10">
-                                          {Config.Material[res].name()}:
-                                          <span
-                                             className={classNames({
-                                                "text-red": amount < 0,
-                                                "text-green": amount > 0,
-                                                "text-strong": true,
-                                             })}
-                                          >
-                                             {amount > 0 ? " +" : " "}
-                                             <FormatNumber value={amount} />
-                                          </span>
-                                       </span>
-                                    );
-                                 })}
-                              </td>
-                           </tr>
-                        );
-                     })}
-                  </tbody>
-               </table>
+            <menu role="tablist">
+               {(Object.keys(TabLabels) as OfflineReportTab[]).map((k) => (
+                  <button key={k} onClick={() => setTab(k)} aria-selected={tab === k}>
+                     {TabLabels[k]()}
+                  </button>
+               ))}
+            </menu>
+            <div className="window">
+               <div className="window-body" style={{ maxHeight: "40vh", overflowY: "auto" }}>
+                  {content}
+               </div>
             </div>
          </div>
       </div>
    );
 }
+
+function TilesTab({ report }: { report: IOfflineReport }): React.ReactNode {
+   const tiles = report.tiles.filter(
+      (tile) => tile.levelBefore !== tile.levelAfter || !isEmpty(tile.resources),
+   );
+   if (tiles.length === 0) {
+      return <div className="text-desc">{t(L.OfflineReportNoBuildingChanged)}</div>;
+   }
+   return (
+      <div className="table-view">
+         <table>
+            <tbody>
+               <tr>
+                  <th>{t(L.BuildingName)}</th>
+                  <th>{t(L.Level)}</th>
+                  <th></th>
+               </tr>
+               {tiles.map((tile) => (
+                  <tr key={tile.xy}>
+                     <td>
+                        {Config.Building[tile.building].name()}
+                        {tile.completed ? (
+                           <div className="text-desc text-small">{t(L.OfflineReportCompleted)}</div>
+                        ) : null}
+                     </td>
+                     <td>
+                        {tile.levelBefore === tile.levelAfter ? (
+                           tile.levelAfter
+                        ) : (
+                           <span className="text-green text-strong">
+                              {tile.levelBefore}-&gt;{tile.levelAfter}
+                           </span>
+                        )}
+                     </td>
+                     <td>
+                        <ResourceChanges resources={tile.resources} />
+                     </td>
+                  </tr>
+               ))}
+            </tbody>
+         </table>
+      </div>
+   );
+}
+
+function ResourcesTab({ report }: { report: IOfflineReport }): React.ReactNode {
+   if (report.resources.length === 0) {
+      return <div className="text-desc">{t(L.OfflineReportNoResourceChanged)}</div>;
+   }
+   const resources = report.resources
+      .slice()
+      .sort((a, b) => Config.Material[a.res].name().localeCompare(Config.Material[b.res].name()));
+   return (
+      <div className="table-view">
+         <table>
+            <tbody>
+               <tr>
+                  <th>{t(L.OfflineReportResource)}</th>
+                  <th className="right">{t(L.OfflineReportProduced)}</th>
+                  <th className="right">{t(L.OfflineReportConsumed)}</th>
+                  <th className="right">{t(L.OfflineReportBefore)}</th>
+                  <th className="right">{t(L.OfflineReportAfter)}</th>
+               </tr>
+               {resources.map((r) => (
+                  <tr key={r.res}>
+                     <td>{Config.Material[r.res].name()}</td>
+                     <td className="right">
+                        <FormatNumber value={r.produced} />
+                     </td>
+                     <td className="right">
+                        <FormatNumber value={r.consumed} />
+                     </td>
+                     <td className="right">
+                        <FormatNumber value={r.before} />
+                     </td>
+                     <td
+                        className={classNames({
+                           right: true,
+                           "text-red": r.after < r.before,
+                           "text-green": r.after > r.before,
+                        })}
+                     >
+                        <FormatNumber value={r.after} />
+                     </td>
+                  </tr>
+               ))}
+            </tbody>
+         </table>
+      </div>
+   );
+}
+
+function BuildingsTab({ report }: { report: IOfflineReport }): React.ReactNode {
+   if (report.buildings.length === 0) {
+      return <div className="text-desc">{t(L.OfflineReportNoBuildingChanged)}</div>;
+   }
+   const buildings = report.buildings
+      .slice()
+      .sort((a, b) => Config.Building[a.building].name().localeCompare(Config.Building[b.building].name()));
+   return (
+      <div className="table-view">
+         <table>
+            <tbody>
+               <tr>
+                  <th>{t(L.BuildingName)}</th>
+                  <th className="right">{t(L.OfflineReportCount)}</th>
+                  <th className="right">{t(L.OfflineReportCompleted)}</th>
+                  <th className="right">{t(L.OfflineReportLevels)}</th>
+                  <th className="right">{t(L.OfflineReportWorking)}</th>
+                  <th></th>
+               </tr>
+               {buildings.map((b) => {
+                  const ticks = b.workingTicks + b.stalledTicks;
+                  return (
+                     <tr key={b.building}>
+                        <td>{Config.Building[b.building].name()}</td>
+                        <td className="right">
+                           {b.countBefore === b.countAfter
+                              ? b.countAfter
+                              : `${b.countBefore}->${b.countAfter}`}
+                        </td>
+                        <td className="right">{b.completed}</td>
+                        <td className="right">{b.levelsGained > 0 ? `+${b.levelsGained}` : 0}</td>
+                        <td
+                           className={classNames({
+                              right: true,
+                              "text-red": b.stalledTicks > b.workingTicks,
+                           })}
+                        >
+                           {ticks > 0 ? `${Math.round((100 * b.workingTicks) / ticks)}%` : "-"}
+                        </td>
+                        <td>
+                           <div className="text-small">
+                              <ResourceChanges resources={b.produced} />
+                           </div>
+                           <div className="text-small">
+                              <ResourceChanges resources={b.consumed} negative />
+                           </div>
+                        </td>
+                     </tr>
+                  );
+               })}
+            </tbody>
+         </table>
+      </div>
+   );
+}
+
+function StalledTab({ report }: { report: IOfflineReport }): React.ReactNode {
+   const tiles = report.tiles.filter((tile) => !isEmpty(tile.stalled));
+   if (tiles.length === 0) {
+      return <div className="text-desc">{t(L.OfflineReportNoBuildingStalled)}</div>;
+   }
+   return (
+      <div className="table-view">
+         <table>
+            <tbody>
+               <tr>
+                  <th>{t(L.BuildingName)}</th>
+                  <th>{t(L.OfflineReportReason)}</th>
+                  <th></th>
+               </tr>
+               {tiles.map((tile) => (
+                  <tr key={tile.xy}>
+                     <td>{Config.Building[tile.building].name()}</td>
+                     <td>
+                        {jsxMapOf(tile.stalled, (reason, ticks) => (
+                           <div key={reason}>
+                              {ReasonLabels[Number(reason) as NotProducingReason]()}:{" "}
+                              {formatHMS(ticks * SECOND)}
+                           </div>
+                        ))}
+                     </td>
+                     <td>
+                        <button
+                           onClick={() => {
+                              playClick();
+                              hideModal();
+                              Singleton()
+                                 .sceneManager.loadScene(WorldScene)
+                                 .lookAtTile(tile.xy, LookAtMode.Highlight);
+                           }}
+                        >
+                           {t(L.OfflineReportLocate)}
+                        </button>
+                     </td>
+                  </tr>
+               ))}
+            </tbody>
+         </table>
+      </div>
+   );
+}
+
+function ProgressTab({ report }: { report: IOfflineReport }): React.ReactNode {
+   return (
+      <>
+         <fieldset>
+            <legend>{t(L.OfflineReportTechnologies)}</legend>
+            {report.techs.length === 0 ? (
+               <div className="text-desc">{t(L.OfflineReportNoTechnology)}</div>
+            ) : null}
+            {report.techs.map((tech) => (
+               <div key={tech}>{Config.Tech[tech].name()}</div>
+            ))}
+         </fieldset>
+         <fieldset>
+            <legend>{t(L.GreatPeople)}</legend>
+            {jsxMapOf(
+               report.greatPeople,
+               (person, levels) => (
+                  <div className="row" key={person}>
+                     <div className="f1">{Config.GreatPerson[person].name()}</div>
+                     <div className="text-green text-strong">+{levels}</div>
+                  </div>
+               ),
+               () => (
+                  <div className="text-desc">{t(L.OfflineReportNoGreatPeople)}</div>
+               ),
+            )}
+         </fieldset>
+      </>
+   );
+}
+
+function ResourceChanges({
+   resources,
+   negative,
+}: { resources: PartialTabulate<Material>; negative?: boolean }): React.ReactNode {
+   return jsxMapOf(resources, (res, amount) => {
+      const value = negative ? -amount : amount;
+      return (
+         <span key={res} className="mr10">
+            {Config.Material[res].name()}:
+            <span
+               className={classNames({
+                  "text-red": value < 0,
+                  "text-green": value > 0,
+                  "text-strong": true,
+               })}
+            >
+               {value > 0 ? " +" : " "}
+               <FormatNumber value={value} />
+            </span>
+         </span>
+      );
+   });
+}
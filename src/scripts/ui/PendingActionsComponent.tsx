@@ -0,0 +1,94 @@
+import classNames from "classnames";
+import { Config } from "../../../shared/logic/Config";
+import { formatNumber, formatPercent } from "../../../shared/utilities/Helper";
+import type { IOutboxAction, OutboxStatus } from "../../../shared/utilities/Outbox";
+import { L, t } from "../../../shared/utilities/i18n";
+import { dismissAction, isDismissible, useOutbox } from "../logic/Outbox";
+import { playClick } from "../visuals/Sound";
+import { RenderHTML } from "./RenderHTMLComponent";
+import { WarningComponent } from "./WarningComponent";
+
+/**
+ * Actions that wait for the connection, that the server has rejected, or whose answer could not be read. Hidden
+ * when there is none
+ */
+export function PendingActionsComponent(): React.ReactNode {
+   const actions = useOutbox();
+   if (actions.length === 0) {
+      return null;
+   }
+   return (
+      <fieldset>
+         <legend>{t(L.PendingActions)}</legend>
+         <WarningComponent icon="info" className="mb10 text-small">
+            <RenderHTML html={t(L.PendingActionsDescHTML)} />
+         </WarningComponent>
+         <div className="table-view">
+            <table>
+               <tbody>
+                  {actions.map((action) => (
+                     <tr key={action.key}>
+                        <td>
+                           <div>{describeAction(action)}</div>
+                           {action.error ? <div className="text-small text-red">{action.error}</div> : null}
+                        </td>
+                        <td
+                           className={classNames({
+                              "text-right": true,
+                              "text-red": action.status === "rejected" || action.status === "unconfirmed",
+                              "text-desc": action.status === "pending",
+                           })}
+                        >
+                           {StatusNames[action.status]()}
+                        </td>
+                        <td style={{ width: 0 }}>
+                           {isDismissible(action) ? (
+                              <div
+                                 className="m-icon small text-link"
+                                 aria-label={t(L.PendingActionDismiss)}
+                                 onClick={() => {
+                                    playClick();
+                                    dismissAction(action.key);
+                                 }}
+                              >
+                                 close
+                              </div>
+                           ) : null}
+                        </td>
+                     </tr>
+                  ))}
+               </tbody>
+            </table>
+         </div>
+      </fieldset>
+   );
+}
+
+const StatusNames: Record<OutboxStatus, () => string> = {
+   pending: () => t(L.PendingActionStatusPending),
+   sending: () => t(L.PendingActionStatusSending),
+   rejected: () => t(L.PendingActionStatusRejected),
+   unconfirmed: () => t(L.PendingActionStatusUnconfirmed),
+};
+
+function describeAction(action: IOutboxAction): string {
+   switch (action.method) {
+      case "addTrade": {
+         const trade = (action as IOutboxAction<"addTrade">).param;
+         return `${t(L.PlayerTradePlaceTrade)}: ${formatNumber(trade.sellAmount)} ${Config.Material[
+            trade.sellResource
+         ].name()} → ${formatNumber(trade.buyAmount)} ${Config.Material[trade.buyResource].name()}`;
+      }
+      case "cancelTrade":
+         return t(L.PlayerTradeCancelTrade);
+      case "claimTradesV2":
+         return t(L.PlayerTradeClaimAll);
+      case "setTariffRate":
+         return t(L.PendingActionSetTariffRate, {
+            rate: formatPercent((action as IOutboxAction<"setTariffRate">).param),
+         });
+      case "voteBoosts":
+      case "voteTradeTileBonus":
+         return t(L.PendingActionVote);
+   }
+}
@@ -3,73 +3,36 @@ import { TableVirtuoso } from "react-virtuoso";
 import type { Material } from "../../../shared/definitions/MaterialDefinitions";
 import { Config } from "../../../shared/logic/Config";
 import type { GameState } from "../../../shared/logic/GameState";
-import { addResourceTo, getAvailableStorage } from "../../../shared/logic/ResourceLogic";
+import { getAvailableStorage } from "../../../shared/logic/ResourceLogic";
 import { Tick } from "../../../shared/logic/TickLogic";
 import { PendingClaimFlag, type IPendingClaim } from "../../../shared/utilities/Database";
-import {
-   clamp,
-   forEach,
-   formatNumber,
-   hasFlag,
-   mapOf,
-   safeAdd,
-   sizeOf,
-} from "../../../shared/utilities/Helper";
+import { clamp, hasFlag } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
-import { PendingClaims, PendingClaimUpdated, RequestPendingClaimUpdate } from "../logic/PendingClaim";
-import { client } from "../rpc/RPCClient";
+import { queueAction } from "../logic/Outbox";
+import { PendingClaims, PendingClaimUpdated } from "../logic/PendingClaim";
 import { refreshOnTypedEvent } from "../utilities/Hook";
-import { playError, playKaching } from "../visuals/Sound";
+import { playError } from "../visuals/Sound";
 import { FixedLengthText } from "./FixedLengthText";
-import { showToast } from "./GlobalModal";
 import { FormatNumber } from "./HelperComponents";
 
 export function PendingClaimComponent({ gameState }: { gameState: GameState }) {
    refreshOnTypedEvent(PendingClaimUpdated);
    const pendingClaims = PendingClaims.filter((trade) => trade.resource in Config.Material);
-   const claimTrades = async (trades: IPendingClaim[]) => {
-      try {
-         const tiles = Array.from(Tick.current.playerTradeBuildings.keys());
-         const storageAvailable = getAvailableStorage(tiles, gameState);
-         const toClaim: Record<string, number> = {};
-         let storageUsed = 0;
-         for (const claim of trades) {
-            if (storageUsed + claim.amount > storageAvailable) {
-               toClaim[claim.id] = clamp(storageAvailable - storageUsed, 0, Number.POSITIVE_INFINITY);
-               break;
-            }
-            toClaim[claim.id] = claim.amount;
-            storageUsed += claim.amount;
+   const claimTrades = (trades: IPendingClaim[]) => {
+      const tiles = Array.from(Tick.current.playerTradeBuildings.keys());
+      const storageAvailable = getAvailableStorage(tiles, gameState);
+      const toClaim: Record<string, number> = {};
+      let storageUsed = 0;
+      for (const claim of trades) {
+         if (storageUsed + claim.amount > storageAvailable) {
+            toClaim[claim.id] = clamp(storageAvailable - storageUsed, 0, Number.POSITIVE_INFINITY);
+            break;
          }
-         const { resources } = await client.claimTradesV2(toClaim);
-         RequestPendingClaimUpdate.emit();
-         forEach(resources, (res, amount) => {
-            const result = addResourceTo(res as any, amount as number, tiles, gameState);
-            console.assert(result.amount === amount);
-         });
-         if (sizeOf(resources) > 0) {
-            playKaching();
-            showToast(
-               t(L.PlayerTradeClaimAllMessageV2, {
-                  resources: mapOf(resources, (res, amount) => `${Config.Material[res as Material].name()}: ${formatNumber(amount as number)}`).join(", "),
-               }),
-            );
-            const eic = Tick.current.specialBuildings.get("EastIndiaCompany");
-            forEach(resources, (res, amount) => {
-               const tradeValue = (amount as number) * (Config.MaterialPrice[res as Material] ?? 0);
-               if (eic) {
-                  safeAdd(eic.building.resources, "TradeValue", tradeValue);
-               }
-               gameState.tradeValue += tradeValue;
-            });
-         } else {
-            playError();
-            showToast(t(L.PlayerTradeClaimAllFailedMessageV2));
-         }
-      } catch (error) {
-         playError();
-         showToast(String(error));
+         toClaim[claim.id] = claim.amount;
+         storageUsed += claim.amount;
       }
+      // Sized again when the outbox sends it, the outbox adds the claimed resources when the server answers
+      queueAction("claimTradesV2", toClaim);
    };
 
    return (
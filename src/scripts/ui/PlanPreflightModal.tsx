@@ -0,0 +1,90 @@
+import { useEffect } from "react";
+import { Config } from "../../../shared/logic/Config";
+import type { IPlanPreflightReport } from "../../../shared/logic/PlanPreflight";
+import { playClick } from "../visuals/Sound";
+import { hideModal, showModal } from "./GlobalModal";
+
+/**
+ * Shows why a building plan would fall short and resolves to `true` if the player wants to run it anyway.
+ */
+export function confirmPlanPreflight(title: string, report: IPlanPreflightReport): Promise<boolean> {
+   return new Promise((resolve) => {
+      showModal(
+         <PlanPreflightModal
+            title={title}
+            report={report}
+            onClose={(proceed) => {
+               resolve(proceed);
+               hideModal();
+            }}
+            // Another modal can replace this one, the plan must not be left waiting forever
+            onUnmount={() => resolve(false)}
+         />,
+      );
+   });
+}
+
+function PlanPreflightModal({
+   title,
+   report,
+   onClose,
+   onUnmount,
+}: {
+   title: string;
+   report: IPlanPreflightReport;
+   onClose: (proceed: boolean) => void;
+   onUnmount: () => void;
+}): React.ReactNode {
+   useEffect(() => onUnmount, [onUnmount]);
+   return (
+      <div className="window">
+         <div className="title-bar">
+            <div className="title-bar-text">{title}</div>
+         </div>
+         <div className="window-body" style={{ padding: "5px 10px" }}>
+            <div className="text-desc">{`This plan will not work out as requested (${report.emptyTiles} empty tiles in the area):`}</div>
+            <div className="table-view mt5">
+               <table>
+                  <tbody>
+                     <tr>
+                        <th>Building</th>
+                        <th className="text-right">Placed</th>
+                        <th>Problems</th>
+                     </tr>
+                     {report.specs.map((spec, i) => (
+                        <tr key={i}>
+                           <td>{Config.Building[spec.type]?.name() ?? spec.type}</td>
+                           <td className="text-right">{`${spec.expected}/${spec.requested}`}</td>
+                           <td className={spec.problems.length > 0 ? "text-red" : "text-desc"}>
+                              {spec.problems.length > 0 ? spec.problems.join(", ") : "OK"}
+                           </td>
+                        </tr>
+                     ))}
+                  </tbody>
+               </table>
+            </div>
+            <div className="row" style={{ margin: "20px 0 0 0", justifyContent: "center" }}>
+               <button
+                  style={{ width: "80px", fontWeight: "bold" }}
+                  onClick={() => {
+                     playClick();
+                     onClose(true);
+                  }}
+               >
+                  Continue
+               </button>
+               <div style={{ width: "10px" }}></div>
+               <button
+                  style={{ width: "80px" }}
+                  onClick={() => {
+                     playClick();
+                     onClose(false);
+                  }}
+               >
+                  Abort
+               </button>
+            </div>
+         </div>
+      </div>
+   );
+}
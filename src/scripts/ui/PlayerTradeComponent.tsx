@@ -6,7 +6,7 @@ import type { Material } from "../../../shared/definitions/MaterialDefinitions";
 import { Config } from "../../../shared/logic/Config";
 import { TRADE_CANCEL_REFUND_PERCENT } from "../../../shared/logic/Constants";
 import { getTradePercentage, hasResourceForPlayerTrade } from "../../../shared/logic/PlayerTradeLogic";
-import { addResourceTo, getAvailableStorage } from "../../../shared/logic/ResourceLogic";
+import { getAvailableStorage } from "../../../shared/logic/ResourceLogic";
 import { Tick } from "../../../shared/logic/TickLogic";
 import { UserAttributes, type IClientTrade } from "../../../shared/utilities/Database";
 import {
@@ -21,24 +21,25 @@ import {
    safeParseInt,
 } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
-import { useGameState } from "../Global";
+import { useGameOptions, useGameState } from "../Global";
 import { AccountLevelNames } from "../logic/AccountLevel";
+import { queueAction } from "../logic/Outbox";
 import { PendingClaims } from "../logic/PendingClaim";
-import { client, useTrades, useUser } from "../rpc/RPCClient";
+import { useTrades, useUser } from "../rpc/RPCClient";
 import { getCountryName } from "../utilities/CountryCode";
 import { useForceUpdate } from "../utilities/Hook";
-import { playError, playKaching } from "../visuals/Sound";
 import { AddTradeButtonComponent } from "./AddTradeComponent";
 import { AddTradeModal } from "./AddTradeModal";
 import { AvailableTradingResourcesModal } from "./AvailableTradingResourcesModal";
 import { ConfirmModal } from "./ConfirmModal";
 import { FillPlayerTradeModal } from "./FillPlayerTradeModal";
 import { FixedLengthText } from "./FixedLengthText";
-import { showToast } from "./GlobalModal";
 import { FormatNumber } from "./HelperComponents";
+import { PendingActionsComponent } from "./PendingActionsComponent";
 import { PendingClaimModal } from "./PendingClaimModal";
 import { RenderHTML } from "./RenderHTMLComponent";
 import { AccountLevelComponent, MiscTextureComponent, PlayerFlagComponent } from "./TextureSprites";
+import { TradeBotModal } from "./TradeBotModal";
 
 const savedResourceWantFilters: Set<Material> = new Set();
 const savedResourceOfferFilters: Set<Material> = new Set();
@@ -80,6 +81,7 @@ export function PlayerTradeComponent({
    const [tradeAmountFilter, setTradeAmountFilter] = useState<number>(savedMaxTradeAmountFilter);
    const trades = useTrades();
    const user = useUser();
+   const options = useGameOptions();
    const forceUpdate = useForceUpdate();
 
    const clearFilters = () => {
@@ -121,6 +123,12 @@ export function PlayerTradeComponent({
             <button onClick={() => showModal(<AvailableTradingResourcesModal hideModal={hideModal} />)}>
                {t(L.PlayerTradeTabAvailableTrades)}
             </button>
+            <button
+               className={cls(options.tradeBot.enabled ? "text-strong text-green" : null)}
+               onClick={() => showModal(<TradeBotModal hideModal={hideModal} />)}
+            >
+               {t(L.TradeBot)}
+            </button>
             <div className="w10"></div>
             <button
                className={cls("row jcc", filterCount > 0 ? "text-strong text-blue" : null)}
@@ -160,6 +168,7 @@ export function PlayerTradeComponent({
                </button>
             </Tippy>
          </div>
+         <PendingActionsComponent />
          <div className="table-view">
             <TableVirtuoso
                style={{ height: "70vh" }}
@@ -428,20 +437,9 @@ function PlayerTradeTableRow({
                         <ConfirmModal
                            title={t(L.PlayerTradeCancelTrade)}
                            hideModalFunc={hideModal}
-                           onConfirm={async () => {
-                              try {
-                                 const cancelledTrade = await client.cancelTrade(trade.id);
-                                 addResourceTo(
-                                    cancelledTrade.sellResource,
-                                    cancelledTrade.sellAmount * TRADE_CANCEL_REFUND_PERCENT,
-                                    Array.from(Tick.current.playerTradeBuildings.keys()),
-                                    gameState,
-                                 );
-                                 playKaching();
-                              } catch (error) {
-                                 showToast(String(error));
-                                 playError();
-                              }
+                           onConfirm={() => {
+                              // The outbox refunds the resources when the server has cancelled the trade
+                              queueAction("cancelTrade", trade.id);
                            }}
                         >
                            <RenderHTML
@@ -22,6 +22,7 @@ import {
 } from "../../../shared/logic/RebirthLogic";
 import { getAgeForTech, getCurrentAge } from "../../../shared/logic/TechLogic";
 import { Tick } from "../../../shared/logic/TickLogic";
+import { notifyTileChanged } from "../../../shared/logic/Update";
 import { UserAttributes } from "../../../shared/utilities/Database";
 import {
    clamp,
@@ -519,6 +520,7 @@ export function RebirthModal(): React.ReactNode {
                            if (tile) {
                               tile.explored = true;
                               tile.building = pompidou;
+                              notifyTileChanged(xy);
                               pompidou.cities.add(currentCity);
                            }
                         });
@@ -39,18 +39,26 @@ import {
 import type { PartialSet } from "../../../shared/utilities/TypeDefinitions";
 import { L, t } from "../../../shared/utilities/i18n";
 import { useGameState } from "../Global";
+import { getOfflineReports } from "../logic/OfflineReportHistory";
 import { TimeSeries } from "../logic/TimeSeries";
 import { LookAtMode, WorldScene } from "../scenes/WorldScene";
 import { Singleton } from "../utilities/Singleton";
+import { playClick } from "../visuals/Sound";
+import { BottleneckPage } from "./BottleneckPage";
 import { BuildingColorComponent } from "./BuildingColorComponent";
 import type { IBuildingComponentProps } from "./BuildingPage";
 import { BuildingFilter, Filter } from "./FilterComponent";
+import { ForecastModal } from "./ForecastModal";
+import { showModal } from "./GlobalModal";
 import { FormatNumber } from "./HelperComponents";
+import { OfflineProductionModal } from "./OfflineProductionModal";
 import { PlotComponent } from "./PlotComponent";
+import { StatisticsHistoryComponent } from "./StatisticsHistoryComponent";
 import { TableView } from "./TableView";
+import { TransportStatsPage } from "./TransportStatsPage";
 import { WorkerScienceComponent } from "./WorkerScienceComponent";
 
-type Tab = "resources" | "buildings" | "empire";
+type Tab = "resources" | "buildings" | "empire" | "history";
 let savedStatisticsTab: Tab = "empire";
 
 export function StatisticsBuildingBody({
@@ -76,6 +84,9 @@ export function StatisticsBuildingBody({
    } else if (currentTab === "empire") {
       savedStatisticsTab = "empire";
       content = <EmpireTab gameState={gameState} xy={xy} />;
+   } else if (currentTab === "history") {
+      savedStatisticsTab = "history";
+      content = <StatisticsHistoryComponent />;
    }
    return (
       <div className={`window-body ${extraClass}`}>
@@ -89,9 +100,45 @@ export function StatisticsBuildingBody({
             <button onClick={() => setCurrentTab("buildings")} aria-selected={currentTab === "buildings"}>
                {t(L.StatisticsBuildings)}
             </button>
+            <button onClick={() => setCurrentTab("history")} aria-selected={currentTab === "history"}>
+               {t(L.StatisticsHistory)}
+            </button>
          </menu>
          {content}
          {currentTab === "empire" ? <BuildingColorComponent gameState={gameState} xy={xy} /> : null}
+         {currentTab === "empire" ? (
+            <button
+               className="w100 mt10"
+               onClick={() => {
+                  playClick();
+                  showModal(<ForecastModal />);
+               }}
+            >
+               {t(L.Forecast)}
+            </button>
+         ) : null}
+         {currentTab === "empire" ? (
+            <button
+               className="w100 mt5"
+               onClick={() => {
+                  playClick();
+                  Singleton().routeTo(BottleneckPage, {});
+               }}
+            >
+               {t(L.Bottlenecks)}
+            </button>
+         ) : null}
+         {currentTab === "empire" ? (
+            <button
+               className="w100 mt5"
+               onClick={async () => {
+                  playClick();
+                  showModal(<OfflineProductionModal reports={await getOfflineReports()} />);
+               }}
+            >
+               {t(L.OfflineReports)}
+            </button>
+         ) : null}
       </div>
    );
 }
@@ -277,6 +324,15 @@ function EmpireTab({ gameState, xy }: IBuildingComponentProps): React.ReactNode
                   </div>
                </li>
             </ul>
+            <button
+               className="w100 mt5"
+               onClick={() => {
+                  playClick();
+                  Singleton().routeTo(TransportStatsPage, {});
+               }}
+            >
+               Transport Statistics
+            </button>
          </fieldset>
          <fieldset>
             <legend>{t(L.StatisticsExploration)}</legend>
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import type { Material } from "../../../shared/definitions/MaterialDefinitions";
+import { Config } from "../../../shared/logic/Config";
+import {
+   StatSeriesKeys,
+   StatTiers,
+   getStatSeries,
+   getStatSeriesKeys,
+   statSeriesToCsv,
+   type IStatSeries,
+   type StatTier,
+} from "../../../shared/logic/StatSeries";
+import { L, t } from "../../../shared/utilities/i18n";
+import { getStatisticsHistory } from "../logic/StatisticsHistory";
+import { playClick } from "../visuals/Sound";
+import { PlotComponent } from "./PlotComponent";
+
+// Number of points to show, 0 for all of them
+const Ranges: Record<StatTier, { label: () => string; points: number }[]> = {
+   minute: [
+      { label: () => t(L.StatisticsHistoryLastHour), points: 60 },
+      { label: () => t(L.StatisticsHistoryLastXHours, { hours: 6 }), points: 6 * 60 },
+      { label: () => t(L.StatisticsHistoryLastDay), points: 0 },
+   ],
+   hour: [
+      { label: () => t(L.StatisticsHistoryLastDay), points: 24 },
+      { label: () => t(L.StatisticsHistoryLastWeek), points: 7 * 24 },
+      { label: () => t(L.StatisticsHistoryLastXDays, { days: 30 }), points: 0 },
+   ],
+   run: [
+      { label: () => t(L.StatisticsHistoryLastXRuns, { runs: 10 }), points: 10 },
+      { label: () => t(L.StatisticsHistoryAllRuns), points: 0 },
+   ],
+};
+
+const TierLabels: Record<StatTier, () => string> = {
+   minute: () => t(L.StatisticsHistoryPerMinute),
+   hour: () => t(L.StatisticsHistoryPerHour),
+   run: () => t(L.StatisticsHistoryPerRun),
+};
+
+const DefaultKeys = [
+   StatSeriesKeys.EmpireValue,
+   StatSeriesKeys.Science,
+   StatSeriesKeys.WorkersBusy,
+   StatSeriesKeys.Happiness,
+];
+
+let savedTier: StatTier = "minute";
+let savedKeys: string[] = DefaultKeys;
+
+export function StatisticsHistoryComponent(): React.ReactNode {
+   const series = getStatisticsHistory();
+   const [tier, _setTier] = useState<StatTier>(savedTier);
+   const [range, setRange] = useState(0);
+   const [keys, _setKeys] = useState<string[]>(savedKeys);
+   const setTier = (tier: StatTier) => {
+      savedTier = tier;
+      _setTier(tier);
+      setRange(0);
+   };
+   const setKeys = (keys: string[]) => {
+      savedKeys = keys;
+      _setKeys(keys);
+   };
+   if (!series) {
+      return <div className="text-desc">{t(L.StatisticsHistoryNotAvailable)}</div>;
+   }
+   const points = Ranges[tier][range]?.points ?? 0;
+   const [x] = getStatSeries(series, tier, StatSeriesKeys.EmpireValue);
+   const from = points > 0 ? Math.max(0, x.length - points) : 0;
+
+   return (
+      <fieldset>
+         <legend>{t(L.StatisticsHistory)}</legend>
+         <div className="text-desc">{t(L.StatisticsHistoryDesc)}</div>
+         <div className="row mt5">
+            <select className="f1" value={tier} onChange={(e) => setTier(e.target.value as StatTier)}>
+               {(["minute", "hour", "run"] as const).map((k) => (
+                  <option key={k} value={k}>
+                     {TierLabels[k]()}
+                  </option>
+               ))}
+            </select>
+            <div style={{ width: "10px" }} />
+            <select
+               className="f1"
+               value={range}
+               onChange={(e) => setRange(Number.parseInt(e.target.value, 10))}
+            >
+               {Ranges[tier].map((r, i) => (
+                  <option key={r.points} value={i}>
+                     {r.label()}
+                  </option>
+               ))}
+            </select>
+         </div>
+         {x.length < 2 ? (
+            <div className="text-desc mt5">
+               {tier === "run"
+                  ? t(L.StatisticsHistoryNotEnoughRuns)
+                  : t(L.StatisticsHistoryNotEnoughData, { ticks: StatTiers[tier].ticks })}
+            </div>
+         ) : (
+            keys.map((key) => {
+               const [kx, ky] = getStatSeries(series, tier, key);
+               return (
+                  <div className="row mt5" key={key}>
+                     <div className="f1">
+                        <PlotComponent
+                           title={formatStatKey(key)}
+                           data={[kx.slice(from), ky.slice(from)]}
+                           series={{ stroke: "#0984e3", width: 2 }}
+                        />
+                     </div>
+                     <button
+                        className="ml5"
+                        onClick={() => {
+                           playClick();
+                           setKeys(keys.filter((k) => k !== key));
+                        }}
+                     >
+                        {t(L.StatisticsHistoryRemove)}
+                     </button>
+                  </div>
+               );
+            })
+         )}
+         <div className="row mt5">
+            <select
+               className="f1"
+               value=""
+               onChange={(e) => {
+                  if (e.target.value) {
+                     playClick();
+                     setKeys([...keys, e.target.value]);
+                  }
+               }}
+            >
+               <option value="">{t(L.StatisticsHistoryAddSeries)}</option>
+               {getStatSeriesKeys(series)
+                  .filter((key) => !keys.includes(key))
+                  .map((key) => (
+                     <option key={key} value={key}>
+                        {formatStatKey(key)}
+                     </option>
+                  ))}
+            </select>
+            <div style={{ width: "10px" }} />
+            <button
+               disabled={keys.length === 0}
+               onClick={() => {
+                  playClick();
+                  downloadCsv(series, tier, keys, from);
+               }}
+            >
+               {t(L.StatisticsHistoryExportCsv)}
+            </button>
+         </div>
+      </fieldset>
+   );
+}
+
+function formatStatKey(key: string): string {
+   const [kind, res] = key.split(".") as [string, Material | undefined];
+   if (res && Config.Material[res]) {
+      const resource = Config.Material[res].name();
+      return kind === "Produce"
+         ? t(L.StatisticsHistoryProduced, { resource })
+         : t(L.StatisticsHistoryConsumed, { resource });
+   }
+   switch (key) {
+      case StatSeriesKeys.EmpireValue:
+         return t(L.EmpireValue);
+      case StatSeriesKeys.Science:
+         return t(L.Science);
+      case StatSeriesKeys.Workers:
+         return t(L.Workers);
+      case StatSeriesKeys.WorkersBusy:
+         return t(L.WorkersBusy);
+      case StatSeriesKeys.Happiness:
+         return t(L.Happiness);
+      case StatSeriesKeys.Electrified:
+         return t(L.StatisticsHistoryElectrified);
+      case StatSeriesKeys.NotEnoughPower:
+         return t(L.StatisticsHistoryNotEnoughPower);
+      default:
+         return key;
+   }
+}
+
+function downloadCsv(series: IStatSeries, tier: StatTier, keys: string[], from: number): void {
+   const csv = statSeriesToCsv(series, tier, keys, from);
+   const link = document.createElement("a");
+   link.href = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+   link.download = `CivIdle-${tier}.csv`;
+   link.click();
+   URL.revokeObjectURL(link.href);
+   link.remove();
+}
@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { NoPrice, NoStorage, type Material } from "../../../shared/definitions/MaterialDefinitions";
+import { Config } from "../../../shared/logic/Config";
+import { notifyGameOptionsUpdate } from "../../../shared/logic/GameStateLogic";
+import { unlockedResources } from "../../../shared/logic/IntraTickCache";
+import { getUserTradePriceRange } from "../../../shared/logic/PlayerTradeLogic";
+import { combineResources } from "../../../shared/logic/ResourceLogic";
+import { Tick } from "../../../shared/logic/TickLogic";
+import type { ITradeBotLogEntry, TradeBotAction } from "../../../shared/logic/TradeBot";
+import {
+   HOUR,
+   SECOND,
+   clamp,
+   formatHM,
+   formatHMS,
+   formatNumber,
+   formatPercent,
+   keysOf,
+   mapOf,
+   safeParseFloat,
+   safeParseInt,
+} from "../../../shared/utilities/Helper";
+import { L, t } from "../../../shared/utilities/i18n";
+import { useGameOptions, useGameState } from "../Global";
+import { clearTradeBotLog, useTradeBotLog } from "../logic/TradeBot";
+import { useUser } from "../rpc/RPCClient";
+import { playClick } from "../visuals/Sound";
+import { FormatNumber } from "./HelperComponents";
+import { RenderHTML } from "./RenderHTMLComponent";
+import { ToggleComponent } from "./ToggleComponent";
+import { WarningComponent } from "./WarningComponent";
+
+export function TradeBotModal({ hideModal }: { hideModal: () => void }): React.ReactNode {
+   const options = useGameOptions();
+   const gs = useGameState();
+   const user = useUser();
+   const log = useTradeBotLog();
+   const bot = options.tradeBot;
+   const range = getUserTradePriceRange(user);
+   const stock = combineResources(
+      Array.from(Tick.current.playerTradeBuildings.values()).map((b) => b.resources),
+   );
+   const resources = keysOf(unlockedResources(gs)).filter(
+      (res) => !NoStorage[res] && !NoPrice[res] && !bot.bands[res],
+   );
+   resources.sort((a, b) => Config.Material[a].name().localeCompare(Config.Material[b].name()));
+   const [newBand, setNewBand] = useState<Material | "">("");
+   return (
+      <div className="window" style={{ width: 650, maxWidth: "75vw" }}>
+         <div className="title-bar">
+            <div className="title-bar-text">{t(L.TradeBot)}</div>
+            <div className="title-bar-controls">
+               <button onClick={hideModal} aria-label="Close"></button>
+            </div>
+         </div>
+         <div className="window-body" style={{ maxHeight: "75vh", overflowY: "auto" }}>
+            <WarningComponent icon="info" className="mb10 text-small">
+               <RenderHTML html={t(L.TradeBotDescHTML)} />
+            </WarningComponent>
+            <fieldset>
+               <ToggleComponent
+                  title={t(L.TradeBotEnabled)}
+                  contentHTML={t(L.TradeBotEnabledDescHTML)}
+                  value={bot.enabled}
+                  onValueChange={(value) => {
+                     bot.enabled = value;
+                     notifyGameOptionsUpdate(options);
+                  }}
+               />
+               <div className="separator" />
+               <div className="row">
+                  <div className="f1">{t(L.TradeBotPostPremium)}</div>
+                  <div className="text-strong">{formatPercent(clamp(bot.postPremium, -range, range))}</div>
+               </div>
+               <RenderHTML
+                  className="text-desc text-small"
+                  html={t(L.TradeBotPostPremiumDescHTML, { range: formatPercent(range) })}
+               />
+               <input
+                  type="range"
+                  min={-range}
+                  max={range}
+                  step="0.01"
+                  value={clamp(bot.postPremium, -range, range)}
+                  onChange={(e) => {
+                     bot.postPremium = clamp(safeParseFloat(e.target.value, 0), -range, range);
+                     notifyGameOptionsUpdate(options);
+                  }}
+               />
+               <div className="separator" />
+               <div className="row">
+                  <div className="f1">{t(L.TradeBotFillDiscount)}</div>
+                  <div className="text-strong">{formatPercent(bot.fillDiscount)}</div>
+               </div>
+               <RenderHTML className="text-desc text-small" html={t(L.TradeBotFillDiscountDescHTML)} />
+               <input
+                  type="range"
+                  min={-0.25}
+                  max={0.25}
+                  step="0.01"
+                  value={bot.fillDiscount}
+                  onChange={(e) => {
+                     bot.fillDiscount = clamp(safeParseFloat(e.target.value, 0), -0.25, 0.25);
+                     notifyGameOptionsUpdate(options);
+                  }}
+               />
+               <div className="separator" />
+               <div className="row">
+                  <div className="f1">{t(L.TradeBotStaleAfter)}</div>
+                  <div className="text-strong">{formatHM(bot.staleSeconds * SECOND)}</div>
+               </div>
+               <input
+                  type="range"
+                  min={1}
+                  max={48}
+                  step="1"
+                  value={Math.round((bot.staleSeconds * SECOND) / HOUR)}
+                  onChange={(e) => {
+                     bot.staleSeconds = (clamp(safeParseInt(e.target.value, 1), 1, 48) * HOUR) / SECOND;
+                     notifyGameOptionsUpdate(options);
+                  }}
+               />
+               <div className="separator" />
+               <div className="row">
+                  <div className="f1">{t(L.TradeBotInterval)}</div>
+                  <div className="text-strong">{formatHMS(bot.intervalSeconds * SECOND)}</div>
+               </div>
+               <input
+                  type="range"
+                  min={10}
+                  max={600}
+                  step="10"
+                  value={bot.intervalSeconds}
+                  onChange={(e) => {
+                     bot.intervalSeconds = clamp(safeParseInt(e.target.value, 60), 10, 600);
+                     notifyGameOptionsUpdate(options);
+                  }}
+               />
+            </fieldset>
+            <fieldset>
+               <legend>{t(L.TradeBotBands)}</legend>
+               <RenderHTML className="text-desc text-small mb5" html={t(L.TradeBotBandsDescHTML)} />
+               <div className="table-view">
+                  <table>
+                     <tbody>
+                        <tr>
+                           <th>{t(L.ResourceImportResource)}</th>
+                           <th className="text-right">{t(L.ResourceAmount)}</th>
+                           <th className="text-right">{t(L.TradeBotMin)}</th>
+                           <th className="text-right">{t(L.TradeBotMax)}</th>
+                           <th></th>
+                        </tr>
+                        {mapOf(bot.bands, (res, band) => {
+                           return (
+                              <tr key={res}>
+                                 <td>{Config.Material[res].name()}</td>
+                                 <td className="text-right">
+                                    <FormatNumber value={stock[res] ?? 0} />
+                                 </td>
+                                 <td style={{ width: 0 }}>
+                                    <input
+                                       type="text"
+                                       className="text-right"
+                                       style={{ width: 100 }}
+                                       value={band.min}
+                                       onChange={(e) => {
+                                          band.min = Math.max(safeParseInt(e.target.value, 0), 0);
+                                          band.max = Math.max(band.max, band.min);
+                                          notifyGameOptionsUpdate(options);
+                                       }}
+                                    />
+                                 </td>
+                                 <td style={{ width: 0 }}>
+                                    <input
+                                       type="text"
+                                       className="text-right"
+                                       style={{ width: 100 }}
+                                       value={band.max}
+                                       onChange={(e) => {
+                                          band.max = Math.max(safeParseInt(e.target.value, 0), 0);
+                                          notifyGameOptionsUpdate(options);
+                                       }}
+                                       onBlur={() => {
+                                          band.max = Math.max(band.max, band.min);
+                                          notifyGameOptionsUpdate(options);
+                                       }}
+                                    />
+                                 </td>
+                                 <td style={{ width: 0 }}>
+                                    <div
+                                       className="m-icon small text-link"
+                                       onClick={() => {
+                                          playClick();
+                                          delete bot.bands[res];
+                                          notifyGameOptionsUpdate(options);
+                                       }}
+                                    >
+                                       delete
+                                    </div>
+                                 </td>
+                              </tr>
+                           );
+                        })}
+                     </tbody>
+                  </table>
+               </div>
+               <div className="row mt5">
+                  <select
+                     className="f1 mr10"
+                     value={newBand}
+                     onChange={(e) => setNewBand(e.target.value as Material | "")}
+                  >
+                     <option value=""></option>
+                     {resources.map((res) => (
+                        <option key={res} value={res}>
+                           {Config.Material[res].name()}
+                        </option>
+                     ))}
+                  </select>
+                  <button
+                     disabled={!newBand}
+                     onClick={() => {
+                        if (!newBand) {
+                           return;
+                        }
+                        playClick();
+                        // Starts around the current stock, so adding a band does not trade right away
+                        const amount = Math.floor(stock[newBand] ?? 0);
+                        bot.bands[newBand] = { min: amount, max: amount };
+                        setNewBand("");
+                        notifyGameOptionsUpdate(options);
+                     }}
+                  >
+                     {t(L.TradeBotAddBand)}
+                  </button>
+               </div>
+            </fieldset>
+            <fieldset>
+               <legend>{t(L.TradeBotLog)}</legend>
+               {log.length > 0 ? (
+                  <>
+                     <div className="table-view" style={{ maxHeight: "30vh", overflowY: "auto" }}>
+                        <table>
+                           <tbody>
+                              {log.map((entry) => (
+                                 <tr
+                                    key={`${entry.time}-${entry.action}-${entry.trade.sellResource}-${entry.trade.buyResource}`}
+                                 >
+                                    <td className="text-small text-desc">
+                                       {new Date(entry.time).toLocaleString()}
+                                    </td>
+                                    <td>
+                                       <div>{describeLogEntry(entry)}</div>
+                                       {entry.error ? (
+                                          <div className="text-small text-red">{entry.error}</div>
+                                       ) : null}
+                                    </td>
+                                    <td className="text-right">{ActionNames[entry.action]()}</td>
+                                 </tr>
+                              ))}
+                           </tbody>
+                        </table>
+                     </div>
+                     <div className="row mt5">
+                        <div className="f1" />
+                        <button
+                           onClick={() => {
+                              playClick();
+                              clearTradeBotLog();
+                           }}
+                        >
+                           {t(L.TradeBotClearLog)}
+                        </button>
+                     </div>
+                  </>
+               ) : (
+                  <div className="text-desc">{t(L.TradeBotLogEmpty)}</div>
+               )}
+            </fieldset>
+         </div>
+      </div>
+   );
+}
+
+const ActionNames: Record<TradeBotAction, () => string> = {
+   post: () => t(L.TradeBotActionPost),
+   fill: () => t(L.TradeBotActionFill),
+   cancel: () => t(L.TradeBotActionCancel),
+};
+
+/**
+ * What is given → what is taken. For a fill, the bot gives the buy resource of the trade
+ */
+function describeLogEntry({ action, trade }: ITradeBotLogEntry): string {
+   const give: [Material, number] = [trade.sellResource, trade.sellAmount];
+   const take: [Material, number] = [trade.buyResource, trade.buyAmount];
+   const [from, to] = action === "fill" ? [take, give] : [give, take];
+   return `${formatNumber(from[1])} ${Config.Material[from[0]].name()} → ${formatNumber(to[1])} ${Config.Material[
+      to[0]
+   ].name()}`;
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Config } from "../../../shared/logic/Config";
+import { BuildingInputModeNames } from "../../../shared/logic/Tile";
+import {
+   getLongestSupplyLines,
+   getTransportStatsRecorder,
+   makeTransportStats,
+   setTransportStatsRecorder,
+} from "../../../shared/logic/TransportStats";
+import { useGameState } from "../Global";
+import { LookAtMode, WorldScene } from "../scenes/WorldScene";
+import { Singleton } from "../utilities/Singleton";
+import { playClick } from "../visuals/Sound";
+import { FormatNumber } from "./HelperComponents";
+import { MenuComponent } from "./MenuComponent";
+import { TitleBarComponent } from "./TitleBarComponent";
+
+const SupplyLineCount = 20;
+
+export function TransportStatsPage(): React.ReactNode {
+   const gs = useGameState();
+   const stats = getTransportStatsRecorder();
+   const [heatmap, setHeatmap] = useState(
+      () => Singleton().sceneManager.getCurrent(WorldScene)?.transportHeatmapShown ?? false,
+   );
+   const toggleHeatmap = (show: boolean) => {
+      const scene = Singleton().sceneManager.loadScene(WorldScene);
+      scene.showTransportHeatmap(show ? getTransportStatsRecorder() : null);
+      setHeatmap(show);
+   };
+
+   let volume = 0;
+   let fuel = 0;
+   let trips = 0;
+   let ticksInFlight = 0;
+   stats?.routes.forEach((route) => {
+      volume += route.volume;
+      fuel += route.fuel;
+      trips += route.trips;
+      ticksInFlight += route.ticksInFlight;
+   });
+   const ticks = Math.max(stats?.ticks ?? 0, 1);
+   const lines = stats ? getLongestSupplyLines(stats, gs, SupplyLineCount) : [];
+
+   return (
+      <div className="window">
+         <TitleBarComponent>Transport Statistics</TitleBarComponent>
+         <MenuComponent />
+         <div className="window-body">
+            <div className="text-desc">
+               Recorded since the game started or since the last reset. Offline production is not included.
+            </div>
+            <fieldset>
+               <legend>Summary</legend>
+               <ul className="tree-view">
+                  <li className="row">
+                     <div className="f1">Ticks recorded</div>
+                     <FormatNumber value={stats?.ticks ?? 0} />
+                  </li>
+                  <li className="row">
+                     <div className="f1">Routes</div>
+                     <FormatNumber value={stats?.routes.size ?? 0} />
+                  </li>
+                  <li className="row">
+                     <div className="f1">Delivered per tick</div>
+                     <FormatNumber value={volume / ticks} />
+                  </li>
+                  <li className="row">
+                     <div className="f1">Fuel per tick</div>
+                     <FormatNumber value={fuel / ticks} />
+                  </li>
+                  <li className="row">
+                     <div className="f1">Ticks in flight per trip</div>
+                     <FormatNumber value={trips > 0 ? ticksInFlight / trips : 0} />
+                  </li>
+               </ul>
+               <div className="row mt5">
+                  <button
+                     className="f1"
+                     onClick={() => {
+                        playClick();
+                        toggleHeatmap(!heatmap);
+                     }}
+                  >
+                     {heatmap ? "Hide Heatmap" : "Show Heatmap"}
+                  </button>
+                  <div style={{ width: "10px" }} />
+                  <button
+                     className="f1"
+                     onClick={() => {
+                        playClick();
+                        setTransportStatsRecorder(makeTransportStats());
+                        if (heatmap) {
+                           toggleHeatmap(true);
+                        }
+                     }}
+                  >
+                     Reset
+                  </button>
+               </div>
+            </fieldset>
+            <fieldset>
+               <legend>Longest Supply Lines</legend>
+               {lines.length === 0 ? <div className="text-desc">Nothing has been transported yet</div> : null}
+               {lines.map((line) => (
+                  <div className="row mv5" key={`${line.fromXy}>${line.toXy}`}>
+                     <div className="f1">
+                        <div>
+                           {line.from ? Config.Building[line.from].name() : "?"} {"→"}{" "}
+                           {line.to ? Config.Building[line.to].name() : "?"}
+                        </div>
+                        <div className="text-desc text-small">
+                           {line.distance} tiles, <FormatNumber value={line.volume / ticks} /> per tick,{" "}
+                           <FormatNumber value={line.trips > 0 ? line.ticksInFlight / line.trips : 0} /> ticks
+                           per trip
+                        </div>
+                        {line.inputMode !== null ? (
+                           <div className="text-desc text-small">
+                              {BuildingInputModeNames.get(line.inputMode)?.()}
+                              {Number.isFinite(line.maxInputDistance)
+                                 ? `, max ${line.maxInputDistance} tiles`
+                                 : ", no max distance"}
+                           </div>
+                        ) : null}
+                     </div>
+                     <button
+                        onClick={() => {
+                           playClick();
+                           Singleton()
+                              .sceneManager.loadScene(WorldScene)
+                              .lookAtTile(line.toXy, LookAtMode.Highlight);
+                        }}
+                     >
+                        Locate
+                     </button>
+                  </div>
+               ))}
+            </fieldset>
+         </div>
+      </div>
+   );
+}
@@ -23,7 +23,7 @@ export function UnitedNationsBuildingBody({ gameState, xy }: IBuildingComponentP
             nextVoteTitle={(id) => t(L.UNGeneralAssemblyNext, { id })}
             description={html(t(L.UNVoteDescriptionHTML))}
             getVotedBoosts={client.getVotedBoosts}
-            voteBoosts={client.voteBoosts}
+            voteBoosts="voteBoosts"
          />
          <BuildingValueComponent gameState={gameState} xy={xy} />
          <BuildingWikipediaComponent gameState={gameState} xy={xy} />
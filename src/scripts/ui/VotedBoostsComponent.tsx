@@ -7,9 +7,9 @@ import type { IGetVotedBoostResponse } from "../../../shared/utilities/Database"
 import { formatHMS, isNullOrUndefined } from "../../../shared/utilities/Helper";
 import { L, t } from "../../../shared/utilities/i18n";
 import { useGameOptions } from "../Global";
+import { queueAction } from "../logic/Outbox";
 import { isSteam, SteamClient } from "../rpc/SteamClient";
-import { playError, playUpgrade } from "../visuals/Sound";
-import { showToast } from "./GlobalModal";
+import { playUpgrade } from "../visuals/Sound";
 import { RenderHTML } from "./RenderHTMLComponent";
 import { BuildingSpriteComponent } from "./TextureSprites";
 import { WarningComponent } from "./WarningComponent";
@@ -25,7 +25,8 @@ export function VotedBoostsComponent({
    nextVoteTitle: (id: number) => React.ReactNode;
    description: React.ReactNode;
    getVotedBoosts: () => Promise<IGetVotedBoostResponse>;
-   voteBoosts: (idx: number) => Promise<IGetVotedBoostResponse>;
+   /** Votes wait in the outbox while offline */
+   voteBoosts: "voteBoosts" | "voteTradeTileBonus";
 }): React.ReactNode {
    const options = useGameOptions();
    const [response, setResponse] = useState<IGetVotedBoostResponse | null>(null);
@@ -72,17 +73,14 @@ export function VotedBoostsComponent({
                         ) : (
                            <div
                               className="m-icon text-desc pointer"
-                              onClick={async () => {
-                                 try {
-                                    setResponse(await voteBoosts(idx));
+                              onClick={() => {
+                                 queueAction(voteBoosts, idx, (result) => {
+                                    setResponse(result);
                                     if (isSteam()) {
                                        SteamClient.unlockAchievement("WorldsDelegate");
                                     }
                                     playUpgrade();
-                                 } catch (error) {
-                                    playError();
-                                    showToast(String(error));
-                                 }
+                                 });
                               }}
                            >
                               check_box_outline_blank
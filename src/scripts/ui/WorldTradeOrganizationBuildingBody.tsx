@@ -36,7 +36,7 @@ export function WorldTradeOrganizationBuildingBody({
             nextVoteTitle={(id) => t(L.WTOVoteNext, { id })}
             description={html(t(L.WTOVoteDescriptionHTML))}
             getVotedBoosts={client.getTradeTileBonusVotes}
-            voteBoosts={client.voteTradeTileBonus}
+            voteBoosts="voteTradeTileBonus"
          />
          <BuildingValueComponent gameState={gameState} xy={xy} />
          <BuildingWikipediaComponent gameState={gameState} xy={xy} />
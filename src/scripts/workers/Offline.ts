@@ -0,0 +1,104 @@
+import type { SavedGame } from "../../../shared/logic/GameState";
+import { replacer, reviver } from "../../../shared/logic/GameStateLogic";
+import type { IOfflineTally } from "../../../shared/logic/OfflineReport";
+import type { ITransportationDataV2 } from "../../../shared/logic/Transports";
+import type { IGetVotedBoostResponse } from "../../../shared/utilities/Database";
+import { rejectIn } from "../../../shared/utilities/Helper";
+import { TileBuildings, client, getUser, populateTileBuildings } from "../rpc/RPCClient";
+import { getNeighboringPlayers, getOwnedOrOccupiedTiles } from "../scenes/PathFinder";
+import type { IOfflinePlayerMap, OfflineWorkerRequest, OfflineWorkerResponse } from "./OfflineWorker";
+
+const PlayerMapTimeout = 5;
+
+export interface IOfflineWorkerResult {
+   save: SavedGame;
+   /** Still in flight, their cargo is not in `save` */
+   transports: ITransportationDataV2[];
+   ticked: number;
+   /** In milliseconds */
+   elapsed: number;
+   cancelled: boolean;
+   tally: IOfflineTally;
+   /** Unlocked while ticking, the worker cannot talk to Steam */
+   achievements: string[];
+}
+
+export interface IOfflineWorkerTask {
+   result: Promise<IOfflineWorkerResult>;
+   /** Stops after the current batch. `result` then resolves with what has been ticked so far */
+   cancel: () => void;
+}
+
+export interface IOfflineWorkerOptions {
+   batchSize: number;
+   onProgress?: (ticked: number, ticksPerSecond: number) => void;
+}
+
+/**
+ * Ticks `save` for `seconds` in a worker, the same way `tickOffline` does on the main thread. The worker gets a copy
+ * of the save and of the transports in flight, the caller has to take the ticked ones from the result.
+ */
+export function tickOfflineInWorker(
+   save: SavedGame,
+   transports: ITransportationDataV2[],
+   seconds: number,
+   playerMap: IOfflinePlayerMap,
+   options: IOfflineWorkerOptions,
+): IOfflineWorkerTask {
+   const worker = new Worker(new URL("OfflineWorker.ts", import.meta.url), {
+      type: "module",
+   });
+   const post = (request: OfflineWorkerRequest) => worker.postMessage(request);
+   const result = new Promise<IOfflineWorkerResult>((resolve, reject) => {
+      worker.onmessage = (ev: MessageEvent<OfflineWorkerResponse>) => {
+         switch (ev.data.type) {
+            case "progress": {
+               options.onProgress?.(ev.data.ticked, ev.data.ticksPerSecond);
+               break;
+            }
+            case "done": {
+               worker.terminate();
+               // Not `deserializeSave`, which would overwrite the checksum verified when the save was loaded
+               resolve({ ...ev.data, save: JSON.parse(ev.data.save, reviver) as SavedGame });
+               break;
+            }
+            case "error": {
+               worker.terminate();
+               reject(new Error(ev.data.message));
+               break;
+            }
+         }
+      };
+      worker.onerror = (ev) => {
+         worker.terminate();
+         reject(new Error(ev.message));
+      };
+   });
+   post({
+      type: "start",
+      // Not `serializeSave`, which would give the cargo in flight back to where it came from
+      save: JSON.stringify(save, replacer),
+      transports,
+      seconds,
+      batchSize: options.batchSize,
+      playerMap,
+   });
+   return { result, cancel: () => post({ type: "cancel" }) };
+}
+
+/**
+ * The player map as the game event handlers see it now. Whatever the server does not answer in time is left out
+ */
+export async function getOfflinePlayerMap(): Promise<IOfflinePlayerMap> {
+   await Promise.race([populateTileBuildings(), rejectIn(PlayerMapTimeout)]).catch(console.error);
+   return {
+      tileBuildings: new Map(TileBuildings),
+      ownedOrOccupiedTiles: getOwnedOrOccupiedTiles(),
+      neighboringPlayers: getNeighboringPlayers(),
+      signedIn: getUser() !== null,
+      votedBoost: await Promise.race([
+         client.getVotedBoosts(),
+         rejectIn<IGetVotedBoostResponse>(PlayerMapTimeout),
+      ]).catch(() => null),
+   };
+}
@@ -0,0 +1,165 @@
+import type { Building } from "../../../shared/definitions/BuildingDefinitions";
+import { OnTileExplored } from "../../../shared/logic/BuildingLogic";
+import { calculateTierAndPrice, setCityOverride } from "../../../shared/logic/Constants";
+import { Languages, syncLanguage } from "../../../shared/logic/GameState";
+import { replacer, reviver, savedGame } from "../../../shared/logic/GameStateLogic";
+import { makeOfflineTally, tallyOfflineTick, type IOfflineTally } from "../../../shared/logic/OfflineReport";
+import { beginTick, endTick } from "../../../shared/logic/Simulation";
+import { Tick } from "../../../shared/logic/TickLogic";
+import { Transports, type ITransportationDataV2 } from "../../../shared/logic/Transports";
+import {
+   OnBuildingComplete,
+   OnBuildingOrUpgradeComplete,
+   OnBuildingProductionComplete,
+   getSortedTiles,
+   transportAndConsumeResources,
+   type IProduceResource,
+} from "../../../shared/logic/Update";
+import type { IClientMapEntry, IGetVotedBoostResponse } from "../../../shared/utilities/Database";
+import { setEffectHost } from "../logic/EffectHost";
+import { onBuildingComplete } from "../logic/OnBuildingComplete";
+import { onBuildingOrUpgradeComplete } from "../logic/OnBuildingOrUpgradeComplete";
+import { onProductionComplete } from "../logic/OnProductionComplete";
+import { onTileExplored } from "../logic/OnTileExplored";
+
+/**
+ * What the game event handlers need from the player map and the server, taken on the main thread before the
+ * worker starts. It does not change while the worker runs.
+ */
+export interface IOfflinePlayerMap {
+   tileBuildings: Map<string, Building>;
+   ownedOrOccupiedTiles: string[];
+   neighboringPlayers: Map<string, [string, IClientMapEntry][]>;
+   signedIn: boolean;
+   votedBoost: IGetVotedBoostResponse | null;
+}
+
+export type OfflineWorkerRequest =
+   | {
+        type: "start";
+        /** Serialized with `replacer`, the cargo of `transports` is not in it */
+        save: string;
+        transports: ITransportationDataV2[];
+        seconds: number;
+        batchSize: number;
+        playerMap: IOfflinePlayerMap;
+     }
+   | { type: "cancel" };
+
+export type OfflineWorkerResponse =
+   | { type: "progress"; ticked: number; ticksPerSecond: number }
+   | {
+        type: "done";
+        /** Serialized with `replacer`, the cargo of `transports` is not in it */
+        save: string;
+        transports: ITransportationDataV2[];
+        ticked: number;
+        /** In milliseconds */
+        elapsed: number;
+        cancelled: boolean;
+        tally: IOfflineTally;
+        achievements: string[];
+     }
+   | { type: "error"; message: string };
+
+let cancelled = false;
+
+// biome-ignore lint/suspicious/noGlobalAssign:
+onmessage = (ev: MessageEvent<OfflineWorkerRequest>) => {
+   switch (ev.data.type) {
+      case "start": {
+         run(ev.data).catch((error) => {
+            reply({ type: "error", message: String(error) });
+         });
+         break;
+      }
+      case "cancel": {
+         cancelled = true;
+         break;
+      }
+   }
+};
+
+function reply(response: OfflineWorkerResponse): void {
+   postMessage(response);
+}
+
+async function run({
+   save,
+   transports,
+   seconds,
+   batchSize,
+   playerMap,
+}: Extract<OfflineWorkerRequest, { type: "start" }>): Promise<void> {
+   Object.assign(savedGame, JSON.parse(save, reviver));
+   transports.forEach((t) => Transports.push(t));
+   const gs = savedGame.current;
+   syncLanguage(Languages[savedGame.options.language]);
+   calculateTierAndPrice();
+   setCityOverride(gs);
+
+   const achievements: string[] = [];
+   setEffectHost({
+      populateTileBuildings: () => {},
+      getTileBuilding: (xy) => playerMap.tileBuildings.get(xy),
+      getOwnedOrOccupiedTiles: () => playerMap.ownedOrOccupiedTiles,
+      getNeighboringPlayers: () => playerMap.neighboringPlayers,
+      // Same as `isAllyWith` in RPCClient
+      isAllyWith: (tile) => {
+         if (!playerMap.signedIn || !tile.city) {
+            return false;
+         }
+         return Tick.current.specialBuildings.has("LakeLouise") || tile.city === gs.city;
+      },
+      // Without a boost from the server, the handler keeps waiting for one, as it does when the server is slow
+      getVotedBoosts: () =>
+         playerMap.votedBoost ? Promise.resolve(playerMap.votedBoost) : new Promise(() => {}),
+      unlockAchievement: (key) => {
+         achievements.push(key);
+      },
+      setSpeedUp: () => {},
+      revealTile: () => {},
+      // Nobody is there to see a modal. Great people choices stay in the game state for the main thread
+      hasOpenModal: () => true,
+      chooseGreatPerson: () => {},
+      showBuildingComplete: () => {},
+      playChime: () => {},
+      playUpgrade: () => {},
+   });
+   OnTileExplored.on(onTileExplored);
+   OnBuildingComplete.on(onBuildingComplete);
+   OnBuildingOrUpgradeComplete.on(onBuildingOrUpgradeComplete);
+   OnBuildingProductionComplete.on(onProductionComplete);
+
+   const tally = makeOfflineTally();
+   const resourceProduced: IProduceResource[] = [];
+   const start = performance.now();
+   let ticked = 0;
+   while (ticked < seconds && !cancelled) {
+      const batch = Math.min(seconds - ticked, batchSize);
+      for (let i = 0; i < batch; i++) {
+         // The same as an offline tick in `tickEverySecond`
+         gs.lastClientTickAt = Date.now();
+         beginTick(gs, ++ticked);
+         for (const [xy] of getSortedTiles(gs)) {
+            transportAndConsumeResources(xy, resourceProduced, gs, true);
+         }
+         endTick(gs, resourceProduced);
+         tallyOfflineTick(tally, gs);
+      }
+      reply({ type: "progress", ticked, ticksPerSecond: (ticked * 1000) / (performance.now() - start) });
+      // Lets the cancel message in
+      await new Promise((resolve) => setTimeout(resolve, 0));
+   }
+
+   reply({
+      type: "done",
+      save: JSON.stringify(savedGame, replacer),
+      transports: Transports,
+      ticked,
+      elapsed: performance.now() - start,
+      cancelled,
+      tally,
+      achievements,
+   });
+}
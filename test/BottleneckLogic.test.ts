@@ -0,0 +1,58 @@
+import { assert, test } from "vitest";
+import { analyzeBottlenecks } from "../shared/logic/BottleneckLogic";
+import { findSpecialBuilding, getWorkersFor } from "../shared/logic/BuildingLogic";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { SavedGame } from "../shared/logic/GameState";
+import { clearIntraTickCache } from "../shared/logic/IntraTickCache";
+import { initializeGameState } from "../shared/logic/InitializeGameState";
+import { EmptyTickData, NotProducingReason, Tick } from "../shared/logic/TickLogic";
+import { makeBuilding } from "../shared/logic/Tile";
+
+calculateTierAndPrice();
+
+test("analyzeBottlenecks", () => {
+   const save = new SavedGame();
+   const gs = save.current;
+   initializeGameState(gs, save.options);
+   const hq = findSpecialBuilding("Headquarter", gs)!.tile;
+   const [bakery, mill, farm, idleFarm] = [hq + 1, hq + 2, hq + 3, hq + 4];
+   gs.tiles.get(bakery)!.building = makeBuilding({
+      type: "Bakery",
+      status: "completed",
+      level: 1,
+      resources: { Water: 100 },
+   });
+   gs.tiles.get(mill)!.building = makeBuilding({ type: "FlourMill", status: "completed", level: 1 });
+   gs.tiles.get(farm)!.building = makeBuilding({ type: "WheatFarm", status: "completed", level: 1 });
+   gs.tiles.get(idleFarm)!.building = makeBuilding({ type: "WheatFarm", status: "completed", level: 10 });
+
+   Tick.current = EmptyTickData();
+   Tick.current.notProducingReasons.set(bakery, NotProducingReason.NotEnoughResources);
+   Tick.current.notProducingReasons.set(mill, NotProducingReason.NotEnoughResources);
+   Tick.current.notProducingReasons.set(idleFarm, NotProducingReason.NotEnoughWorkers);
+   // 2 of 10 workers are free
+   Tick.current.workersAvailable.set("Worker", 10);
+   Tick.current.workersUsed.set("Worker", 8);
+   clearIntraTickCache();
+
+   const report = analyzeBottlenecks(gs);
+   assert.equal(report.groups.length, 3);
+
+   // The bakery waits for flour, which waits for wheat
+   const wheat = report.causes.find((c) => c.fix.type === "BuildProducers");
+   assert.deepEqual(wheat?.fix, {
+      type: "BuildProducers",
+      resource: "Wheat",
+      building: "WheatFarm",
+      count: 1,
+   });
+   assert.sameMembers(wheat!.tiles, [bakery, mill]);
+
+   const workers = report.causes.find((c) => c.fix.type === "AddWorkers");
+   assert.deepEqual(workers?.tiles, [idleFarm]);
+   assert.deepEqual(workers?.fix, { type: "AddWorkers", workers: getWorkersFor(idleFarm, gs).output - 2 });
+   assert.isAbove(report.totalLostValue, 0);
+   for (let i = 1; i < report.causes.length; i++) {
+      assert.isAtLeast(report.causes[i - 1].lostValue, report.causes[i].lostValue);
+   }
+});
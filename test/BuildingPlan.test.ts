@@ -0,0 +1,149 @@
+import { assert, test } from "vitest";
+import {
+   captureBuildingPlan,
+   getBuildingDisplayMap,
+   getBuildingPlanKey,
+   parseBuildingPlan,
+   validateBuildingPlan,
+} from "../shared/logic/BuildingPlan";
+import { Config } from "../shared/logic/Config";
+import { GameState } from "../shared/logic/GameState";
+import { BuildingInputMode, makeBuilding } from "../shared/logic/Tile";
+import { pointToTile } from "../shared/utilities/Helper";
+
+const displayMap = getBuildingDisplayMap();
+const coalMine = Config.Building.CoalMine.name();
+
+function errors(raw: unknown): string[] {
+   return validateBuildingPlan(raw, displayMap)
+      .issues.filter((i) => i.severity === "error")
+      .map((i) => `${i.path}: ${i.message}`);
+}
+
+test("validateBuildingPlan accepts a valid plan", () => {
+   const result = validateBuildingPlan(
+      {
+         meta: { name: "Test", version: "1.0" },
+         tasks: [
+            {
+               mode: "strip",
+               specs: [{ name: coalMine, count: 2 }],
+               options: { side: "right", width: 4, targetLevelDefault: 12 },
+            },
+            { mode: "clear", options: { minX: 1, minY: 2 } },
+         ],
+      },
+      displayMap,
+   );
+   assert.deepEqual(result.issues, []);
+   assert.equal(result.plan?.meta.version, 1);
+   const strip = result.plan?.tasks[0];
+   assert.equal(strip?.mode, "strip");
+   if (strip?.mode === "strip") {
+      assert.equal(strip.specs[0].type, "CoalMine");
+      assert.equal(strip.options.startRow, 0);
+      assert.equal(strip.options.targetLevelDefault, 12);
+   }
+   assert.deepEqual(result.plan?.tasks[1].options, { minX: 1, maxX: 1, minY: 2, maxY: 2 });
+});
+
+test("validateBuildingPlan reports errors with their JSON path", () => {
+   const result = errors({
+      meta: { name: "Test" },
+      tasks: [
+         { mode: "strip", specs: [{ name: coalMine, count: 1 }] },
+         { mode: "rect", specs: [{ name: "Iron Mine", count: 0 }], options: { minX: 5, maxX: 4, minY: 0 } },
+         { mode: "stripe", specs: [] },
+      ],
+   });
+   assert.deepEqual(result, [
+      "tasks[1].options: minX (5) must not be greater than maxX (4)",
+      'tasks[1].specs[0].name: unknown building "Iron Mine"',
+      "tasks[1].specs[0].count: must be at least 1, got 0",
+      'tasks[2].mode: unknown mode "stripe" (expected strip, rect, clear, exact, auto, region)',
+   ]);
+   assert.isNull(validateBuildingPlan({ tasks: [{ mode: "clear" }] }, displayMap).plan);
+});
+
+test("validateBuildingPlan rejects newer versions and warns about unknown keys", () => {
+   assert.deepEqual(errors({ meta: { name: "Test", version: 2 }, tasks: [] }), [
+      "meta.version: plan version 2 is newer than the supported version 1, please update the game",
+   ]);
+   const result = validateBuildingPlan(
+      { meta: { name: "Test" }, tasks: [{ mode: "clear", options: { minX: 0, minY: 0, mixX: 3 } }] },
+      displayMap,
+   );
+   assert.isNotNull(result.plan);
+   assert.deepEqual(
+      result.issues.map((i) => `${i.severity} ${i.path}`),
+      ["warning tasks[0].options.mixX"],
+   );
+});
+
+test("captureBuildingPlan produces a valid exact plan relative to the rect", () => {
+   const gs = new GameState();
+   const place = (x: number, y: number, building: ReturnType<typeof makeBuilding>) => {
+      const tile = pointToTile({ x, y });
+      gs.tiles.set(tile, { tile, deposit: {}, explored: true, building });
+   };
+   place(
+      5,
+      6,
+      makeBuilding({ type: "WheatFarm", level: 3, desiredLevel: 8, inputMode: BuildingInputMode.Amount }),
+   );
+   place(7, 6, makeBuilding({ type: "Hut", level: 2, maxInputDistance: 4 }));
+   place(6, 7, makeBuilding({ type: "Headquarter", level: 1 }));
+   place(20, 20, makeBuilding({ type: "House", level: 1 }));
+
+   const plan = captureBuildingPlan(gs, { name: "Test" }, { minX: 4, maxX: 10, minY: 5, maxY: 10 });
+   const result = validateBuildingPlan(JSON.parse(JSON.stringify(plan)), displayMap);
+   assert.deepEqual(result.issues, []);
+   assert.deepEqual(result.plan?.tasks, [
+      {
+         mode: "exact",
+         placements: [
+            { dx: 1, dy: 1, type: "WheatFarm", level: 8, inputMode: BuildingInputMode.Amount },
+            { dx: 3, dy: 1, type: "Hut", level: 2, maxInputDistance: 4 },
+         ],
+         options: { intervalMs: undefined, anchorX: 4, anchorY: 5 },
+      },
+   ]);
+   assert.deepEqual(
+      errors({
+         meta: { name: "Test" },
+         tasks: [
+            {
+               mode: "exact",
+               placements: [
+                  { dx: 0, dy: 0, type: "WheatFarm" },
+                  { dx: 0, dy: 0, type: "Hut" },
+               ],
+               options: { anchorX: 1 },
+            },
+         ],
+      }),
+      [
+         "tasks[0].options.anchorY: is required",
+         "tasks[0].placements[1]: same tile as tasks[0].placements[0]",
+      ],
+   );
+});
+
+test("parseBuildingPlan reports invalid JSON as an error", () => {
+   const broken = parseBuildingPlan('{ "meta": ', displayMap);
+   assert.isNull(broken.plan);
+   assert.equal(broken.issues.length, 1);
+   assert.equal(broken.issues[0].severity, "error");
+
+   const parsed = parseBuildingPlan(
+      JSON.stringify({
+         meta: { name: "Farms", author: "Dave" },
+         tasks: [{ mode: "clear", options: { minX: 0, minY: 0 } }],
+      }),
+      displayMap,
+   );
+   assert.deepEqual(parsed.issues, []);
+   assert.equal((parsed.raw as { tasks: unknown[] }).tasks.length, 1);
+   assert.equal(getBuildingPlanKey(parsed.plan!.meta), "Farms by Dave");
+   assert.equal(getBuildingPlanKey({ name: "Farms" }), "Farms");
+});
@@ -0,0 +1,33 @@
+import { assert, test, vi } from "vitest";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { SavedGame } from "../shared/logic/GameState";
+import { savedGame } from "../shared/logic/GameStateLogic";
+import { initializeGameState } from "../shared/logic/InitializeGameState";
+import { PlanPreflightAbortedError } from "../shared/logic/PlanPreflight";
+
+// The scripts talk to the player through these, stand-ins keep React out of the test
+const confirmPlanPreflight = vi.fn(async () => false);
+vi.mock("../src/scripts/ui/PlanPreflightModal", () => ({ confirmPlanPreflight }));
+vi.mock("../src/scripts/ui/GlobalModal", () => ({ showToast: () => {} }));
+
+calculateTierAndPrice();
+
+test("Aborting the preflight stops a script that places spec by spec", async () => {
+   const { dysonBuildPlan2 } = await import("../src/scripts/logic/davescripts");
+   const save = new SavedGame();
+   initializeGameState(save.current, save.options);
+   savedGame.current = save.current;
+   savedGame.options = save.options;
+   const buildings = Array.from(save.current.tiles.values()).filter((tile) => tile.building).length;
+
+   // None of the buildings of the plan is unlocked in a new game, the first spec already has problems
+   let error: unknown = null;
+   try {
+      await dysonBuildPlan2();
+   } catch (e) {
+      error = e;
+   }
+   assert.instanceOf(error, PlanPreflightAbortedError);
+   assert.equal(confirmPlanPreflight.mock.calls.length, 1);
+   assert.equal(Array.from(save.current.tiles.values()).filter((tile) => tile.building).length, buildings);
+});
@@ -0,0 +1,58 @@
+import { assert, test } from "vitest";
+import { findSpecialBuilding } from "../shared/logic/BuildingLogic";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { buildFlowGraph } from "../shared/logic/FlowGraph";
+import { SavedGame } from "../shared/logic/GameState";
+import { initializeGameState } from "../shared/logic/InitializeGameState";
+import { clearIntraTickCache } from "../shared/logic/IntraTickCache";
+import { EmptyTickData, Tick } from "../shared/logic/TickLogic";
+import { makeBuilding } from "../shared/logic/Tile";
+import { Transports } from "../shared/logic/Transports";
+
+calculateTierAndPrice();
+
+test("buildFlowGraph", () => {
+   const save = new SavedGame();
+   const gs = save.current;
+   initializeGameState(gs, save.options);
+   const hq = findSpecialBuilding("Headquarter", gs)!.tile;
+   const [farm, mill, bakery, planned] = [hq + 1, hq + 2, hq + 3, hq + 4];
+   gs.tiles.get(farm)!.building = makeBuilding({ type: "WheatFarm", status: "completed", level: 2 });
+   gs.tiles.get(mill)!.building = makeBuilding({ type: "FlourMill", status: "completed", level: 1 });
+   gs.tiles.get(bakery)!.building = makeBuilding({ type: "Bakery", status: "completed", level: 1 });
+   gs.tiles.get(planned)!.building = makeBuilding({ type: "FlourMill", status: "building" });
+
+   Tick.current = EmptyTickData();
+   clearIntraTickCache();
+   Transports.length = 0;
+   Transports.push({
+      id: 1,
+      fromXy: farm,
+      fromPosition: { x: 0, y: 0 },
+      toXy: mill,
+      toPosition: { x: 0, y: 0 },
+      ticksSpent: 0,
+      ticksRequired: 4,
+      resource: "Wheat",
+      amount: 8,
+      fuel: "Worker",
+      fuelPerTick: 0,
+      fuelCurrentTick: 0,
+      hasEnoughFuel: true,
+   });
+
+   const graph = buildFlowGraph(gs);
+   Transports.length = 0;
+
+   assert.deepEqual(graph.nodes.get("FlourMill")?.tiles, [mill]);
+   assert.equal(graph.nodes.get("WheatFarm")?.totalLevel, 2);
+   assert.equal(graph.nodes.get("WheatFarm")?.column, 0);
+   assert.equal(graph.nodes.get("FlourMill")?.column, 1);
+   assert.equal(graph.nodes.get("Bakery")?.column, 2);
+
+   const wheat = graph.edges.find((e) => e.from === "WheatFarm" && e.to === "FlourMill");
+   assert.equal(wheat?.resource, "Wheat");
+   assert.equal(wheat?.perSecond, 2);
+   const flour = graph.edges.find((e) => e.from === "FlourMill" && e.to === "Bakery");
+   assert.equal(flour?.perSecond, 0);
+});
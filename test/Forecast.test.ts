@@ -0,0 +1,57 @@
+import { assert, test } from "vitest";
+import { TimeSeries } from "../src/scripts/logic/TimeSeries";
+import { findSpecialBuilding } from "../shared/logic/BuildingLogic";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { copyForecastWorld, runForecast } from "../shared/logic/Forecast";
+import { SavedGame } from "../shared/logic/GameState";
+import { replacer, savedGame } from "../shared/logic/GameStateLogic";
+import { initializeGameState } from "../shared/logic/InitializeGameState";
+import { Tick } from "../shared/logic/TickLogic";
+import { getTickProfiler, makeTickProfile, setTickProfiler } from "../shared/logic/TickProfiler";
+import { makeBuilding } from "../shared/logic/Tile";
+
+calculateTierAndPrice();
+
+test("runForecast ticks a copy and leaves the live game, its statistics and play time alone", async () => {
+   const save = new SavedGame();
+   initializeGameState(save.current, save.options);
+   const hq = findSpecialBuilding("Headquarter", save.current)!;
+   save.current.tiles.get(hq.tile + 1)!.building = makeBuilding({ type: "WheatFarm", level: 1 });
+   savedGame.current = save.current;
+   savedGame.options = save.options;
+   TimeSeries.add(1, 100, 10);
+
+   const live = JSON.stringify(savedGame.current, replacer);
+   const tick = Tick.current;
+   const timeSeries = JSON.stringify(TimeSeries);
+   const world = copyForecastWorld();
+   const result = await runForecast(world, 150, null);
+
+   assert.equal(JSON.stringify(savedGame.current, replacer), live);
+   assert.equal(savedGame.current.seconds, save.current.seconds);
+   assert.strictEqual(Tick.current, tick);
+   assert.equal(JSON.stringify(TimeSeries), timeSeries);
+
+   assert.deepEqual(
+      result.samples.map((s) => s.seconds),
+      [0, 60, 120, 150],
+   );
+   assert.equal(world.current.seconds, save.current.seconds + 150);
+   assert.isAbove(result.resources.Wheat ?? 0, 0);
+});
+
+test("runForecast does not count its ticks in the tick profile", async () => {
+   const save = new SavedGame();
+   initializeGameState(save.current, save.options);
+   savedGame.current = save.current;
+   savedGame.options = save.options;
+   const profile = makeTickProfile();
+   setTickProfiler(profile);
+
+   await runForecast(copyForecastWorld(), 120, null);
+
+   assert.strictEqual(getTickProfiler(), profile);
+   assert.equal(profile.ticks, 0);
+   assert.equal(profile.phases.size, 0);
+   setTickProfiler(null);
+});
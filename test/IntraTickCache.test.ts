@@ -0,0 +1,118 @@
+import { assert, test } from "vitest";
+import type { Building } from "../shared/definitions/BuildingDefinitions";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { SavedGame } from "../shared/logic/GameState";
+import { initializeGameState } from "../shared/logic/InitializeGameState";
+import {
+   clearIntraTickCache,
+   clearTickCache,
+   getTypeBuildings,
+   getXyBuildings,
+   verifyTileCache,
+} from "../shared/logic/IntraTickCache";
+import { makeBuilding } from "../shared/logic/Tile";
+import { notifyTileChanged } from "../shared/logic/Update";
+import { srand } from "../shared/utilities/Random";
+
+calculateTierAndPrice();
+
+function makeGameState() {
+   const save = new SavedGame();
+   const gs = save.current;
+   initializeGameState(gs, save.options);
+   clearIntraTickCache();
+   return gs;
+}
+
+test("Tile cache is kept from tick to tick and patched for changed tiles", () => {
+   const gs = makeGameState();
+   const empty = Array.from(gs.tiles.values()).filter((tile) => !tile.building);
+   const [a, b] = empty;
+
+   a.building = makeBuilding({ type: "WheatFarm" });
+   notifyTileChanged(a.tile);
+   b.building = makeBuilding({ type: "WheatFarm" });
+   notifyTileChanged(b.tile);
+   const byXy = getXyBuildings(gs);
+   assert.equal(byXy.get(a.tile), a.building);
+
+   // Nothing has changed
+   clearTickCache();
+   assert.equal(getXyBuildings(gs), byXy);
+
+   // Level changes do not matter, replacing and removing is patched in
+   a.building.level = 5;
+   b.building = makeBuilding({ type: "WheatFarm", level: 2 });
+   notifyTileChanged(b.tile);
+   clearTickCache();
+   assert.equal(getXyBuildings(gs), byXy);
+   assert.equal(byXy.get(b.tile), b.building);
+   delete b.building;
+   notifyTileChanged(b.tile);
+   assert.equal(getXyBuildings(gs), byXy);
+   assert.isFalse(byXy.has(b.tile));
+   assert.equal(getTypeBuildings(gs).get("WheatFarm")?.size, 1);
+   assert.deepEqual(verifyTileCache(gs), []);
+});
+
+test("Tile cache patches in new buildings, new types and the removal of the last of a type", () => {
+   const gs = makeGameState();
+   const [a, b] = Array.from(gs.tiles.values()).filter((tile) => !tile.building);
+   const byXy = getXyBuildings(gs);
+   const byType = getTypeBuildings(gs);
+   assert.isFalse(byType.has("Hut"));
+
+   // Placed on an empty tile, the first of its type
+   b.building = makeBuilding({ type: "Hut" });
+   notifyTileChanged(b.tile);
+   a.building = makeBuilding({ type: "Hut" });
+   notifyTileChanged(a.tile);
+   clearTickCache();
+   assert.equal(getXyBuildings(gs), byXy);
+   assert.equal(getTypeBuildings(gs), byType);
+   assert.deepEqual(Array.from(byType.get("Hut")!.keys()), [a.tile, b.tile]);
+
+   // Replaced by another type, then the last of it removed
+   a.building = makeBuilding({ type: "WheatFarm" });
+   notifyTileChanged(a.tile);
+   delete b.building;
+   notifyTileChanged(b.tile);
+   clearTickCache();
+   assert.equal(getXyBuildings(gs), byXy);
+   assert.equal(getTypeBuildings(gs), byType);
+   assert.isFalse(byType.has("Hut"));
+   assert.equal(byXy.get(a.tile), a.building);
+   assert.isFalse(byXy.has(b.tile));
+   assert.deepEqual(verifyTileCache(gs), []);
+});
+
+test("Tile cache matches a full rebuild after random edits", () => {
+   const gs = makeGameState();
+   const random = srand("IntraTickCache");
+   const tiles = Array.from(gs.tiles.values()).filter((tile) => !tile.building);
+   const types: Building[] = ["WheatFarm", "FlourMill", "Bakery", "Hut"];
+   for (let round = 0; round < 20; round++) {
+      for (let i = 0; i < 10; i++) {
+         const tile = tiles[Math.floor(random() * tiles.length)];
+         if (tile.building && random() < 0.5) {
+            delete tile.building;
+         } else {
+            tile.building = makeBuilding({ type: types[Math.floor(random() * types.length)] });
+         }
+         notifyTileChanged(tile.tile);
+      }
+      clearTickCache();
+      assert.deepEqual(verifyTileCache(gs), [], `round ${round}`);
+   }
+});
+
+test("Tile cache check finds changes that have not been notified", () => {
+   const gs = makeGameState();
+   getXyBuildings(gs);
+   const tile = Array.from(gs.tiles.values()).find((tile) => !tile.building)!;
+   tile.building = makeBuilding({ type: "Hut" });
+   assert.isNotEmpty(verifyTileCache(gs));
+   // The check keeps the rebuilt cache
+   assert.deepEqual(verifyTileCache(gs), []);
+   assert.equal(getXyBuildings(gs).get(tile.tile), tile.building);
+});
@@ -0,0 +1,89 @@
+import { assert, test } from "vitest";
+import { getGameState } from "../shared/logic/GameStateLogic";
+import { getGrid } from "../shared/logic/IntraTickCache";
+import {
+   getMapBounds,
+   getRegionTiles,
+   type IRegionOrderOptions,
+   type MapRegion,
+} from "../shared/logic/MapRegion";
+import { makeBuilding } from "../shared/logic/Tile";
+import { pointToTile, tileToPoint } from "../shared/utilities/Helper";
+
+function makeMap(size: number) {
+   const gs = getGameState();
+   gs.mapSize = size;
+   gs.tiles = new Map();
+   getGrid(gs).forEach((point) => {
+      const tile = pointToTile(point);
+      gs.tiles.set(tile, { tile, deposit: {}, explored: true });
+   });
+   return gs;
+}
+
+function points(region: MapRegion, options?: IRegionOrderOptions) {
+   return getRegionTiles(region, getGameState(), options).map((tile) => {
+      const { x, y } = tileToPoint(tile);
+      return `${x},${y}`;
+   });
+}
+
+test("getRegionTiles returns the tiles of each kind of region, clipped to the map", () => {
+   const gs = makeMap(10);
+   assert.deepEqual(getMapBounds(gs), { minX: 0, maxX: 9, minY: 0, maxY: 9 });
+   assert.deepEqual(points({ kind: "strip", side: "right", width: 2, startRow: 8 }), [
+      "8,8",
+      "9,8",
+      "8,9",
+      "9,9",
+   ]);
+   assert.deepEqual(points({ kind: "rect", minX: 8, maxX: 12, minY: 9, maxY: 9 }), ["8,9", "9,9"]);
+   assert.deepEqual(points({ kind: "strip", side: "left", width: 0 }), []);
+
+   const ring = getRegionTiles({ kind: "ring", x: 5, y: 5, radius: 1 }, gs);
+   assert.equal(ring.length, 6);
+   assert.isTrue(ring.every((tile) => getGrid(gs).distanceTile(tile, pointToTile({ x: 5, y: 5 })) === 1));
+
+   const triangle = points({
+      kind: "polygon",
+      points: [
+         { x: 0, y: 0 },
+         { x: 4, y: 0 },
+         { x: 0, y: 4 },
+      ],
+   });
+   assert.equal(triangle.length, 15);
+   assert.includeMembers(triangle, ["0,0", "4,0", "0,4", "2,2"]);
+   assert.notInclude(triangle, "3,2");
+
+   gs.tiles.get(pointToTile({ x: 1, y: 1 }))!.deposit.Iron = true;
+   gs.tiles.get(pointToTile({ x: 8, y: 8 }))!.deposit.Iron = true;
+   gs.tiles.get(pointToTile({ x: 8, y: 8 }))!.building = makeBuilding({ type: "IronMiningCamp" });
+   assert.deepEqual(points({ kind: "deposit", deposits: ["Iron"] }), ["1,1"]);
+});
+
+test("getRegionTiles orders tiles by scan, nearest first or spiral", () => {
+   const gs = makeMap(10);
+   const rect: MapRegion = { kind: "rect", minX: 0, maxX: 2, minY: 0, maxY: 2 };
+   assert.deepEqual(points(rect).slice(0, 2), ["0,0", "1,0"]);
+   const corner = pointToTile({ x: 9, y: 9 });
+   const nearest = getRegionTiles(rect, gs, { order: "nearest", origin: corner });
+   const distanceToCorner = nearest.map((tile) => getGrid(gs).distanceTile(tile, corner));
+   assert.deepEqual(
+      distanceToCorner,
+      [...distanceToCorner].sort((a, b) => a - b),
+   );
+   assert.equal(nearest.length, 9);
+
+   const origin = pointToTile({ x: 5, y: 5 });
+   const spiral = getRegionTiles({ kind: "rect", minX: 3, maxX: 7, minY: 3, maxY: 7 }, gs, {
+      order: "spiral",
+      origin,
+   });
+   assert.equal(spiral[0], origin);
+   const distances = spiral.map((tile) => getGrid(gs).distanceTile(tile, origin));
+   assert.deepEqual(
+      distances,
+      [...distances].sort((a, b) => a - b),
+   );
+});
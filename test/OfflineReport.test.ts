@@ -0,0 +1,65 @@
+import { assert, test } from "vitest";
+import { findSpecialBuilding, IOFlags } from "../shared/logic/BuildingLogic";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { SavedGame } from "../shared/logic/GameState";
+import { initializeGameState } from "../shared/logic/InitializeGameState";
+import { clearIntraTickCache, getBuildingIO } from "../shared/logic/IntraTickCache";
+import { makeOfflineReport, makeOfflineTally, tallyOfflineTick } from "../shared/logic/OfflineReport";
+import { EmptyTickData, NotProducingReason, Tick } from "../shared/logic/TickLogic";
+import { makeBuilding } from "../shared/logic/Tile";
+
+calculateTierAndPrice();
+
+test("makeOfflineReport", () => {
+   const save = new SavedGame();
+   const gs = save.current;
+   initializeGameState(gs, save.options);
+   const hq = findSpecialBuilding("Headquarter", gs)!.tile;
+   const [farm, idleFarm, mill] = [hq + 1, hq + 2, hq + 3];
+   gs.tiles.get(farm)!.building = makeBuilding({ type: "WheatFarm", status: "completed", level: 1 });
+   gs.tiles.get(idleFarm)!.building = makeBuilding({ type: "WheatFarm", status: "completed", level: 1 });
+   gs.tiles.get(mill)!.building = makeBuilding({ type: "FlourMill", status: "building", level: 0 });
+   const before = structuredClone(gs);
+
+   Tick.current = EmptyTickData();
+   Tick.current.notProducingReasons.set(idleFarm, NotProducingReason.NotEnoughWorkers);
+   clearIntraTickCache();
+   const wheat = getBuildingIO(farm, "output", IOFlags.Multiplier | IOFlags.Capacity, gs).Wheat!;
+   const tally = makeOfflineTally();
+   for (let i = 0; i < 3; i++) {
+      tallyOfflineTick(tally, gs);
+   }
+
+   gs.tiles.get(farm)!.building!.resources.Wheat = 3 * wheat;
+   gs.tiles.get(mill)!.building!.status = "completed";
+   gs.tiles.get(mill)!.building!.level = 1;
+   gs.unlockedTech.Farming = true;
+
+   const report = makeOfflineReport(before, gs, tally, {
+      endedAt: 0,
+      totalOfflineTime: 3,
+      offlineProductionTime: 3,
+      ticksPerSecond: 0,
+      warpFull: false,
+   });
+   assert.equal(report.ticks, 3);
+
+   const resource = report.resources.find((r) => r.res === "Wheat");
+   assert.equal(resource?.produced, 3 * wheat);
+   assert.equal(resource?.after, 3 * wheat);
+
+   const farms = report.buildings.find((b) => b.building === "WheatFarm");
+   assert.equal(farms?.workingTicks, 3);
+   assert.equal(farms?.stalledTicks, 3);
+   const mills = report.buildings.find((b) => b.building === "FlourMill");
+   assert.equal(mills?.completed, 1);
+   assert.equal(mills?.levelsGained, 1);
+
+   const stalled = report.tiles.find((t) => t.xy === idleFarm);
+   assert.deepEqual(stalled?.stalled, { [NotProducingReason.NotEnoughWorkers]: 3 });
+   assert.equal(report.tiles.find((t) => t.xy === farm)?.resources.Wheat, 3 * wheat);
+   assert.isTrue(report.tiles.find((t) => t.xy === mill)?.completed);
+
+   assert.include(report.techs, "Farming");
+   assert.deepEqual(JSON.parse(JSON.stringify(report)), report);
+});
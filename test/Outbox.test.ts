@@ -0,0 +1,102 @@
+import { assert, test } from "vitest";
+import { RpcError } from "../shared/thirdparty/TRPCClient";
+import {
+   flushOutbox,
+   queueOutboxAction,
+   restoreOutboxActions,
+   type IOutboxAction,
+} from "../shared/utilities/Outbox";
+import { InvalidRpcResultError } from "../shared/utilities/ServerRpc";
+
+test("flushOutbox sends in order, keeps rejected actions and stops when the connection is lost", async () => {
+   const actions: IOutboxAction[] = [];
+   const tariff = queueOutboxAction(actions, "setTariffRate", 0.1);
+   const cancel = queueOutboxAction(actions, "cancelTrade", "trade");
+   const vote = queueOutboxAction(actions, "voteBoosts", 1);
+   assert.notEqual(tariff.key, cancel.key);
+
+   const sent: string[] = [];
+   const accepted: string[] = [];
+   const rejected: string[] = [];
+   let connected = true;
+   const callbacks = {
+      send: async (action: IOutboxAction) => {
+         if (!connected) {
+            throw "WebSocket is closed";
+         }
+         sent.push(action.method);
+         if (action.method === "cancelTrade") {
+            throw new RpcError("Trade is not found", -32603);
+         }
+         if (action.method === "setTariffRate") {
+            // Queued while sending, goes out in the same flush
+            queueOutboxAction(actions, "voteTradeTileBonus", 0);
+            connected = false;
+         }
+         return undefined as never;
+      },
+      onAccepted: (action: IOutboxAction) => accepted.push(action.method),
+      onRejected: (action: IOutboxAction) => rejected.push(action.method),
+      onUnconfirmed: () => assert.fail(),
+      onChanged: () => {},
+   };
+
+   assert.isFalse(await flushOutbox(actions, callbacks));
+   assert.deepEqual(sent, ["setTariffRate"]);
+   assert.deepEqual(accepted, ["setTariffRate"]);
+   assert.deepEqual(
+      actions.map((a) => a.status),
+      ["pending", "pending", "pending"],
+   );
+   assert.equal(actions[0].attempts, 1);
+
+   connected = true;
+   assert.isTrue(await flushOutbox(actions, callbacks));
+   assert.deepEqual(sent, ["setTariffRate", "cancelTrade", "voteBoosts", "voteTradeTileBonus"]);
+   assert.deepEqual(rejected, ["cancelTrade"]);
+   assert.deepEqual(actions, [{ ...cancel, status: "rejected", attempts: 2, error: "Trade is not found" }]);
+   assert.isFalse(actions.includes(vote));
+});
+
+test("flushOutbox flags actions with an answer it cannot read and carries on", async () => {
+   const actions: IOutboxAction[] = [];
+   const claim = queueOutboxAction(actions, "claimTradesV2", { claim: 1 });
+   queueOutboxAction(actions, "voteBoosts", 1);
+   const rejected: string[] = [];
+   const unconfirmed: string[] = [];
+   assert.isTrue(
+      await flushOutbox(actions, {
+         send: async (action) => {
+            if (action.method === "claimTradesV2") {
+               throw new InvalidRpcResultError("claimTradesV2.resources is missing", {});
+            }
+            return undefined as never;
+         },
+         onAccepted: () => {},
+         onRejected: (action) => rejected.push(action.method),
+         onUnconfirmed: (action) => unconfirmed.push(action.method),
+         onChanged: () => {},
+      }),
+   );
+   assert.deepEqual(rejected, []);
+   assert.deepEqual(unconfirmed, ["claimTradesV2"]);
+   assert.deepEqual(actions, [
+      {
+         ...claim,
+         status: "unconfirmed",
+         attempts: 1,
+         error: "Invalid response from server: claimTradesV2.resources is missing",
+      },
+   ]);
+});
+
+test("restoreOutboxActions", () => {
+   const actions: IOutboxAction[] = [];
+   queueOutboxAction(actions, "setTariffRate", 0.1).status = "sending";
+   queueOutboxAction(actions, "voteBoosts", 1).status = "rejected";
+   queueOutboxAction(actions, "voteTradeTileBonus", 0).status = "unconfirmed";
+   assert.deepEqual(
+      restoreOutboxActions(actions).map((a) => a.status),
+      ["pending", "rejected", "unconfirmed"],
+   );
+});
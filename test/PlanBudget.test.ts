@@ -0,0 +1,37 @@
+import { assert, test } from "vitest";
+import { getTotalBuildingCost } from "../shared/logic/BuildingLogic";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { getGameState } from "../shared/logic/GameStateLogic";
+import { estimatePlan, fitPlanToBudget, getConstructionSeconds } from "../shared/logic/PlanBudget";
+import { Tick } from "../shared/logic/TickLogic";
+import { PRIORITY_MAX } from "../shared/logic/Tile";
+
+test("fitPlanToBudget staggers or lowers levels to fit the stock and time budget", () => {
+   calculateTierAndPrice();
+   const gs = getGameState();
+   const level10 = getTotalBuildingCost({ type: "WheatFarm" }, 0, 10).Wood!;
+   Tick.current = { ...Tick.current, resourceAmount: new Map([["Wood", level10 * 2]]) };
+   const items = [1, 2, 3].map((tile) => ({ type: "WheatFarm" as const, level: 10, tile }));
+   const seconds = getConstructionSeconds("WheatFarm", 10, 1, gs);
+   assert.equal(seconds[0], 0);
+   assert.isTrue(seconds[10] > seconds[5]);
+
+   const before = estimatePlan(items, gs);
+   assert.equal(before.cost.Wood, level10 * 3);
+   assert.equal(before.missing.Wood, level10);
+   assert.equal(before.seconds, seconds[10]);
+
+   const staggered = fitPlanToBudget(items, { strategy: "stagger", seconds: seconds[10] * 2 }, gs);
+   assert.deepEqual(
+      staggered.map((i) => i.priority),
+      [PRIORITY_MAX, PRIORITY_MAX, PRIORITY_MAX - 1],
+   );
+   assert.equal(estimatePlan(staggered, gs).seconds, seconds[10] * 2);
+   assert.equal(fitPlanToBudget(items, { strategy: "stagger", seconds: seconds[10] }, gs).length, 2);
+
+   const lowered = fitPlanToBudget(items, { strategy: "level", seconds: seconds[5] }, gs);
+   assert.deepEqual(
+      lowered.map((i) => i.level),
+      [5, 5, 5],
+   );
+});
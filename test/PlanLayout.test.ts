@@ -0,0 +1,38 @@
+import { assert, test } from "vitest";
+import { getGameState } from "../shared/logic/GameStateLogic";
+import { solveAutoLayout } from "../shared/logic/PlanLayout";
+import { pointToTile, tileToPoint } from "../shared/utilities/Helper";
+
+test("solveAutoLayout puts extractors on deposits and consumers next to their suppliers", () => {
+   const gs = getGameState();
+   gs.tiles = new Map();
+   const candidates = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map((x) => {
+      const tile = pointToTile({ x, y: 0 });
+      gs.tiles.set(tile, { tile, deposit: {}, explored: true });
+      return tile;
+   });
+   gs.tiles.get(pointToTile({ x: 7, y: 0 }))!.deposit.Iron = true;
+   gs.tiles.get(pointToTile({ x: 8, y: 0 }))!.deposit.Iron = true;
+
+   const layout = solveAutoLayout(
+      [
+         { type: "CannonWorkshop", count: 1, level: 1 },
+         { type: "IronMiningCamp", count: 1, level: 1 },
+         { type: "IronMiningCamp", count: 2, level: 1 },
+      ],
+      candidates,
+      () => undefined,
+      gs,
+   );
+   assert.deepEqual(
+      layout.placements.map((p) => [p.type, tileToPoint(p.tile).x, p.spec]),
+      [
+         ["IronMiningCamp", 7, 1],
+         ["IronMiningCamp", 8, 2],
+         // Next to the camps, without taking a tile with a deposit
+         ["CannonWorkshop", 6, 0],
+      ],
+   );
+   assert.equal(layout.unplaced.get("IronMiningCamp"), 1);
+   assert.equal(layout.distance, 2);
+});
@@ -0,0 +1,63 @@
+import { assert, test } from "vitest";
+import { Config } from "../shared/logic/Config";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { getGameState } from "../shared/logic/GameStateLogic";
+import { clearIntraTickCache } from "../shared/logic/IntraTickCache";
+import { hasPreflightProblems, preflightBuildingPlan } from "../shared/logic/PlanPreflight";
+import { getBuildingUnlockTech } from "../shared/logic/TechLogic";
+import { makeBuilding } from "../shared/logic/Tile";
+import { pointToTile } from "../shared/utilities/Helper";
+
+test("preflightBuildingPlan explains per spec why a plan falls short", () => {
+   calculateTierAndPrice();
+   const gs = getGameState();
+   gs.tiles = new Map();
+   gs.unlockedTech = { Iron: true };
+   clearIntraTickCache();
+   const coords = [0, 1, 2, 3].map((x) => ({ x, y: 0 }));
+   coords.forEach((point) => {
+      const tile = pointToTile(point);
+      gs.tiles.set(tile, { tile, deposit: {}, explored: true });
+   });
+   gs.tiles.get(pointToTile({ x: 1, y: 0 }))!.deposit.Iron = true;
+   gs.tiles.get(pointToTile({ x: 3, y: 0 }))!.building = makeBuilding({ type: "Hut" });
+
+   const report = preflightBuildingPlan(
+      [
+         { type: "IronMiningCamp", count: 2 },
+         { type: "CoalMine", count: 1 },
+         { type: "Statistics", count: 2 },
+      ],
+      coords,
+      gs,
+   );
+   assert.equal(report.emptyTiles, 3);
+   assert.isTrue(hasPreflightProblems(report));
+   assert.deepEqual(
+      report.specs.map((spec) => [spec.expected, spec.problems]),
+      [
+         [2, [`${Config.Material.Iron.name()} deposit not found on 1 of its tiles`]],
+         [
+            1,
+            [
+               `locked, requires ${Config.Tech[getBuildingUnlockTech("CoalMine")].name()}`,
+               `${Config.Material.Coal.name()} deposit is not revealed yet`,
+            ],
+         ],
+         [
+            0,
+            [
+               `locked, requires ${Config.Tech[getBuildingUnlockTech("Statistics")].name()}`,
+               "only 1 more allowed",
+               "only 0 empty tiles left in the area",
+            ],
+         ],
+      ],
+   );
+
+   // The tile reserved for a power plant is not available to the plan
+   assert.equal(
+      preflightBuildingPlan([{ type: "IronMiningCamp", count: 3 }], coords, gs, 1).specs[0].expected,
+      2,
+   );
+});
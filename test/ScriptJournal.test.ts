@@ -0,0 +1,87 @@
+import { assert, test } from "vitest";
+import type { GameState } from "../shared/logic/GameState";
+import { getGameState } from "../shared/logic/GameStateLogic";
+import {
+   SCRIPT_JOURNAL_MAX_ENTRIES,
+   rollbackInterruptedScripts,
+   runJournaled,
+   setTileBuilding,
+   undoLastScript,
+} from "../shared/logic/ScriptJournal";
+import { makeBuilding, type ITileData } from "../shared/logic/Tile";
+
+function makeGameState(): { gs: GameState; a: ITileData; b: ITileData } {
+   const gs = getGameState();
+   gs.tiles = new Map();
+   gs.scriptJournal = [];
+   const a: ITileData = { tile: 1, deposit: {}, explored: true };
+   const b: ITileData = { tile: 2, deposit: {}, explored: true };
+   a.building = makeBuilding({ type: "WheatFarm", level: 5 });
+   gs.tiles.set(a.tile, a);
+   gs.tiles.set(b.tile, b);
+   return { gs, a, b };
+}
+
+test("undoLastScript restores the buildings from before the script", async () => {
+   const { gs, a, b } = makeGameState();
+   await runJournaled(
+      "test",
+      () => {
+         setTileBuilding(a, undefined, gs);
+         setTileBuilding(b, makeBuilding({ type: "Hut" }), gs);
+         // Only the state before the first change counts
+         setTileBuilding(b, makeBuilding({ type: "House" }), gs);
+      },
+      gs,
+   );
+   assert.isUndefined(a.building);
+   assert.equal(b.building?.type, "House");
+   assert.equal(gs.scriptJournal.length, 1);
+
+   const undone = undoLastScript(gs);
+   assert.equal(undone?.name, "test");
+   assert.equal(a.building?.type, "WheatFarm");
+   assert.equal(a.building?.level, 5);
+   assert.isUndefined(b.building);
+   assert.equal(gs.scriptJournal.length, 0);
+   assert.isUndefined(undoLastScript(gs));
+});
+
+test("Nested scripts join the outer entry and history is bounded", async () => {
+   const { gs, a, b } = makeGameState();
+   await runJournaled(
+      "outer",
+      async () => {
+         setTileBuilding(a, undefined, gs);
+         await runJournaled("inner", () => setTileBuilding(b, makeBuilding({ type: "Hut" }), gs), gs);
+      },
+      gs,
+   );
+   assert.equal(gs.scriptJournal.length, 1);
+   assert.equal(gs.scriptJournal[0].tiles.size, 2);
+
+   for (let i = 0; i < SCRIPT_JOURNAL_MAX_ENTRIES + 2; i++) {
+      await runJournaled(`script${i}`, () => setTileBuilding(b, makeBuilding({ type: "Hut" }), gs), gs);
+   }
+   assert.equal(gs.scriptJournal.length, SCRIPT_JOURNAL_MAX_ENTRIES);
+   assert.equal(
+      gs.scriptJournal[SCRIPT_JOURNAL_MAX_ENTRIES - 1].name,
+      `script${SCRIPT_JOURNAL_MAX_ENTRIES + 1}`,
+   );
+});
+
+test("rollbackInterruptedScripts undoes scripts that never completed", () => {
+   const { gs, a } = makeGameState();
+   // What a save made mid-script looks like
+   gs.scriptJournal.push({
+      name: "crashed",
+      startedAt: 0,
+      completed: false,
+      tiles: new Map([[a.tile, structuredClone(a.building!)]]),
+   });
+   a.building = makeBuilding({ type: "Hut" });
+   const rolledBack = rollbackInterruptedScripts(gs);
+   assert.equal(rolledBack.length, 1);
+   assert.equal(a.building?.type, "WheatFarm");
+   assert.equal(gs.scriptJournal.length, 0);
+});
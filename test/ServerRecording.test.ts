@@ -0,0 +1,66 @@
+import { assert, test } from "vitest";
+import { type AllMessageTypes, MessageType } from "../shared/utilities/Database";
+import {
+   ServerReplay,
+   checkServerRecording,
+   makeServerRecording,
+   recordServerMessage,
+} from "../shared/utilities/ServerRecording";
+
+test("A recording is replayed at its pace and RPC results are matched by method", () => {
+   const recording = makeServerRecording(1000);
+   const welcome = {
+      type: MessageType.Welcome,
+      user: { token: "token", ip: "127.0.0.1" },
+   } as AllMessageTypes;
+   recordServerMessage(recording, welcome, undefined, 1000);
+   recordServerMessage(recording, { type: MessageType.RPC, data: { id: 7, result: 1 } }, "getPlayTime", 1200);
+   recordServerMessage(recording, { type: MessageType.Trade, upsert: [] }, undefined, 1500);
+   recordServerMessage(recording, { type: MessageType.RPC, data: { id: 9, result: 2 } }, "getPlayTime", 1600);
+   recordServerMessage(recording, { type: MessageType.PendingClaim, claims: {} }, undefined, 2000);
+   assert.isNull(checkServerRecording(recording));
+   // Recorded messages are copies
+   assert.notStrictEqual(recording.messages[0].message, welcome);
+   assert.deepEqual(recording.messages[0].message, {
+      type: MessageType.Welcome,
+      user: { token: null, ip: "" },
+   });
+
+   const received: AllMessageTypes[] = [];
+   const replay = new ServerReplay(recording, (m) => received.push(m));
+   assert.equal(replay.nextTime(), 0);
+   replay.advanceTo(0);
+   assert.deepEqual(
+      received.map((m) => m.type),
+      [MessageType.Welcome],
+   );
+   assert.equal(replay.nextTime(), 500);
+   replay.advanceTo(1000);
+   assert.deepEqual(
+      received.map((m) => m.type),
+      [MessageType.Welcome, MessageType.Trade, MessageType.PendingClaim],
+   );
+   assert.isNull(replay.nextTime());
+
+   received.length = 0;
+   replay.request(1, "getPlayTime");
+   replay.request(2, "getPlayTime");
+   replay.request(3, "getPlayTime");
+   assert.deepEqual(received[0], { type: MessageType.RPC, data: { id: 1, result: 1 } });
+   assert.deepEqual(received[1], { type: MessageType.RPC, data: { id: 2, result: 2 } });
+   assert.equal(
+      received[2].type === MessageType.RPC && received[2].data.error.message,
+      "No recorded result for getPlayTime",
+   );
+});
+
+test("checkServerRecording", () => {
+   assert.equal(checkServerRecording(null), "recording should be an object, not null");
+   const recording = makeServerRecording();
+   assert.equal(
+      checkServerRecording(recording),
+      "Recording has no welcome message, it should be started before the client connects",
+   );
+   recording.version = 2;
+   assert.equal(checkServerRecording(recording), "Recording version 2 is not supported");
+});
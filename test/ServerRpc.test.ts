@@ -0,0 +1,40 @@
+import { assert, test } from "vitest";
+import { checkRpcResult } from "../shared/utilities/ServerRpc";
+
+test("checkRpcResult", () => {
+   assert.isNull(checkRpcResult("getPlayTime", 100));
+   assert.equal(checkRpcResult("getPlayTime", "100"), "getPlayTime should be a number, not string");
+   // Void results are not looked at
+   assert.isNull(checkRpcResult("chat", { anything: true }));
+   // Unknown methods are not checked
+   assert.isNull(checkRpcResult("somethingNew", null));
+
+   const trade = {
+      id: "t",
+      status: "open",
+      fromId: "u",
+      buyResource: "Wheat",
+      buyAmount: 10,
+      sellResource: "Iron",
+      sellAmount: 5,
+   };
+   assert.isNull(checkRpcResult("cancelTrade", trade));
+   // Fields the client does not know about are let through
+   assert.isNull(checkRpcResult("cancelTrade", { ...trade, extra: 1 }));
+   assert.equal(
+      checkRpcResult("cancelTrade", { ...trade, sellAmount: null }),
+      "cancelTrade.sellAmount should be a number, not null",
+   );
+
+   assert.isNull(checkRpcResult("claimTradesV2", { resources: { Wheat: 1 } }));
+   assert.equal(
+      checkRpcResult("claimTradesV2", { resources: { Wheat: "1" } }),
+      "claimTradesV2.resources.Wheat should be a number, not string",
+   );
+   assert.equal(
+      checkRpcResult("getPendingClaims", [{ id: "c", resource: "Wheat", amount: 1, fillBy: "u" }]),
+      "getPendingClaims[0].flag should be a number, not undefined",
+   );
+   assert.isNull(checkRpcResult("getOptionsFromServer", null));
+   assert.equal(checkRpcResult("queryPlayerSave", []), "queryPlayerSave should be bytes, not an array");
+});
@@ -0,0 +1,40 @@
+import { assert, test } from "vitest";
+import { findSpecialBuilding } from "../shared/logic/BuildingLogic";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { SavedGame } from "../shared/logic/GameState";
+import { deserializeSave, replacer, serializeSave } from "../shared/logic/GameStateLogic";
+import { initializeGameState } from "../shared/logic/InitializeGameState";
+import { Simulation, type SimulationEvent } from "../shared/logic/Simulation";
+import { makeBuilding } from "../shared/logic/Tile";
+
+calculateTierAndPrice();
+
+function makeSave(): string {
+   const save = new SavedGame();
+   initializeGameState(save.current, save.options);
+   const hq = findSpecialBuilding("Headquarter", save.current)!;
+   save.current.tiles.get(hq.tile + 1)!.building = makeBuilding({ type: "WheatFarm", status: "building" });
+   return serializeSave(save);
+}
+
+function run(json: string, ticks: number): { state: string; events: (SimulationEvent & { tick: number })[] } {
+   const simulation = new Simulation(deserializeSave(json), 1000);
+   const events: (SimulationEvent & { tick: number })[] = [];
+   simulation.onEvent.on((e) => events.push(e));
+   simulation.step(ticks);
+   simulation.dispose();
+   assert.equal(simulation.ticks, ticks);
+   assert.equal(simulation.now, 1000 + ticks * 1000);
+   return { state: JSON.stringify(simulation.gameState, replacer), events };
+}
+
+test("Simulation advances a save the same way every time", () => {
+   const json = makeSave();
+   const start = deserializeSave(json).current.tick;
+   const a = run(json, 30);
+   const b = run(json, 30);
+   assert.equal(a.state, b.state);
+   assert.deepEqual(a.events, b.events);
+   assert.equal(JSON.parse(a.state).tick, start + 30);
+   assert.isTrue(a.events.some((e) => e.type === "buildingComplete"));
+});
@@ -0,0 +1,49 @@
+import { assert, test } from "vitest";
+import {
+   addStatSample,
+   getStatSeries,
+   makeStatSeries,
+   statSeriesToCsv,
+   StatTiers,
+} from "../shared/logic/StatSeries";
+
+test("addStatSample", () => {
+   const series = makeStatSeries("a");
+   for (let i = 0; i < 120; i++) {
+      addStatSample(series, "a", { EmpireValue: i, ...(i >= 60 ? { "Produce.Wheat": 2 } : {}) });
+   }
+   assert.deepEqual(getStatSeries(series, "minute", "EmpireValue"), [
+      [60, 120],
+      [29.5, 89.5],
+   ]);
+   // A series that shows up later is 0 before
+   assert.deepEqual(getStatSeries(series, "minute", "Produce.Wheat")[1], [0, 2]);
+   assert.deepEqual(getStatSeries(series, "hour", "EmpireValue"), [[], []]);
+   // The current run is averaged so far
+   assert.deepEqual(getStatSeries(series, "run", "EmpireValue"), [[120], [59.5]]);
+
+   addStatSample(series, "b", { EmpireValue: 10 });
+   assert.deepEqual(series.run.ids, ["a"]);
+   assert.deepEqual(getStatSeries(series, "run", "EmpireValue"), [
+      [120, 1],
+      [59.5, 10],
+   ]);
+
+   assert.equal(
+      statSeriesToCsv(series, "minute", ["EmpireValue", "Produce.Wheat"], 1),
+      "Tick,EmpireValue,Produce.Wheat\n120,89.5,2",
+   );
+});
+
+test("addStatSample keeps the capacity of a tier", () => {
+   const series = makeStatSeries("a");
+   const { ticks, capacity } = StatTiers.minute;
+   for (let i = 0; i < ticks * (capacity + 5); i++) {
+      addStatSample(series, "a", { EmpireValue: 1 });
+   }
+   const [x, y] = getStatSeries(series, "minute", "EmpireValue");
+   assert.equal(x.length, capacity);
+   assert.equal(y.length, capacity);
+   assert.equal(x[0], ticks * 6);
+   assert.equal(series.hour.x.length, Math.floor((ticks * (capacity + 5)) / StatTiers.hour.ticks));
+});
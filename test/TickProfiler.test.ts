@@ -0,0 +1,54 @@
+import { assert, test } from "vitest";
+import { findSpecialBuilding } from "../shared/logic/BuildingLogic";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { SavedGame } from "../shared/logic/GameState";
+import { initializeGameState } from "../shared/logic/InitializeGameState";
+import { Simulation } from "../shared/logic/Simulation";
+import {
+   ProfileRecentTicks,
+   makeTickProfile,
+   makeTickProfileTrace,
+   setTickProfiler,
+} from "../shared/logic/TickProfiler";
+import { makeBuilding } from "../shared/logic/Tile";
+
+calculateTierAndPrice();
+
+test("Ticks are profiled per phase and building type while a profiler is set", () => {
+   const save = new SavedGame();
+   initializeGameState(save.current, save.options);
+   const hq = findSpecialBuilding("Headquarter", save.current)!;
+   save.current.tiles.get(hq.tile + 1)!.building = makeBuilding({
+      type: "WheatFarm",
+      status: "completed",
+      level: 1,
+   });
+   const simulation = new Simulation(save);
+
+   simulation.step(1);
+   const profile = makeTickProfile();
+   assert.isNull(setTickProfiler(profile));
+   simulation.step(ProfileRecentTicks + 5);
+   assert.equal(setTickProfiler(null), profile);
+   simulation.step(1);
+   simulation.dispose();
+
+   assert.equal(profile.ticks, ProfileRecentTicks + 5);
+   for (const phase of ["tickPrice", "getSortedTiles", "tickPower"] as const) {
+      const stat = profile.phases.get(phase);
+      assert.isDefined(stat, phase);
+      assert.equal(stat!.calls, profile.ticks, phase);
+      assert.equal(stat!.recent.length, ProfileRecentTicks, phase);
+   }
+   // Once per building and tick
+   assert.isAtLeast(profile.phases.get("transportAndConsumeResources")!.calls, 2 * profile.ticks);
+   const farm = profile.buildings.get("WheatFarm")!;
+   assert.equal(farm.calls, profile.ticks);
+   assert.isAtLeast(farm.max, 0);
+   assert.isTrue(profile.buildings.has("Headquarter"));
+
+   const trace = JSON.parse(JSON.stringify(makeTickProfileTrace(profile)));
+   assert.equal(trace.ticks, profile.ticks);
+   assert.equal(trace.buildings.WheatFarm.calls, profile.ticks);
+   assert.closeTo(trace.phases.tickPower.mean, profile.phases.get("tickPower")!.total / profile.ticks, 1e-9);
+});
@@ -0,0 +1,164 @@
+import { assert, test } from "vitest";
+import { Config } from "../shared/logic/Config";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import {
+   getBuyAmountRange,
+   getMaxActiveTrades,
+   getUserTradePriceRange,
+} from "../shared/logic/PlayerTradeLogic";
+import {
+   addTradeBotLog,
+   getFillAmount,
+   getFillCandidates,
+   getFillDiscount,
+   getStaleTrades,
+   getStockGaps,
+   planTradePosts,
+   TRADE_BOT_LOG_MAX_ENTRIES,
+   updateTradeBotState,
+   type ITradeBotLogEntry,
+   type ITradeBotOptions,
+   type ITradeBotState,
+} from "../shared/logic/TradeBot";
+import {
+   AccountLevel,
+   UserAttributes,
+   UserColors,
+   type IAddTradeRequest,
+   type IClientTrade,
+   type IUser,
+} from "../shared/utilities/Database";
+import { HOUR } from "../shared/utilities/Helper";
+
+calculateTierAndPrice();
+
+const user: IUser = {
+   userId: "me",
+   handle: "me",
+   token: null,
+   lastDisconnectAt: 0,
+   lastHeartbeatAt: 0,
+   lastGameTick: 0,
+   totalPlayTime: 0,
+   color: UserColors.Default,
+   tradeValues: [],
+   level: AccountLevel.Tribune,
+   flag: "EARTH",
+   ip: "ip",
+   attr: UserAttributes.None,
+   lastTradedAt: 0,
+};
+
+const options: ITradeBotOptions = {
+   enabled: true,
+   bands: { Wood: { min: 100, max: 200 }, Brick: { min: 100, max: 200 }, Stone: { min: 100, max: 200 } },
+   postPremium: 1,
+   fillDiscount: 0,
+   staleSeconds: HOUR / 1000,
+   intervalSeconds: 60,
+};
+
+function makeTrade(id: string, fromId: string, trade: IAddTradeRequest): IClientTrade {
+   return {
+      ...trade,
+      id,
+      fromId,
+      status: "open",
+      from: fromId,
+      fromFlag: "EARTH",
+      fromLevel: AccountLevel.Tribune,
+      fromAttr: UserAttributes.None,
+   };
+}
+
+test("getStockGaps only covers materials with a band and counts open trades as stock", () => {
+   const gaps = getStockGaps(options, { Wood: 500, Brick: 50, Stone: 150, Copper: 1000 }, { Brick: 20 });
+   assert.deepEqual(gaps, { Wood: 300, Brick: -30 });
+});
+
+test("planTradePosts pairs surplus with deficit within the price range and the trade slots", () => {
+   const gaps = getStockGaps(options, { Wood: 1000, Brick: 0, Stone: 0 });
+   const posts = planTradePosts(options, gaps, user, 0);
+   assert.equal(posts.length, getMaxActiveTrades(user));
+   posts.forEach((trade) => {
+      assert.equal(trade.sellResource, "Wood");
+      assert.equal(trade.buyAmount, getBuyAmountRange(trade, getUserTradePriceRange(user)).max);
+      assert.isAtMost(
+         trade.sellAmount * Config.MaterialPrice.Wood!,
+         100 * Config.MaterialPrice[trade.buyResource]!,
+      );
+   });
+   assert.sameMembers(
+      posts.map((trade) => trade.buyResource),
+      ["Brick", "Stone"],
+   );
+   assert.equal(planTradePosts(options, gaps, user, getMaxActiveTrades(user)).length, 0);
+   assert.equal(
+      planTradePosts(options, getStockGaps(options, { Wood: 1000, Brick: 150, Stone: 150 }), user, 0).length,
+      0,
+   );
+});
+
+test("fills only take trades that bring a material back into its band at a discount", () => {
+   const gaps = getStockGaps(options, { Wood: 1000, Brick: 50, Stone: 150 });
+   const fair = (sellAmount: number) =>
+      (sellAmount * Config.MaterialPrice.Brick!) / Config.MaterialPrice.Wood!;
+   const cheap = makeTrade("cheap", "other", {
+      sellResource: "Brick",
+      sellAmount: 100,
+      buyResource: "Wood",
+      buyAmount: fair(100) * 0.9,
+   });
+   const expensive = makeTrade("expensive", "other", { ...cheap, buyAmount: fair(100) * 1.1 });
+   const mine = makeTrade("mine", user.userId, cheap);
+   const unwanted = makeTrade("unwanted", "other", { ...cheap, sellResource: "Stone" });
+   assert.deepEqual(
+      getFillCandidates(options, gaps, [expensive, mine, unwanted, cheap], user).map((t) => t.id),
+      ["cheap"],
+   );
+
+   assert.closeTo(getFillDiscount(cheap, 0), 0.1, 1e-9);
+   assert.isBelow(getFillDiscount(cheap, 0.2), 0);
+
+   // 50 Brick short, the trade gives 100 Brick for its buy amount
+   assert.closeTo(getFillAmount(cheap, gaps, 0), cheap.buyAmount / 2, 1e-9);
+   assert.equal(getFillAmount(cheap, getStockGaps(options, { Wood: 201, Brick: 0 }), 0), 1);
+});
+
+test("updateTradeBotState adopts posted trades and getStaleTrades finds the old ones", () => {
+   const now = Date.now();
+   const post: IAddTradeRequest = {
+      sellResource: "Wood",
+      sellAmount: 10,
+      buyResource: "Brick",
+      buyAmount: 5,
+   };
+   const state: ITradeBotState = {
+      trades: new Map([["gone", now]]),
+      posted: [
+         { trade: post, postedAt: now },
+         { trade: { ...post, sellAmount: 20 }, postedAt: now - 2 * HOUR },
+      ],
+   };
+   const manual = makeTrade("manual", user.userId, { ...post, buyAmount: 6 });
+   updateTradeBotState(state, options, [makeTrade("posted", user.userId, post), manual], now);
+   assert.deepEqual(Array.from(state.trades.keys()), ["posted"]);
+   assert.equal(state.posted.length, 0);
+   assert.deepEqual(getStaleTrades(state, options, now), []);
+   assert.deepEqual(getStaleTrades(state, options, now + HOUR), ["posted"]);
+});
+
+test("addTradeBotLog keeps the latest entries first", () => {
+   const log: ITradeBotLogEntry[] = [];
+   const trade: IAddTradeRequest = {
+      sellResource: "Wood",
+      sellAmount: 1,
+      buyResource: "Brick",
+      buyAmount: 1,
+   };
+   for (let i = 0; i < TRADE_BOT_LOG_MAX_ENTRIES + 10; i++) {
+      addTradeBotLog(log, { time: i, action: "post", trade });
+   }
+   assert.equal(log.length, TRADE_BOT_LOG_MAX_ENTRIES);
+   assert.equal(log[0].time, TRADE_BOT_LOG_MAX_ENTRIES + 9);
+});
@@ -0,0 +1,73 @@
+import { assert, test } from "vitest";
+import { findSpecialBuilding } from "../shared/logic/BuildingLogic";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { SavedGame } from "../shared/logic/GameState";
+import { initializeGameState } from "../shared/logic/InitializeGameState";
+import { clearIntraTickCache, getGrid } from "../shared/logic/IntraTickCache";
+import { EmptyTickData, Tick } from "../shared/logic/TickLogic";
+import { makeBuilding } from "../shared/logic/Tile";
+import {
+   getLongestSupplyLines,
+   makeTransportStats,
+   setTransportStatsRecorder,
+} from "../shared/logic/TransportStats";
+import { Transports } from "../shared/logic/Transports";
+import { tickTransports } from "../shared/logic/Update";
+
+calculateTierAndPrice();
+
+test("tickTransports records transport stats", () => {
+   const save = new SavedGame();
+   const gs = save.current;
+   initializeGameState(gs, save.options);
+   const hq = findSpecialBuilding("Headquarter", gs)!.tile;
+   const farm = hq + 3;
+   gs.tiles.get(farm)!.building = makeBuilding({ type: "WheatFarm", status: "completed", level: 1 });
+   Tick.current = EmptyTickData();
+   Tick.next = EmptyTickData();
+   clearIntraTickCache();
+
+   const grid = getGrid(gs);
+   const distance = grid.distanceTile(farm, hq);
+   Transports.length = 0;
+   Transports.push({
+      id: 1,
+      fromXy: farm,
+      fromPosition: grid.xyToPosition(farm),
+      toXy: hq,
+      toPosition: grid.xyToPosition(hq),
+      ticksSpent: 0,
+      ticksRequired: distance,
+      resource: "Wheat",
+      amount: 5,
+      // A transportable fuel does not use up workers
+      fuel: "Wheat",
+      fuelPerTick: 0,
+      fuelCurrentTick: 0,
+      hasEnoughFuel: true,
+   });
+
+   const stats = makeTransportStats();
+   setTransportStatsRecorder(stats);
+   for (let i = 0; i < distance + 2; i++) {
+      tickTransports(gs);
+   }
+   assert.equal(setTransportStatsRecorder(null), stats);
+   assert.equal(Transports.length, 0);
+
+   assert.equal(stats.ticks, distance + 2);
+   const [line] = getLongestSupplyLines(stats, gs, 10);
+   assert.equal(line.from, "WheatFarm");
+   assert.equal(line.to, "Headquarter");
+   assert.equal(line.trips, 1);
+   assert.equal(line.volume, 5);
+   assert.equal(line.ticksInFlight, distance);
+   assert.equal(line.haul, 5 * distance);
+   assert.equal(line.resources.Wheat, 5);
+
+   let traffic = 0;
+   stats.tiles.forEach((tile) => {
+      traffic += tile.traffic;
+   });
+   assert.equal(traffic, 5 * distance);
+});
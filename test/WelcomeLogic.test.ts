@@ -0,0 +1,75 @@
+import { assert, test } from "vitest";
+import { calculateTierAndPrice } from "../shared/logic/Constants";
+import { GameOptions, GameState, RankUpFlags } from "../shared/logic/GameState";
+import { applyWelcomeMessage } from "../shared/logic/WelcomeLogic";
+import {
+   AccountLevel,
+   MessageType,
+   UserAttributes,
+   UserColors,
+   type IWelcomeMessage,
+} from "../shared/utilities/Database";
+import { HOUR, SECOND } from "../shared/utilities/Helper";
+
+calculateTierAndPrice();
+
+function makeWelcome(): IWelcomeMessage {
+   return {
+      type: MessageType.Welcome,
+      user: {
+         userId: "me",
+         handle: "me",
+         token: null,
+         lastDisconnectAt: 0,
+         lastHeartbeatAt: 0,
+         lastGameTick: 0,
+         totalPlayTime: 0,
+         color: UserColors.Default,
+         tradeValues: [],
+         level: AccountLevel.Consul,
+         flag: "EARTH",
+         ip: "ip",
+         attr: UserAttributes.None,
+         lastTradedAt: 0,
+      },
+      offlineTime: 600,
+      lastGameTick: 1000,
+      now: 0,
+      platformInfo: { userId: "me", originalUserId: "me", connectedUserId: null },
+   };
+}
+
+test("applyWelcomeMessage grants offline time the client has been away for", () => {
+   const now = 10 * HOUR;
+   const gs = new GameState();
+   gs.tick = 1000;
+   gs.lastClientTickAt = now - 300 * SECOND;
+   const options = new GameOptions();
+   options.rankUpFlags = RankUpFlags.Unset;
+   const w = makeWelcome();
+
+   assert.deepEqual(applyWelcomeMessage(w, gs, options, false, now), { changed: true, resetRank: false });
+   assert.equal(w.offlineTime, 300);
+   assert.equal(gs.clientOfflineSec, 0);
+   assert.equal(gs.lastClientTickAt, now);
+   assert.equal(options.userId, "me");
+   assert.equal(options.rankUpFlags, RankUpFlags.Upgraded);
+
+   options.rankUpFlags = RankUpFlags.NotUpgraded;
+   assert.isTrue(applyWelcomeMessage(makeWelcome(), gs, options, false, now).resetRank);
+});
+
+test("applyWelcomeMessage leaves the save alone for a replayed welcome message", () => {
+   const now = 10 * HOUR;
+   const gs = new GameState();
+   gs.lastClientTickAt = now - 300 * SECOND;
+   gs.clientOfflineSec = 100;
+   const options = new GameOptions();
+   options.rankUpFlags = RankUpFlags.NotUpgraded;
+   const before = JSON.stringify([gs, options]);
+   const w = makeWelcome();
+
+   assert.deepEqual(applyWelcomeMessage(w, gs, options, true, now), { changed: false, resetRank: false });
+   assert.equal(w.offlineTime, 0);
+   assert.equal(JSON.stringify([gs, options]), before);
+});